@@ -8,9 +8,10 @@ import { DocAnalysis } from './pages/DocAnalysis';
 import { Settings } from './pages/Settings';
 import { Login } from './pages/Login';
 import { VoiceAgent } from './components/VoiceAgent';
-import { VoiceCommand, DriveFile, User } from './types';
+import { VoiceCommand, DriveFile, User, SavedSearch } from './types';
 import { authService } from './services/authService';
-import { findBestMatchingFile } from './services/driveService';
+import { findBestMatchingFile, searchDriveFiles } from './services/driveService';
+import { markSearchAlertsRead } from './services/savedSearches';
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -24,6 +25,9 @@ const App: React.FC = () => {
   // State to handle Voice Email Drafting
   const [voiceEmailDraft, setVoiceEmailDraft] = useState<{to: string, topic: string, keyPoints: string} | null>(null);
 
+  // Voice or saved search shown in Drive Explorer
+  const [driveSearch, setDriveSearch] = useState<{ query: string; id: string } | null>(null);
+
   useEffect(() => {
     // Check for existing session
     const currentUser = authService.getCurrentUser();
@@ -46,6 +50,12 @@ const App: React.FC = () => {
     setUser(null);
   };
 
+  const handleOpenSavedSearch = (search: SavedSearch) => {
+    setDriveSearch({ query: search.query, id: Date.now().toString() });
+    setActiveTab('drive');
+    if (user) markSearchAlertsRead(user.id, search.id);
+  };
+
   const handleToolCall = async (name: string, args: any) => {
     console.log("Tool Call Received:", name, args);
     
@@ -82,6 +92,22 @@ const App: React.FC = () => {
       return { message: `Command sent to start analysis in ${args.format}` };
     }
 
+    if (name === 'searchDrive') {
+        const query = String(args.query || '');
+        let results: DriveFile[];
+        try {
+            results = await searchDriveFiles(query);
+        } catch (e: any) {
+            return { error: e.message };
+        }
+        setDriveSearch({ query, id: Date.now().toString() });
+        setActiveTab('drive');
+        return {
+            message: results.length ? `Found ${results.length} file(s). Showing them in Drive Explorer.` : 'No matching files.',
+            files: results.slice(0, 5).map(f => f.name)
+        };
+    }
+
     if (name === 'draftEmail') {
         setVoiceEmailDraft({
             to: args.to || '',
@@ -102,18 +128,26 @@ const App: React.FC = () => {
     setActiveTab('intelligence');
   };
 
+  // Engineering chat tool step -> Doc Analysis with the file loaded
+  const handleOpenDocAnalysis = (fileName: string) => {
+    setVoiceCommand({ type: 'SELECT_FILE', payload: fileName, id: Date.now().toString() });
+    setActiveTab('analysis');
+  };
+
   const renderContent = () => {
     switch (activeTab) {
       case 'dashboard': return <Dashboard />;
-      case 'drive': return <DriveBrowser onChatWithFile={handleChatWithFile} currentUser={user!} />;
+      case 'drive': return <DriveBrowser onChatWithFile={handleChatWithFile} currentUser={user!} searchCommand={driveSearch} />;
       case 'intelligence': 
         return <IntelligenceHub 
                   preSelectedFile={selectedChatFile} 
                   voiceEmailDraft={voiceEmailDraft}
                   onDraftConsumed={() => setVoiceEmailDraft(null)}
+                  onOpenSettings={() => setActiveTab('settings')}
+                  onOpenDocAnalysis={handleOpenDocAnalysis}
                />;
       case 'analysis': 
-        return <DocAnalysis voiceCommand={voiceCommand} onToggleVoice={() => setVoiceAgentOpen(true)} />;
+        return <DocAnalysis voiceCommand={voiceCommand} onToggleVoice={() => setVoiceAgentOpen(true)} onOpenSettings={() => setActiveTab('settings')} />;
       case 'settings': return <Settings currentUser={user!} />;
       default: return <div className="text-white">Page Not Found</div>;
     }
@@ -132,6 +166,7 @@ const App: React.FC = () => {
         onToggleVoice={() => setVoiceAgentOpen(true)}
         currentUser={user}
         onLogout={handleLogout}
+        onOpenSavedSearch={handleOpenSavedSearch}
       >
         {renderContent()}
       </Layout>
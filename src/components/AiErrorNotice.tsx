@@ -0,0 +1,58 @@
+import React from 'react';
+import { KeyRound, Hourglass, Gauge, Cpu, ShieldAlert, FileWarning, WifiOff, Timer, AlertTriangle, RefreshCw, Settings } from 'lucide-react';
+import { AiErrorInfo, AiErrorKind } from '../types';
+
+interface AiErrorNoticeProps {
+  error: AiErrorInfo;
+  onRetry?: () => void;
+  onOpenSettings?: () => void;
+}
+
+type RecoveryAction = 'OPEN_SETTINGS' | 'RETRY' | 'EDIT_INPUT' | 'NONE';
+
+const ERROR_PRESENTATION: Record<AiErrorKind, { title: string; icon: React.ElementType; color: string; action: RecoveryAction; hint: string }> = {
+  MISSING_KEY: { title: 'AI Not Configured', icon: KeyRound, color: 'yellow', action: 'OPEN_SETTINGS', hint: 'An Admin must set the API key or provider in Settings.' },
+  QUOTA: { title: 'Quota Exceeded', icon: Hourglass, color: 'orange', action: 'RETRY', hint: 'Wait a minute before retrying.' },
+  USAGE_LIMIT: { title: 'Daily Limit Reached', icon: Gauge, color: 'orange', action: 'NONE', hint: 'Ask an Admin to raise your quota if you need more today.' },
+  MODEL_UNAVAILABLE: { title: 'AI Models Unavailable', icon: Cpu, color: 'blue', action: 'RETRY', hint: 'Every model in the fallback chain failed. An Admin can review the chain in Settings.' },
+  SAFETY: { title: 'Blocked by Safety Filters', icon: ShieldAlert, color: 'red', action: 'EDIT_INPUT', hint: 'Rephrase the request or use a different document.' },
+  INVALID_INPUT: { title: 'Input Rejected', icon: FileWarning, color: 'red', action: 'EDIT_INPUT', hint: 'Use a clear image/PDF or shorten the request.' },
+  NETWORK: { title: 'AI Service Unreachable', icon: WifiOff, color: 'blue', action: 'RETRY', hint: 'Check your connection.' },
+  TIMEOUT: { title: 'Request Timed Out', icon: Timer, color: 'blue', action: 'RETRY', hint: 'The model may be busy.' },
+  UNKNOWN: { title: 'AI Request Failed', icon: AlertTriangle, color: 'red', action: 'RETRY', hint: '' }
+};
+
+// Tailwind needs literal class names, so each tone is spelled out
+const TONE_CLASSES: Record<string, string> = {
+  yellow: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-300',
+  orange: 'bg-orange-500/10 border-orange-500/30 text-orange-300',
+  red: 'bg-red-500/10 border-red-500/30 text-red-300',
+  blue: 'bg-blue-500/10 border-blue-500/30 text-blue-300'
+};
+
+export const AiErrorNotice: React.FC<AiErrorNoticeProps> = ({ error, onRetry, onOpenSettings }) => {
+  const presentation = ERROR_PRESENTATION[error.kind] || ERROR_PRESENTATION.UNKNOWN;
+  const Icon = presentation.icon;
+
+  return (
+    <div className={`rounded-xl border p-3 text-sm not-prose ${TONE_CLASSES[presentation.color]}`}>
+      <div className="flex items-center font-bold mb-1">
+        <Icon size={16} className="mr-2 shrink-0" />
+        {presentation.title}
+      </div>
+      <p className="text-xs opacity-80">{error.message}</p>
+      {presentation.hint && <p className="text-xs opacity-60 mt-1">{presentation.hint}</p>}
+
+      {presentation.action === 'OPEN_SETTINGS' && onOpenSettings && (
+        <button onClick={onOpenSettings} className="mt-3 flex items-center px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs font-bold text-white transition-colors">
+          <Settings size={12} className="mr-1.5" /> Open Settings
+        </button>
+      )}
+      {presentation.action === 'RETRY' && onRetry && (
+        <button onClick={onRetry} className="mt-3 flex items-center px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs font-bold text-white transition-colors">
+          <RefreshCw size={12} className="mr-1.5" /> Retry
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { FileText, ExternalLink, X } from 'lucide-react';
+import { Citation } from '../types';
+
+interface CitationSourceModalProps {
+  citation: Citation;
+  onClose: () => void;
+}
+
+// Shows the exact passage a citation points at, with a link to the source file for full verification
+export const CitationSourceModal: React.FC<CitationSourceModalProps> = ({ citation, onClose }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-fade-in" onClick={onClose}>
+    <div className="glass-panel w-full max-w-2xl rounded-2xl border border-neonBlue/30 p-6 max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white flex items-center"><FileText size={18} className="mr-2 text-neonBlue" /> {citation.documentName}</h3>
+          <p className="text-xs text-gray-500 font-mono mt-1">[{citation.marker}]{citation.passage ? ` · passage ${citation.passage}` : ' · whole document'}{citation.page ? ` · page ${citation.page}` : ''}</p>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-white"><X size={18} /></button>
+      </div>
+
+      {citation.excerpt ? (
+        <pre className="flex-1 overflow-y-auto custom-scrollbar whitespace-pre-wrap font-sans text-sm text-gray-200 bg-black/40 border-l-4 border-neonBlue rounded-lg p-4">{citation.excerpt}</pre>
+      ) : (
+        <p className="text-sm text-gray-400 italic">The answer cites this document as a whole. Open the file to verify.</p>
+      )}
+
+      <div className="mt-4 flex justify-end">
+        {citation.url ? (
+          <a href={citation.url} target="_blank" rel="noopener noreferrer" className="flex items-center px-4 py-2 rounded-lg bg-neonBlue/20 hover:bg-neonBlue/30 text-neonBlue border border-neonBlue/50 text-sm font-bold transition-colors">
+            <ExternalLink size={14} className="mr-2" /> Open Source File
+          </a>
+        ) : (
+          <span className="text-xs text-gray-500">This context has no Drive link (attachment or OCR text).</span>
+        )}
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Citation } from '../types';
+import { CITATION_GROUP_PATTERN, splitCitationGroup } from '../services/citations';
+
+interface CitedTextProps {
+  text: string;
+  citations: Citation[];
+  onOpenCitation: (citation: Citation) => void;
+}
+
+// Plain text with every [doc:N #M] marker replaced by a clickable chip.
+// Markers that do not match the supplied context are shown in red and cannot be opened.
+export const CitedText: React.FC<CitedTextProps> = ({ text, citations, onOpenCitation }) => {
+  const parts = text.split(new RegExp(CITATION_GROUP_PATTERN.source, 'g'));
+
+  return (
+    <p className="whitespace-pre-wrap break-words">
+      {parts.map((part, i) => {
+        // split() with one capture group alternates text / captured group
+        if (i % 2 === 0) return <React.Fragment key={i}>{part}</React.Fragment>;
+        return splitCitationGroup(part).map(marker => {
+          // Normalised on both sides: answers saved before the "#M" form carry "p.M" markers
+          const citation = citations.find(c => splitCitationGroup(c.marker)[0] === marker);
+          if (!citation?.valid) {
+            return (
+              <span key={`${i}-${marker}`} className="inline-block mx-0.5 px-1.5 rounded bg-red-500/10 border border-red-500/40 text-red-400 text-[10px] font-mono align-middle line-through" title="This citation does not match any passage supplied to the model">
+                {marker}
+              </span>
+            );
+          }
+          return (
+            <button
+              key={`${i}-${marker}`}
+              onClick={() => onOpenCitation(citation)}
+              className="inline-block mx-0.5 px-1.5 rounded bg-neonBlue/10 border border-neonBlue/40 text-neonBlue text-[10px] font-mono align-middle hover:bg-neonBlue/20 transition-colors"
+              title={`${citation.documentName}${citation.passage ? `, passage ${citation.passage}` : ''}${citation.page ? ` (page ${citation.page})` : ''}`}
+            >
+              {marker}{citation.page ? ` · page ${citation.page}` : ''}
+            </button>
+          );
+        });
+      })}
+    </p>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { ContextCoverage } from '../types';
+
+interface ContextCoverageListProps {
+  coverage: ContextCoverage[];
+}
+
+const METHOD_LABELS: Record<ContextCoverage['method'], string> = {
+  FULL: 'full text',
+  SUMMARIZED: 'summarised',
+  TRUNCATED: 'partially summarised'
+};
+
+// Shows how much of each context file actually reached the model after budgeting
+export const ContextCoverageList: React.FC<ContextCoverageListProps> = ({ coverage }) => {
+  if (coverage.length === 0) return null;
+
+  return (
+    <div className="mt-3">
+      <p className="text-xs font-bold text-neonBlue opacity-80 mb-1 flex items-center"><Layers size={12} className="mr-1" /> CONTEXT COVERAGE:</p>
+      <div className="flex flex-wrap gap-2">
+        {coverage.map((c, i) => {
+          const percent = c.totalTokens ? Math.round(100 * c.consideredTokens / c.totalTokens) : 100;
+          const tone = c.method === 'FULL' ? 'text-green-400 border-green-500/30' : c.method === 'SUMMARIZED' ? 'text-yellow-400 border-yellow-500/30' : 'text-red-400 border-red-500/30';
+          return (
+            <span
+              key={i}
+              className={`px-2 py-1 rounded bg-black/30 border text-[10px] font-mono ${tone}`}
+              title={`~${c.consideredTokens.toLocaleString()} of ~${c.totalTokens.toLocaleString()} tokens (${METHOD_LABELS[c.method]})`}
+            >
+              {c.documentName}: {percent}% · {METHOD_LABELS[c.method]}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Archive, ChevronDown, ChevronRight } from 'lucide-react';
+import { ConversationSummary } from '../types';
+
+interface ConversationSummaryCardProps {
+  summary: ConversationSummary;
+}
+
+// The rolling summary that stands in for older turns; expands to the original messages it replaced
+export const ConversationSummaryCard: React.FC<ConversationSummaryCardProps> = ({ summary }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="rounded-2xl p-4 bg-white/5 border border-dashed border-white/20 text-sm animate-fade-in">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs font-bold text-gray-400 font-mono flex items-center">
+          <Archive size={12} className="mr-2" /> EARLIER CONVERSATION (CONDENSED)
+        </p>
+        <span className="text-[10px] text-gray-500 font-mono" title="Estimated tokens of the original turns -> the summary sent to the model">
+          {summary.compressedMessages.length} messages · ~{summary.tokensBefore.toLocaleString()} → ~{summary.tokensAfter.toLocaleString()} tokens
+        </span>
+      </div>
+      <p className="whitespace-pre-wrap text-gray-300">{summary.text}</p>
+
+      <button onClick={() => setExpanded(!expanded)} className="mt-3 flex items-center text-xs text-neonBlue hover:text-white transition-colors">
+        {expanded ? <ChevronDown size={12} className="mr-1" /> : <ChevronRight size={12} className="mr-1" />}
+        {expanded ? 'Hide' : 'Show'} the {summary.compressedMessages.length} original messages
+      </button>
+      {expanded && (
+        <div className="mt-2 space-y-2 max-h-96 overflow-y-auto custom-scrollbar">
+          {summary.compressedMessages.map(m => (
+            <div key={m.id} className="p-2 bg-black/30 rounded border border-white/10 text-xs">
+              <p className="font-mono font-bold text-gray-500 mb-1">
+                {m.role.toUpperCase()}{m.mode ? ` · ${m.mode}` : ''} · {new Date(m.timestamp).toLocaleString()}
+              </p>
+              <p className="whitespace-pre-wrap break-words text-gray-400">{m.content}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,347 @@
+import React, { useRef, useState } from 'react';
+import { ClipboardCheck, Save, Plus, Trash2, Play, Square, Download, ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { EvalProviderChoice, EvalRun, EvalSet } from '../types';
+import { getEvalSets, saveEvalSet, deleteEvalSet, parseEvalCases, getEvalRuns, deleteEvalRun, runEvaluation, getEvalProviderLabel, toEvalReport } from '../services/evaluation';
+import { isAbortError } from '../services/aiErrors';
+
+const CASE_TEMPLATE = `[
+  {
+    "id": "example",
+    "question": "What is the rated output of the traction motor?",
+    "expectedFacts": ["kW|kilowatt"],
+    "sourceFiles": ["KMRCL-Rolling-Stock-Specs-v2.pdf"],
+    "selectSources": true
+  }
+]`;
+
+const formatScore = (value: number | null) => value === null ? '-' : `${Math.round(value * 100)}%`;
+
+// Change against the baseline run, in percentage points
+const ScoreDelta: React.FC<{ value: number | null; baseline?: number | null; lowerIsBetter?: boolean }> = ({ value, baseline, lowerIsBetter }) => {
+  if (value === null || baseline === null || baseline === undefined) return null;
+  const delta = Math.round((value - baseline) * 100);
+  if (delta === 0) return <span className="ml-1 text-gray-600">±0</span>;
+  const better = lowerIsBetter ? delta < 0 : delta > 0;
+  return <span className={`ml-1 ${better ? 'text-green-400' : 'text-red-400'}`}>{delta > 0 ? '+' : ''}{delta}</span>;
+};
+
+export const EvaluationPanel: React.FC = () => {
+  const [sets, setSets] = useState<EvalSet[]>(getEvalSets());
+  const [selectedSetId, setSelectedSetId] = useState(sets[0]?.id || '');
+  const selectedSet = sets.find(s => s.id === selectedSetId);
+  const [setName, setSetName] = useState(selectedSet?.name || '');
+  const [casesJson, setCasesJson] = useState(selectedSet ? JSON.stringify(selectedSet.cases, null, 2) : CASE_TEMPLATE);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const [runs, setRuns] = useState<EvalRun[]>(getEvalRuns());
+  const [providerType, setProviderType] = useState<EvalProviderChoice['type']>('STUB');
+  const replayable = runs.filter(r => r.recordings && Object.keys(r.recordings).length > 0);
+  const [replayRunId, setReplayRunId] = useState(replayable[0]?.id || '');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [selectedRunId, setSelectedRunId] = useState(runs[0]?.id || '');
+  const [baselineRunId, setBaselineRunId] = useState(runs[1]?.id || '');
+  const [expandedCase, setExpandedCase] = useState<string | null>(null);
+  const selectedRun = runs.find(r => r.id === selectedRunId);
+  const baselineRun = runs.find(r => r.id === baselineRunId && r.id !== selectedRunId);
+
+  let parseError: string | null = null;
+  try {
+    parseEvalCases(casesJson);
+  } catch (e: any) {
+    parseError = e.message;
+  }
+
+  const selectSet = (id: string) => {
+    if (isDirty && !window.confirm("Discard unsaved changes to this golden set?")) return;
+    const set = sets.find(s => s.id === id);
+    setSelectedSetId(id);
+    setSetName(set?.name || '');
+    setCasesJson(set ? JSON.stringify(set.cases, null, 2) : CASE_TEMPLATE);
+    setIsDirty(false);
+  };
+
+  const handleNewSet = () => {
+    if (isDirty && !window.confirm("Discard unsaved changes to this golden set?")) return;
+    setSelectedSetId('');
+    setSetName('New Golden Set');
+    setCasesJson(CASE_TEMPLATE);
+    setIsDirty(true);
+  };
+
+  const handleSaveSet = () => {
+    if (parseError) {
+      alert("Fix the golden set before saving.");
+      return;
+    }
+    const id = selectedSetId || Date.now().toString();
+    saveEvalSet({ id, name: setName.trim() || 'Untitled', cases: parseEvalCases(casesJson), updatedAt: Date.now() });
+    setSets(getEvalSets());
+    setSelectedSetId(id);
+    setIsDirty(false);
+  };
+
+  const handleDeleteSet = () => {
+    if (!selectedSet || !window.confirm(`Delete the golden set "${selectedSet.name}"? Its runs are kept.`)) return;
+    deleteEvalSet(selectedSet.id);
+    const remaining = getEvalSets();
+    setSets(remaining);
+    setIsDirty(false);
+    setSelectedSetId(remaining[0]?.id || '');
+    setSetName(remaining[0]?.name || '');
+    setCasesJson(remaining[0] ? JSON.stringify(remaining[0].cases, null, 2) : CASE_TEMPLATE);
+  };
+
+  const handleRun = async () => {
+    if (!selectedSet || isDirty) {
+      alert("Save the golden set before running it.");
+      return;
+    }
+    const choice: EvalProviderChoice = providerType === 'REPLAY' ? { type: 'REPLAY', runId: replayRunId } : { type: providerType };
+    if (choice.type === 'REPLAY' && !replayRunId) {
+      alert("Choose a recorded run to replay.");
+      return;
+    }
+    if (choice.type === 'LIVE' && !window.confirm(`Run ${selectedSet.cases.length} question(s) against ${getEvalProviderLabel(choice)}? Live runs call the configured provider for every question and use your AI quota.`)) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: selectedSet.cases.length });
+    try {
+      const run = await runEvaluation(selectedSet, choice, { signal: controller.signal, onProgress: (done, total) => setProgress({ done, total }) });
+      // The previous run of the same set becomes the baseline
+      const previous = runs.find(r => r.setId === run.setId);
+      setRuns(getEvalRuns());
+      setSelectedRunId(run.id);
+      setBaselineRunId(previous?.id || '');
+    } catch (e: any) {
+      if (!isAbortError(e)) alert(`Evaluation failed: ${e.message}`);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDeleteRun = (id: string) => {
+    if (!window.confirm("Delete this run and its recorded responses?")) return;
+    deleteEvalRun(id);
+    setRuns(getEvalRuns());
+    if (selectedRunId === id) setSelectedRunId('');
+    if (baselineRunId === id) setBaselineRunId('');
+    if (replayRunId === id) setReplayRunId('');
+  };
+
+  const handleExport = (run: EvalRun) => {
+    const blob = new Blob([toEvalReport(run, baselineRun)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const downloadLink = document.createElement('a');
+    downloadLink.href = url;
+    downloadLink.download = `evaluation_${run.setName.replace(/[^a-z0-9]+/gi, '_')}_${new Date(run.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+    document.body.appendChild(downloadLink);
+    downloadLink.click();
+    document.body.removeChild(downloadLink);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-panel p-6 rounded-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold flex items-center text-neonBlue">
+            <ClipboardCheck className="mr-2" /> Engineering Answer Evaluation
+          </h3>
+          <div className="flex space-x-2">
+            <button onClick={handleNewSet} className="flex items-center text-xs px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10">
+              <Plus size={12} className="mr-1" /> New Set
+            </button>
+            <button onClick={handleSaveSet} className="flex items-center px-5 py-2 bg-neonBlue/20 hover:bg-neonBlue/30 text-neonBlue border border-neonBlue/50 font-bold rounded-lg transition-colors">
+              <Save size={16} className="mr-2" /> Save Golden Set
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mb-4">
+          Each question goes through the same pipeline as the Engineering chat (context, tools, grounding, citations). Answers are scored on
+          fact recall (expected facts found; "a|b" accepts either wording), citation correctness (valid citations pointing at the case's source files)
+          and refusal behaviour (refuses exactly when "expectRefusal" is set).
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+          <select value={selectedSetId} onChange={(e) => selectSet(e.target.value)} className="bg-black/40 border border-white/10 rounded-lg p-2 text-white text-sm focus:border-neonBlue outline-none">
+            {!selectedSetId && <option value="">(unsaved set)</option>}
+            {sets.map(s => <option key={s.id} value={s.id}>{s.name} ({s.cases.length})</option>)}
+          </select>
+          <div className="flex space-x-2">
+            <input value={setName} onChange={(e) => { setSetName(e.target.value); setIsDirty(true); }} placeholder="Set name" className="flex-1 bg-black/40 border border-white/10 rounded-lg p-2 text-white text-sm focus:border-neonBlue outline-none" />
+            {selectedSet && (
+              <button onClick={handleDeleteSet} className="p-2 text-gray-500 hover:text-red-400" title="Delete set">
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        </div>
+        <textarea
+          value={casesJson}
+          onChange={(e) => { setCasesJson(e.target.value); setIsDirty(true); }}
+          spellCheck={false}
+          className={`w-full h-64 bg-black/40 border rounded-lg p-3 text-white text-xs font-mono outline-none custom-scrollbar ${parseError ? 'border-red-500/60' : 'border-white/10 focus:border-neonBlue'}`}
+        />
+        {parseError && <p className="text-[10px] text-red-400 mt-1">{parseError}</p>}
+        <p className="text-[10px] text-gray-600 mt-1">
+          Fields: id, question, expectedFacts, sourceFiles (Drive ids or names), selectSources (hand the sources over as selected files instead of letting the assistant find them), expectRefusal, groundedOnly.
+        </p>
+
+        <div className="mt-6 p-4 bg-black/30 border border-white/10 rounded-xl flex flex-wrap items-center gap-4">
+          {([
+            ['STUB', 'Offline stub'],
+            ['REPLAY', 'Replay recorded run'],
+            ['LIVE', `Live: ${getEvalProviderLabel({ type: 'LIVE' })}`]
+          ] as [EvalProviderChoice['type'], string][]).map(([type, label]) => (
+            <label key={type} className="flex items-center space-x-2 cursor-pointer">
+              <input type="radio" checked={providerType === type} onChange={() => setProviderType(type)} className="form-radio text-neonBlue bg-black border-white/20" />
+              <span className="text-xs text-gray-300">{label}</span>
+            </label>
+          ))}
+          {providerType === 'REPLAY' && (
+            <select value={replayRunId} onChange={(e) => setReplayRunId(e.target.value)} className="bg-black/40 border border-white/10 rounded-lg p-2 text-white text-xs focus:border-neonBlue outline-none">
+              {replayable.length === 0 && <option value="">No live runs recorded yet</option>}
+              {replayable.map(r => <option key={r.id} value={r.id}>{r.setName} · {r.providerLabel} · {new Date(r.startedAt).toLocaleString()}</option>)}
+            </select>
+          )}
+          <div className="ml-auto flex items-center space-x-3">
+            {progress && (
+              <span className="text-xs text-gray-400 flex items-center">
+                <Loader2 size={12} className="mr-1 animate-spin" /> {progress.done}/{progress.total}
+              </span>
+            )}
+            {progress ? (
+              <button onClick={() => abortRef.current?.abort()} className="flex items-center px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 border border-red-500/40 font-bold rounded-lg text-xs">
+                <Square size={12} className="mr-1" /> Stop
+              </button>
+            ) : (
+              <button onClick={handleRun} disabled={!selectedSet} className="flex items-center px-4 py-2 bg-green-500/20 hover:bg-green-500/30 text-green-400 border border-green-500/40 font-bold rounded-lg text-xs disabled:opacity-40">
+                <Play size={12} className="mr-1" /> Run Evaluation
+              </button>
+            )}
+          </div>
+        </div>
+        <p className="text-[10px] text-gray-600 mt-2">Live runs record every model response so the run can be replayed offline after prompt or pipeline changes. Runs neither use nor fill the response cache. Live runs count toward your usage quota; stub and replay runs do not.</p>
+      </div>
+
+      <div className="glass-panel p-6 rounded-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white">Runs</h3>
+          <label className="text-xs text-gray-400 flex items-center space-x-2">
+            <span>Compare against</span>
+            <select value={baselineRunId} onChange={(e) => setBaselineRunId(e.target.value)} className="bg-black/40 border border-white/10 rounded-lg p-1.5 text-white text-xs focus:border-neonBlue outline-none">
+              <option value="">No baseline</option>
+              {runs.map(r => <option key={r.id} value={r.id}>{r.setName} · {new Date(r.startedAt).toLocaleString()}</option>)}
+            </select>
+          </label>
+        </div>
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No runs yet.</p>
+        ) : (
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="w-full text-left text-xs">
+              <thead className="text-gray-500 uppercase border-b border-white/10">
+                <tr>
+                  <th className="py-2 pr-3">Started</th>
+                  <th className="py-2 pr-3">Set</th>
+                  <th className="py-2 pr-3">Provider / Models</th>
+                  <th className="py-2 pr-3">Fact Recall</th>
+                  <th className="py-2 pr-3">Citations</th>
+                  <th className="py-2 pr-3">Refusals</th>
+                  <th className="py-2 pr-3">Errors</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => {
+                  const base = baselineRun && baselineRun.id !== run.id ? baselineRun.summary : undefined;
+                  return (
+                    <tr key={run.id} onClick={() => setSelectedRunId(run.id)} className={`border-b border-white/5 cursor-pointer ${run.id === selectedRunId ? 'bg-white/10' : 'hover:bg-white/5'}`}>
+                      <td className="py-2 pr-3 text-gray-400 whitespace-nowrap">
+                        {new Date(run.startedAt).toLocaleString()}
+                        {run.id === baselineRunId && <span className="ml-2 px-1.5 py-0.5 rounded bg-white/10 text-[9px] text-gray-300">BASELINE</span>}
+                      </td>
+                      <td className="py-2 pr-3 text-gray-300">{run.setName}</td>
+                      <td className="py-2 pr-3 text-gray-400">
+                        <div>{run.providerLabel}</div>
+                        <div className="font-mono text-[10px] text-gray-600">{run.models.join(', ') || '-'}</div>
+                      </td>
+                      <td className="py-2 pr-3 font-mono text-white">{formatScore(run.summary.factRecall)}<ScoreDelta value={run.summary.factRecall} baseline={base?.factRecall} /></td>
+                      <td className="py-2 pr-3 font-mono text-white">{formatScore(run.summary.citationScore)}<ScoreDelta value={run.summary.citationScore} baseline={base?.citationScore} /></td>
+                      <td className="py-2 pr-3 font-mono text-white">{formatScore(run.summary.refusalAccuracy)}<ScoreDelta value={run.summary.refusalAccuracy} baseline={base?.refusalAccuracy} /></td>
+                      <td className={`py-2 pr-3 font-mono ${run.summary.errors > 0 ? 'text-red-400' : 'text-gray-600'}`}>{run.summary.errors}/{run.summary.cases}</td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <button onClick={(e) => { e.stopPropagation(); handleExport(run); }} className="p-1 text-gray-500 hover:text-neonBlue" title="Download report (JSON)">
+                          <Download size={14} />
+                        </button>
+                        <button onClick={(e) => { e.stopPropagation(); handleDeleteRun(run.id); }} className="p-1 text-gray-500 hover:text-red-400" title="Delete run">
+                          <Trash2 size={14} />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selectedRun && (
+        <div className="glass-panel p-6 rounded-2xl">
+          <h3 className="text-lg font-bold text-white mb-1">{selectedRun.setName} · {new Date(selectedRun.startedAt).toLocaleString()}</h3>
+          <p className="text-[10px] text-gray-500 font-mono mb-4">
+            {selectedRun.promptTemplates.map(t => `${t.id} v${t.version}`).join(' · ') || 'no prompt templates recorded'}
+            {' · '}{Math.round((selectedRun.finishedAt - selectedRun.startedAt) / 1000)}s
+          </p>
+          <div className="space-y-2">
+            {selectedRun.results.map(result => {
+              const before = baselineRun?.results.find(r => r.caseId === result.caseId);
+              const expanded = expandedCase === result.caseId;
+              const passed = !result.error && result.refusalCorrect && (result.factRecall === null || result.factRecall === 1);
+              return (
+                <div key={result.caseId} className="bg-black/30 border border-white/10 rounded-xl">
+                  <button onClick={() => setExpandedCase(expanded ? null : result.caseId)} className="w-full flex items-center p-3 text-left">
+                    {expanded ? <ChevronDown size={14} className="mr-2 text-gray-500" /> : <ChevronRight size={14} className="mr-2 text-gray-500" />}
+                    <span className={`w-2 h-2 rounded-full mr-3 ${result.error ? 'bg-red-500' : passed ? 'bg-green-500' : 'bg-yellow-500'}`} />
+                    <span className="flex-1 text-sm text-gray-200 truncate">{result.question}</span>
+                    <span className="text-[10px] font-mono text-gray-400 ml-3 whitespace-nowrap">
+                      facts {formatScore(result.factRecall)}<ScoreDelta value={result.factRecall} baseline={before?.factRecall} />
+                      {' · '}cites {result.citationsCorrect}/{result.citationCount}
+                      {' · '}{result.refused ? 'refused' : 'answered'}{result.refusalCorrect ? '' : ' ✗'}
+                      {before && before.refusalCorrect !== result.refusalCorrect && <span className={result.refusalCorrect ? 'text-green-400' : 'text-red-400'}> (was {before.refused ? 'refused' : 'answered'})</span>}
+                    </span>
+                  </button>
+                  {expanded && (
+                    <div className="px-4 pb-4 text-xs space-y-2">
+                      {result.error && <p className="text-red-400">Error: {result.error}</p>}
+                      {result.factsMissing.length > 0 && <p className="text-yellow-400">Missing facts: {result.factsMissing.join(', ')}</p>}
+                      {result.factsFound.length > 0 && <p className="text-green-400">Found: {result.factsFound.join(', ')}</p>}
+                      {result.grounding && (
+                        <p className="text-gray-400">Grounding: {result.grounding.status}{result.grounding.reasons.length > 0 ? ` (${result.grounding.reasons.join(' ')})` : ''}</p>
+                      )}
+                      <p className="text-gray-500 font-mono">
+                        {result.meta?.model || 'no model'} · {result.toolCalls} tool call(s) · {(result.durationMs / 1000).toFixed(1)}s
+                      </p>
+                      {result.answer && <p className="whitespace-pre-wrap break-words text-gray-300 p-2 bg-black/40 rounded border border-white/10 max-h-64 overflow-y-auto custom-scrollbar">{result.answer}</p>}
+                      {before && before.answer !== result.answer && (
+                        <details className="text-gray-500">
+                          <summary className="cursor-pointer">Baseline answer</summary>
+                          <p className="whitespace-pre-wrap break-words mt-1 p-2 bg-black/40 rounded border border-white/10 max-h-64 overflow-y-auto custom-scrollbar">{before.answer || before.error}</p>
+                        </details>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
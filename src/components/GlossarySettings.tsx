@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { BookOpen, Save, Plus, Trash2, FlaskConical, RotateCcw } from 'lucide-react';
+import { GlossaryEntry, GlossaryEntryKind } from '../types';
+import { getGlossary, saveGlossary, expandGlossaryTerms, formatGlossaryForPrompt, DEFAULT_GLOSSARY } from '../services/glossary';
+
+const KIND_LABELS: Record<GlossaryEntryKind, string> = {
+  ABBREVIATION: 'Abbreviation',
+  SYNONYM: 'Synonym',
+  STATION: 'Station'
+};
+
+export const GlossarySettings: React.FC = () => {
+  const [entries, setEntries] = useState<GlossaryEntry[]>(getGlossary());
+  const [filter, setFilter] = useState('');
+  const [sample, setSample] = useState('OHE failure near Tollygunge');
+
+  const updateEntry = (id: string, changes: Partial<GlossaryEntry>) =>
+    setEntries(entries.map(e => e.id === id ? { ...e, ...changes } : e));
+
+  const addEntry = () => {
+    setFilter('');
+    setEntries([{ id: Date.now().toString(), kind: 'ABBREVIATION', term: '', variants: [] }, ...entries]);
+  };
+
+  const handleSave = () => {
+    if (entries.some(e => !e.term.trim() && e.variants.some(v => v.trim()))) {
+      alert("Every entry with alternative forms needs a preferred term.");
+      return;
+    }
+    saveGlossary(entries);
+    setEntries(getGlossary());
+    alert("Glossary saved. It applies to the next search and AI request.");
+  };
+
+  const handleRestoreDefaults = () => {
+    if (!window.confirm("Replace the entries below with the built-in KMRCL defaults? Custom entries are lost when you save.")) return;
+    setEntries(DEFAULT_GLOSSARY);
+  };
+
+  const needle = filter.trim().toLowerCase();
+  const shown = needle
+    ? entries.filter(e => [e.term, ...e.variants, e.note || ''].some(form => form.toLowerCase().includes(needle)))
+    : entries;
+
+  // Preview with the unsaved glossary
+  const expansions = expandGlossaryTerms(sample, entries);
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-bold flex items-center text-neonBlue">
+          <BookOpen className="mr-2" /> Metro Glossary
+        </h3>
+        <div className="flex space-x-2">
+          <button onClick={handleRestoreDefaults} className="flex items-center px-4 py-2 bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 font-bold rounded-lg transition-colors text-sm">
+            <RotateCcw size={14} className="mr-2" /> Restore Defaults
+          </button>
+          <button onClick={handleSave} className="flex items-center px-5 py-2 bg-neonBlue/20 hover:bg-neonBlue/30 text-neonBlue border border-neonBlue/50 font-bold rounded-lg transition-colors">
+            <Save size={16} className="mr-2" /> Save Glossary
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Abbreviations, synonyms and station aliases. A search or question mentioning any form of an entry also looks for the others
+        (Drive search, voice file selection and passage retrieval), and the Engineering system prompt lists the preferred terms so answers use them.
+        Separate alternative forms with commas.
+      </p>
+
+      <div className="flex justify-between items-center mb-2 gap-4">
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={`Filter ${entries.length} entries...`}
+          className="flex-1 bg-black/40 border border-white/10 rounded-lg p-2 text-white text-xs focus:border-neonBlue outline-none"
+        />
+        <button onClick={addEntry} className="flex items-center text-xs px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10">
+          <Plus size={12} className="mr-1" /> Add Entry
+        </button>
+      </div>
+      {entries.length === 0 && <p className="text-xs text-gray-500 italic mb-2">The glossary is empty. Add entries or restore the defaults.</p>}
+      <div className="space-y-2 max-h-[28rem] overflow-y-auto custom-scrollbar pr-1">
+        <div className="grid grid-cols-12 gap-2 text-[10px] font-bold text-gray-500 uppercase px-1">
+          <span className="col-span-2">Kind</span>
+          <span className="col-span-2">Preferred term</span>
+          <span className="col-span-4">Also written as</span>
+          <span className="col-span-3">Note for the model</span>
+        </div>
+        {shown.map(entry => (
+          <div key={entry.id} className="grid grid-cols-12 gap-2 items-center">
+            <select
+              value={entry.kind}
+              onChange={(e) => updateEntry(entry.id, { kind: e.target.value as GlossaryEntryKind })}
+              className="col-span-2 bg-black/40 border border-white/10 rounded-lg p-2 text-white text-xs focus:border-neonBlue outline-none"
+            >
+              {(Object.keys(KIND_LABELS) as GlossaryEntryKind[]).map(kind => <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>)}
+            </select>
+            <input value={entry.term} onChange={(e) => updateEntry(entry.id, { term: e.target.value })} placeholder="e.g. OHE" className="col-span-2 bg-black/40 border border-white/10 rounded-lg p-2 text-white text-xs font-bold focus:border-neonBlue outline-none" />
+            <input value={entry.variants.join(',')} onChange={(e) => updateEntry(entry.id, { variants: e.target.value.split(',') })} placeholder="e.g. overhead equipment, overhead catenary" className="col-span-4 bg-black/40 border border-white/10 rounded-lg p-2 text-white text-xs focus:border-neonBlue outline-none" />
+            <input value={entry.note || ''} onChange={(e) => updateEntry(entry.id, { note: e.target.value })} placeholder="Optional" className="col-span-3 bg-black/40 border border-white/10 rounded-lg p-2 text-gray-300 text-xs focus:border-neonBlue outline-none" />
+            <button onClick={() => setEntries(entries.filter(e => e.id !== entry.id))} className="col-span-1 p-2 text-gray-500 hover:text-red-400 justify-self-center" title="Remove entry">
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6 p-4 bg-black/30 border border-white/10 rounded-xl">
+        <label className="text-[10px] font-bold text-gray-500 uppercase mb-1 flex items-center"><FlaskConical size={12} className="mr-1" /> Test (unsaved glossary)</label>
+        <input value={sample} onChange={(e) => setSample(e.target.value)} className="w-full bg-black/40 border border-white/10 rounded-lg p-2 text-white text-xs font-mono focus:border-neonBlue outline-none" />
+        <p className="mt-2 text-xs font-mono text-gray-300">
+          {expansions.length > 0 ? <>Also searches for: {expansions.map(e => <span key={e} className="inline-block mr-2 mb-1 px-1.5 py-0.5 rounded bg-neonBlue/10 border border-neonBlue/30 text-neonBlue">{e}</span>)}</> : 'No glossary terms in this query.'}
+        </p>
+        <details className="mt-2">
+          <summary className="text-[10px] text-gray-500 cursor-pointer hover:text-white">Prompt text for this question</summary>
+          <pre className="mt-2 text-[10px] text-gray-400 whitespace-pre-wrap max-h-48 overflow-y-auto custom-scrollbar">{formatGlossaryForPrompt(sample, entries) || '(empty glossary: nothing is added to the prompt)'}</pre>
+        </details>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 
 import React, { useState } from 'react';
 import { LayoutGrid, HardDrive, Search, Settings, Menu, Mic, Activity, FileText, LogOut, Copyright } from 'lucide-react';
-import { User } from '../types';
+import { SavedSearch, User } from '../types';
+import { SavedSearchSidebar, SearchAlertToast } from './SavedSearchSidebar';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -10,9 +11,10 @@ interface LayoutProps {
   onToggleVoice: () => void;
   currentUser?: User;
   onLogout: () => void;
+  onOpenSavedSearch?: (search: SavedSearch) => void;
 }
 
-export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange, onToggleVoice, currentUser, onLogout }) => {
+export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange, onToggleVoice, currentUser, onLogout, onOpenSavedSearch }) => {
   const [isSidebarOpen, setSidebarOpen] = useState(false);
 
   // Filter Nav Items based on Role and Permissions
@@ -125,6 +127,16 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange
           ))}
         </nav>
 
+        {currentUser && onOpenSavedSearch && (isAdmin || perms?.driveBrowser) && (
+          <SavedSearchSidebar
+            currentUser={currentUser}
+            onOpenSearch={(search) => {
+              onOpenSavedSearch(search);
+              setSidebarOpen(false);
+            }}
+          />
+        )}
+
         {/* Void Agent Trigger */}
         <div className="p-6 border-t border-white/10 bg-gradient-to-t from-neonPurple/10 to-transparent space-y-3">
           <button 
@@ -147,6 +159,10 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange
         </div>
       </aside>
 
+      {currentUser && onOpenSavedSearch && (isAdmin || perms?.driveBrowser) && (
+        <SearchAlertToast currentUser={currentUser} onOpenSearch={onOpenSavedSearch} />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 relative z-10 overflow-y-auto pt-20 md:pt-0 scrollbar-hide perspective-1000 flex flex-col">
         <div className="flex-1 p-4 md:p-8 max-w-7xl mx-auto w-full">
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { FileCode, History, Save, RotateCcw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { PromptTemplate, PromptTemplateId } from '../types';
+import { getPromptTemplates, savePromptVersion, activatePromptVersion, findUnknownVariables } from '../services/promptRegistry';
+
+interface PromptTemplateManagerProps {
+  authorName: string;
+}
+
+export const PromptTemplateManager: React.FC<PromptTemplateManagerProps> = ({ authorName }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(getPromptTemplates());
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(templates[0].id);
+  const selected = templates.find(t => t.id === selectedId)!;
+  const activeBody = selected.versions.find(v => v.version === selected.activeVersion)?.body || '';
+
+  const [draftBody, setDraftBody] = useState(activeBody);
+  const [changeNote, setChangeNote] = useState('');
+
+  const unknownVariables = findUnknownVariables(draftBody, selected.variables);
+  const isDirty = draftBody !== activeBody;
+
+  const selectTemplate = (template: PromptTemplate) => {
+    if (isDirty && !window.confirm("Discard unsaved changes to this template?")) return;
+    setSelectedId(template.id);
+    setDraftBody(template.versions.find(v => v.version === template.activeVersion)?.body || '');
+    setChangeNote('');
+  };
+
+  const handleSaveVersion = () => {
+    if (!changeNote.trim()) {
+        alert("Please describe the change for the version history.");
+        return;
+    }
+    const version = savePromptVersion(selected.id, draftBody, authorName, changeNote.trim());
+    setTemplates(getPromptTemplates());
+    setChangeNote('');
+    alert(`${selected.name} saved as version ${version.version} and activated.`);
+  };
+
+  const handleActivate = (version: number) => {
+    if (!window.confirm(`Make version ${version} of "${selected.name}" the active prompt?`)) return;
+    activatePromptVersion(selected.id, version);
+    const refreshed = getPromptTemplates();
+    setTemplates(refreshed);
+    const template = refreshed.find(t => t.id === selected.id)!;
+    setDraftBody(template.versions.find(v => v.version === version)?.body || '');
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Template List */}
+      <div className="glass-panel p-4 rounded-2xl space-y-2 h-fit">
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-2 flex items-center"><FileCode size={14} className="mr-2" /> Templates</h3>
+        {templates.map(t => (
+          <button
+            key={t.id}
+            onClick={() => selectTemplate(t)}
+            className={`w-full text-left p-3 rounded-lg border transition-all ${t.id === selectedId ? 'bg-neonBlue/10 border-neonBlue/40 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:bg-white/10'}`}
+          >
+            <div className="text-sm font-bold">{t.name}</div>
+            <div className="text-[10px] font-mono opacity-70">{t.id} · v{t.activeVersion}{t.activeVersion !== t.versions[t.versions.length - 1].version ? ' (rolled back)' : ''}{t.versions.some(v => v.renumberedFrom !== undefined) ? ' · edit renumbered' : ''}</div>
+          </button>
+        ))}
+      </div>
+
+      {/* Editor */}
+      <div className="lg:col-span-2 glass-panel p-6 rounded-2xl flex flex-col">
+        <h3 className="text-xl font-bold text-white mb-1">{selected.name}</h3>
+        <p className="text-xs text-gray-500 mb-4">{selected.description}</p>
+
+        <div className="flex flex-wrap gap-2 mb-3">
+          {selected.variables.length === 0
+            ? <span className="text-xs text-gray-500 italic">No variables</span>
+            : selected.variables.map(v => (
+                <span key={v} className="px-2 py-1 rounded bg-neonPurple/10 border border-neonPurple/30 text-neonPurple text-xs font-mono">{`{{${v}}}`}</span>
+              ))}
+        </div>
+
+        <textarea
+          value={draftBody}
+          onChange={(e) => setDraftBody(e.target.value)}
+          className="flex-1 min-h-[360px] w-full bg-black/40 border border-white/10 rounded-xl p-4 text-sm text-gray-200 font-mono focus:border-neonBlue outline-none custom-scrollbar"
+          spellCheck={false}
+        />
+
+        {unknownVariables.length > 0 && (
+          <div className="mt-3 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-yellow-400 text-xs flex items-start">
+            <AlertTriangle size={14} className="mr-2 mt-0.5 shrink-0" />
+            <span>Unknown placeholders will render as empty text: {unknownVariables.map(v => `{{${v}}}`).join(', ')}</span>
+          </div>
+        )}
+
+        <div className="mt-4 flex gap-3">
+          <input
+            type="text"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            className="flex-1 bg-black/40 border border-white/10 rounded-lg p-3 text-white text-sm focus:border-neonBlue outline-none"
+            placeholder="Change note (required), e.g. 'Tighter wording for NCR replies'"
+          />
+          <button
+            onClick={handleSaveVersion}
+            disabled={!isDirty}
+            className="flex items-center px-5 bg-neonBlue/20 hover:bg-neonBlue/30 text-neonBlue border border-neonBlue/50 font-bold rounded-lg transition-colors disabled:opacity-40"
+          >
+            <Save size={16} className="mr-2" /> Save Version
+          </button>
+        </div>
+      </div>
+
+      {/* Version History */}
+      <div className="glass-panel p-4 rounded-2xl h-fit">
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3 flex items-center"><History size={14} className="mr-2" /> Version History</h3>
+        <div className="space-y-2 max-h-[520px] overflow-y-auto custom-scrollbar">
+          {[...selected.versions].reverse().map(v => (
+            <div key={v.version} className={`p-3 rounded-lg border text-xs ${v.version === selected.activeVersion ? 'bg-green-500/10 border-green-500/30' : 'bg-white/5 border-white/5'}`}>
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-bold text-white font-mono">v{v.version}</span>
+                {v.version === selected.activeVersion ? (
+                  <span className="flex items-center text-green-400 text-[10px] font-bold"><CheckCircle size={12} className="mr-1" /> ACTIVE</span>
+                ) : (
+                  <button onClick={() => handleActivate(v.version)} className="flex items-center text-[10px] font-bold text-neonBlue hover:text-white">
+                    <RotateCcw size={12} className="mr-1" /> Activate
+                  </button>
+                )}
+              </div>
+              <p className="text-gray-400">{v.note || '—'}</p>
+              {v.renumberedFrom !== undefined && (
+                <p className="text-yellow-400/80 mt-1">Saved as v{v.renumberedFrom}; renumbered because built-in default v{v.renumberedFrom} now uses that number.</p>
+              )}
+              <p className="text-gray-600 mt-1">{v.createdBy}{v.createdAt ? ` · ${new Date(v.createdAt).toLocaleString()}` : ''}</p>
+              <button onClick={() => setDraftBody(v.body)} className="mt-1 text-[10px] text-gray-500 hover:text-white underline">Load into editor</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { EyeOff, Save, Plus, Trash2, FlaskConical, ScrollText } from 'lucide-react';
+import { RedactionAuditRecord, RedactionConfig, RedactionKind } from '../types';
+import { getRedactionConfig, saveRedactionConfig, validateRedactionPattern, createRedactionSession, getRedactionAudit, clearRedactionAudit } from '../services/redaction';
+
+const BUILT_IN_LABELS: Record<Exclude<RedactionKind, 'CUSTOM'>, string> = {
+  MOBILE: 'Mobile numbers',
+  EMAIL: 'Email addresses',
+  EMPLOYEE_ID: 'Employee IDs',
+  AADHAAR: 'Aadhaar numbers',
+  PAN: 'PAN numbers'
+};
+
+const AUDIT_ROWS_SHOWN = 50;
+
+export const RedactionSettings: React.FC = () => {
+  const [config, setConfig] = useState<RedactionConfig>(getRedactionConfig());
+  const [sample, setSample] = useState('Call Ravi on +91 98765 43210 or ravi.k@beml.co.in, EMP-20431, PAN ABCDE1234F');
+  const [audit, setAudit] = useState<RedactionAuditRecord[]>(getRedactionAudit());
+
+  const patternErrors = [
+    ...(config.builtIn.EMPLOYEE_ID ? [validateRedactionPattern(config.employeeIdPattern)] : []),
+    ...config.customRules.filter(r => r.enabled).map(r => validateRedactionPattern(r.pattern))
+  ].filter(Boolean);
+
+  const handleSave = () => {
+    if (patternErrors.length > 0) {
+      alert("Fix the invalid patterns before saving.");
+      return;
+    }
+    saveRedactionConfig(config);
+    alert("Redaction settings saved. They apply to the next AI request.");
+  };
+
+  const updateRule = (id: string, changes: Partial<RedactionConfig['customRules'][number]>) =>
+    setConfig({ ...config, customRules: config.customRules.map(r => r.id === id ? { ...r, ...changes } : r) });
+
+  const addRule = () =>
+    setConfig({ ...config, customRules: [...config.customRules, { id: Date.now().toString(), name: 'Custom', pattern: '', enabled: true }] });
+
+  const handleClearAudit = () => {
+    if (!window.confirm("Delete the redaction audit log from this browser?")) return;
+    clearRedactionAudit();
+    setAudit([]);
+  };
+
+  // Preview with the unsaved configuration
+  const preview = (() => {
+    if (patternErrors.length > 0) return null;
+    const session = createRedactionSession(config);
+    return { text: session.redactText(sample), count: session.maskedCount };
+  })();
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-panel p-6 rounded-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold flex items-center text-neonBlue">
+            <EyeOff className="mr-2" /> Sensitive Data Redaction
+          </h3>
+          <button onClick={handleSave} className="flex items-center px-5 py-2 bg-neonBlue/20 hover:bg-neonBlue/30 text-neonBlue border border-neonBlue/50 font-bold rounded-lg transition-colors">
+            <Save size={16} className="mr-2" /> Save Redaction Rules
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mb-4">
+          Matches are replaced with placeholders such as [EMAIL_1] in prompts, file text, OCR text and tool results before any AI request,
+          and in activity log entries before they are written to the Sheet. Placeholders in the answer are turned back into the original values on screen.
+          Images, PDFs and audio sent as attachments cannot be scanned.
+        </p>
+
+        <label className="flex items-center space-x-3 p-3 mb-4 bg-white/5 border border-white/10 rounded-xl cursor-pointer">
+          <input type="checkbox" checked={config.enabled} onChange={(e) => setConfig({ ...config, enabled: e.target.checked })} className="form-checkbox h-4 w-4 text-neonBlue rounded bg-white/5 border-gray-600" />
+          <span className="text-sm text-white font-bold">Redaction enabled</span>
+        </label>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+          {(Object.keys(BUILT_IN_LABELS) as (keyof typeof BUILT_IN_LABELS)[]).map(kind => (
+            <label key={kind} className="flex items-center space-x-2 p-2 bg-black/30 border border-white/10 rounded-lg cursor-pointer">
+              <input
+                type="checkbox"
+                checked={config.builtIn[kind]}
+                onChange={(e) => setConfig({ ...config, builtIn: { ...config.builtIn, [kind]: e.target.checked } })}
+                className="form-checkbox bg-black border-white/20 text-neonBlue rounded"
+              />
+              <span className="text-xs text-gray-300">{BUILT_IN_LABELS[kind]}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="mb-6">
+          <label className="text-[10px] font-bold text-gray-500 uppercase block mb-1">Employee ID pattern (regular expression, case-insensitive)</label>
+          <input
+            value={config.employeeIdPattern}
+            onChange={(e) => setConfig({ ...config, employeeIdPattern: e.target.value })}
+            className="w-full bg-black/40 border border-white/10 rounded-lg p-2 text-white text-sm font-mono focus:border-neonBlue outline-none"
+          />
+          {config.builtIn.EMPLOYEE_ID && validateRedactionPattern(config.employeeIdPattern) && (
+            <p className="text-[10px] text-red-400 mt-1">{validateRedactionPattern(config.employeeIdPattern)}</p>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="text-sm font-bold text-white">Custom Rules</h4>
+          <button onClick={addRule} className="flex items-center text-xs px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10">
+            <Plus size={12} className="mr-1" /> Add Rule
+          </button>
+        </div>
+        {config.customRules.length === 0 && <p className="text-xs text-gray-500 italic mb-2">No custom rules. Add one for vendor codes, contract numbers or other site-specific identifiers.</p>}
+        <div className="space-y-2">
+          {config.customRules.map(rule => {
+            const error = rule.enabled ? validateRedactionPattern(rule.pattern) : null;
+            return (
+              <div key={rule.id} className="grid grid-cols-12 gap-2 items-center">
+                <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} className="col-span-1 form-checkbox bg-black border-white/20 text-neonBlue rounded justify-self-center" />
+                <input value={rule.name} onChange={(e) => updateRule(rule.id, { name: e.target.value })} placeholder="Name" className="col-span-3 bg-black/40 border border-white/10 rounded-lg p-2 text-white text-xs focus:border-neonBlue outline-none" />
+                <div className="col-span-7">
+                  <input value={rule.pattern} onChange={(e) => updateRule(rule.id, { pattern: e.target.value })} placeholder="e.g. \bVC-\d{6}\b" className={`w-full bg-black/40 border rounded-lg p-2 text-white text-xs font-mono outline-none ${error ? 'border-red-500/60' : 'border-white/10 focus:border-neonBlue'}`} />
+                  {error && <p className="text-[10px] text-red-400 mt-1">{error}</p>}
+                </div>
+                <button onClick={() => setConfig({ ...config, customRules: config.customRules.filter(r => r.id !== rule.id) })} className="col-span-1 p-2 text-gray-500 hover:text-red-400 justify-self-center" title="Remove rule">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-6 p-4 bg-black/30 border border-white/10 rounded-xl">
+          <label className="text-[10px] font-bold text-gray-500 uppercase mb-1 flex items-center"><FlaskConical size={12} className="mr-1" /> Test (unsaved rules)</label>
+          <textarea value={sample} onChange={(e) => setSample(e.target.value)} className="w-full h-16 bg-black/40 border border-white/10 rounded-lg p-2 text-white text-xs font-mono focus:border-neonBlue outline-none" />
+          <p className="mt-2 text-xs font-mono text-gray-300 whitespace-pre-wrap break-words">
+            {preview ? preview.text : 'Fix the invalid patterns to preview.'}
+          </p>
+          {preview && <p className="mt-1 text-[10px] text-gray-500">{preview.count} value(s) masked</p>}
+        </div>
+      </div>
+
+      <div className="glass-panel p-6 rounded-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold flex items-center text-white">
+            <ScrollText className="mr-2 text-neonBlue" /> Redaction Audit
+          </h3>
+          <button onClick={handleClearAudit} className="flex items-center px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-400 border border-red-500/40 font-bold rounded-lg transition-colors text-xs">
+            <Trash2 size={12} className="mr-1" /> Clear Log
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mb-3">One record per AI request (and per activity log entry or vector store upload that needed masking) from this browser. Only partially masked previews are stored, never the original values.</p>
+        {audit.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No requests recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto max-h-96 custom-scrollbar">
+            <table className="w-full text-left text-xs">
+              <thead className="text-gray-500 uppercase border-b border-white/10">
+                <tr>
+                  <th className="py-2 pr-3">Time</th>
+                  <th className="py-2 pr-3">User</th>
+                  <th className="py-2 pr-3">Request</th>
+                  <th className="py-2 pr-3">Masked</th>
+                  <th className="py-2">Unscanned attachments</th>
+                </tr>
+              </thead>
+              <tbody>
+                {audit.slice(0, AUDIT_ROWS_SHOWN).map(record => (
+                  <tr key={record.id} className="border-b border-white/5 align-top">
+                    <td className="py-2 pr-3 text-gray-400 whitespace-nowrap">{new Date(record.timestamp).toLocaleString()}</td>
+                    <td className="py-2 pr-3 text-gray-300">{record.userName || '-'}</td>
+                    <td className="py-2 pr-3 font-mono text-gray-300">{record.target}</td>
+                    <td className="py-2 pr-3 font-mono text-gray-300">
+                      {record.masked.length === 0 ? <span className="text-gray-600">none</span> : record.masked.map(m => (
+                        <span key={m.placeholder} className="inline-block mr-2 mb-1 px-1.5 py-0.5 rounded bg-white/5 border border-white/10" title={m.rule}>
+                          {m.placeholder} {m.preview}
+                        </span>
+                      ))}
+                    </td>
+                    <td className={`py-2 font-mono ${record.unredactedAttachments > 0 ? 'text-yellow-400' : 'text-gray-600'}`}>{record.unredactedAttachments}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Save, Trash2, RefreshCw } from 'lucide-react';
+import { ResponseCacheConfig, ResponseCacheStats } from '../types';
+import { getResponseCacheConfig, saveResponseCacheConfig, getResponseCacheStats, purgeResponseCache } from '../services/responseCache';
+
+export const ResponseCacheSettings: React.FC = () => {
+  const [config, setConfig] = useState<ResponseCacheConfig>(getResponseCacheConfig());
+  const [stats, setStats] = useState<ResponseCacheStats | null>(null);
+  const [purging, setPurging] = useState(false);
+
+  const refreshStats = async () => setStats(await getResponseCacheStats());
+
+  useEffect(() => {
+    refreshStats();
+  }, []);
+
+  const handleSave = () => {
+    saveResponseCacheConfig(config);
+    alert("Response cache settings saved.");
+  };
+
+  const handlePurge = async () => {
+    if (!window.confirm("Delete every cached AI response? The next identical request will call the model again.")) return;
+    setPurging(true);
+    try {
+        await purgeResponseCache();
+    } catch (e) {
+        console.error("Failed to purge response cache", e);
+        alert("Could not purge the response cache in this browser.");
+    }
+    setPurging(false);
+    refreshStats();
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-bold flex items-center text-neonBlue">
+          <Database className="mr-2" /> AI Response Cache
+        </h3>
+        <button onClick={handleSave} className="flex items-center px-5 py-2 bg-neonBlue/20 hover:bg-neonBlue/30 text-neonBlue border border-neonBlue/50 font-bold rounded-lg transition-colors">
+          <Save size={16} className="mr-2" /> Save Cache Settings
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Repeated OCR, data analysis and Engineering questions over the same files are answered from this browser's cache instead of calling the model again.
+        Entries are keyed on model, prompt template version, input and a hash of every attachment.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <label className="flex items-center space-x-3 p-3 bg-white/5 border border-white/10 rounded-xl cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => setConfig({ ...config, enabled: e.target.checked })}
+            className="form-checkbox h-4 w-4 text-neonBlue rounded bg-white/5 border-gray-600"
+          />
+          <span className="text-sm text-white font-bold">Cache enabled</span>
+        </label>
+        <div>
+          <label className="text-[10px] font-bold text-gray-500 uppercase block mb-1">Time to live (hours)</label>
+          <input
+            type="number"
+            min={1}
+            value={config.ttlHours}
+            onChange={(e) => setConfig({ ...config, ttlHours: Math.max(1, parseInt(e.target.value) || 1) })}
+            className="w-full bg-black/40 border border-white/10 rounded-lg p-2 text-white text-sm font-mono focus:border-neonBlue outline-none"
+          />
+        </div>
+        <div>
+          <label className="text-[10px] font-bold text-gray-500 uppercase block mb-1">Max size (MB)</label>
+          <input
+            type="number"
+            min={1}
+            value={config.maxMegabytes}
+            onChange={(e) => setConfig({ ...config, maxMegabytes: Math.max(1, parseInt(e.target.value) || 1) })}
+            className="w-full bg-black/40 border border-white/10 rounded-lg p-2 text-white text-sm font-mono focus:border-neonBlue outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between p-4 bg-black/30 border border-white/10 rounded-xl">
+        <div className="text-sm text-gray-300 font-mono flex items-center">
+          <button onClick={refreshStats} className="mr-3 text-gray-500 hover:text-white" title="Refresh"><RefreshCw size={14} /></button>
+          {stats ? `${stats.entries} cached responses · ${(stats.totalBytes / 1024 / 1024).toFixed(2)} MB` : 'Loading...'}
+        </div>
+        <button
+          onClick={handlePurge}
+          disabled={purging}
+          className="flex items-center px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 border border-red-500/40 font-bold rounded-lg transition-colors disabled:opacity-50 text-sm"
+        >
+          <Trash2 size={14} className="mr-2" /> {purging ? 'Purging...' : 'Purge Cache'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bell, Bookmark, X, ChevronDown, ChevronUp } from 'lucide-react';
+import { SavedSearch, SearchAlert, User } from '../types';
+import { getSavedSearches, getSearchAlerts, markSearchAlertsRead, clearSearchAlerts, onSavedSearchesChanged } from '../services/savedSearches';
+
+const TOAST_MS = 6000;
+
+interface SavedSearchSidebarProps {
+  currentUser: User;
+  onOpenSearch: (search: SavedSearch) => void;
+}
+
+// Pinned saved searches with their unread match counts, and the alert list
+export const SavedSearchSidebar: React.FC<SavedSearchSidebarProps> = ({ currentUser, onOpenSearch }) => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [alerts, setAlerts] = useState<SearchAlert[]>([]);
+  const [showAlerts, setShowAlerts] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => {
+      setSearches(getSavedSearches(currentUser.id));
+      setAlerts(getSearchAlerts(currentUser.id));
+    };
+    refresh();
+    return onSavedSearchesChanged(refresh);
+  }, [currentUser.id]);
+
+  const pinned = searches.filter(s => s.pinned);
+  const unreadFor = (searchId: string) => alerts.filter(a => a.searchId === searchId && !a.read).reduce((sum, a) => sum + a.files.length, 0);
+  const unreadCount = alerts.filter(a => !a.read).length;
+
+  const openSearch = (searchId: string) => {
+    const search = searches.find(s => s.id === searchId);
+    if (search) onOpenSearch(search);
+  };
+
+  if (pinned.length === 0 && alerts.length === 0) return null;
+
+  return (
+    <div className="px-4 pb-4 space-y-2">
+      <div className="flex items-center justify-between px-2">
+        <span className="text-[10px] text-gray-500 uppercase tracking-wider font-bold">Saved Searches</span>
+        <button
+          onClick={() => setShowAlerts(!showAlerts)}
+          className={`relative flex items-center p-1 rounded transition-colors ${unreadCount ? 'text-neonBlue' : 'text-gray-500 hover:text-white'}`}
+          title="New document alerts"
+        >
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-red-500 text-white text-[9px] font-bold flex items-center justify-center">{unreadCount}</span>}
+          {showAlerts ? <ChevronUp className="w-3 h-3 ml-1" /> : <ChevronDown className="w-3 h-3 ml-1" />}
+        </button>
+      </div>
+
+      {showAlerts && (
+        <div className="bg-black/40 border border-white/10 rounded-xl p-2 max-h-60 overflow-y-auto custom-scrollbar animate-fade-in">
+          {alerts.length === 0 ? (
+            <p className="text-[10px] text-gray-600 italic p-1">No alerts yet.</p>
+          ) : (
+            <>
+              {alerts.map(alert => (
+                <button key={alert.id} onClick={() => openSearch(alert.searchId)} className={`w-full text-left p-2 rounded-lg hover:bg-white/5 ${alert.read ? 'opacity-60' : ''}`}>
+                  <p className="text-xs font-bold text-white truncate">{alert.searchName} · {alert.files.length} new</p>
+                  <p className="text-[10px] text-gray-400 truncate">{alert.files.map(f => f.name).join(', ')}</p>
+                  <p className="text-[9px] text-gray-600 font-mono">{new Date(alert.createdAt).toLocaleString()}</p>
+                </button>
+              ))}
+              <div className="flex justify-between px-1 pt-1 border-t border-white/5">
+                <button onClick={() => markSearchAlertsRead(currentUser.id)} className="text-[10px] text-neonBlue hover:text-white underline">Mark all read</button>
+                <button onClick={() => clearSearchAlerts(currentUser.id)} className="text-[10px] text-gray-500 hover:text-red-400 underline">Clear</button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {pinned.map(search => {
+        const unread = unreadFor(search.id);
+        return (
+          <button
+            key={search.id}
+            onClick={() => openSearch(search.id)}
+            className="w-full flex items-center px-4 py-2 rounded-xl text-gray-400 hover:text-white hover:bg-white/5 transition-all text-sm"
+            title={search.query}
+          >
+            <Bookmark className="w-4 h-4 mr-3 shrink-0" />
+            <span className="truncate flex-1 text-left">{search.name}</span>
+            {unread > 0 && <span className="ml-2 px-1.5 rounded-full bg-neonBlue/20 text-neonBlue text-[10px] font-bold">{unread}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+// Pops up when a Drive sync raises an alert for this user. Rendered outside the sidebar, whose transform
+// would otherwise pin a fixed element to it.
+export const SearchAlertToast: React.FC<SavedSearchSidebarProps> = ({ currentUser, onOpenSearch }) => {
+  const [toast, setToast] = useState<SearchAlert | null>(null);
+  const knownAlertIds = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    // Alerts already stored on mount are not news
+    knownAlertIds.current = new Set(getSearchAlerts(currentUser.id).map(a => a.id));
+    return onSavedSearchesChanged(() => {
+      const latest = getSearchAlerts(currentUser.id);
+      const fresh = latest.find(a => !a.read && !knownAlertIds.current.has(a.id));
+      knownAlertIds.current = new Set(latest.map(a => a.id));
+      if (fresh) setToast(fresh);
+    });
+  }, [currentUser.id]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const openSearch = (searchId: string) => {
+    const search = getSavedSearches(currentUser.id).find(s => s.id === searchId);
+    setToast(null);
+    if (search) onOpenSearch(search);
+  };
+
+  if (!toast) return null;
+
+  return (
+    <div className="fixed top-6 right-6 z-50 max-w-sm glass-panel border border-neonBlue/40 rounded-xl p-4 shadow-[0_0_25px_rgba(0,243,255,0.2)] animate-fade-in">
+      <div className="flex items-start">
+        <Bell className="w-5 h-5 text-neonBlue mr-3 shrink-0" />
+        <button onClick={() => openSearch(toast.searchId)} className="text-left flex-1">
+          <p className="text-sm font-bold text-white">New matches for "{toast.searchName}"</p>
+          <p className="text-xs text-gray-400 mt-1">{toast.files.slice(0, 3).map(f => f.name).join(', ')}{toast.files.length > 3 ? ` and ${toast.files.length - 3} more` : ''}</p>
+        </button>
+        <button onClick={() => setToast(null)} className="ml-2 text-gray-500 hover:text-white"><X className="w-4 h-4" /></button>
+      </div>
+    </div>
+  );
+};
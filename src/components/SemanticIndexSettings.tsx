@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Network, RefreshCw, Trash2, Play, Loader2 } from 'lucide-react';
+import { SemanticIndexProgress, SemanticIndexStats } from '../types';
+import { getSemanticIndexStats, refreshSemanticIndex, purgeSemanticIndex } from '../services/semanticIndex';
+
+export const SemanticIndexSettings: React.FC = () => {
+  const [stats, setStats] = useState<SemanticIndexStats | null>(null);
+  const [progress, setProgress] = useState<SemanticIndexProgress | null>(null);
+  const [purging, setPurging] = useState(false);
+
+  const refreshStats = async () => setStats(await getSemanticIndexStats());
+
+  useEffect(() => {
+    refreshStats();
+  }, []);
+
+  const handleIndex = async (force: boolean) => {
+    if (force && !window.confirm("Re-embed every known file? With a hosted embedding model this sends all document text again.")) return;
+    setProgress({ done: 0, total: 0, failed: 0 });
+    try {
+        const result = await refreshSemanticIndex({ force, onProgress: setProgress });
+        setStats(result);
+    } catch (e: any) {
+        console.error("Semantic indexing failed", e);
+        alert(`Indexing failed: ${e.message}`);
+    }
+    setProgress(null);
+  };
+
+  const handlePurge = async () => {
+    const where = stats?.backend === 'BROWSER' ? 'from this browser' : 'collection from the vector store, for every user';
+    if (!window.confirm(`Delete the semantic index ${where}? Chat falls back to file-name search until it is rebuilt.`)) return;
+    setPurging(true);
+    try {
+        await purgeSemanticIndex();
+    } catch (e) {
+        console.error("Failed to purge semantic index", e);
+        alert("Could not purge the semantic index.");
+    }
+    setPurging(false);
+    refreshStats();
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-bold flex items-center text-neonBlue">
+          <Network className="mr-2" /> Semantic Document Index
+        </h3>
+        <div className="flex space-x-2">
+          <button onClick={() => handleIndex(false)} disabled={!!progress} className="flex items-center px-4 py-2 bg-neonBlue/20 hover:bg-neonBlue/30 text-neonBlue border border-neonBlue/50 font-bold rounded-lg transition-colors disabled:opacity-50 text-sm">
+            {progress ? <Loader2 size={14} className="mr-2 animate-spin" /> : <Play size={14} className="mr-2" />} Index New Files
+          </button>
+          <button onClick={() => handleIndex(true)} disabled={!!progress} className="flex items-center px-4 py-2 bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 font-bold rounded-lg transition-colors disabled:opacity-50 text-sm">
+            <RefreshCw size={14} className="mr-2" /> Rebuild
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        The text of every known Drive file is split into passages (with page and section) and embedded, so Engineering questions retrieve the
+        relevant passages instead of file descriptions. The index lives in this browser, or on the vector store chosen under Infrastructure &amp; DB,
+        and is refreshed incrementally when the chat opens.
+        Without an embedding model (offline stub, or no embedding model set for a local endpoint) keyword vectors are computed locally.
+      </p>
+
+      {progress && (
+        <div className="mb-4">
+          <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-neonBlue transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+          </div>
+          <p className="text-[10px] text-gray-500 font-mono mt-1">
+            {progress.done}/{progress.total} {progress.fileName ? `· ${progress.fileName}` : ''}{progress.failed ? ` · ${progress.failed} failed` : ''}
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between p-4 bg-black/30 border border-white/10 rounded-xl">
+        <div className="text-sm text-gray-300 font-mono flex items-center">
+          <button onClick={refreshStats} className="mr-3 text-gray-500 hover:text-white" title="Refresh"><RefreshCw size={14} /></button>
+          {stats
+            ? `${stats.files} files · ${stats.chunks} passages · ${stats.embeddingModel || 'unavailable'}${stats.lastIndexedAt ? ` · updated ${new Date(stats.lastIndexedAt).toLocaleString()}` : ''}`
+            : 'Loading...'}
+        </div>
+        <button
+          onClick={handlePurge}
+          disabled={purging || !!progress}
+          className="flex items-center px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 border border-red-500/40 font-bold rounded-lg transition-colors disabled:opacity-50 text-sm"
+        >
+          <Trash2 size={14} className="mr-2" /> {purging ? 'Purging...' : 'Purge Index'}
+        </button>
+      </div>
+    </div>
+  );
+};
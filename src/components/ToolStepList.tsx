@@ -0,0 +1,53 @@
+import React from 'react';
+import { Wrench, Loader2, CheckCircle, AlertTriangle, BarChart2 } from 'lucide-react';
+import { ToolStep, ToolStepAction } from '../types';
+
+interface ToolStepListProps {
+  steps: ToolStep[];
+  onAction?: (action: ToolStepAction) => void;
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  search_drive: 'Search Drive',
+  read_file: 'Read file',
+  run_ocr: 'OCR',
+  open_doc_analysis: 'Doc Analysis',
+  aggregate_spreadsheet: 'Aggregate'
+};
+
+// Short argument preview; file ids are noise to the user, so they are left out
+const formatArgs = (args: Record<string, any>) => Object.entries(args)
+  .filter(([key, value]) => key !== 'fileId' && value !== undefined && value !== '')
+  .map(([key, value]) => `${key}: ${typeof value === 'string' ? `"${value}"` : String(value)}`)
+  .join(', ');
+
+// The tool calls the model made while answering, in order, with their live status
+export const ToolStepList: React.FC<ToolStepListProps> = ({ steps, onAction }) => {
+  if (steps.length === 0) return null;
+
+  return (
+    <div className="mb-3 space-y-1">
+      <p className="text-xs font-bold text-neonBlue opacity-80 mb-1 flex items-center"><Wrench size={12} className="mr-1" /> TOOL STEPS:</p>
+      {steps.map(step => (
+        <div key={step.id} className="flex items-start gap-2 p-2 bg-black/30 rounded border border-white/10 text-[11px] font-mono">
+          {step.status === 'RUNNING' && <Loader2 size={12} className="mt-0.5 shrink-0 text-neonBlue animate-spin" />}
+          {step.status === 'DONE' && <CheckCircle size={12} className="mt-0.5 shrink-0 text-green-400" />}
+          {step.status === 'ERROR' && <AlertTriangle size={12} className="mt-0.5 shrink-0 text-red-400" />}
+          <div className="min-w-0 flex-1">
+            <span className="text-white font-bold">{TOOL_LABELS[step.name] || step.name}</span>
+            {formatArgs(step.args) && <span className="text-gray-500"> ({formatArgs(step.args)})</span>}
+            {step.summary && <p className={`truncate ${step.status === 'ERROR' ? 'text-red-400' : 'text-gray-400'}`} title={step.summary}>{step.summary}</p>}
+          </div>
+          {step.action?.type === 'OPEN_DOC_ANALYSIS' && onAction && (
+            <button
+              onClick={() => onAction(step.action!)}
+              className="shrink-0 flex items-center px-2 py-1 rounded bg-neonBlue/20 hover:bg-neonBlue/30 text-neonBlue border border-neonBlue/50 font-bold transition-colors"
+            >
+              <BarChart2 size={12} className="mr-1" /> Open in Doc Analysis
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Gauge, Save, User as UserIcon, Shield, X } from 'lucide-react';
+import { UsageLimit, UsageQuotaConfig, User, UserRole } from '../types';
+import { usageService } from '../services/usageService';
+
+interface UsageQuotaEditorProps {
+  users: User[];
+}
+
+const LimitInputs: React.FC<{ limit: UsageLimit; onChange: (limit: UsageLimit) => void }> = ({ limit, onChange }) => (
+  <div className="grid grid-cols-2 gap-3">
+    <div>
+      <label className="text-[10px] font-bold text-gray-500 uppercase block mb-1">Requests / day</label>
+      <input
+        type="number"
+        min={0}
+        value={limit.dailyRequests}
+        onChange={(e) => onChange({ ...limit, dailyRequests: Math.max(0, parseInt(e.target.value) || 0) })}
+        className="w-full bg-black/40 border border-white/10 rounded-lg p-2 text-white text-sm font-mono focus:border-neonBlue outline-none"
+      />
+    </div>
+    <div>
+      <label className="text-[10px] font-bold text-gray-500 uppercase block mb-1">Tokens / day</label>
+      <input
+        type="number"
+        min={0}
+        step={10000}
+        value={limit.dailyTokens}
+        onChange={(e) => onChange({ ...limit, dailyTokens: Math.max(0, parseInt(e.target.value) || 0) })}
+        className="w-full bg-black/40 border border-white/10 rounded-lg p-2 text-white text-sm font-mono focus:border-neonBlue outline-none"
+      />
+    </div>
+  </div>
+);
+
+export const UsageQuotaEditor: React.FC<UsageQuotaEditorProps> = ({ users }) => {
+  const [config, setConfig] = useState<UsageQuotaConfig>(usageService.getQuotaConfig());
+
+  const setRoleLimit = (role: UserRole, limit: UsageLimit) => {
+    setConfig({ ...config, roles: { ...config.roles, [role]: limit } });
+  };
+
+  const setUserLimit = (userId: string, limit: UsageLimit | null) => {
+    const overrides = { ...config.users };
+    if (limit) overrides[userId] = limit;
+    else delete overrides[userId];
+    setConfig({ ...config, users: overrides });
+  };
+
+  const handleSave = () => {
+    usageService.saveQuotaConfig(config);
+    alert("Usage quotas saved. They apply from the next AI request.");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-panel p-6 rounded-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold flex items-center text-neonBlue">
+            <Gauge className="mr-2" /> Daily AI Quotas by Role
+          </h3>
+          <button onClick={handleSave} className="flex items-center px-5 py-2 bg-neonBlue/20 hover:bg-neonBlue/30 text-neonBlue border border-neonBlue/50 font-bold rounded-lg transition-colors">
+            <Save size={16} className="mr-2" /> Save Quotas
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mb-4">Limits are checked before each AI call and reset at local midnight. Use 0 for unlimited.</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {(Object.keys(config.roles) as UserRole[]).map(role => (
+            <div key={role} className="bg-white/5 border border-white/10 rounded-xl p-4">
+              <p className="text-sm font-bold text-white mb-3 flex items-center"><Shield size={14} className="mr-2 text-neonPurple" /> {role}</p>
+              <LimitInputs limit={config.roles[role]} onChange={(limit) => setRoleLimit(role, limit)} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="glass-panel p-6 rounded-2xl">
+        <h3 className="text-lg font-bold text-white mb-4 flex items-center"><UserIcon className="mr-2 text-neonBlue" size={18} /> Per-User Overrides</h3>
+        <div className="space-y-3">
+          {users.filter(u => u.status === 'APPROVED').map(user => {
+            const override = config.users[user.id];
+            const used = usageService.getTodayUsage(user.id);
+            return (
+              <div key={user.id} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center p-3 bg-white/5 border border-white/5 rounded-xl">
+                <div>
+                  <p className="text-sm font-bold text-white">{user.name}</p>
+                  <p className="text-[10px] text-gray-500 font-mono">{user.role} · today: {used.requests} req / {used.tokens.toLocaleString()} tokens</p>
+                </div>
+                <div className="md:col-span-2">
+                  {override ? (
+                    <div className="flex items-end gap-3">
+                      <div className="flex-1"><LimitInputs limit={override} onChange={(limit) => setUserLimit(user.id, limit)} /></div>
+                      <button onClick={() => setUserLimit(user.id, null)} className="p-2 text-gray-500 hover:text-red-400" title="Use role default">
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setUserLimit(user.id, { ...config.roles[user.role] })}
+                      className="text-xs text-neonBlue hover:text-white underline"
+                    >
+                      Using {user.role} default — add override
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
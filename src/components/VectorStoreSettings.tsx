@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { Server, Save, RefreshCw, Activity, Loader2, CheckCircle, XCircle } from 'lucide-react';
+import { SemanticIndexStats, VectorStoreBackend, VectorStoreConfig, VectorStoreHealth } from '../types';
+import { getVectorStoreConfig, saveVectorStoreConfig, checkVectorStoreHealth } from '../services/vectorStore';
+import { getSemanticIndexStats } from '../services/semanticIndex';
+
+const BACKENDS: { id: VectorStoreBackend; label: string; hint: string }[] = [
+  { id: 'BROWSER', label: 'This browser', hint: 'IndexedDB; every browser builds its own index' },
+  { id: 'QDRANT', label: 'Qdrant server', hint: 'Self-hosted REST vector database shared by every browser' }
+];
+
+const STATUS_COLOURS: Record<string, string> = { green: 'text-green-400', yellow: 'text-yellow-400', red: 'text-red-400' };
+
+export const VectorStoreSettings: React.FC = () => {
+  const [config, setConfig] = useState<VectorStoreConfig>(getVectorStoreConfig());
+  const [health, setHealth] = useState<VectorStoreHealth | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [stats, setStats] = useState<SemanticIndexStats | null>(null);
+  const [loadingStats, setLoadingStats] = useState(false);
+
+  // Stats always describe the saved backend, which is what indexing and retrieval use
+  const refreshStats = async () => {
+    setLoadingStats(true);
+    setStats(await getSemanticIndexStats());
+    setLoadingStats(false);
+  };
+
+  useEffect(() => {
+    refreshStats();
+  }, []);
+
+  const handleSave = () => {
+    if (config.backend !== 'BROWSER' && (!config.vectorDbUrl.trim() || !config.collection.trim())) {
+      alert("Enter the server URL and a collection name.");
+      return;
+    }
+    saveVectorStoreConfig(config);
+    setConfig(getVectorStoreConfig());
+    refreshStats();
+    alert(config.backend === 'BROWSER'
+      ? "Vector store saved. The semantic index is kept in this browser."
+      : "Vector store saved. Run 'Index New Files' under System Health to fill the collection.");
+  };
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setHealth(await checkVectorStoreHealth(config));
+    setChecking(false);
+  };
+
+  const collection = stats?.collection;
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-bold flex items-center text-neonBlue">
+          <Server className="mr-2" /> Vector Store
+        </h3>
+        <button onClick={handleSave} className="flex items-center px-5 py-2 bg-neonBlue/20 hover:bg-neonBlue/30 text-neonBlue border border-neonBlue/50 font-bold rounded-lg transition-colors">
+          <Save size={16} className="mr-2" /> Save Vector Store
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Where the semantic index keeps passage vectors. A Qdrant server (e.g. <span className="font-mono">docker run -p 6333:6333 qdrant/qdrant</span>) holds one
+        index for every user, so files are embedded once instead of in each browser. Passage text is stored on the server with the Privacy redaction rules applied, so search results from it show the placeholders.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {BACKENDS.map(b => (
+          <label key={b.id} className={`flex items-start space-x-3 p-3 border rounded-xl cursor-pointer ${config.backend === b.id ? 'bg-neonBlue/10 border-neonBlue/50' : 'bg-white/5 border-white/10'}`}>
+            <input
+              type="radio"
+              name="vector-store-backend"
+              checked={config.backend === b.id}
+              onChange={() => { setConfig({ ...config, backend: b.id }); setHealth(null); }}
+              className="mt-1 form-radio h-4 w-4 text-neonBlue bg-white/5 border-gray-600"
+            />
+            <span>
+              <span className="text-sm text-white font-bold block">{b.label}</span>
+              <span className="text-[10px] text-gray-500">{b.hint}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {config.backend === 'QDRANT' && (
+        <div className="space-y-4 mb-6 animate-fade-in">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="text-[10px] font-bold text-gray-500 uppercase block mb-1">Server URL</label>
+              <input
+                type="text"
+                value={config.vectorDbUrl}
+                onChange={(e) => { setConfig({ ...config, vectorDbUrl: e.target.value }); setHealth(null); }}
+                className="w-full bg-black/40 border border-white/10 rounded-lg p-2 text-white text-sm font-mono focus:border-neonBlue outline-none"
+                placeholder="http://localhost:6333"
+              />
+            </div>
+            <div>
+              <label className="text-[10px] font-bold text-gray-500 uppercase block mb-1">Collection</label>
+              <input
+                type="text"
+                value={config.collection}
+                onChange={(e) => setConfig({ ...config, collection: e.target.value })}
+                className="w-full bg-black/40 border border-white/10 rounded-lg p-2 text-white text-sm font-mono focus:border-neonBlue outline-none"
+                placeholder="kmrcl_documents"
+              />
+            </div>
+            <div>
+              <label className="text-[10px] font-bold text-gray-500 uppercase block mb-1">API Key (Optional)</label>
+              <input
+                type="password"
+                value={config.apiKey}
+                onChange={(e) => setConfig({ ...config, apiKey: e.target.value })}
+                className="w-full bg-black/40 border border-white/10 rounded-lg p-2 text-white text-sm font-mono focus:border-neonBlue outline-none"
+              />
+            </div>
+          </div>
+          <div className="flex items-center space-x-4">
+            <button onClick={handleCheck} disabled={checking} className="flex items-center px-4 py-2 bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 font-bold rounded-lg transition-colors disabled:opacity-50 text-sm">
+              {checking ? <Loader2 size={14} className="mr-2 animate-spin" /> : <Activity size={14} className="mr-2" />} Test Connection
+            </button>
+            {health && (
+              <span className={`flex items-center text-xs font-mono ${health.ok ? 'text-green-400' : 'text-red-400'}`}>
+                {health.ok ? <CheckCircle size={14} className="mr-2" /> : <XCircle size={14} className="mr-2" />}
+                {health.ok ? `Reachable · Qdrant ${health.version || '(version unknown)'} · ${health.latencyMs} ms` : health.error}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="p-4 bg-black/30 border border-white/10 rounded-xl">
+        <div className="flex justify-between items-center mb-3">
+          <span className="text-[10px] font-bold text-gray-500 uppercase">
+            Index in use · {stats ? BACKENDS.find(b => b.id === stats.backend)?.label : '...'}
+          </span>
+          <button onClick={refreshStats} disabled={loadingStats} className="text-gray-500 hover:text-white disabled:opacity-50" title="Refresh">
+            <RefreshCw size={14} className={loadingStats ? 'animate-spin' : ''} />
+          </button>
+        </div>
+        {stats ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm font-mono">
+            <div><span className="text-[10px] text-gray-500 block">Files</span><span className="text-white">{stats.files}</span></div>
+            <div><span className="text-[10px] text-gray-500 block">Passages</span><span className="text-white">{stats.chunks}</span></div>
+            <div className="col-span-2"><span className="text-[10px] text-gray-500 block">Embedding model</span><span className="text-white break-all">{stats.embeddingModel || 'unavailable'}</span></div>
+            <div className="col-span-2"><span className="text-[10px] text-gray-500 block">Last indexed</span><span className="text-white">{stats.lastIndexedAt ? new Date(stats.lastIndexedAt).toLocaleString() : 'never'}</span></div>
+            {stats.backend !== 'BROWSER' && (collection ? (
+              <>
+                <div><span className="text-[10px] text-gray-500 block">Collection</span><span className={STATUS_COLOURS[collection.status] || 'text-gray-300'}>{collection.name} ({collection.status})</span></div>
+                <div><span className="text-[10px] text-gray-500 block">Points (all models)</span><span className="text-white">{collection.points}</span></div>
+                <div><span className="text-[10px] text-gray-500 block">Indexed vectors</span><span className="text-white">{collection.indexedVectors}</span></div>
+                <div><span className="text-[10px] text-gray-500 block">Segments</span><span className="text-white">{collection.segments}</span></div>
+                <div><span className="text-[10px] text-gray-500 block">Vectors</span><span className="text-white">{collection.dimensions ?? '?'}-d · {collection.distance || '?'}</span></div>
+              </>
+            ) : (
+              <div className="col-span-2 md:col-span-4 text-xs text-gray-500">
+                {stats.embeddingModel ? 'The collection does not exist yet; it is created by the first indexing run.' : 'The vector store could not be read; test the connection above.'}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 font-mono">Loading...</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { X, Mic, MicOff, Volume2, Minimize2, Maximize2, Activity, CheckCircle, FileText, Mail } from 'lucide-react';
 import { VoiceAgentService } from '../services/geminiService';
+import { AiError } from '../services/aiErrors';
 import { getAllKnownFiles, fetchDriveFiles } from '../services/driveService';
 
 interface VoiceAgentProps {
@@ -57,6 +58,13 @@ export const VoiceAgent: React.FC<VoiceAgentProps> = ({ isOpen, onClose, onToolC
               });
               setIsMinimized(false); // Pop up to show the artifact
           }
+          if (name === 'searchDrive') {
+              setLiveArtifact({
+                  title: 'Drive Search',
+                  content: `Searching: ${args.query}`,
+                  type: 'file'
+              });
+          }
           if (name === 'selectDocument') {
               setLiveArtifact({
                   title: 'File Selected',
@@ -83,8 +91,8 @@ export const VoiceAgent: React.FC<VoiceAgentProps> = ({ isOpen, onClose, onToolC
         alert('Microphone access is required for the Voice Agent. Please allow microphone permissions and try again.');
       } else if (e.message?.includes('Audio not supported')) {
         alert('Your browser does not support the audio features required for the Voice Agent.');
-      } else if (e.message?.includes('API Key')) {
-        alert('API Key is missing or invalid. Please check your settings.');
+      } else if (e instanceof AiError) {
+        alert(e.message);
       } else {
         alert(`Voice Agent connection failed: ${e.message}`);
       }
@@ -1,8 +1,16 @@
 
 import React, { useState, useEffect } from 'react';
-import { FileText, Zap, Shield, Database, Activity, RefreshCw, Server, Cloud, Cpu, Layers, HardDrive } from 'lucide-react';
+import { FileText, Zap, Shield, Database, Activity, RefreshCw, Server, Cloud, Cpu, Layers, HardDrive, Gauge } from 'lucide-react';
 import { ThreeDCard } from '../components/ThreeDCard';
 import { getFileStats, getDriveSyncStatus, getSystemLogs, getOcrCount } from '../services/driveService';
+import { usageService, UsageBreakdownRow } from '../services/usageService';
+import { authService } from '../services/authService';
+
+const USAGE_RANGES = { TODAY: 'Today', WEEK: '7 Days' } as const;
+type UsageRange = keyof typeof USAGE_RANGES;
+
+const usageSince = (range: UsageRange) =>
+    range === 'TODAY' ? usageService.startOfToday() : Date.now() - 7 * 24 * 60 * 60 * 1000;
 
 // Updated: Stats Log Interface
 interface DashboardStats {
@@ -27,6 +35,12 @@ export const Dashboard: React.FC = () => {
   const [logs, setLogs] = useState(getSystemLogs());
   const [ocrCount, setOcrCount] = useState(getOcrCount());
 
+  // Admins see everyone's AI usage; other users only their own
+  const currentUser = authService.getCurrentUser();
+  const usageUserId = currentUser?.role === 'ADMIN' ? undefined : currentUser?.id;
+  const [usageRange, setUsageRange] = useState<UsageRange>('TODAY');
+  const [usage, setUsage] = useState(usageService.summarize(usageSince('TODAY'), usageUserId));
+
   useEffect(() => {
     const interval = setInterval(() => {
         setSyncPulse(p => !p);
@@ -34,12 +48,21 @@ export const Dashboard: React.FC = () => {
         setLogs(getSystemLogs());
         setOcrCount(getOcrCount());
         setDriveStatus(getDriveSyncStatus());
+        setUsage(usageService.summarize(usageSince(usageRange), usageUserId));
     }, 2000);
     
-    loadLiveStats(false);
     return () => clearInterval(interval);
+  }, [usageRange]);
+
+  useEffect(() => {
+    loadLiveStats(false);
   }, []);
 
+  const changeUsageRange = (range: UsageRange) => {
+      setUsageRange(range);
+      setUsage(usageService.summarize(usageSince(range), usageUserId));
+  };
+
   const loadLiveStats = async (force = false) => {
       setLoadingStats(true);
       // Force status to syncing if forcing refresh
@@ -293,10 +316,85 @@ export const Dashboard: React.FC = () => {
           </div>
         </ThreeDCard>
       </div>
+
+      {/* AI Usage Breakdown */}
+      <ThreeDCard>
+        <div className="glass-panel rounded-2xl p-6 border border-white/10">
+          <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-6">
+            <h3 className="text-xl font-bold flex items-center text-white">
+              <Gauge className="w-5 h-5 mr-3 text-neonGreen" />
+              AI Usage {usageUserId ? '(You)' : '(All Users)'}
+            </h3>
+            <div className="flex space-x-2">
+              {(Object.keys(USAGE_RANGES) as UsageRange[]).map(r => (
+                <button
+                  key={r}
+                  onClick={() => changeUsageRange(r)}
+                  className={`px-3 py-1 text-xs rounded border transition-colors ${usageRange === r ? 'bg-neonBlue/20 text-neonBlue border-neonBlue/50' : 'border-white/10 text-gray-400 hover:bg-white/5'}`}
+                >
+                  {USAGE_RANGES[r]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {[
+              { label: 'Requests', value: usage.totals.requests.toLocaleString() },
+              { label: 'Input Tokens', value: usage.totals.inputTokens.toLocaleString() },
+              { label: 'Output Tokens', value: usage.totals.outputTokens.toLocaleString() },
+              { label: 'Est. Cost', value: formatUsd(usage.totals.estimatedCostUsd) }
+            ].map(t => (
+              <div key={t.label} className="p-4 rounded-xl bg-white/5 border border-white/5">
+                <p className="text-2xl font-bold text-white font-mono">{t.value}</p>
+                <p className="text-xs text-gray-500 uppercase tracking-wider mt-1">{t.label}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className={`grid grid-cols-1 ${usageUserId ? 'lg:grid-cols-2' : 'lg:grid-cols-3'} gap-6`}>
+            {!usageUserId && <UsageBreakdownTable title="By User" rows={usage.byUser} />}
+            <UsageBreakdownTable title="By Mode" rows={usage.byTask} />
+            <UsageBreakdownTable title="By Model" rows={usage.byModel} />
+          </div>
+        </div>
+      </ThreeDCard>
     </div>
   );
 };
 
+const formatUsd = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+const UsageBreakdownTable: React.FC<{ title: string; rows: UsageBreakdownRow[] }> = ({ title, rows }) => (
+  <div>
+    <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{title}</h4>
+    {rows.length === 0 ? (
+      <p className="text-xs text-gray-600 italic">No AI requests in this period.</p>
+    ) : (
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500 text-left border-b border-white/10">
+            <th className="py-1.5 font-medium"></th>
+            <th className="py-1.5 font-medium text-right">Req</th>
+            <th className="py-1.5 font-medium text-right">Tokens</th>
+            <th className="py-1.5 font-medium text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b border-white/5 text-gray-300">
+              <td className="py-1.5 truncate max-w-[140px]" title={row.label}>{row.label}</td>
+              <td className="py-1.5 text-right font-mono">{row.requests}</td>
+              <td className="py-1.5 text-right font-mono">{(row.inputTokens + row.outputTokens).toLocaleString()}</td>
+              <td className="py-1.5 text-right font-mono">{formatUsd(row.estimatedCostUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
 // Simple Loader Icon Component
 const LoaderIcon = () => (
   <svg className="animate-spin h-3 w-3 text-yellow-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -1,9 +1,14 @@
 
-import React, { useState, useEffect } from 'react';
-import { FileText, Download, CheckCircle, AlertTriangle, Mic, Plus, FolderPlus, Grid, List, UploadCloud, ScanLine, X, Copy, Cpu, Activity, Folder, ChevronRight, Home, Table, FileSpreadsheet } from 'lucide-react';
-import { fetchDriveFiles, createFolder, uploadFileToDrive } from '../services/driveService';
+import React, { useState, useEffect, useRef } from 'react';
+import { FileText, Download, CheckCircle, AlertTriangle, Mic, Plus, FolderPlus, Grid, List, UploadCloud, ScanLine, X, Copy, Cpu, Activity, Folder, ChevronRight, Home, Table, FileSpreadsheet, Square } from 'lucide-react';
+import { fetchDriveFiles, createFolder, uploadFileToDrive, findBestMatchingFile, loadFileContent } from '../services/driveService';
+import { isDocxFile, isSpreadsheetFile, readWorkbook, readWorkbookSheets } from '../services/fileExtraction';
+import { parseDocx, structuredDocumentToRows } from '../services/docxParser';
 import { performOCR, analyzeStructuredData } from '../services/geminiService';
-import { VoiceCommand, DriveFile } from '../types';
+import { isAbortError, toAiErrorInfo } from '../services/aiErrors';
+import { AiErrorNotice } from '../components/AiErrorNotice';
+import { ContextCoverageList } from '../components/ContextCoverageList';
+import { VoiceCommand, DriveFile, AiErrorInfo, ContextCoverage, PromptTemplateRef, AiResponseMeta, WorkbookSheet, SheetAnalysis } from '../types';
 
 declare global {
     interface Window {
@@ -14,6 +19,7 @@ declare global {
 interface DocAnalysisProps {
   voiceCommand?: VoiceCommand | null;
   onToggleVoice?: () => void;
+  onOpenSettings?: () => void;
 }
 
 interface AnalysisResult {
@@ -21,9 +27,15 @@ interface AnalysisResult {
     specs: { label: string; value: string }[];
     warnings: string[];
     recommendations?: string[];
+    sheets?: SheetAnalysis[]; // Workbooks with several sheets; the fields above are then the combined view
+    coverage?: ContextCoverage[];
+    promptTemplate?: PromptTemplateRef;
+    model?: string;
+    skippedModels?: string[];
+    cached?: boolean;
 }
 
-export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggleVoice }) => {
+export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggleVoice, onOpenSettings }) => {
   const [activeTab, setActiveTab] = useState<'analysis' | 'ocr'>('analysis');
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
   const [lastProcessedCommandId, setLastProcessedCommandId] = useState<string>('');
@@ -32,7 +44,8 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
   const [analyzing, setAnalyzing] = useState(false);
   
   // Real Analysis State
-  const [rawFileContent, setRawFileContent] = useState<any[]>([]); // JSON representation of Excel/CSV
+  const [sheets, setSheets] = useState<WorkbookSheet[]>([]); // Excel/CSV sheets, or the blocks of a Word document
+  const [activeSheet, setActiveSheet] = useState<string | null>(null); // null = combined workbook view
   const [currentFileName, setCurrentFileName] = useState<string>('');
   
   // Folder Navigation State
@@ -41,12 +54,18 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
 
   // Dynamic Extraction State
   const [extractionPreview, setExtractionPreview] = useState<AnalysisResult | null>(null);
+  const [analysisError, setAnalysisError] = useState<AiErrorInfo | null>(null);
 
   // OCR State
   const [ocrFile, setOcrFile] = useState<File | null>(null);
   const [ocrResult, setOcrResult] = useState('');
   const [isProcessingOcr, setIsProcessingOcr] = useState(false);
   const [ocrPreview, setOcrPreview] = useState<string | null>(null);
+  const [ocrCancelled, setOcrCancelled] = useState(false);
+  const [ocrError, setOcrError] = useState<AiErrorInfo | null>(null);
+  const [ocrMeta, setOcrMeta] = useState<AiResponseMeta | null>(null);
+  const [ocrBypassCache, setOcrBypassCache] = useState(false);
+  const ocrAbortRef = useRef<AbortController | null>(null);
 
   // Load files when folder changes
   useEffect(() => {
@@ -67,14 +86,16 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
           const file = e.target.files[0];
           setCurrentFileName(file.name);
           setExtractionPreview(null);
-          setRawFileContent([]);
+          setSheets([]);
 
-          if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls') || file.name.endsWith('.csv')) {
+          if (isSpreadsheetFile(file.name)) {
               readSpreadsheet(file);
+          } else if (/\.docx$/i.test(file.name)) {
+              readWordDocument(file);
           } else {
               // For other files, we just use metadata/simulated content for now in this demo
               // or handle via OCR tab
-              alert("For PDF/Images, please use the OCR Workbench tab. This uploader is optimized for Excel/CSV data analysis.");
+              alert("For PDF/Images, please use the OCR Workbench tab. This uploader is optimized for Excel/CSV and Word documents.");
           }
       }
   };
@@ -86,25 +107,12 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
               const bstr = evt.target?.result;
               if (window.XLSX) {
                   const wb = window.XLSX.read(bstr, { type: 'binary' });
-                  const wsname = wb.SheetNames[0];
-                  const ws = wb.Sheets[wsname];
-                  const data = window.XLSX.utils.sheet_to_json(ws, { header: 1 });
+                  // Every sheet with data, headers detected (title rows, merged group headers)
+                  const workbookSheets = readWorkbookSheets(wb);
                   
-                  // Convert array of arrays to array of objects for better processing
-                  if (data.length > 1) {
-                      const headers = data[0] as string[];
-                      const rows = data.slice(1) as any[][];
-                      const jsonData = rows.map(row => {
-                          const obj: any = {};
-                          headers.forEach((header, index) => {
-                              obj[header || `Column_${index + 1}`] = row[index] || '';
-                          });
-                          return obj;
-                      });
-                      setRawFileContent(jsonData);
-                      
+                  if (workbookSheets.length > 0) {
                       // Trigger Analysis immediately
-                      runAIAnalysis(jsonData, file.name);
+                      startAnalysis(workbookSheets, file.name);
                   } else {
                       alert("The Excel file appears to be empty or has no data rows.");
                   }
@@ -122,30 +130,119 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
       reader.readAsBinaryString(file);
   };
 
-  const runAIAnalysis = async (data: any[], fileName: string) => {
+  // Word documents are analysed block by block (headings, clauses, paragraphs, table rows) like spreadsheet rows
+  const analyzeWordDocument = async (base64: string, fileName: string) => {
+      try {
+          const rows = structuredDocumentToRows(await parseDocx(base64));
+          if (rows.length === 0) {
+              alert("The Word document appears to be empty.");
+              return;
+          }
+          startAnalysis([{ name: 'Document', headers: Object.keys(rows[0]), rows }], fileName);
+      } catch (error) {
+          console.error("Word reading error:", error);
+          alert("Error reading Word document. Please ensure it's a valid .docx file.");
+      }
+  };
+
+  const readWordDocument = (file: File) => {
+      const reader = new FileReader();
+      reader.onload = () => analyzeWordDocument((reader.result as string).split(',')[1], file.name);
+      reader.onerror = () => {
+          alert("Error reading file. Please try again.");
+      };
+      reader.readAsDataURL(file);
+  };
+
+  const startAnalysis = (loaded: WorkbookSheet[], fileName: string) => {
+      setActiveTab('analysis');
+      setCurrentFileName(fileName);
+      setExtractionPreview(null);
+      setSheets(loaded);
+      setActiveSheet(null);
+      runAIAnalysis(loaded, fileName);
+  };
+
+  const runAIAnalysis = async (data: WorkbookSheet[], fileName: string) => {
       setAnalyzing(true);
-      const dataStr = JSON.stringify(data.slice(0, 100)); // Send first 100 rows to AI for context
-      const result = await analyzeStructuredData(dataStr, fileName);
-      setExtractionPreview(result);
-      setAnalyzing(false);
+      setAnalysisError(null);
+      // One row per line so the context budget manager can chunk on row boundaries
+      const sheetData = data.map(sheet => ({
+          name: sheet.name,
+          data: [...(sheet.title ? [`Title: ${sheet.title}`] : []), ...sheet.rows.map(row => JSON.stringify(row))].join('\n')
+      }));
+      try {
+          const result = await analyzeStructuredData(sheetData, fileName);
+          setExtractionPreview(result);
+      } catch (error) {
+          setExtractionPreview(null);
+          setAnalysisError(toAiErrorInfo(error));
+      } finally {
+          setAnalyzing(false);
+      }
+  };
+
+  // Loads a Drive file picked by name (voice agent, Engineering chat tool step) into the matching workbench
+  const openKnownFile = async (fileName: string) => {
+      const match = findBestMatchingFile(fileName);
+      if (!match) return;
+      // Native Google Docs/Sheets are exported through the Drive backend first
+      let file: DriveFile;
+      try {
+          file = await loadFileContent(match);
+      } catch (error: any) {
+          alert(error.message);
+          return;
+      }
+      if (!file.fileData) {
+          alert(`${file.name} is only indexed, not loaded in this browser. Download it and import it here to analyze.`);
+          return;
+      }
+      if (isDocxFile(file)) {
+          analyzeWordDocument(file.fileData, file.name);
+      } else if (isSpreadsheetFile(file.name, file.mimeType)) {
+          try {
+              const workbookSheets = readWorkbook(file);
+              if (workbookSheets.length === 0) {
+                  alert("The Excel file appears to be empty or has no data rows.");
+                  return;
+              }
+              startAnalysis(workbookSheets, file.name);
+          } catch (error) {
+              console.error("Excel reading error:", error);
+              alert("Error reading Excel file. Please ensure it's a valid .xlsx or .xls file.");
+          }
+      } else if (/pdf|image/.test(file.mimeType)) {
+          const bytes = Uint8Array.from(atob(file.fileData), c => c.charCodeAt(0));
+          setActiveTab('ocr');
+          setOcrFile(new File([bytes], file.name, { type: file.mimeType }));
+          setOcrPreview(`data:${file.mimeType};base64,${file.fileData}`);
+          setOcrResult('');
+          setOcrError(null);
+          setOcrMeta(null);
+      } else {
+          alert(`${file.name} is not a spreadsheet, Word document or PDF/image, so Doc Analysis cannot process it.`);
+      }
   };
 
   // Handle Voice Commands
   useEffect(() => {
     if (voiceCommand && voiceCommand.id !== lastProcessedCommandId) {
       setLastProcessedCommandId(voiceCommand.id);
-      if (voiceCommand.type === 'START_ANALYSIS') {
-        if (rawFileContent.length > 0) {
+      if (voiceCommand.type === 'SELECT_FILE') {
+        openKnownFile(voiceCommand.payload);
+      } else if (voiceCommand.type === 'START_ANALYSIS') {
+        if (sheets.length > 0) {
              generateExcelReport();
         } else {
              alert("Please upload an Excel/CSV file first to analyze.");
         }
       }
     }
-  }, [voiceCommand, lastProcessedCommandId, files, rawFileContent]);
+  }, [voiceCommand, lastProcessedCommandId, files, sheets]);
 
   const generateExcelReport = () => {
-    if (!window.XLSX || !extractionPreview || rawFileContent.length === 0) return;
+    if (!window.XLSX || !extractionPreview || sheets.length === 0) return;
 
     // 1. Prepare Summary Sheet Data
     const summaryData = [
@@ -163,7 +260,14 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
         ...extractionPreview.warnings.map(w => ["⚠️ " + w]),
         [],
         ["RECOMMENDATIONS"],
-        ...(extractionPreview.recommendations || []).map(r => ["✅ " + r])
+        ...(extractionPreview.recommendations || []).map(r => ["✅ " + r]),
+        ...(extractionPreview.sheets || []).flatMap(sheet => [
+            [],
+            [`SHEET: ${sheet.sheet}`],
+            [sheet.summary],
+            ...(sheet.specs || []).map(s => [s.label, s.value]),
+            ...(sheet.warnings || []).map(w => ["⚠️ " + w])
+        ])
     ];
 
     // 2. Create Workbook
@@ -173,9 +277,14 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
     const wsSummary = window.XLSX.utils.aoa_to_sheet(summaryData);
     window.XLSX.utils.book_append_sheet(wb, wsSummary, "AI Analysis Report");
 
-    // 4. Add Raw Data Sheet
-    const wsRaw = window.XLSX.utils.json_to_sheet(rawFileContent);
-    window.XLSX.utils.book_append_sheet(wb, wsRaw, "Source Data");
+    // 4. Add Raw Data Sheets (one per source sheet; Excel limits sheet names to 31 characters)
+    const usedNames = new Set<string>();
+    sheets.forEach((sheet, i) => {
+        let name = sheets.length > 1 ? `Source - ${sheet.name}`.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) : "Source Data";
+        if (usedNames.has(name)) name = `${name.slice(0, 27)} (${i + 1})`;
+        usedNames.add(name);
+        window.XLSX.utils.book_append_sheet(wb, window.XLSX.utils.json_to_sheet(sheet.rows, { header: sheet.headers }), name);
+    });
 
     // 5. Save File
     window.XLSX.writeFile(wb, `KMRCL_Analysis_${currentFileName.split('.')[0]}_Report.xlsx`);
@@ -204,13 +313,19 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
 
   const runOcrExtraction = async () => {
       if (!ocrFile) return;
+      const controller = new AbortController();
+      ocrAbortRef.current = controller;
       setIsProcessingOcr(true);
+      setOcrCancelled(false);
+      setOcrError(null);
+      setOcrMeta(null);
       setOcrResult('');
       
       try {
           const reader = new FileReader();
           reader.onload = async () => {
               try {
+                  controller.signal.throwIfAborted();
                   const dataUrl = reader.result as string;
                   const base64 = dataUrl.split(',')[1];
                   
@@ -218,12 +333,21 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                       throw new Error("Failed to convert file to base64");
                   }
                   
-                  const text = await performOCR(base64, ocrFile.type, true);
+                  const text = await performOCR(base64, ocrFile.type, true, {
+                      signal: controller.signal,
+                      onResponseMeta: setOcrMeta,
+                      bypassCache: ocrBypassCache
+                  });
                   setOcrResult(text);
               } catch (error: any) {
+                  if (controller.signal.aborted || isAbortError(error)) {
+                      setOcrCancelled(true);
+                      return;
+                  }
                   console.error("OCR processing error:", error);
-                  setOcrResult(`OCR Error: ${error.message || 'Failed to process document'}`);
+                  setOcrError(toAiErrorInfo(error));
               } finally {
+                  if (ocrAbortRef.current === controller) ocrAbortRef.current = null;
                   setIsProcessingOcr(false);
               }
           };
@@ -241,6 +365,10 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
       }
   };
 
+  const stopOcrExtraction = () => {
+      ocrAbortRef.current?.abort();
+  };
+
   // Navigation Logic
   const enterFolder = (folder: DriveFile) => {
       setFolderStack(prev => [...prev, folder]);
@@ -266,6 +394,14 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
       setSelectedFiles(prev => prev.includes(id) ? prev.filter(f => f !== id) : [...prev, id]);
   };
 
+  // The sheet picker switches between the combined workbook view and one sheet's own analysis
+  const sheetAnalysis = activeSheet ? extractionPreview?.sheets?.find(s => s.sheet === activeSheet) : undefined;
+  const view = sheetAnalysis
+      ? { summary: sheetAnalysis.summary, specs: sheetAnalysis.specs || [], warnings: sheetAnalysis.warnings || [], recommendations: undefined }
+      : extractionPreview;
+  const previewSheet = sheets.find(s => s.name === activeSheet) || sheets[0];
+  const previewRows = previewSheet?.rows || [];
+
   return (
     <div className="h-full flex flex-col space-y-6">
       <div className="flex justify-between items-center">
@@ -314,10 +450,10 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                     <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-white/20 rounded-xl cursor-pointer bg-white/5 hover:bg-white/10 hover:border-neonBlue/50 transition-all group">
                         <div className="flex flex-col items-center justify-center pt-5 pb-6">
                             <UploadCloud className="w-8 h-8 mb-2 text-gray-400 group-hover:text-neonBlue" />
-                            <p className="mb-1 text-sm text-gray-400"><span className="font-semibold text-white">Click to analyze</span> Excel or CSV</p>
-                            <p className="text-xs text-gray-500">Supports .xlsx, .xls, .csv</p>
+                            <p className="mb-1 text-sm text-gray-400"><span className="font-semibold text-white">Click to analyze</span> Excel, CSV or Word</p>
+                            <p className="text-xs text-gray-500">Supports .xlsx, .xls, .csv, .docx</p>
                         </div>
-                        <input type="file" className="hidden" accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel" onChange={handleImportForAnalysis} />
+                        <input type="file" className="hidden" accept=".csv, .docx, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel" onChange={handleImportForAnalysis} />
                     </label>
                 </div>
 
@@ -371,6 +507,22 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                         )}
                     </div>
                 </div>
+
+                {sheets.length > 1 && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                        {[null, ...sheets.map(s => s.name)].map(name => (
+                            <button
+                                key={name ?? '__workbook'}
+                                onClick={() => setActiveSheet(name)}
+                                className={`px-3 py-1 rounded-lg text-xs font-bold border transition-colors ${activeSheet === name ? 'bg-neonBlue/20 text-neonBlue border-neonBlue/50' : 'bg-white/5 text-gray-400 border-white/10 hover:text-white'}`}
+                            >
+                                {name === null
+                                    ? `Workbook (${sheets.length} sheets)`
+                                    : <>{name} <span className="font-normal text-gray-500">({sheets.find(s => s.name === name)?.rows.length})</span></>}
+                            </button>
+                        ))}
+                    </div>
+                )}
                 
                 {analyzing ? (
                     <div className="h-64 flex flex-col items-center justify-center">
@@ -378,16 +530,30 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                         <h4 className="text-xl font-bold text-white mb-2">AI Processing</h4>
                         <p className="text-neonBlue animate-pulse text-sm">Identifying anomalies and calculating KPIs...</p>
                     </div>
-                ) : extractionPreview ? (
+                ) : analysisError ? (
+                    <AiErrorNotice error={analysisError} onRetry={() => runAIAnalysis(sheets, currentFileName)} onOpenSettings={onOpenSettings} />
+                ) : extractionPreview && view ? (
                     <div className="space-y-6 animate-fade-in">
                         
                         <div className="p-4 rounded-xl bg-black/20 border border-white/10">
-                            <h4 className="text-neonBlue font-mono text-sm mb-3 font-bold border-b border-white/10 pb-2">EXECUTIVE SUMMARY</h4>
-                            <p className="text-sm text-gray-300 leading-relaxed italic">"{extractionPreview.summary}"</p>
+                            <h4 className="text-neonBlue font-mono text-sm mb-3 font-bold border-b border-white/10 pb-2">
+                                {sheetAnalysis ? `SHEET SUMMARY: ${sheetAnalysis.sheet}` : sheets.length > 1 ? 'WORKBOOK SUMMARY' : 'EXECUTIVE SUMMARY'}
+                            </h4>
+                            {activeSheet && !sheetAnalysis && (
+                                <p className="text-xs text-yellow-400 mb-2">No separate analysis was returned for this sheet; showing the workbook view.</p>
+                            )}
+                            <p className="text-sm text-gray-300 leading-relaxed italic">"{view.summary}"</p>
+                            {extractionPreview.coverage && <ContextCoverageList coverage={extractionPreview.coverage} />}
+                            {extractionPreview.promptTemplate && (
+                                <p className="mt-2 text-[10px] text-gray-500 font-mono">
+                                    Template: {extractionPreview.promptTemplate.id} v{extractionPreview.promptTemplate.version}
+                                    {extractionPreview.model && ` · Model: ${extractionPreview.model}${extractionPreview.skippedModels?.length ? ' (fallback)' : ''}${extractionPreview.cached ? ' · cached' : ''}`}
+                                </p>
+                            )}
                         </div>
 
                         <div className="grid grid-cols-2 gap-4">
-                             {extractionPreview.specs.map((spec, i) => (
+                             {view.specs.map((spec, i) => (
                                  <div key={i} className="bg-white/5 p-3 rounded-lg border border-white/5">
                                      <span className="text-xs text-gray-500 block mb-1 uppercase tracking-wider">{spec.label}</span>
                                      <span className="text-lg font-bold text-white">{spec.value}</span>
@@ -395,14 +561,14 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                              ))}
                         </div>
 
-                        {extractionPreview.warnings && extractionPreview.warnings.length > 0 && (
+                        {view.warnings && view.warnings.length > 0 && (
                             <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20">
                                 <h4 className="text-red-400 font-mono text-sm mb-3 flex items-center font-bold">
                                     <AlertTriangle className="w-4 h-4 mr-2" />
                                     ANOMALIES DETECTED
                                 </h4>
                                 <ul className="space-y-2">
-                                    {extractionPreview.warnings.map((w, i) => (
+                                    {view.warnings.map((w, i) => (
                                         <li key={i} className="flex items-start text-sm text-gray-300">
                                             <span className="mr-2 text-red-500">•</span> {w}
                                         </li>
@@ -411,14 +577,14 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                             </div>
                         )}
 
-                        {extractionPreview.recommendations && extractionPreview.recommendations.length > 0 && (
+                        {view.recommendations && view.recommendations.length > 0 && (
                              <div className="p-4 rounded-xl bg-green-500/10 border border-green-500/20">
                                 <h4 className="text-green-400 font-mono text-sm mb-3 flex items-center font-bold">
                                     <CheckCircle className="w-4 h-4 mr-2" />
                                     AI RECOMMENDATIONS
                                 </h4>
                                 <ul className="space-y-2">
-                                    {extractionPreview.recommendations.map((r, i) => (
+                                    {view.recommendations.map((r, i) => (
                                         <li key={i} className="flex items-start text-sm text-gray-300">
                                             <span className="mr-2 text-green-500">→</span> {r}
                                         </li>
@@ -428,18 +594,18 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                         )}
                         
                         <div className="mt-6 pt-4 border-t border-white/10">
-                            <h4 className="text-xs text-gray-500 mb-2">Raw Data Preview</h4>
+                            <h4 className="text-xs text-gray-500 mb-2">Raw Data Preview{sheets.length > 1 && previewSheet ? ` · ${previewSheet.name}` : ''}</h4>
                             <div className="bg-black/40 rounded-lg p-2 overflow-x-auto">
                                 <table className="w-full text-left text-xs text-gray-400 whitespace-nowrap">
                                     <thead>
                                         <tr>
-                                            {rawFileContent.length > 0 && Object.keys(rawFileContent[0]).map(key => (
+                                            {previewSheet?.headers.map(key => (
                                                 <th key={key} className="p-2 border-b border-white/10">{key}</th>
                                             ))}
                                         </tr>
                                     </thead>
                                     <tbody>
-                                        {rawFileContent.slice(0, 5).map((row, idx) => (
+                                        {previewRows.slice(0, 5).map((row, idx) => (
                                             <tr key={idx} className="border-b border-white/5">
                                                 {Object.values(row).map((val: any, vIdx) => (
                                                     <td key={vIdx} className="p-2">{String(val)}</td>
@@ -448,7 +614,7 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                                         ))}
                                     </tbody>
                                 </table>
-                                {rawFileContent.length > 5 && <p className="text-center p-2 text-gray-600 italic">... {rawFileContent.length - 5} more rows ...</p>}
+                                {previewRows.length > 5 && <p className="text-center p-2 text-gray-600 italic">... {previewRows.length - 5} more rows ...</p>}
                             </div>
                         </div>
 
@@ -476,7 +642,7 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                                )}
                                <p className="text-white font-medium mb-1 truncate px-2">{ocrFile.name}</p>
                                <p className="text-xs text-gray-500 mb-4">{(ocrFile.size / 1024 / 1024).toFixed(2)} MB</p>
-                               <button onClick={() => {setOcrFile(null); setOcrPreview(null); setOcrResult('');}} className="absolute top-2 right-2 p-1 bg-red-500/20 text-red-400 rounded-full hover:bg-red-500/40"><X size={14}/></button>
+                               <button onClick={() => {setOcrFile(null); setOcrPreview(null); setOcrResult(''); setOcrCancelled(false); setOcrError(null);}} className="absolute top-2 right-2 p-1 bg-red-500/20 text-red-400 rounded-full hover:bg-red-500/40"><X size={14}/></button>
                            </div>
                        ) : (
                            <>
@@ -488,13 +654,32 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                        <input type="file" accept=".pdf,image/*" className="absolute inset-0 opacity-0 cursor-pointer" onChange={handleOcrUpload} disabled={!!ocrFile} />
                    </div>
 
-                   <button 
-                       onClick={runOcrExtraction}
-                       disabled={!ocrFile || isProcessingOcr}
-                       className="w-full mt-6 py-3 bg-neonPurple text-white font-bold rounded-xl shadow-lg shadow-purple-500/20 hover:bg-purple-600 transition-all flex items-center justify-center disabled:opacity-50"
-                   >
-                       {isProcessingOcr ? 'Scanning Document...' : 'Extract Text'}
-                   </button>
+                   <label className="mt-4 flex items-center space-x-2 cursor-pointer text-xs text-gray-400" title="Re-scan even if this exact file was extracted before">
+                       <input
+                           type="checkbox"
+                           checked={ocrBypassCache}
+                           onChange={(e) => setOcrBypassCache(e.target.checked)}
+                           className="form-checkbox h-3 w-3 text-neonPurple rounded bg-white/5 border-gray-600 focus:ring-offset-0 focus:ring-0"
+                       />
+                       <span>Bypass cache (force a fresh scan)</span>
+                   </label>
+
+                   {isProcessingOcr ? (
+                       <button 
+                           onClick={stopOcrExtraction}
+                           className="w-full mt-6 py-3 bg-red-500/20 text-red-400 border border-red-500/40 font-bold rounded-xl hover:bg-red-500/30 transition-all flex items-center justify-center"
+                       >
+                           <Square size={16} className="mr-2" fill="currentColor" /> Stop Scanning
+                       </button>
+                   ) : (
+                       <button 
+                           onClick={runOcrExtraction}
+                           disabled={!ocrFile}
+                           className="w-full mt-6 py-3 bg-neonPurple text-white font-bold rounded-xl shadow-lg shadow-purple-500/20 hover:bg-purple-600 transition-all flex items-center justify-center disabled:opacity-50"
+                       >
+                           Extract Text
+                       </button>
+                   )}
               </div>
 
               {/* OCR Result Viewer */}
@@ -505,6 +690,18 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                           <div className="w-16 h-16 border-4 border-neonPurple border-t-transparent rounded-full animate-spin mb-4"></div>
                           <p className="text-neonPurple animate-pulse">Analyzing visual data...</p>
                       </div>
+                  ) : ocrError ? (
+                      <div className="flex-1 flex flex-col items-center justify-center">
+                          <div className="w-full max-w-md">
+                              <AiErrorNotice error={ocrError} onRetry={runOcrExtraction} onOpenSettings={onOpenSettings} />
+                          </div>
+                      </div>
+                  ) : ocrCancelled ? (
+                      <div className="flex-1 flex flex-col items-center justify-center text-gray-500 border border-red-500/20 rounded-xl bg-black/20">
+                          <X className="w-12 h-12 mb-4 text-red-400 opacity-50" />
+                          <p className="text-red-400 font-bold">OCR cancelled</p>
+                          <p className="text-xs mt-1">Click Extract Text to scan the document again.</p>
+                      </div>
                   ) : ocrResult ? (
                       <div className="flex-1 relative">
                           <textarea 
@@ -519,6 +716,11 @@ export const DocAnalysis: React.FC<DocAnalysisProps> = ({ voiceCommand, onToggle
                           >
                               <Copy size={16} />
                           </button>
+                          {ocrMeta?.promptTemplates[0] && (
+                              <span className="absolute bottom-3 right-4 text-[10px] text-gray-500 font-mono">
+                                  Template: {ocrMeta.promptTemplates[0].id} v{ocrMeta.promptTemplates[0].version} · Model: {ocrMeta.model}{ocrMeta.skippedModels.length > 0 ? ' (fallback)' : ''}{ocrMeta.cached ? ' · cached' : ''}
+                              </span>
+                          )}
                       </div>
                   ) : (
                       <div className="flex-1 flex flex-col items-center justify-center text-gray-500 border border-white/5 rounded-xl bg-black/20">
@@ -1,35 +1,72 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
-import { Folder, Download, RefreshCw, UploadCloud, Search, Image, Table, FileText, AlertCircle, MessageSquare, Filter, Calendar, Hash, X, ChevronDown, ChevronUp, Trash2, Clock, Home, ChevronRight, FolderPlus, Database } from 'lucide-react';
-import { DriveFile, FilterState, User } from '../types';
-import { fetchDriveFiles, uploadFileToDrive, downloadFile, deleteFile, createFolder } from '../services/driveService';
+import { Folder, Download, RefreshCw, UploadCloud, Search, Image, Table, FileText, AlertCircle, MessageSquare, Filter, Calendar, Hash, X, ChevronDown, ChevronUp, Trash2, Clock, Home, ChevronRight, FolderPlus, Database, Bookmark, Pin, PinOff, Bell, BellOff, Mail, Copy, Loader2 } from 'lucide-react';
+import { DriveFile, DuplicateGroup, FilterState, SavedSearch, SearchClause, SearchResult, User } from '../types';
+import { fetchDriveFiles, uploadFileToDrive, downloadFile, deleteFile, createFolder, getAllKnownFiles, DriveBackendError } from '../services/driveService';
+import { searchFullText } from '../services/fullTextSearch';
+import { expandGlossaryTerms } from '../services/glossary';
+import { findDuplicateGroups, fingerprintFiles, NEAR_DUPLICATE_THRESHOLD } from '../services/duplicates';
+import { parseSearchQuery, formatSearchQuery, getSearchText, matchesSearchQuery, describeClause, isFilterClause, toFilterState, withFilterState } from '../services/searchQuery';
+import { getSavedSearches, createSavedSearch, updateSavedSearch, deleteSavedSearch, onSavedSearchesChanged } from '../services/savedSearches';
 import { ThreeDCard } from '../components/ThreeDCard';
 
+const SEARCH_DEBOUNCE_MS = 250;
+
+const CHIP_STYLES: Record<SearchClause['kind'], string> = {
+  TYPE: 'bg-neonBlue/10 border-neonBlue/30 text-neonBlue',
+  MODIFIED: 'bg-purple-500/10 border-purple-500/30 text-purple-400',
+  SIZE: 'bg-green-500/10 border-green-500/30 text-green-400',
+  TAG: 'bg-white/10 border-white/20 text-gray-300',
+  PHRASE: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400',
+  TERM: 'bg-red-500/10 border-red-500/30 text-red-400'
+};
+
+// Filters, phrases and exclusions get a chip; plain words only rank
+const isChipClause = (clause: SearchClause) => isFilterClause(clause) || clause.kind === 'PHRASE' || clause.negated;
+
+// Snippet text with the matched terms marked
+const HighlightedSnippet: React.FC<{ result: SearchResult }> = ({ result }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  (result.highlights || []).forEach(([start, end], i) => {
+    if (start > cursor) parts.push(result.snippet.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-neonBlue/20 text-neonBlue rounded px-0.5">{result.snippet.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(result.snippet.slice(cursor));
+  return <>{parts}</>;
+};
+
 interface DriveBrowserProps {
   onChatWithFile?: (file: DriveFile) => void;
   currentUser?: User;
+  // A search to run on arrival (voice agent, saved search); `id` changes for every new request
+  searchCommand?: { query: string; id: string } | null;
 }
 
-export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, currentUser }) => {
+export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, currentUser, searchCommand }) => {
   const [files, setFiles] = useState<DriveFile[]>([]);
   const [loading, setLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  // Content duplicates among the files in view (fingerprinted files only)
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([]);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [scanProgress, setScanProgress] = useState<{ done: number; total: number } | null>(null);
+  // Ranked full-text matches for searchQuery (null while there is no query or the search is running)
+  const [searchResults, setSearchResults] = useState<Map<string, SearchResult> | null>(null);
   
   // Folder Navigation State
   const [currentFolder, setCurrentFolder] = useState<DriveFile | null>(null); // null = root
   const [folderStack, setFolderStack] = useState<DriveFile[]>([]); // For breadcrumbs
 
-  // Advanced Filter State
+  // Advanced Filter State: the query text is the source of truth; the panel and chips edit its clauses
   const [showFilters, setShowFilters] = useState(false);
-  const [filters, setFilters] = useState<FilterState>({
-    type: 'ALL',
-    startDate: '',
-    endDate: '',
-    minSizeMB: 0,
-    tags: []
-  });
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const filters = useMemo(() => toFilterState(parsedQuery), [parsedQuery]);
+  const setFilters = (next: FilterState) => setSearchQuery(formatSearchQuery(withFilterState(parsedQuery, filters, next)));
 
   // Expanded card state for previews
   const [expandedFileId, setExpandedFileId] = useState<string | null>(null);
@@ -41,6 +78,46 @@ export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, curr
       loadRecentSearches();
   }, [currentFolder]); // Reload when folder changes
 
+  useEffect(() => {
+      if (searchCommand) {
+          setSearchQuery(searchCommand.query);
+          saveSearchToHistory(searchCommand.query);
+      }
+  }, [searchCommand?.id]);
+
+  useEffect(() => {
+      if (!currentUser) return;
+      const refresh = () => setSavedSearches(getSavedSearches(currentUser.id));
+      refresh();
+      return onSavedSearchesChanged(refresh);
+  }, [currentUser?.id]);
+
+  useEffect(() => {
+      let cancelled = false;
+      findDuplicateGroups(files)
+          .then(groups => { if (!cancelled) setDuplicateGroups(groups); })
+          .catch(e => console.warn("Duplicate detection unavailable", e));
+      return () => { cancelled = true; };
+  }, [files]);
+
+  // Non-canonical copy -> the file to keep
+  const duplicateOf = useMemo(() => new Map(duplicateGroups.flatMap(g =>
+      g.files.slice(1).map(f => [f.fileId, g.files[0].fileName] as [string, string])
+  )), [duplicateGroups]);
+
+  const handleScanDuplicates = async () => {
+      setScanProgress({ done: 0, total: files.length });
+      try {
+          await fingerprintFiles(files, { onProgress: (done, total) => setScanProgress({ done, total }) });
+          setDuplicateGroups(await findDuplicateGroups(files));
+      } catch (e) {
+          console.error("Duplicate scan failed", e);
+          alert(e instanceof DriveBackendError ? e.message : "The duplicate scan failed. Check the console for details.");
+      } finally {
+          setScanProgress(null);
+      }
+  };
+
   const loadFiles = async () => {
     setLoading(true);
     const folderId = currentFolder ? currentFolder.id : 'root';
@@ -49,6 +126,24 @@ export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, curr
     setLoading(false);
   };
 
+  // Ranked search over the files in view; term statistics come from every known file
+  useEffect(() => {
+      setSearchResults(null);
+      const { text, phrases, excluded } = getSearchText(parsedQuery);
+      if (!text) return;
+      let cancelled = false;
+      const timer = setTimeout(async () => {
+          const known = getAllKnownFiles();
+          const corpus = [...known, ...files.filter(f => !known.some(k => k.id === f.id))];
+          const results = await searchFullText(text, corpus, { fileIds: new Set(files.map(f => f.id)), phrases, excluded, expansions: expandGlossaryTerms(text) });
+          if (!cancelled) setSearchResults(new Map(results.map(r => [r.id, r])));
+      }, SEARCH_DEBOUNCE_MS);
+      return () => {
+          cancelled = true;
+          clearTimeout(timer);
+      };
+  }, [parsedQuery, files]);
+
   const loadRecentSearches = () => {
       try {
           const saved = localStorage.getItem('kmrcl_recent_searches');
@@ -75,6 +170,18 @@ export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, curr
       localStorage.removeItem('kmrcl_recent_searches');
   };
 
+  const handleSaveSearch = () => {
+      if (!currentUser || !searchQuery.trim()) return;
+      const name = prompt("Name this search (it is pinned to the sidebar and alerts you to new matching files):", searchQuery.trim());
+      if (name === null) return;
+      createSavedSearch(currentUser, name, searchQuery);
+      saveSearchToHistory(searchQuery);
+  };
+
+  const handleDeleteSavedSearch = (search: SavedSearch) => {
+      if (window.confirm(`Delete saved search "${search.name}" and its alerts?`)) deleteSavedSearch(search.id);
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setUploading(true);
@@ -118,16 +225,6 @@ export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, curr
       }
   };
 
-  // Helper to parse "2.4MB" to bytes for comparison
-  const parseFileSize = (sizeStr?: string): number => {
-    if (!sizeStr) return 0;
-    const num = parseFloat(sizeStr.replace(/[^\d.]/g, ''));
-    if (sizeStr.includes('KB')) return num * 1024;
-    if (sizeStr.includes('MB')) return num * 1024 * 1024;
-    if (sizeStr.includes('GB')) return num * 1024 * 1024 * 1024;
-    return num;
-  };
-
   const getFileIcon = (mime: string) => {
     if (mime.includes('folder')) return <Folder className="w-8 h-8 text-yellow-400 drop-shadow-lg" />;
     if (mime.includes('image')) return <Image className="w-8 h-8 text-purple-400 drop-shadow-lg" />;
@@ -143,74 +240,39 @@ export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, curr
   }, [files]);
 
   const toggleTagFilter = (tag: string) => {
-    setFilters(prev => ({
-        ...prev,
-        tags: prev.tags.includes(tag) 
-            ? prev.tags.filter(t => t !== tag)
-            : [...prev.tags, tag]
-    }));
+    setFilters({
+        ...filters,
+        tags: filters.tags.includes(tag) 
+            ? filters.tags.filter(t => t !== tag)
+            : [...filters.tags, tag]
+    });
   };
 
   const filteredFiles = useMemo(() => {
+    const searchText = getSearchText(parsedQuery).text.toLowerCase();
     return files.filter(file => {
-      // 1. Text Search
-      if (searchQuery) {
-          const lowerQ = searchQuery.toLowerCase();
-          if (!file.name.toLowerCase().includes(lowerQ) && !file.description?.toLowerCase().includes(lowerQ)) return false;
-      }
-
-      // 2. Type Filter
-      if (filters.type !== 'ALL') {
-         if (filters.type === 'FOLDER' && !file.mimeType.includes('folder')) return false;
-         if (filters.type === 'PDF' && !file.mimeType.includes('pdf')) return false;
-         if (filters.type === 'IMAGE' && !file.mimeType.includes('image')) return false;
-         if (filters.type === 'DOCS' && !file.mimeType.includes('document') && !file.mimeType.includes('sheet')) return false;
-      }
-
-      // 3. Date Range
-      if (filters.startDate || filters.endDate) {
-          // File date is in YYYY-MM-DD format (from standardized service)
-          const fileDate = new Date(file.modifiedTime || 0);
-          if (filters.startDate && fileDate < new Date(filters.startDate)) return false;
-          if (filters.endDate && fileDate > new Date(filters.endDate)) return false;
-      }
-
-      // 4. File Size (Min)
-      if (filters.minSizeMB > 0) {
-          const bytes = parseFileSize(file.size);
-          const minBytes = filters.minSizeMB * 1024 * 1024;
-          if (bytes < minBytes) return false;
-      }
-
-      // 5. Tags
-      if (filters.tags.length > 0) {
-          const fileTags = file.tags || [];
-          const hasTags = filters.tags.every(t => fileTags.includes(t));
-          if (hasTags === false) return false;
+      // 1. Text Search (folders by name; files by ranked full-text match once the search has run)
+      if (searchText) {
+          const nameMatch = file.name.toLowerCase().includes(searchText) || !!file.description?.toLowerCase().includes(searchText);
+          if (file.mimeType.includes('folder') || !searchResults) {
+              if (!nameMatch) return false;
+          } else if (!searchResults.has(file.id)) return false;
       }
 
-      return true;
-    });
-  }, [files, searchQuery, filters]);
+      // 2. Type, date, size and tag filters and exclusions from the query
+      return matchesSearchQuery(file, parsedQuery);
+    }).sort((a, b) => searchResults ? (searchResults.get(b.id)?.relevance ?? 2) - (searchResults.get(a.id)?.relevance ?? 2) : 0);
+  }, [files, parsedQuery, searchResults]);
 
   const resetFilters = () => {
-      setFilters({ type: 'ALL', startDate: '', endDate: '', minSizeMB: 0, tags: [] });
       setSearchQuery('');
   };
 
   // --- Active Filter Helpers ---
-  const hasActiveFilters = useMemo(() => {
-      return filters.type !== 'ALL' || 
-             filters.startDate !== '' || 
-             filters.endDate !== '' || 
-             filters.minSizeMB > 0 || 
-             filters.tags.length > 0;
-  }, [filters]);
-
-  const clearFilterType = () => setFilters(prev => ({ ...prev, type: 'ALL' }));
-  const clearFilterDate = () => setFilters(prev => ({ ...prev, startDate: '', endDate: '' }));
-  const clearFilterSize = () => setFilters(prev => ({ ...prev, minSizeMB: 0 }));
-  const removeTagFilter = (tag: string) => setFilters(prev => ({ ...prev, tags: prev.tags.filter(t => t !== tag) }));
+  const hasActiveFilters = useMemo(() => parsedQuery.clauses.some(isChipClause), [parsedQuery]);
+
+  const removeClause = (index: number) =>
+      setSearchQuery(formatSearchQuery({ ...parsedQuery, clauses: parsedQuery.clauses.filter((_, i) => i !== index) }));
 
   return (
     <div className="space-y-6 h-full flex flex-col">
@@ -225,6 +287,15 @@ export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, curr
              <button onClick={loadFiles} className="p-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors border border-white/10">
               <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
             </button>
+            <button
+              onClick={() => setShowDuplicates(!showDuplicates)}
+              className={`flex items-center px-3 py-2 rounded-lg border transition-colors ${showDuplicates ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-400' : 'bg-white/5 hover:bg-white/10 border-white/10 text-gray-300'}`}
+              title="Show duplicates"
+            >
+              <Copy className="w-5 h-5 mr-2" />
+              <span className="text-sm font-bold">Duplicates</span>
+              {duplicateGroups.length > 0 && <span className="ml-2 px-1.5 rounded-full bg-yellow-500/20 text-yellow-400 text-[10px] font-bold">{duplicateGroups.length}</span>}
+            </button>
             
             {isAdmin && (
                 <>
@@ -265,7 +336,7 @@ export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, curr
                 <Search className="w-5 h-5 text-gray-400 mr-3" />
                 <input 
                   type="text" 
-                  placeholder={`Search in ${currentFolder ? currentFolder.name : 'All Files'}...`}
+                  placeholder={`Search in ${currentFolder ? currentFolder.name : 'All Files'}... (e.g. type:pdf tag:Signaling modified:>2024-01-01 "track circuit" -draft)`}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   onKeyDown={(e) => e.key === 'Enter' && saveSearchToHistory(searchQuery)}
@@ -282,38 +353,35 @@ export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, curr
              {hasActiveFilters && <span className="ml-2 w-2 h-2 rounded-full bg-neonBlue animate-pulse"></span>}
              {showFilters ? <ChevronUp className="w-4 h-4 ml-2"/> : <ChevronDown className="w-4 h-4 ml-2"/>}
           </button>
+          {currentUser && (
+            <button
+              onClick={handleSaveSearch}
+              disabled={!searchQuery.trim()}
+              className="px-4 py-2 rounded-lg border flex items-center transition-all bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Save this search with its filters"
+            >
+               <Bookmark className="w-4 h-4 mr-2" />
+               Save Search
+            </button>
+          )}
         </div>
         
+        {parsedQuery.errors.length > 0 && (
+            <div className="flex items-center px-1 text-xs text-yellow-400">
+                <AlertCircle className="w-3 h-3 mr-2 shrink-0" />
+                {parsedQuery.errors.join(' · ')}
+            </div>
+        )}
+
         {/* Active Filter Chips */}
         {hasActiveFilters && (
             <div className="flex flex-wrap gap-2 items-center px-1 animate-fade-in">
                 <span className="text-xs text-gray-500 font-bold uppercase mr-2">Active:</span>
                 
-                {filters.type !== 'ALL' && (
-                    <div className="flex items-center px-2 py-1 rounded-md bg-neonBlue/10 border border-neonBlue/30 text-xs text-neonBlue">
-                        <span>Type: {filters.type}</span>
-                        <button onClick={clearFilterType} className="ml-2 hover:text-white"><X className="w-3 h-3"/></button>
-                    </div>
-                )}
-
-                {(filters.startDate || filters.endDate) && (
-                    <div className="flex items-center px-2 py-1 rounded-md bg-purple-500/10 border border-purple-500/30 text-xs text-purple-400">
-                        <span>Date: {filters.startDate || '...'} - {filters.endDate || '...'}</span>
-                        <button onClick={clearFilterDate} className="ml-2 hover:text-white"><X className="w-3 h-3"/></button>
-                    </div>
-                )}
-
-                {filters.minSizeMB > 0 && (
-                    <div className="flex items-center px-2 py-1 rounded-md bg-green-500/10 border border-green-500/30 text-xs text-green-400">
-                        <span>&gt; {filters.minSizeMB}MB</span>
-                        <button onClick={clearFilterSize} className="ml-2 hover:text-white"><X className="w-3 h-3"/></button>
-                    </div>
-                )}
-
-                {filters.tags.map(tag => (
-                    <div key={tag} className="flex items-center px-2 py-1 rounded-md bg-white/10 border border-white/20 text-xs text-gray-300">
-                        <span>#{tag}</span>
-                        <button onClick={() => removeTagFilter(tag)} className="ml-2 hover:text-white"><X className="w-3 h-3"/></button>
+                {parsedQuery.clauses.map((clause, i) => isChipClause(clause) && (
+                    <div key={i} className={`flex items-center px-2 py-1 rounded-md border text-xs ${clause.negated ? CHIP_STYLES.TERM : CHIP_STYLES[clause.kind]}`}>
+                        <span>{describeClause(clause)}</span>
+                        <button onClick={() => removeClause(i)} className="ml-2 hover:text-white"><X className="w-3 h-3"/></button>
                     </div>
                 ))}
 
@@ -337,6 +405,76 @@ export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, curr
             </div>
         )}
         
+        {savedSearches.length > 0 && (
+            <div className="flex items-center space-x-2 animate-fade-in px-1 overflow-x-auto pb-1 scrollbar-hide">
+                <span className="text-[10px] text-gray-500 uppercase tracking-wider font-bold whitespace-nowrap">Saved:</span>
+                <div className="flex gap-2">
+                    {savedSearches.map(search => (
+                        <div key={search.id} className={`flex items-center px-2 py-1 rounded-md text-xs border transition-all whitespace-nowrap ${searchQuery.trim() === search.query ? 'bg-neonBlue/10 border-neonBlue/40 text-neonBlue' : 'bg-white/5 border-white/5 text-gray-400'}`}>
+                            <button onClick={() => { setSearchQuery(search.query); saveSearchToHistory(search.query); }} className="flex items-center hover:text-white" title={search.query}>
+                                <Bookmark className="w-3 h-3 mr-1" />
+                                {search.name}
+                            </button>
+                            <button onClick={() => updateSavedSearch(search.id, { pinned: !search.pinned })} className="ml-2 text-gray-500 hover:text-white" title={search.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}>
+                                {search.pinned ? <Pin className="w-3 h-3" /> : <PinOff className="w-3 h-3" />}
+                            </button>
+                            <button onClick={() => updateSavedSearch(search.id, { alertsEnabled: !search.alertsEnabled })} className="ml-1 text-gray-500 hover:text-white" title={search.alertsEnabled ? 'Alerts on for new matching files' : 'Alerts off'}>
+                                {search.alertsEnabled ? <Bell className="w-3 h-3" /> : <BellOff className="w-3 h-3" />}
+                            </button>
+                            <button onClick={() => updateSavedSearch(search.id, { digest: !search.digest })} className={`ml-1 hover:text-white ${search.digest ? 'text-neonBlue' : 'text-gray-600'}`} title={search.digest ? 'New matches are added to the activity digest' : 'Add new matches to the activity digest'}>
+                                <Mail className="w-3 h-3" />
+                            </button>
+                            <button onClick={() => handleDeleteSavedSearch(search)} className="ml-1 text-gray-600 hover:text-red-400" title="Delete saved search"><X className="w-3 h-3"/></button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        {showDuplicates && (
+            <div className="glass-panel p-6 rounded-xl animate-fade-in border-t border-yellow-500/30">
+                <div className="flex justify-between items-center mb-3">
+                    <h4 className="text-sm font-bold text-white flex items-center"><Copy className="w-4 h-4 mr-2 text-yellow-400" /> Duplicates in {currentFolder ? currentFolder.name : 'this view'}</h4>
+                    <button onClick={handleScanDuplicates} disabled={!!scanProgress} className="flex items-center px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 text-xs font-bold disabled:opacity-50">
+                        {scanProgress ? <Loader2 className="w-3 h-3 mr-2 animate-spin" /> : <RefreshCw className="w-3 h-3 mr-2" />}
+                        {scanProgress ? `Reading ${scanProgress.done}/${scanProgress.total}...` : 'Scan Files'}
+                    </button>
+                </div>
+                <p className="text-[10px] text-gray-500 mb-3">
+                    Compared by extracted text, not name: exact copies have the same text; near copies share at least {Math.round(NEAR_DUPLICATE_THRESHOLD * 100)}% of it.
+                    Files are fingerprinted when the semantic index reads them or when you scan; files whose content cannot be read are not compared.
+                </p>
+                {duplicateGroups.length === 0 ? (
+                    <p className="text-xs text-gray-500 italic">No duplicates among the fingerprinted files here.</p>
+                ) : (
+                    <div className="space-y-3 max-h-80 overflow-y-auto custom-scrollbar">
+                        {duplicateGroups.map(group => (
+                            <div key={group.id} className="p-3 bg-black/30 border border-white/10 rounded-lg">
+                                <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border ${group.kind === 'EXACT' ? 'bg-red-500/10 border-red-500/30 text-red-400' : 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400'}`}>
+                                    {group.kind === 'EXACT' ? 'EXACT COPIES' : 'NEAR COPIES'}
+                                </span>
+                                <div className="mt-2 space-y-1">
+                                    {group.files.map((entry, i) => {
+                                        const file = files.find(f => f.id === entry.fileId);
+                                        return (
+                                            <div key={entry.fileId} className="flex items-center text-xs">
+                                                <span className={`w-12 text-[10px] font-mono ${i === 0 ? 'text-green-400' : 'text-gray-500'}`}>{i === 0 ? 'KEEP' : `${Math.round(entry.similarity * 100)}%`}</span>
+                                                <a href={file?.url || '#'} target="_blank" rel="noreferrer" className="flex-1 truncate text-gray-300 hover:text-neonBlue" title={entry.fileName}>{entry.fileName}</a>
+                                                <span className="ml-2 text-[10px] text-gray-600 font-mono">{file?.modifiedTime?.split('T')[0]}</span>
+                                                {isAdmin && i > 0 && file && (
+                                                    <button onClick={() => handleDelete(file)} className="ml-2 text-gray-600 hover:text-red-400" title="Delete this copy"><Trash2 className="w-3 h-3" /></button>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        )}
+
         {showFilters && (
             <div className="glass-panel p-6 rounded-xl animate-fade-in border-t border-neonBlue/30">
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
@@ -446,6 +584,11 @@ export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, curr
                     
                         <div className="relative z-10">
                             <h4 className="text-gray-100 font-medium truncate mb-1 group-hover:text-white transition-colors" title={file.name}>{file.name}</h4>
+                            {duplicateOf.has(file.id) && (
+                                <p className="text-[10px] text-yellow-400 truncate mb-1 flex items-center" title={`Same content as ${duplicateOf.get(file.id)}`}>
+                                    <Copy className="w-3 h-3 mr-1 shrink-0" /> Duplicate of {duplicateOf.get(file.id)}
+                                </p>
+                            )}
                             <div className="flex flex-wrap gap-1 mb-2">
                                 {file.tags?.map((tag, i) => (
                                     <span key={i} className="text-[10px] px-1.5 py-0.5 rounded bg-white/5 text-gray-500 group-hover:bg-neonBlue/10 group-hover:text-neonBlue transition-colors">{tag}</span>
@@ -453,6 +596,23 @@ export const DriveBrowser: React.FC<DriveBrowserProps> = ({ onChatWithFile, curr
                             </div>
                         </div>
 
+                        {/* SEARCH MATCH */}
+                        {searchResults?.get(file.id) && (() => {
+                            const result = searchResults.get(file.id)!;
+                            return (
+                                <div className="mb-2 p-2 rounded-lg bg-black/30 border border-white/5 text-[11px] leading-relaxed">
+                                    <div className="flex items-center justify-between mb-1 font-mono text-[10px] text-gray-500">
+                                        <span className="truncate">{[result.page ? `p.${result.page}` : '', result.section || ''].filter(Boolean).join(' · ') || 'match'}</span>
+                                        <span className="flex items-center ml-2" title="Relevance relative to the best match">
+                                            <span className="w-10 h-1 bg-white/10 rounded-full mr-1 overflow-hidden"><span className="block h-full bg-neonBlue" style={{ width: `${Math.round(result.relevance * 100)}%` }} /></span>
+                                            {Math.round(result.relevance * 100)}%
+                                        </span>
+                                    </div>
+                                    <p className="text-gray-400 break-words line-clamp-4"><HighlightedSnippet result={result} /></p>
+                                </div>
+                            );
+                        })()}
+
                         {/* PREVIEW SECTION */}
                         {isExpanded && (
                             <div className="mt-4 mb-2 rounded-lg bg-black/40 border border-white/10 overflow-hidden animate-fade-in flex items-center justify-center min-h-[150px]">
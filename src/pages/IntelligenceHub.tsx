@@ -1,20 +1,78 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Image as ImageIcon, Loader2, Bot, User as UserIcon, Cpu, Mic, Square, Paperclip, X, Headphones, FileText, Download, Zap, ExternalLink, Search as SearchIcon, Mail, Globe, Layers, Plus, Sparkles, Monitor, ArrowRight, ScanLine, Info, FileSignature, Printer, Lock } from 'lucide-react';
-import { generateEngineeringResponse, generateMetroDrawing, performOCR, generateGeneralResponse, generateEmailDraft, generateOfficialLetter, transcribeAudio } from '../services/geminiService';
-import { logActivityToSheet, searchDriveFiles, fetchDriveFiles } from '../services/driveService';
-import { ChatMessage, DriveFile, CircuitComponent, AiMode, LetterDraft, User } from '../types';
+import { Send, Image as ImageIcon, Loader2, Bot, User as UserIcon, Cpu, Mic, Square, Paperclip, X, Headphones, FileText, Download, Zap, ExternalLink, Search as SearchIcon, Mail, Globe, Layers, Plus, Sparkles, Monitor, ArrowRight, ScanLine, Info, FileSignature, Printer, Lock, RefreshCw, ShieldCheck } from 'lucide-react';
+import { generateEngineeringResponse, generateMetroDrawing, performOCR, generateGeneralResponse, generateEmailDraft, generateOfficialLetter, transcribeAudio, summarizeConversation } from '../services/geminiService';
+import { isAbortError, toAiErrorInfo } from '../services/aiErrors';
+import { AiErrorNotice } from '../components/AiErrorNotice';
+import { ContextCoverageList } from '../components/ContextCoverageList';
+import { CitedText } from '../components/CitedText';
+import { CitationSourceModal } from '../components/CitationSourceModal';
+import { ToolStepList } from '../components/ToolStepList';
+import { ConversationSummaryCard } from '../components/ConversationSummaryCard';
+import { logActivityToSheet, fetchDriveFiles } from '../services/driveService';
+import { readSelectedFiles, retrieveContext } from '../services/engineeringContext';
+import { refreshSemanticIndex } from '../services/semanticIndex';
+import { createEngineeringToolset } from '../services/chatTools';
+import { getLlmProvider } from '../services/llmProvider';
+import { getPrimaryModel } from '../services/modelRouter';
+import { estimateTokens } from '../services/contextBudget';
+import { isConversationTurn, selectTurnsToCompress, toTranscript, SUMMARY_MESSAGE_ID } from '../services/chatHistory';
+import { ChatMessage, DriveFile, CircuitComponent, AiMode, LetterDraft, User, ContextCoverage, ContextDocument, AiResponseMeta, Citation, ToolStep, GroundingAssessment, ConversationSummary } from '../types';
 import { ThreeDCard } from '../components/ThreeDCard';
 import { CircuitViewer } from '../components/CircuitViewer';
 import { EMAIL_TONES } from '../constants';
 import { authService } from '../services/authService';
 
+const COMPONENTS_START_TAG = '<<<COMPONENTS>>>';
+const COMPONENTS_END_TAG = '<<<END_COMPONENTS>>>';
+
+// Transient status bubbles shown while a request is in flight
+const THINKING_PLACEHOLDER_IDS = ['thinking', 'gen-img', 'ocr-proc', 'reading-files', 'searching', 'compacting'];
+
+// Splits the <<<COMPONENTS>>> JSON block out of a completed engineering response
+const extractCircuitComponents = (rawResponse: string): { text: string; components?: CircuitComponent[] } => {
+    if (!rawResponse.includes(COMPONENTS_START_TAG)) return { text: rawResponse };
+    try {
+        const parts = rawResponse.split(COMPONENTS_START_TAG);
+        const jsonStr = parts[1].split(COMPONENTS_END_TAG)[0].trim();
+        return {
+            text: parts[0] + "\n" + (parts[1].split(COMPONENTS_END_TAG)[1] || ''),
+            components: JSON.parse(jsonStr)
+        };
+    } catch (e) {
+        return { text: rawResponse };
+    }
+};
+
+// While streaming, hide half-received SVG and component JSON; they are parsed once the stream completes
+const getStreamingPreview = (content: string) => {
+    return content
+        .split(COMPONENTS_START_TAG)[0]
+        .replace(/<svg[\s\S]*?(<\/svg>|$)/g, '\n[Rendering schematic...]\n');
+};
+
 interface IntelligenceHubProps {
     preSelectedFile?: DriveFile | null;
     voiceEmailDraft?: {to: string, topic: string, keyPoints: string} | null;
     onDraftConsumed?: () => void;
+    onOpenSettings?: () => void;
+    onOpenDocAnalysis?: (fileName: string) => void;
+}
+
+type PendingAttachment = {
+    type: 'image' | 'audio' | 'pdf';
+    data: string; // base64
+    mimeType: string;
+    name: string;
+};
+
+// Enough of a chat turn to send it again from an error card's Retry button
+interface RetryableRequest {
+    input: string;
+    attachment: PendingAttachment | null;
+    userMsgId: string;
 }
 
-export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFile, voiceEmailDraft, onDraftConsumed }) => {
+export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFile, voiceEmailDraft, onDraftConsumed, onOpenSettings, onOpenDocAnalysis }) => {
   // Permission Logic
   const currentUser = authService.getCurrentUser();
   const isAdmin = currentUser?.role === 'ADMIN';
@@ -46,6 +104,12 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
   // OCR State
   const [enableOCR, setEnableOCR] = useState(false);
   const [ocrHighAccuracy, setOcrHighAccuracy] = useState(false);
+  // Ask the model again even when an identical question was answered before
+  const [bypassCache, setBypassCache] = useState(false);
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  // Grounded-only answers for this conversation; Admin can enforce it per user (see Settings > Users)
+  const groundedLocked = !isAdmin && !!perms?.groundedOnly;
+  const [groundedOnly, setGroundedOnly] = useState(groundedLocked);
   
   // File Context State
   const [contextFiles, setContextFiles] = useState<DriveFile[]>([]);
@@ -59,6 +123,7 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
   // Email State
   const [emailDraft, setEmailDraft] = useState({ to: '', subject: '', tone: 'Professional', keyPoints: '' });
   const [isDictating, setIsDictating] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
   
   // Letter State
   const [letterDraft, setLetterDraft] = useState<LetterDraft>({
@@ -78,17 +143,15 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
   // Resolution State
   const [resolution, setResolution] = useState<'STANDARD' | 'HD' | '4K'>('STANDARD');
 
-  const [pendingAttachment, setPendingAttachment] = useState<{
-    type: 'image' | 'audio' | 'pdf';
-    data: string; // base64
-    mimeType: string;
-    name: string;
-  } | null>(null);
+  const [pendingAttachment, setPendingAttachment] = useState<PendingAttachment | null>(null);
 
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const dictationRecorderRef = useRef<MediaRecorder | null>(null);
+  const transcriptionAbortRef = useRef<AbortController | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const failedRequestsRef = useRef<Record<string, RetryableRequest>>({});
 
   // Load available files for selector
   useEffect(() => {
@@ -97,6 +160,8 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
         const files = await fetchDriveFiles();
         setAvailableFiles(files);
         setIsLoadingFiles(false);
+        // Incremental: only new or changed files are embedded
+        refreshSemanticIndex().catch(e => console.warn("Semantic index refresh failed", e));
     };
     loadFiles();
   }, []);
@@ -171,7 +236,10 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
   };
 
   const toggleDictation = async () => {
-    if (isDictating) {
+    if (isTranscribing) {
+        // STOP the transcription call of the previous recording
+        transcriptionAbortRef.current?.abort();
+    } else if (isDictating) {
         // STOP Dictation
         dictationRecorderRef.current?.stop();
         setIsDictating(false);
@@ -195,7 +263,24 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
                 reader.onloadend = async () => {
                     const base64 = (reader.result as string).split(',')[1];
                     setVoiceToast("Processing clear voice notes...");
-                    const text = await transcribeAudio(base64, 'audio/webm');
+                    const controller = new AbortController();
+                    transcriptionAbortRef.current = controller;
+                    setIsTranscribing(true);
+                    let text = '';
+                    try {
+                        text = await transcribeAudio(base64, 'audio/webm', { signal: controller.signal });
+                    } catch (err) {
+                        if (controller.signal.aborted || isAbortError(err)) {
+                            setVoiceToast(null);
+                        } else {
+                            setVoiceToast(`Transcription failed: ${toAiErrorInfo(err).message}`);
+                            setTimeout(() => setVoiceToast(null), 4000);
+                        }
+                        return;
+                    } finally {
+                        if (transcriptionAbortRef.current === controller) transcriptionAbortRef.current = null;
+                        setIsTranscribing(false);
+                    }
                     
                     if (text) {
                         setEmailDraft(prev => ({
@@ -273,39 +358,47 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
       setInput(''); 
   };
 
-  // Helper to extract content from files for the AI
-  const extractFileContent = async (file: DriveFile): Promise<string> => {
-      // If no file data (mock file not uploaded), we can only provide metadata
-      if (!file.fileData) return `[File Metadata: ${file.name} - ${file.description || 'No Description'}]`;
-
-      // Handle Excel / CSV
-      if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls') || file.name.endsWith('.csv')) {
-          try {
-              if ((window as any).XLSX) {
-                  const wb = (window as any).XLSX.read(file.fileData, { type: 'base64' });
-                  const ws = wb.Sheets[wb.SheetNames[0]];
-                  const csv = (window as any).XLSX.utils.sheet_to_csv(ws);
-                  // Limit content to avoid token limits, take first 5000 chars or reasonable amount
-                  return `[FILE CONTENT: ${file.name}]\n${csv.substring(0, 15000)}\n[END FILE CONTENT]`;
-              }
-          } catch (e) {
-              console.error("Excel parse error", e);
-              return `[Error parsing Excel file: ${file.name}]`;
-          }
-      }
+  // Prior turns for the model; failed turns (and the turn being retried) are left out
+  const buildHistory = (turns: ChatMessage[], excludeId?: string) => turns
+      .filter(m => isConversationTurn(m) && m.id !== excludeId)
+      .map(m => ({ role: m.role, parts: [{ text: m.content }] }));
 
-      // Handle JSON
-      if (file.name.endsWith('.json')) {
-          try {
-             return `[FILE CONTENT: ${file.name}]\n${atob(file.fileData)}\n[END FILE CONTENT]`;
-          } catch (e) { return `[Error decoding JSON]`; }
-      }
+  // Folds older turns into the rolling summary message once the verbatim history outgrows its budget.
+  // Returns the messages to build history from and the summary to send with them.
+  const compactConversation = async (excludeId: string | undefined, signal: AbortSignal): Promise<{ turns: ChatMessage[]; summary?: string }> => {
+      const current = messages.find(m => m.id === SUMMARY_MESSAGE_ID)?.summary;
+      const toCompress = selectTurnsToCompress(messages.filter(m => m.id !== excludeId), getPrimaryModel(mode));
+      if (toCompress.length === 0) return { turns: messages, summary: current?.text };
 
-      // Fallback for others (Binary files that AI might not handle directly as text, handled via attachments usually)
-      return `[File Attached: ${file.name} (${file.mimeType})]`;
+      setMessages(prev => [...prev, { id: 'compacting', role: 'model', content: 'Condensing earlier conversation...', timestamp: Date.now(), isThinking: true }]);
+      try {
+          const text = await summarizeConversation(current?.text || '', toTranscript(toCompress), { signal });
+          const compressedIds = new Set(toCompress.map(m => m.id));
+          const summary: ConversationSummary = {
+              text,
+              compressedMessages: [...(current?.compressedMessages || []), ...toCompress],
+              tokensBefore: (current?.tokensBefore || 0) + toCompress.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+              tokensAfter: estimateTokens(text),
+              updatedAt: Date.now()
+          };
+          const summaryMsg: ChatMessage = { id: SUMMARY_MESSAGE_ID, role: 'system', content: '', timestamp: Date.now(), summary };
+          // The summary sits right after the welcome text, in place of the turns it replaced
+          const withSummary = (list: ChatMessage[]) => {
+              const rest = list.filter(m => m.id !== 'compacting' && m.id !== SUMMARY_MESSAGE_ID && !compressedIds.has(m.id));
+              return [...rest.filter(m => m.id === 'welcome'), summaryMsg, ...rest.filter(m => m.id !== 'welcome')];
+          };
+          setMessages(withSummary);
+          return { turns: withSummary(messages), summary: text };
+      } catch (error) {
+          if (signal.aborted || isAbortError(error)) throw error;
+          // Not fatal: the turn goes out with the full history instead
+          console.warn("Conversation summary failed; sending full history", error);
+          setMessages(prev => prev.filter(m => m.id !== 'compacting'));
+          return { turns: messages, summary: current?.text };
+      }
   };
 
-  const handleSend = async () => {
+  const handleSend = async (retry?: RetryableRequest) => {
     if (mode === 'EMAIL') {
         handleEmailGenerate(emailDraft.to, emailDraft.subject, emailDraft.keyPoints);
         return;
@@ -316,16 +409,34 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
         return;
     }
 
-    if ((!input.trim() && !pendingAttachment) || isProcessing) return;
-    const currentInput = input;
-    const currentAttachment = pendingAttachment;
+    const currentInput = retry ? retry.input : input;
+    const currentAttachment = retry ? retry.attachment : pendingAttachment;
+    if ((!currentInput.trim() && !currentAttachment) || isProcessing) return;
+    const botMsgId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+
+    // Replaces the thinking bubble with the model message and keeps it updated as tokens arrive
+    const streamIntoBotMessage = (textSoFar: string) => {
+        setMessages(prev => {
+            const withoutThinking = prev.filter(m => m.id !== 'thinking');
+            if (withoutThinking.some(m => m.id === botMsgId)) {
+                return withoutThinking.map(m => m.id === botMsgId ? { ...m, content: textSoFar } : m);
+            }
+            return [...withoutThinking, { id: botMsgId, role: 'model', content: textSoFar, timestamp: Date.now(), mode, resolution, isStreaming: true }];
+        });
+    };
 
-    setInput('');
-    setPendingAttachment(null);
+    if (!retry) {
+        setInput('');
+        setPendingAttachment(null);
+    }
     setIsProcessing(true);
 
+    // A retry re-uses the user message that is already on screen
     const userMsg: ChatMessage = {
-      id: Date.now().toString(),
+      id: retry ? retry.userMsgId : Date.now().toString(),
       role: 'user',
       content: currentInput || (currentAttachment ? `Uploaded ${currentAttachment.name}` : ''),
       timestamp: Date.now(),
@@ -333,21 +444,28 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
       mode: mode,
       resolution: resolution 
     };
-    setMessages(prev => [...prev, userMsg]);
+    if (!retry) setMessages(prev => [...prev, userMsg]);
     
     // Explicitly call the upgraded logger
     logActivityToSheet(mode === 'GENERAL' ? 'CHAT' : 'ANALYSIS', `[${mode}] Input: ${currentInput}`);
 
     try {
+      const { turns, summary: conversationSummary } = await compactConversation(retry?.userMsgId, signal);
       let responseText = '';
       let extractedComponents: CircuitComponent[] | undefined = undefined;
       let retrievedDocs: DriveFile[] | undefined = undefined;
+      let contextCoverage: ContextCoverage[] | undefined = undefined;
+      let responseMeta: AiResponseMeta | undefined = undefined;
+      let citations: Citation[] | undefined = undefined;
+      let toolSteps: ToolStep[] = [];
+      let grounding: GroundingAssessment | undefined = undefined;
+      const onResponseMeta = (meta: AiResponseMeta) => { responseMeta = meta; };
 
       // --- GENERAL AI MODE ---
       if (mode === 'GENERAL') {
           if (currentInput.toLowerCase().includes('visualize') || currentInput.toLowerCase().includes('drawing') || currentInput.toLowerCase().includes('design')) {
              setMessages(prev => [...prev, { id: 'gen-img', role: 'model', content: 'Generative Design Engine Active...', timestamp: Date.now(), isThinking: true }]);
-             const imgUrl = await generateMetroDrawing(currentInput);
+             const imgUrl = await generateMetroDrawing(currentInput, { signal });
              setMessages(prev => prev.filter(m => m.id !== 'gen-img'));
              
              if (imgUrl) {
@@ -359,137 +477,226 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
           }
           
           setMessages(prev => [...prev, { id: 'thinking', role: 'model', content: 'Consulting General Knowledge Base...', timestamp: Date.now(), isThinking: true }]);
-          const history = messages.filter(m => m.role !== 'system').map(m => ({ role: m.role, parts: [{ text: m.content }] }));
-          responseText = await generateGeneralResponse(currentInput, history);
+          const history = buildHistory(turns, retry?.userMsgId);
+          responseText = await generateGeneralResponse(currentInput, history, { signal, onPartial: streamIntoBotMessage, onResponseMeta, conversationSummary });
       } 
       
       // --- ENGINEERING RAG MODE ---
       else {
-          let contextData: string[] = [];
+          let contextData: ContextDocument[] = [];
           let contextSource: 'USER_SELECTION' | 'AUTO_SEARCH' = 'AUTO_SEARCH';
+          // With function calling the model can also search and read files itself, on top of the retrieved passages
+          const useTools = getLlmProvider().supportsTools;
 
           // 1. Prioritize User-Selected Files & Extract Content
           if (contextFiles.length > 0) {
               setMessages(prev => [...prev, { id: 'reading-files', role: 'model', content: 'Reading and parsing selected files...', timestamp: Date.now(), isThinking: true }]);
               
-              const fileContents = await Promise.all(contextFiles.map(f => extractFileContent(f)));
-              contextData = fileContents;
+              contextData = await readSelectedFiles(contextFiles, signal);
               contextSource = 'USER_SELECTION';
+              signal.throwIfAborted();
               
               setMessages(prev => prev.filter(m => m.id !== 'reading-files'));
           } 
-          // 2. Auto-Search Retrieval Fallback
+          // 2. Top-k passages for the question, whether or not the model can call tools
           else {
               setMessages(prev => [...prev, { id: 'searching', role: 'model', content: 'Searching KMRCL Secure Index...', timestamp: Date.now(), isThinking: true }]);
               
-              const results = await searchDriveFiles(currentInput);
+              const found = await retrieveContext(currentInput, signal);
               setMessages(prev => prev.filter(m => m.id !== 'searching'));
-              
-              if (results.length > 0) {
-                  retrievedDocs = results.slice(0, 3);
-                  // For auto-search, we might not have fileData loaded, so we send descriptions/links
-                  // Unless we fetch them. For now, we assume metadata level RAG for auto-search results.
-                  contextData = retrievedDocs.map(f => `File: ${f.name}\nDescription: ${f.description}\nLink: ${f.url}`);
-                  contextSource = 'AUTO_SEARCH';
-              } else if (['circuit', 'diagram', 'schematic', 'drawing', 'schematic'].some(kw => currentInput.toLowerCase().includes(kw))) {
-                  contextData.push("NO matching files were found in the index. Proceed to generate a synthetic diagram.");
-              }
+              contextData = found.documents;
+              if (found.files.length > 0) retrievedDocs = found.files;
           }
 
           setMessages(prev => [...prev, { id: 'thinking', role: 'model', content: 'Analyzing Engineering Data...', timestamp: Date.now(), isThinking: true }]);
           
-          const history = messages.filter(m => m.role !== 'system').map(m => ({ role: m.role, parts: [{ text: m.content }] }));
+          const history = buildHistory(turns, retry?.userMsgId);
           const attachmentPayload = currentAttachment ? { mimeType: currentAttachment.mimeType, data: currentAttachment.data } : null;
 
           if (currentAttachment && (currentAttachment.mimeType.includes('pdf') || currentAttachment.mimeType.includes('image'))) {
              if (enableOCR || currentInput.toLowerCase().includes('scan') || currentInput.toLowerCase().includes('extract')) {
                  setMessages(prev => [...prev, { id: 'ocr-proc', role: 'model', content: `Running Optical Character Recognition (${ocrHighAccuracy ? 'High Accuracy' : 'Fast'})...`, timestamp: Date.now(), isThinking: true }]);
-                 const ocrText = await performOCR(currentAttachment.data, currentAttachment.mimeType, ocrHighAccuracy);
+                 const ocrText = await performOCR(currentAttachment.data, currentAttachment.mimeType, ocrHighAccuracy, { signal, bypassCache });
                  setMessages(prev => prev.filter(m => m.id !== 'ocr-proc'));
-                 contextData.push(`OCR RESULT FROM ATTACHMENT:\n${ocrText}`);
+                 contextData.push({ name: `OCR: ${currentAttachment.name}`, content: `OCR RESULT FROM ATTACHMENT:\n${ocrText}` });
              }
           }
 
-          const rawResponse = await generateEngineeringResponse(currentInput, history, attachmentPayload, contextData, contextSource);
+          // Tool steps are shown on the bot message as they run, before any answer text arrives
+          const onToolStep = (step: ToolStep) => {
+              toolSteps = toolSteps.some(s => s.id === step.id) ? toolSteps.map(s => s.id === step.id ? step : s) : [...toolSteps, step];
+              const steps = toolSteps;
+              setMessages(prev => {
+                  const withoutThinking = prev.filter(m => m.id !== 'thinking');
+                  if (withoutThinking.some(m => m.id === botMsgId)) {
+                      return withoutThinking.map(m => m.id === botMsgId ? { ...m, toolSteps: steps } : m);
+                  }
+                  return [...withoutThinking, { id: botMsgId, role: 'model', content: '', timestamp: Date.now(), mode, resolution, isStreaming: true, toolSteps: steps }];
+              });
+          };
+          const toolset = useTools
+              ? createEngineeringToolset({
+                  signal,
+                  bypassCache,
+                  attachment: currentAttachment,
+                  onFilesUsed: (files) => {
+                      const known = retrievedDocs || [];
+                      retrievedDocs = [...known, ...files.filter(f => !known.some(k => k.id === f.id))];
+                  }
+              })
+              : undefined;
+
+          const rawResponse = await generateEngineeringResponse(currentInput, history, attachmentPayload, contextData, contextSource, {
+              signal,
+              tools: toolset,
+              onToolStep,
+              conversationSummary,
+              groundedOnly: groundedOnly || groundedLocked,
+              onGrounding: (assessment) => { grounding = assessment; },
+              onPartial: streamIntoBotMessage,
+              onContextCoverage: (coverage) => { contextCoverage = coverage; },
+              onResponseMeta,
+              onCitations: (found) => { citations = found; },
+              bypassCache
+          });
           
-          const startTag = '<<<COMPONENTS>>>';
-          const endTag = '<<<END_COMPONENTS>>>';
-          if (rawResponse.includes(startTag)) {
-             try {
-                const parts = rawResponse.split(startTag);
-                const jsonStr = parts[1].split(endTag)[0].trim();
-                extractedComponents = JSON.parse(jsonStr);
-                responseText = parts[0] + "\n" + (parts[1].split(endTag)[1] || '');
-             } catch (e) { 
-                 responseText = rawResponse; 
-             }
-          } else {
-             responseText = rawResponse;
-          }
+          const parsed = extractCircuitComponents(rawResponse);
+          responseText = parsed.text;
+          extractedComponents = parsed.components;
       }
 
-      setMessages(prev => prev.filter(m => m.id !== 'thinking'));
-      
       const botMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
+        id: botMsgId,
         role: 'model',
         content: responseText,
         timestamp: Date.now(),
         retrievedFiles: retrievedDocs,
+        citations,
+        grounding,
+        contextCoverage,
+        meta: responseMeta,
+        toolSteps: toolSteps.length > 0 ? toolSteps : undefined,
         circuitComponents: extractedComponents,
         mode: mode,
         resolution: resolution
       };
-      setMessages(prev => [...prev, botMsg]);
+      // Swap the streamed draft (if any) for the final parsed message
+      setMessages(prev => [...prev.filter(m => m.id !== 'thinking' && m.id !== botMsgId), botMsg]);
 
     } catch (error) {
-      console.error("Chat Error", error);
-      setMessages(prev => prev.filter(m => m.id !== 'thinking' && m.id !== 'gen-img' && m.id !== 'ocr-proc' && m.id !== 'reading-files'));
-      setMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', content: "System Error: Unable to process request. Please check API connection.", timestamp: Date.now() }]);
+      const cancelled = signal.aborted || isAbortError(error);
+      if (!cancelled) console.error("Chat Error", error);
+      setMessages(prev => {
+          const remaining = prev.filter(m => !THINKING_PLACEHOLDER_IDS.includes(m.id));
+          // Keep whatever was streamed before Stop, flagged as cancelled
+          if (remaining.some(m => m.id === botMsgId)) {
+              return remaining.map(m => m.id === botMsgId
+                  ? { ...m, isStreaming: false, isCancelled: cancelled, error: cancelled ? undefined : toAiErrorInfo(error) }
+                  : m);
+          }
+          return [...remaining, cancelled
+              ? { id: botMsgId, role: 'model', content: 'Generation stopped by user.', timestamp: Date.now(), isCancelled: true }
+              : { id: botMsgId, role: 'model', content: '', timestamp: Date.now(), error: toAiErrorInfo(error), mode }];
+      });
+      if (!cancelled) failedRequestsRef.current[botMsgId] = { input: currentInput, attachment: currentAttachment, userMsgId: userMsg.id };
     } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleRetry = (msg: ChatMessage) => {
+    if (isProcessing) return;
+    setMessages(prev => prev.filter(m => m.id !== msg.id));
+    if (msg.mode === 'EMAIL') {
+        handleEmailGenerate(emailDraft.to, emailDraft.subject, emailDraft.keyPoints);
+        return;
+    }
+    if (msg.mode === 'LETTER') {
+        handleLetterGenerate();
+        return;
+    }
+    const request = failedRequestsRef.current[msg.id];
+    delete failedRequestsRef.current[msg.id];
+    if (request) handleSend(request);
+  };
+
   const handleEmailGenerate = async (to: string, subject: string, keyPoints: string) => {
     if (!to || !keyPoints) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsProcessing(true);
     setMessages(prev => [...prev, { id: 'thinking', role: 'model', content: 'Drafting Professional Email with KPIs...', timestamp: Date.now(), isThinking: true }]);
     
-    const draft = await generateEmailDraft(to, subject, keyPoints, emailDraft.tone);
-    
-    setMessages(prev => prev.filter(m => m.id !== 'thinking'));
-    setMessages(prev => [...prev, { 
-        id: Date.now().toString(), 
-        role: 'model', 
-        content: draft, 
-        timestamp: Date.now(), 
-        mode: 'EMAIL' 
-    }]);
-    setIsProcessing(false);
+    try {
+        let meta: AiResponseMeta | undefined;
+        const draft = await generateEmailDraft(to, subject, keyPoints, emailDraft.tone, { signal: controller.signal, onResponseMeta: m => { meta = m; } });
+        setMessages(prev => [...prev.filter(m => m.id !== 'thinking'), { 
+            id: Date.now().toString(), 
+            role: 'model', 
+            content: draft, 
+            timestamp: Date.now(), 
+            mode: 'EMAIL',
+            meta
+        }]);
+    } catch (error) {
+        // Stop just drops the placeholder; the form still holds the inputs for another go
+        const cancelled = controller.signal.aborted || isAbortError(error);
+        setMessages(prev => cancelled
+            ? prev.filter(m => m.id !== 'thinking')
+            : [...prev.filter(m => m.id !== 'thinking'), { id: Date.now().toString(), role: 'model', content: '', timestamp: Date.now(), mode: 'EMAIL', error: toAiErrorInfo(error) }]);
+    } finally {
+        if (abortControllerRef.current === controller) abortControllerRef.current = null;
+        setIsProcessing(false);
+    }
   };
   
   const handleLetterGenerate = async () => {
     if (!letterDraft.recipient || !letterDraft.bodyPoints) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsProcessing(true);
     setMessages(prev => [...prev, { id: 'thinking', role: 'model', content: 'Drafting Official Letter...', timestamp: Date.now(), isThinking: true }]);
     
-    const draft = await generateOfficialLetter(letterDraft);
-    
-    setMessages(prev => prev.filter(m => m.id !== 'thinking'));
-    setMessages(prev => [...prev, { 
-        id: Date.now().toString(), 
-        role: 'model', 
-        content: draft, 
-        timestamp: Date.now(), 
-        mode: 'LETTER' 
-    }]);
-    setIsProcessing(false);
+    try {
+        let meta: AiResponseMeta | undefined;
+        const draft = await generateOfficialLetter(letterDraft, { signal: controller.signal, onResponseMeta: m => { meta = m; } });
+        setMessages(prev => [...prev.filter(m => m.id !== 'thinking'), { 
+            id: Date.now().toString(), 
+            role: 'model', 
+            content: draft, 
+            timestamp: Date.now(), 
+            mode: 'LETTER',
+            meta
+        }]);
+    } catch (error) {
+        const cancelled = controller.signal.aborted || isAbortError(error);
+        setMessages(prev => cancelled
+            ? prev.filter(m => m.id !== 'thinking')
+            : [...prev.filter(m => m.id !== 'thinking'), { id: Date.now().toString(), role: 'model', content: '', timestamp: Date.now(), mode: 'LETTER', error: toAiErrorInfo(error) }]);
+    } finally {
+        if (abortControllerRef.current === controller) abortControllerRef.current = null;
+        setIsProcessing(false);
+    }
   };
 
   const renderMessageContent = (msg: ChatMessage) => {
     // ... (existing renderer logic) ...
     const content = msg.content;
+
+    // Failed calls carry a typed error instead of content, so they never reach the SVG/component parsers
+    if (msg.error) {
+        return (
+            <>
+                {content && <p className="whitespace-pre-wrap break-words mb-3">{getStreamingPreview(content)}</p>}
+                <AiErrorNotice error={msg.error} onRetry={() => handleRetry(msg)} onOpenSettings={onOpenSettings} />
+            </>
+        );
+    }
     
     if (msg.mode === 'LETTER' && msg.role === 'model') {
         const isBeml = letterDraft.isBemlFormat;
@@ -558,6 +765,20 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
         );
     }
 
+    // A cancelled draft may end mid-SVG or mid-JSON, so show it the same way as a live stream
+    if (msg.isCancelled) {
+        return <p className="whitespace-pre-wrap break-words">{getStreamingPreview(content)}</p>;
+    }
+
+    if (msg.isStreaming) {
+        return (
+            <p className="whitespace-pre-wrap break-words">
+                {getStreamingPreview(content)}
+                <span className="inline-block w-2 h-4 ml-0.5 bg-neonPurple/80 animate-pulse align-middle"></span>
+            </p>
+        );
+    }
+
     if (content.includes('<svg') && content.includes('</svg>')) {
         const parts = content.split(/(<svg[\s\S]*?<\/svg>)/g);
         return parts.map((part, i) => {
@@ -571,15 +792,22 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
                     />
                 );
             }
-            return <p key={i} className="whitespace-pre-wrap break-words">{part}</p>;
+            return renderCitedText(msg, part, i);
         });
     }
-    return <p className="whitespace-pre-wrap break-words">{content}</p>;
+    return renderCitedText(msg, content);
   };
 
+  // Answers built from context files carry [doc:N #M] markers that open the cited passage
+  const renderCitedText = (msg: ChatMessage, text: string, key?: number) => msg.citations
+      ? <CitedText key={key} text={text} citations={msg.citations} onOpenCitation={setOpenCitation} />
+      : <p key={key} className="whitespace-pre-wrap break-words">{text}</p>;
+
   return (
     <div className="h-full flex flex-col gap-4 relative">
       
+      {openCitation && <CitationSourceModal citation={openCitation} onClose={() => setOpenCitation(null)} />}
+
       {voiceToast && (
           <div className="absolute top-16 left-1/2 transform -translate-x-1/2 z-50 flex items-center bg-neonBlue/10 border border-neonBlue/50 text-neonBlue px-4 py-2 rounded-full shadow-lg backdrop-blur-md animate-fade-in">
               <Mic size={16} className="mr-2 animate-pulse"/>
@@ -660,24 +888,37 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
                             <label className="text-xs text-gray-400">Key Points / Voice Dictation</label>
                             <button 
                                 onClick={toggleDictation}
-                                className={`flex items-center text-xs font-bold px-2 py-1 rounded-md transition-all ${isDictating ? 'bg-red-500/20 text-red-400 animate-pulse' : 'bg-white/10 text-gray-300 hover:text-white'}`}
+                                className={`flex items-center text-xs font-bold px-2 py-1 rounded-md transition-all ${isDictating || isTranscribing ? 'bg-red-500/20 text-red-400 animate-pulse' : 'bg-white/10 text-gray-300 hover:text-white'}`}
                             >
-                                <Mic size={12} className="mr-1"/>
-                                {isDictating ? 'STOP RECORDING' : 'DICTATE NOTES'}
+                                {isTranscribing ? <Square size={12} fill="currentColor" className="mr-1"/> : <Mic size={12} className="mr-1"/>}
+                                {isTranscribing ? 'STOP TRANSCRIBING' : isDictating ? 'STOP RECORDING' : 'DICTATE NOTES'}
                             </button>
                         </div>
                         <textarea value={emailDraft.keyPoints} onChange={e => setEmailDraft({...emailDraft, keyPoints: e.target.value})} className="w-full h-32 bg-black/40 border border-white/10 rounded-lg p-3 text-white focus:border-green-500/50 outline-none" placeholder="Dictate or type rough notes here. The AI will expand them into a full professional email with KPIs." />
                     </div>
 
-                    <button onClick={() => handleEmailGenerate(emailDraft.to, emailDraft.subject, emailDraft.keyPoints)} disabled={isProcessing} className="w-full py-3 bg-gradient-to-r from-green-500 to-emerald-600 text-black font-bold rounded-xl hover:shadow-[0_0_20px_rgba(34,197,94,0.3)] transition-all flex items-center justify-center">
-                        {isProcessing ? <Loader2 className="animate-spin mr-2"/> : <Sparkles className="mr-2"/>} Enhance & Generate Email
-                    </button>
+                    {isProcessing ? (
+                        <button onClick={handleStop} className="w-full py-3 bg-red-500/20 text-red-400 border border-red-500/40 font-bold rounded-xl hover:bg-red-500/30 transition-all flex items-center justify-center" title="Stop generating">
+                            <Loader2 className="animate-spin mr-2"/> Stop Drafting
+                        </button>
+                    ) : (
+                        <button onClick={() => handleEmailGenerate(emailDraft.to, emailDraft.subject, emailDraft.keyPoints)} className="w-full py-3 bg-gradient-to-r from-green-500 to-emerald-600 text-black font-bold rounded-xl hover:shadow-[0_0_20px_rgba(34,197,94,0.3)] transition-all flex items-center justify-center">
+                            <Sparkles className="mr-2"/> Enhance & Generate Email
+                        </button>
+                    )}
 
                     <div className="space-y-4 mt-8">
                         {messages.filter(m => m.mode === 'EMAIL' && m.role === 'model').map(msg => (
                             <div key={msg.id} className="bg-white/5 border border-white/10 p-4 rounded-xl relative group animate-fade-in">
-                                <pre className="whitespace-pre-wrap font-sans text-sm text-gray-300">{msg.content}</pre>
-                                <button onClick={() => navigator.clipboard.writeText(msg.content)} className="absolute top-2 right-2 p-2 bg-black/50 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity hover:text-green-400"><FileText size={14}/></button>
+                                {msg.error ? renderMessageContent(msg) : (
+                                    <>
+                                        <pre className="whitespace-pre-wrap font-sans text-sm text-gray-300">{msg.content}</pre>
+                                        <button onClick={() => navigator.clipboard.writeText(msg.content)} className="absolute top-2 right-2 p-2 bg-black/50 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity hover:text-green-400"><FileText size={14}/></button>
+                                    </>
+                                )}
+                                {msg.meta?.promptTemplates.map(t => (
+                                    <p key={t.id} className="mt-2 text-[10px] text-gray-500 font-mono">Template: {t.id} v{t.version} · Model: {msg.meta!.model}{msg.meta!.skippedModels.length > 0 ? ' (fallback)' : ''}</p>
+                                ))}
                             </div>
                         ))}
                     </div>
@@ -705,12 +946,16 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
 
                         <div className="space-y-1"><label className="text-[10px] text-gray-500 uppercase">CC</label><input value={letterDraft.cc} onChange={e => setLetterDraft({...letterDraft, cc: e.target.value})} className="w-full bg-black/40 border border-white/10 rounded p-2 text-xs text-white" /></div>
                         <div className="flex items-center space-x-2 pt-2 border-t border-white/10"><input type="checkbox" checked={letterDraft.isBemlFormat} onChange={e => setLetterDraft({...letterDraft, isBemlFormat: e.target.checked})} className="rounded bg-black/40 border-white/20 text-yellow-400 focus:ring-0"/><span className="text-xs text-gray-300">Use BEML Official Letterhead</span></div>
-                        <button onClick={handleLetterGenerate} disabled={isProcessing} className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 text-black font-bold rounded-xl transition-all shadow-lg shadow-yellow-500/20">{isProcessing ? <Loader2 className="animate-spin mx-auto"/> : 'GENERATE LETTER'}</button>
+                        {isProcessing ? (
+                            <button onClick={handleStop} className="w-full py-3 bg-red-500/20 text-red-400 border border-red-500/40 font-bold rounded-xl hover:bg-red-500/30 transition-all flex items-center justify-center" title="Stop generating"><Loader2 className="animate-spin mr-2"/> STOP</button>
+                        ) : (
+                            <button onClick={handleLetterGenerate} className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 text-black font-bold rounded-xl transition-all shadow-lg shadow-yellow-500/20">GENERATE LETTER</button>
+                        )}
                     </div>
 
                     <div className="flex-1 bg-gray-900 rounded-xl overflow-y-auto custom-scrollbar relative p-4 flex items-start justify-center">
                          {messages.filter(m => m.mode === 'LETTER' && m.role === 'model').length > 0 ? (
-                             <div className="w-full letter-preview">{messages.filter(m => m.mode === 'LETTER' && m.role === 'model').map(msg => (<div key={msg.id} className="mb-8">{renderMessageContent(msg)}</div>))}</div>
+                             <div className="w-full letter-preview">{messages.filter(m => m.mode === 'LETTER' && m.role === 'model').map(msg => (<div key={msg.id} className="mb-8">{renderMessageContent(msg)}{msg.meta?.promptTemplates.map(t => <p key={t.id} className="mt-2 text-[10px] text-gray-500 font-mono text-center print:hidden">Template: {t.id} v{t.version} · Model: {msg.meta!.model}{msg.meta!.skippedModels.length > 0 ? ' (fallback)' : ''}</p>)}</div>))}</div>
                          ) : (
                              <div className="text-center mt-20 text-gray-500"><FileSignature size={48} className="mx-auto mb-4 opacity-20"/><p>Fill the form and click generate to create an official letter.</p></div>
                          )}
@@ -720,7 +965,9 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
                 /* CHAT / RAG MODES */
                 <>
                 <div className="flex-1 overflow-y-auto space-y-6 pr-2 scrollbar-hide pb-20" ref={scrollRef}>
-                    {messages.filter(m => m.mode === undefined || m.mode === mode).map((msg) => (
+                    {messages.filter(m => m.mode === undefined || m.mode === mode).map((msg) => msg.summary ? (
+                    <ConversationSummaryCard key={msg.id} summary={msg.summary} />
+                    ) : (
                     <div key={msg.id} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'} animate-fade-in`}>
                         <div className={`max-w-[85%] rounded-2xl p-4 shadow-lg backdrop-blur-sm ${
                         msg.role === 'user' 
@@ -732,8 +979,41 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
                         <div className="flex items-center space-x-2 mb-2 opacity-70 text-xs font-mono font-bold">
                             {msg.role === 'user' ? <UserIcon size={12} /> : <Bot size={12} />}
                             <span>{msg.role.toUpperCase()}</span>
+                            {msg.isCancelled && <span className="px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 border border-red-500/30 text-[10px]">CANCELLED</span>}
+                            {msg.meta?.promptTemplates.map(t => (
+                                <span key={t.id} className="px-1.5 py-0.5 rounded bg-white/5 border border-white/10 text-[10px] text-gray-400" title="Prompt template version that produced this response">
+                                    {t.id} v{t.version}
+                                </span>
+                            ))}
+                            {msg.meta?.model && (
+                                <span
+                                    className={`px-1.5 py-0.5 rounded border text-[10px] ${msg.meta.skippedModels.length > 0 ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400' : 'bg-white/5 border-white/10 text-gray-400'}`}
+                                    title={msg.meta.skippedModels.length > 0 ? `Fallback: ${msg.meta.skippedModels.join(', ')} unavailable` : 'Model that served this response'}
+                                >
+                                    {msg.meta.model}{msg.meta.skippedModels.length > 0 ? ' (fallback)' : ''}
+                                </span>
+                            )}
+                            {msg.grounding?.status === 'UNGROUNDED' && (
+                                <span className="px-1.5 py-0.5 rounded bg-red-500/10 border border-red-500/40 text-red-400 text-[10px]" title={`Uses model knowledge: ${msg.grounding.reasons.join(' ')}`}>UNGROUNDED</span>
+                            )}
+                            {msg.grounding?.status === 'GROUNDED' && msg.grounding.strict && (
+                                <span className="px-1.5 py-0.5 rounded bg-green-500/10 border border-green-500/30 text-green-400 text-[10px]" title="Grounded-only mode: every statement cites a retrieved passage">GROUNDED</span>
+                            )}
+                            {msg.grounding?.status === 'REFUSED' && (
+                                <span className="px-1.5 py-0.5 rounded bg-yellow-500/10 border border-yellow-500/30 text-yellow-400 text-[10px]" title="The retrieved passages did not support an answer">NOT ANSWERED</span>
+                            )}
+                            {!!msg.meta?.redactedCount && (
+                                <span className="px-1.5 py-0.5 rounded bg-white/5 border border-white/10 text-gray-400 text-[10px]" title="Personal data masked before the request left the browser (see Settings > Privacy & Redaction)">PII MASKED ×{msg.meta.redactedCount}</span>
+                            )}
+                            {msg.meta?.cached && (
+                                <span className="px-1.5 py-0.5 rounded bg-neonBlue/10 border border-neonBlue/30 text-neonBlue text-[10px]" title="Answer replayed from the response cache">CACHED</span>
+                            )}
                         </div>
                         
+                        {msg.toolSteps && (
+                            <ToolStepList steps={msg.toolSteps} onAction={onOpenDocAnalysis ? (action) => onOpenDocAnalysis(action.fileName) : undefined} />
+                        )}
+
                         {msg.isThinking ? (
                             <div className="flex items-center space-x-2 text-neonBlue animate-pulse">
                             <Cpu size={16} />
@@ -759,6 +1039,22 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
                             </div>
                         )}
 
+                        {msg.citations && !msg.isStreaming && (msg.citations.length === 0 || msg.citations.some(c => !c.valid)) && (
+                            <p className="mt-3 text-[11px] text-yellow-400 bg-yellow-500/10 border border-yellow-500/30 rounded px-2 py-1">
+                                {msg.citations.length === 0
+                                    ? 'This answer cites no passages from the supplied context. Verify figures against the source files before acting on them.'
+                                    : `${msg.citations.filter(c => !c.valid).length} citation(s) do not match the supplied context and are struck through.`}
+                            </p>
+                        )}
+
+                        {msg.grounding && msg.grounding.withheldStatements > 0 && (
+                            <p className="mt-3 text-[11px] text-gray-400 bg-white/5 border border-white/10 rounded px-2 py-1">
+                                Grounded-only mode withheld {msg.grounding.withheldStatements} statement(s) that no retrieved passage supports.
+                            </p>
+                        )}
+
+                        {msg.contextCoverage && <ContextCoverageList coverage={msg.contextCoverage} />}
+
                         {msg.attachments && (
                             <div className="flex flex-col gap-2 mt-3">
                             {msg.attachments.map((src, idx) => src.startsWith('data:audio') 
@@ -876,6 +1172,29 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
                             </button>
                         )}
 
+                        {mode === 'ENGINEERING' && (
+                            <button
+                                onClick={() => setBypassCache(!bypassCache)}
+                                className={`p-3 rounded-xl transition-all ${bypassCache ? 'bg-yellow-500/20 text-yellow-400' : 'bg-white/5 text-gray-400'}`}
+                                title={bypassCache ? 'Bypass cache ON: every question goes to the model' : 'Bypass cache OFF: repeated questions about the same files reuse the saved answer'}
+                            >
+                                <RefreshCw size={20} />
+                            </button>
+                        )}
+
+                        {mode === 'ENGINEERING' && (
+                            <button
+                                onClick={() => !groundedLocked && setGroundedOnly(!groundedOnly)}
+                                disabled={groundedLocked}
+                                className={`p-3 rounded-xl transition-all ${groundedOnly || groundedLocked ? 'bg-green-500/20 text-green-400' : 'bg-white/5 text-gray-400'} ${groundedLocked ? 'cursor-not-allowed' : ''}`}
+                                title={groundedLocked
+                                    ? 'Grounded-only mode is enforced for your account'
+                                    : groundedOnly ? 'Grounded-only ON: answers use retrieved passages only, or are refused' : 'Grounded-only OFF: the model may fill gaps from its own knowledge (flagged UNGROUNDED)'}
+                            >
+                                <ShieldCheck size={20} />
+                            </button>
+                        )}
+
                         {(input.trim() || contextFiles.length > 0) && (
                             <button onClick={switchToEmailDraft} className="p-3 rounded-xl bg-green-500/10 hover:bg-green-500/20 text-green-400 border border-green-500/30 transition-all flex items-center" title="Draft Email">
                                 <Mail size={20} />
@@ -909,9 +1228,15 @@ export const IntelligenceHub: React.FC<IntelligenceHubProps> = ({ preSelectedFil
                             </div>
                         </div>
 
-                        <button onClick={handleSend} disabled={isProcessing || isRecording || (!input.trim() && !pendingAttachment)} className={`p-3 rounded-xl transition-all transform hover:scale-110 shadow-lg ${isProcessing ? 'bg-gray-700' : 'bg-gradient-to-r from-neonBlue to-blue-600 text-white shadow-blue-500/20'}`}>
-                            {isProcessing ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} />}
-                        </button>
+                        {isProcessing ? (
+                            <button onClick={handleStop} className="p-3 rounded-xl transition-all transform hover:scale-110 shadow-lg bg-red-500/20 text-red-400 border border-red-500/40 hover:bg-red-500/30" title="Stop generating">
+                                <Square size={20} fill="currentColor" />
+                            </button>
+                        ) : (
+                            <button onClick={() => handleSend()} disabled={isRecording || (!input.trim() && !pendingAttachment)} className="p-3 rounded-xl transition-all transform hover:scale-110 shadow-lg bg-gradient-to-r from-neonBlue to-blue-600 text-white shadow-blue-500/20">
+                                <Send size={20} />
+                            </button>
+                        )}
                     </div>
                 </div>
                 </>
@@ -1,18 +1,31 @@
 
 import React, { useState, useEffect } from 'react';
-import { Settings as SettingsIcon, Database, Server, Cpu, Activity, Globe, Save, RefreshCw, Users, Check, X, Shield, Lock, AlertCircle, Edit, Key, HardDrive } from 'lucide-react';
+import { Settings as SettingsIcon, Database, Server, Cpu, Activity, Globe, Save, RefreshCw, Users, Check, X, Shield, Lock, AlertCircle, Edit, Key, HardDrive, FileCode, Gauge, EyeOff, ClipboardCheck, BookOpen } from 'lucide-react';
 import { ThreeDCard } from '../components/ThreeDCard';
+import { PromptTemplateManager } from '../components/PromptTemplateManager';
+import { UsageQuotaEditor } from '../components/UsageQuotaEditor';
+import { ResponseCacheSettings } from '../components/ResponseCacheSettings';
+import { SemanticIndexSettings } from '../components/SemanticIndexSettings';
+import { VectorStoreSettings } from '../components/VectorStoreSettings';
+import { RedactionSettings } from '../components/RedactionSettings';
+import { EvaluationPanel } from '../components/EvaluationPanel';
+import { GlossarySettings } from '../components/GlossarySettings';
 import { authService } from '../services/authService';
-import { User, UserPermissions } from '../types';
+import { User, UserPermissions, LlmProviderConfig, LlmProviderId, ModelChainConfig, ModelCircuitState, ModelRouteId } from '../types';
 import { resetAiClient } from '../services/geminiService';
+import { getModelChains, saveModelChains, getCircuitStates, resetCircuits, MODEL_ROUTE_LABELS } from '../services/modelRouter';
+import { getLlmConfig, saveLlmConfig, getAvailableLlmProviders } from '../services/llmProvider';
 import { GOOGLE_SCRIPT_URL } from '../constants';
 
 interface SettingsProps {
     currentUser?: User;
 }
 
+const toChainDrafts = (chains: ModelChainConfig) =>
+    Object.fromEntries(Object.entries(chains).map(([route, models]) => [route, models.join(', ')])) as Record<ModelRouteId, string>;
+
 export const Settings: React.FC<SettingsProps> = ({ currentUser }) => {
-  const [activeTab, setActiveTab] = useState<'general' | 'infrastructure' | 'system' | 'users' | 'security'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'infrastructure' | 'system' | 'users' | 'security' | 'prompts' | 'quotas' | 'privacy' | 'evaluation' | 'glossary'>('general');
   const [loading, setLoading] = useState(false);
   const [allUsers, setAllUsers] = useState<User[]>([]);
   
@@ -22,6 +35,10 @@ export const Settings: React.FC<SettingsProps> = ({ currentUser }) => {
   // Dynamic Config State
   const [customApiKey, setCustomApiKey] = useState('');
   const [customScriptUrl, setCustomScriptUrl] = useState('');
+  const [llmConfig, setLlmConfig] = useState<LlmProviderConfig>(getLlmConfig());
+  // Fallback chains are edited as comma-separated text and parsed on save
+  const [modelChainDrafts, setModelChainDrafts] = useState<Record<ModelRouteId, string>>(toChainDrafts(getModelChains()));
+  const [circuitStates, setCircuitStates] = useState<ModelCircuitState[]>([]);
 
   // Permission Management Modal
   const [editingUser, setEditingUser] = useState<User | null>(null);
@@ -41,11 +58,14 @@ export const Settings: React.FC<SettingsProps> = ({ currentUser }) => {
         // Load Custom Configs
         setCustomApiKey(localStorage.getItem('kmrcl_custom_api_key') || '');
         setCustomScriptUrl(localStorage.getItem('kmrcl_script_url') || GOOGLE_SCRIPT_URL);
+        setLlmConfig(getLlmConfig());
+        setModelChainDrafts(toChainDrafts(getModelChains()));
+        setCircuitStates(getCircuitStates());
     }
   }, [isAdmin, activeTab]);
 
   useEffect(() => {
-    if (activeTab === 'users' && isAdmin) {
+    if ((activeTab === 'users' || activeTab === 'quotas') && isAdmin) {
         setAllUsers(authService.getAllUsers());
     }
   }, [activeTab, isAdmin]);
@@ -63,6 +83,16 @@ export const Settings: React.FC<SettingsProps> = ({ currentUser }) => {
         localStorage.setItem('kmrcl_script_url', customScriptUrl);
     }
 
+    if (isAdmin) {
+        saveLlmConfig(llmConfig);
+        const chains = Object.fromEntries(
+            (Object.keys(modelChainDrafts) as ModelRouteId[]).map(route => [route, modelChainDrafts[route].split(',')])
+        ) as ModelChainConfig;
+        saveModelChains(chains);
+        setModelChainDrafts(toChainDrafts(getModelChains()));
+        setCircuitStates([]);
+    }
+
     setTimeout(() => {
         setLoading(false);
         alert("Settings Saved & Config Pushed to System.");
@@ -171,6 +201,61 @@ export const Settings: React.FC<SettingsProps> = ({ currentUser }) => {
                     <Shield className="w-4 h-4 mr-2" />
                     Security & API
                 </button>
+                <button
+                    onClick={() => setActiveTab('prompts')}
+                    className={`flex items-center px-4 py-2 rounded-t-lg transition-all whitespace-nowrap ${
+                        activeTab === 'prompts' 
+                        ? 'bg-white/10 text-white border-b-2 border-neonBlue' 
+                        : 'text-gray-400 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                    <FileCode className="w-4 h-4 mr-2" />
+                    Prompt Templates
+                </button>
+                <button
+                    onClick={() => setActiveTab('quotas')}
+                    className={`flex items-center px-4 py-2 rounded-t-lg transition-all whitespace-nowrap ${
+                        activeTab === 'quotas' 
+                        ? 'bg-white/10 text-white border-b-2 border-neonBlue' 
+                        : 'text-gray-400 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                    <Gauge className="w-4 h-4 mr-2" />
+                    Usage Quotas
+                </button>
+                <button
+                    onClick={() => setActiveTab('privacy')}
+                    className={`flex items-center px-4 py-2 rounded-t-lg transition-all whitespace-nowrap ${
+                        activeTab === 'privacy' 
+                        ? 'bg-white/10 text-white border-b-2 border-neonBlue' 
+                        : 'text-gray-400 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                    <EyeOff className="w-4 h-4 mr-2" />
+                    Privacy & Redaction
+                </button>
+                <button
+                    onClick={() => setActiveTab('evaluation')}
+                    className={`flex items-center px-4 py-2 rounded-t-lg transition-all whitespace-nowrap ${
+                        activeTab === 'evaluation' 
+                        ? 'bg-white/10 text-white border-b-2 border-neonBlue' 
+                        : 'text-gray-400 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                    <ClipboardCheck className="w-4 h-4 mr-2" />
+                    Evaluation
+                </button>
+                <button
+                    onClick={() => setActiveTab('glossary')}
+                    className={`flex items-center px-4 py-2 rounded-t-lg transition-all whitespace-nowrap ${
+                        activeTab === 'glossary' 
+                        ? 'bg-white/10 text-white border-b-2 border-neonBlue' 
+                        : 'text-gray-400 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                    <BookOpen className="w-4 h-4 mr-2" />
+                    Glossary
+                </button>
             </>
         )}
       </div>
@@ -240,14 +325,21 @@ export const Settings: React.FC<SettingsProps> = ({ currentUser }) => {
             </div>
         )}
 
-        {/* ... (Infrastructure and System tabs remain same) ... */}
         {activeTab === 'infrastructure' && (
              <div className="space-y-6">
-                 {/* ... Infrastructure content ... */}
-                 <div className="p-6 text-center text-gray-500 border border-white/10 rounded-xl">Infrastructure settings loaded from cluster.</div>
+                 {isAdmin
+                     ? <VectorStoreSettings />
+                     : <div className="p-6 text-center text-gray-500 border border-white/10 rounded-xl">Infrastructure settings are managed by administrators.</div>}
              </div>
         )}
 
+        {activeTab === 'system' && isAdmin && (
+            <div className="space-y-6">
+                <ResponseCacheSettings />
+                <SemanticIndexSettings />
+            </div>
+        )}
+
         {activeTab === 'security' && isAdmin && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <ThreeDCard>
@@ -315,9 +407,155 @@ export const Settings: React.FC<SettingsProps> = ({ currentUser }) => {
                         </div>
                     </div>
                 </ThreeDCard>
+
+                <ThreeDCard className="md:col-span-2">
+                    <div className="glass-panel p-6 rounded-2xl h-full">
+                        <h3 className="text-xl font-bold mb-4 flex items-center text-neonPurple">
+                            <Cpu className="mr-2" />
+                            AI Model Provider
+                        </h3>
+                        <div className="bg-white/5 border border-white/10 rounded-xl p-6 space-y-4">
+                            <div>
+                                <label className="text-sm font-bold text-gray-300 block mb-2">Active Provider</label>
+                                <select
+                                    value={llmConfig.provider}
+                                    onChange={(e) => setLlmConfig({...llmConfig, provider: e.target.value as LlmProviderId})}
+                                    className="w-full bg-black/40 border border-white/10 rounded-lg p-3 text-white focus:border-neonPurple outline-none"
+                                >
+                                    {getAvailableLlmProviders().map(p => (
+                                        <option key={p.id} value={p.id}>{p.label}</option>
+                                    ))}
+                                </select>
+                                <p className="text-[10px] text-gray-500 mt-1">Use a local model on secure network segments without Google access, or the offline stub for deterministic testing. Voice Agent requires Gemini.</p>
+                            </div>
+
+                            {llmConfig.provider === 'GEMINI' && (
+                                <div className="space-y-3 animate-fade-in">
+                                    <div>
+                                        <label className="text-sm font-bold text-gray-300 block">Model Fallback Chains</label>
+                                        <p className="text-[10px] text-gray-500 mt-1">Comma-separated, in order of preference. A model that fails 3 times in a row is skipped for 60 seconds.</p>
+                                    </div>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        {(Object.keys(MODEL_ROUTE_LABELS) as ModelRouteId[]).map(route => (
+                                            <div key={route}>
+                                                <label className="text-xs font-bold text-gray-400 block mb-1">{MODEL_ROUTE_LABELS[route]}</label>
+                                                <input
+                                                    type="text"
+                                                    value={modelChainDrafts[route]}
+                                                    onChange={(e) => setModelChainDrafts({...modelChainDrafts, [route]: e.target.value})}
+                                                    className="w-full bg-black/40 border border-white/10 rounded-lg p-3 text-white focus:border-neonPurple outline-none font-mono text-xs"
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                    {circuitStates.length > 0 && (
+                                        <div className="p-3 rounded-lg bg-black/30 border border-white/10 text-xs">
+                                            <div className="flex justify-between items-center mb-2">
+                                                <span className="font-bold text-gray-300">Model Health (this session)</span>
+                                                <button
+                                                    onClick={() => { resetCircuits(); setCircuitStates([]); }}
+                                                    className="text-[10px] text-neonBlue hover:text-white underline"
+                                                >
+                                                    Reset
+                                                </button>
+                                            </div>
+                                            {circuitStates.map(c => (
+                                                <div key={c.model} className="flex justify-between font-mono text-gray-400">
+                                                    <span>{c.model}</span>
+                                                    <span className={c.openUntil && c.openUntil > Date.now() ? 'text-red-400' : 'text-yellow-400'}>
+                                                        {c.openUntil && c.openUntil > Date.now()
+                                                            ? `SKIPPED until ${new Date(c.openUntil).toLocaleTimeString()}`
+                                                            : `${c.failures} recent failure${c.failures === 1 ? '' : 's'}`}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {llmConfig.provider === 'OPENAI_COMPATIBLE' && (
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 animate-fade-in">
+                                    <div>
+                                        <label className="text-sm font-bold text-gray-300 block mb-2">Endpoint Base URL</label>
+                                        <input
+                                            type="text"
+                                            value={llmConfig.baseUrl}
+                                            onChange={(e) => setLlmConfig({...llmConfig, baseUrl: e.target.value})}
+                                            className="w-full bg-black/40 border border-white/10 rounded-lg p-3 text-white focus:border-neonPurple outline-none font-mono text-xs"
+                                            placeholder="http://localhost:11434/v1"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-sm font-bold text-gray-300 block mb-2">Model Name</label>
+                                        <input
+                                            type="text"
+                                            value={llmConfig.model}
+                                            onChange={(e) => setLlmConfig({...llmConfig, model: e.target.value})}
+                                            className="w-full bg-black/40 border border-white/10 rounded-lg p-3 text-white focus:border-neonPurple outline-none font-mono text-xs"
+                                            placeholder="llama3.1"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-sm font-bold text-gray-300 block mb-2">API Key (Optional)</label>
+                                        <input
+                                            type="password"
+                                            value={llmConfig.apiKey}
+                                            onChange={(e) => setLlmConfig({...llmConfig, apiKey: e.target.value})}
+                                            className="w-full bg-black/40 border border-white/10 rounded-lg p-3 text-white focus:border-neonPurple outline-none font-mono text-xs"
+                                            placeholder="Bearer token"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-sm font-bold text-gray-300 block mb-2">Context Window (tokens)</label>
+                                        <input
+                                            type="number"
+                                            min={2048}
+                                            step={1024}
+                                            value={llmConfig.contextWindow}
+                                            onChange={(e) => setLlmConfig({...llmConfig, contextWindow: parseInt(e.target.value) || 0})}
+                                            className="w-full bg-black/40 border border-white/10 rounded-lg p-3 text-white focus:border-neonPurple outline-none font-mono text-xs"
+                                            placeholder="8192"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-sm font-bold text-gray-300 block mb-2">Embedding Model (Semantic Index)</label>
+                                        <input
+                                            type="text"
+                                            value={llmConfig.embeddingModel}
+                                            onChange={(e) => setLlmConfig({...llmConfig, embeddingModel: e.target.value})}
+                                            className="w-full bg-black/40 border border-white/10 rounded-lg p-3 text-white focus:border-neonPurple outline-none font-mono text-xs"
+                                            placeholder="nomic-embed-text (empty: built-in keyword vectors)"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </ThreeDCard>
             </div>
         )}
 
+        {activeTab === 'prompts' && isAdmin && (
+            <PromptTemplateManager authorName={currentUser?.name || 'Admin'} />
+        )}
+
+        {activeTab === 'quotas' && isAdmin && (
+            <UsageQuotaEditor users={allUsers} />
+        )}
+
+        {activeTab === 'privacy' && isAdmin && (
+            <RedactionSettings />
+        )}
+
+        {activeTab === 'evaluation' && isAdmin && (
+            <EvaluationPanel />
+        )}
+
+        {activeTab === 'glossary' && isAdmin && (
+            <GlossarySettings />
+        )}
+
         {activeTab === 'users' && isAdmin && (
             <ThreeDCard className="h-full">
                 <div className="glass-panel p-6 rounded-2xl h-full">
@@ -466,6 +704,10 @@ export const Settings: React.FC<SettingsProps> = ({ currentUser }) => {
                                   <span className="text-xs text-gray-300">Official Letter</span>
                               </label>
                           </div>
+                          <label className="flex items-center space-x-2 cursor-pointer mt-3 pt-3 border-t border-white/10">
+                              <input type="checkbox" checked={!!tempPermissions.intelligenceHub.groundedOnly} onChange={e => setTempPermissions({...tempPermissions, intelligenceHub: {...tempPermissions.intelligenceHub, groundedOnly: e.target.checked}})} className="form-checkbox bg-black border-white/20 text-green-400 rounded"/>
+                              <span className="text-xs text-gray-300">Enforce grounded-only Engineering answers (no model knowledge)</span>
+                          </label>
                       </div>
                   </div>
 
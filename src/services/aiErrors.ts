@@ -0,0 +1,133 @@
+import { AiErrorInfo, AiErrorKind } from "../types";
+
+// --- Typed AI Errors ---
+// Every AI service function rejects with one of these so the UI can branch on `kind`
+// instead of matching message text.
+
+export class AiError extends Error {
+    readonly kind: AiErrorKind;
+    readonly retryable: boolean;
+    // How long the provider asked us to wait before retrying (HTTP Retry-After), when it said
+    retryAfterMs?: number;
+
+    constructor(kind: AiErrorKind, message: string, retryable: boolean, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'AiError';
+        this.kind = kind;
+        this.retryable = retryable;
+    }
+
+    toInfo(): AiErrorInfo {
+        return { kind: this.kind, message: this.message };
+    }
+}
+
+export class MissingApiKeyError extends AiError {
+    constructor(message = "AI provider is not configured. An Admin must add an API key in Settings.", cause?: unknown) {
+        super('MISSING_KEY', message, false, cause);
+        this.name = 'MissingApiKeyError';
+    }
+}
+
+export class QuotaExceededError extends AiError {
+    constructor(message = "AI quota or rate limit exceeded. Please wait a moment and retry.", cause?: unknown) {
+        super('QUOTA', message, true, cause);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+// Our own per-user daily quota (Settings > Usage Quotas), not the provider's rate limit
+export class UsageLimitExceededError extends AiError {
+    constructor(message = "Your daily AI usage limit has been reached.", cause?: unknown) {
+        super('USAGE_LIMIT', message, false, cause);
+        this.name = 'UsageLimitExceededError';
+    }
+}
+
+export class SafetyBlockedError extends AiError {
+    constructor(message = "The request was blocked by the model's safety filters.", cause?: unknown) {
+        super('SAFETY', message, false, cause);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+export class InvalidInputError extends AiError {
+    constructor(message = "The model rejected the input. Check the file format or shorten the request.", cause?: unknown) {
+        super('INVALID_INPUT', message, false, cause);
+        this.name = 'InvalidInputError';
+    }
+}
+
+// The model name is retired, misspelt or not enabled for this key; another model in the chain may still work
+export class ModelUnavailableError extends AiError {
+    constructor(message = "The requested AI model is not available.", cause?: unknown) {
+        super('MODEL_UNAVAILABLE', message, true, cause);
+        this.name = 'ModelUnavailableError';
+    }
+}
+
+export class AiNetworkError extends AiError {
+    constructor(message = "Could not reach the AI service. Check your connection and retry.", cause?: unknown) {
+        super('NETWORK', message, true, cause);
+        this.name = 'AiNetworkError';
+    }
+}
+
+export class AiTimeoutError extends AiError {
+    constructor(message = "The AI service took too long to respond.", cause?: unknown) {
+        super('TIMEOUT', message, true, cause);
+        this.name = 'AiTimeoutError';
+    }
+}
+
+// Cancellation surfaces as an AbortError; callers rethrow it instead of turning it into an answer
+export const isAbortError = (e: any) => e?.name === 'AbortError' || e?.message?.includes('aborted');
+
+// Status / message -> the typed hierarchy
+const classifyError = (e: any): AiError => {
+    const message: string = e?.message || String(e);
+    const status: number | undefined = e?.status ?? e?.code;
+
+    if (/API[_ ]?KEY|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message) || status === 401 || status === 403) {
+        return new MissingApiKeyError(undefined, e);
+    }
+    if (/QUOTA|RESOURCE_EXHAUSTED|rate limit/i.test(message) || status === 429) {
+        return new QuotaExceededError(undefined, e);
+    }
+    if (/SAFETY|BLOCKED|PROHIBITED_CONTENT/i.test(message)) {
+        return new SafetyBlockedError(undefined, e);
+    }
+    if (/NOT_FOUND|is not found for API version|not supported for generateContent/i.test(message) || status === 404) {
+        return new ModelUnavailableError(undefined, e);
+    }
+    if (/INVALID_ARGUMENT|unsupported mime|payload size/i.test(message) || status === 400) {
+        return new InvalidInputError(undefined, e);
+    }
+    if (/DEADLINE_EXCEEDED|timed? ?out/i.test(message) || e?.name === 'TimeoutError' || status === 504) {
+        return new AiTimeoutError(undefined, e);
+    }
+    if (/Failed to fetch|NetworkError|ECONNREFUSED|UNAVAILABLE|overloaded/i.test(message) || e instanceof TypeError || (typeof status === 'number' && status >= 500)) {
+        return new AiNetworkError(undefined, e);
+    }
+    return new AiError('UNKNOWN', message || "Unknown AI service error.", false, e);
+};
+
+// Failures that every following request would hit too (configuration, quotas, an unreachable provider), as
+// opposed to ones caused by the particular input. Loops over many inputs stop on these instead of skipping ahead.
+const SYSTEMIC_KINDS: AiErrorKind[] = ['MISSING_KEY', 'QUOTA', 'USAGE_LIMIT', 'MODEL_UNAVAILABLE', 'NETWORK'];
+export const isSystemicAiError = (e: any) => e instanceof AiError && SYSTEMIC_KINDS.includes(e.kind);
+
+// Maps SDK / fetch failures onto the typed hierarchy. Abort errors are returned untouched.
+// HTTP failures should carry `status` (and `retryAfterMs` when the server sent Retry-After).
+export const toAiError = (e: any): AiError | Error => {
+    if (e instanceof AiError || isAbortError(e)) return e;
+    const aiError = classifyError(e);
+    if (typeof e?.retryAfterMs === 'number') aiError.retryAfterMs = e.retryAfterMs;
+    return aiError;
+};
+
+// For UI catch blocks: anything thrown by an AI call -> displayable info
+export const toAiErrorInfo = (e: any): AiErrorInfo => {
+    const aiError = toAiError(e);
+    return aiError instanceof AiError ? aiError.toInfo() : { kind: 'UNKNOWN', message: aiError.message };
+};
@@ -14,7 +14,8 @@ const DEFAULT_USER_PERMISSIONS: UserPermissions = {
         metroRag: false,
         general: false,
         email: false,
-        letter: false
+        letter: false,
+        groundedOnly: false
     }
 };
 
@@ -26,7 +27,8 @@ const FULL_ADMIN_PERMISSIONS: UserPermissions = {
         metroRag: true,
         general: true,
         email: true,
-        letter: true
+        letter: true,
+        groundedOnly: false
     }
 };
 
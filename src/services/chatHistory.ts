@@ -0,0 +1,31 @@
+import { estimateTokens, getContextWindow } from "./contextBudget";
+import { ChatMessage } from "../types";
+
+// The latest exchanges always reach the model verbatim
+const KEEP_RECENT_MESSAGES = 6;
+// Verbatim history above this is condensed; small local models get a share of their window instead
+const MAX_HISTORY_TOKENS = 8000;
+const HISTORY_WINDOW_SHARE = 0.25;
+
+export const SUMMARY_TARGET_TOKENS = 800;
+export const SUMMARY_MESSAGE_ID = 'conversation-summary';
+
+// Turns the model should see: no welcome/system text, error cards, thinking bubbles, stopped responses or the summary itself
+export const isConversationTurn = (m: ChatMessage) =>
+    m.role !== 'system' && !m.error && !m.isThinking && !m.isCancelled && !m.summary && !!m.content.trim();
+
+export const getHistoryTokenLimit = (model: string) =>
+    Math.min(MAX_HISTORY_TOKENS, Math.floor(getContextWindow(model) * HISTORY_WINDOW_SHARE));
+
+// Older turns to fold into the summary now, or [] while the verbatim history still fits
+export const selectTurnsToCompress = (messages: ChatMessage[], model: string): ChatMessage[] => {
+    const turns = messages.filter(isConversationTurn);
+    if (turns.length <= KEEP_RECENT_MESSAGES) return [];
+    const total = turns.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    if (total <= getHistoryTokenLimit(model)) return [];
+    return turns.slice(0, turns.length - KEEP_RECENT_MESSAGES);
+};
+
+// Plain transcript handed to the summariser
+export const toTranscript = (turns: ChatMessage[]) =>
+    turns.map(m => `${m.role === 'user' ? 'USER' : 'ASSISTANT'}${m.mode ? ` [${m.mode}]` : ''}: ${m.content}`).join('\n\n');
@@ -0,0 +1,300 @@
+import { getAllKnownFiles, loadFileContent, searchDriveFiles } from "./driveService";
+import { extractFileContent, isPdfFile, isSpreadsheetFile, readSpreadsheetRows } from "./fileExtraction";
+import { chunkText, estimateTokens } from "./contextBudget";
+import { performOCR } from "./geminiService";
+import { LlmProvider } from "./llmProvider";
+import { searchSemanticIndex, toChunkDocuments } from "./semanticIndex";
+import { ChatToolset, DriveFile, LlmFunctionCall, LlmToolDeclaration, ToolExecutionResult } from "../types";
+
+const MAX_SEARCH_RESULTS = 8;
+const MAX_PASSAGE_RESULTS = 8;
+// One read_file call should not crowd out the rest of the conversation; the model can OCR or aggregate instead
+const MAX_READ_TOKENS = 12000;
+const MAX_AGGREGATE_GROUPS = 50;
+const ATTACHMENT_ID = 'attachment';
+
+const AGGREGATE_OPERATIONS = ['sum', 'average', 'min', 'max', 'count', 'distinct'];
+
+// --- Declarations (Engineering chat) ---
+export const ENGINEERING_TOOLS: LlmToolDeclaration[] = [
+    {
+        name: 'search_drive',
+        description: 'Search the KMRCL Drive index by keywords and filters. Returns file ids, names, types and descriptions (not contents).',
+        parameters: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'Keywords, "exact phrases" and -excluded words, plus optional filters type:pdf|image|folder|doc|sheet, tag:Name, modified:>2024-01-01 (also <, >=, <=, or YYYY / YYYY-MM) and size:>2MB. E.g. \'VVVF inverter manual type:pdf modified:>2023 -draft\'' },
+                limit: { type: 'integer', description: `Maximum number of results (default and max ${MAX_SEARCH_RESULTS})` }
+            },
+            required: ['query']
+        }
+    },
+    {
+        name: 'search_passages',
+        description: 'Semantic search over the text of every indexed Drive file. Returns the best-matching passages with file, page and section.',
+        parameters: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'A question or description of the information needed, e.g. "brake cylinder pressure at full service braking"' },
+                limit: { type: 'integer', description: `Maximum number of passages (default and max ${MAX_PASSAGE_RESULTS})` },
+                fileIds: { type: 'string', description: 'Comma-separated file ids (from search_drive) to search within; omit to search every indexed file' }
+            },
+            required: ['query']
+        }
+    },
+    {
+        name: 'read_file',
+        description: 'Read the extracted text of a file returned by search_drive. Spreadsheets are returned as CSV, one [Sheet: name] block per sheet; Word documents and Google Docs as headings, numbered clauses and tables. PDFs are returned page by page behind [Page N] markers, with scanned pages OCR\'d. Images need run_ocr instead.',
+        parameters: {
+            type: 'object',
+            properties: {
+                fileId: { type: 'string', description: 'Id from search_drive' }
+            },
+            required: ['fileId']
+        }
+    },
+    {
+        name: 'run_ocr',
+        description: `Run OCR on a scanned PDF or image and return its text. Use fileId "${ATTACHMENT_ID}" for the file the user attached to this message.`,
+        parameters: {
+            type: 'object',
+            properties: {
+                fileId: { type: 'string', description: `Id from search_drive, or "${ATTACHMENT_ID}"` },
+                highAccuracy: { type: 'boolean', description: 'Use the slower, more accurate model (dense drawings, poor scans)' }
+            },
+            required: ['fileId']
+        }
+    },
+    {
+        name: 'open_doc_analysis',
+        description: 'Offer the user a button that opens a file in the Doc Analysis dashboard (spreadsheet KPIs or the OCR workbench). Does not return file contents.',
+        parameters: {
+            type: 'object',
+            properties: {
+                fileId: { type: 'string', description: 'Id from search_drive' }
+            },
+            required: ['fileId']
+        }
+    },
+    {
+        name: 'aggregate_spreadsheet',
+        description: 'Compute an aggregate over one column of an Excel/CSV file, optionally grouped by another column and filtered on a column value. Workbooks may have several sheets (read_file lists them).',
+        parameters: {
+            type: 'object',
+            properties: {
+                fileId: { type: 'string', description: 'Id from search_drive' },
+                sheet: { type: 'string', description: 'Sheet name (default: the first sheet). "*" uses every sheet and adds a "Sheet" column to group or filter by.' },
+                operation: { type: 'string', description: 'Aggregate to compute', enum: AGGREGATE_OPERATIONS },
+                column: { type: 'string', description: 'Header of the column to aggregate' },
+                groupBy: { type: 'string', description: 'Optional header to group rows by' },
+                filterColumn: { type: 'string', description: 'Optional header to filter on' },
+                filterValue: { type: 'string', description: 'Keep only rows whose filterColumn equals this (case-insensitive)' }
+            },
+            required: ['fileId', 'operation', 'column']
+        }
+    }
+];
+
+export interface EngineeringToolContext {
+    signal?: AbortSignal;
+    bypassCache?: boolean;
+    provider?: LlmProvider; // Serves the tools' own AI calls (OCR) instead of the configured provider
+    // The file attached to the current message, reachable as fileId "attachment"
+    attachment?: { name: string; mimeType: string; data: string } | null;
+    onFilesUsed?: (files: DriveFile[]) => void; // Files a tool actually read, OCR'd or aggregated
+}
+
+// --- Helpers ---
+
+const findFile = (fileId: string): DriveFile => {
+    const file = getAllKnownFiles().find(f => f.id === fileId);
+    if (!file) throw new Error(`No file with id "${fileId}". Call search_drive first and use one of the returned ids.`);
+    return file;
+};
+
+const describeFile = (file: DriveFile) => ({
+    fileId: file.id,
+    name: file.name,
+    mimeType: file.mimeType,
+    description: file.description || '',
+    modified: file.modifiedTime || '',
+    size: file.size || '',
+    tags: file.tags || [],
+    contentLoaded: !!file.fileData
+});
+
+// Header lookup is case- and whitespace-insensitive; the model rarely copies headers exactly
+const resolveColumn = (columns: string[], requested: string): string => {
+    const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim();
+    const match = columns.find(c => normalize(c) === normalize(requested));
+    if (!match) throw new Error(`Column "${requested}" not found. Available columns: ${columns.join(', ')}`);
+    return match;
+};
+
+const toNumber = (value: any) => typeof value === 'number' ? value : parseFloat(String(value).replace(/,/g, ''));
+
+const aggregate = (values: any[], operation: string): number | { count: number; values: string[] } => {
+    const present = values.filter(v => v !== '' && v !== null && v !== undefined);
+    if (operation === 'count') return present.length;
+    if (operation === 'distinct') {
+        const distinct = Array.from(new Set(present.map(v => String(v))));
+        return { count: distinct.length, values: distinct.slice(0, MAX_AGGREGATE_GROUPS) };
+    }
+    const numbers = present.map(toNumber).filter(n => !isNaN(n));
+    if (numbers.length === 0) return NaN;
+    switch (operation) {
+        case 'sum': return numbers.reduce((a, b) => a + b, 0);
+        case 'average': return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+        case 'min': return Math.min(...numbers);
+        case 'max': return Math.max(...numbers);
+        default: throw new Error(`Unknown operation "${operation}". Use one of: ${AGGREGATE_OPERATIONS.join(', ')}`);
+    }
+};
+
+const formatAggregate = (result: ReturnType<typeof aggregate>) =>
+    typeof result === 'number' ? (isNaN(result) ? 'no numeric values' : Number(result.toFixed(4)).toString()) : `${result.count} distinct`;
+
+// --- Executors ---
+
+const searchDrive = async (args: Record<string, any>, context: EngineeringToolContext): Promise<ToolExecutionResult> => {
+    const limit = Math.min(MAX_SEARCH_RESULTS, Math.max(1, Number(args.limit) || MAX_SEARCH_RESULTS));
+    const results = (await searchDriveFiles(String(args.query || ''), context.signal)).slice(0, limit);
+    return {
+        response: { results: results.map(describeFile) },
+        summary: results.length ? `${results.length} file(s): ${results.map(f => f.name).join(', ')}` : 'No matching files'
+    };
+};
+
+const searchPassages = async (args: Record<string, any>, context: EngineeringToolContext): Promise<ToolExecutionResult> => {
+    const limit = Math.min(MAX_PASSAGE_RESULTS, Math.max(1, Number(args.limit) || MAX_PASSAGE_RESULTS));
+    const fileIds = String(args.fileIds || '').split(',').map(id => id.trim()).filter(Boolean);
+    const chunks = await searchSemanticIndex(String(args.query || ''), { topK: limit, fileIds: fileIds.length ? fileIds : undefined, signal: context.signal });
+    const known = getAllKnownFiles();
+    const files = Array.from(new Set(chunks.map(c => c.fileId))).map(id => known.find(f => f.id === id)).filter((f): f is DriveFile => !!f);
+    return {
+        response: {
+            passages: chunks.map(c => ({ fileId: c.fileId, name: c.fileName, page: c.page, section: c.section, score: Number(c.score.toFixed(3)) })),
+            note: chunks.length ? undefined : 'The semantic index has no matching passages yet; use search_drive and read_file instead.'
+        },
+        summary: chunks.length ? `${chunks.length} passage(s) from ${files.map(f => f.name).join(', ')}` : 'No matching passages',
+        documents: toChunkDocuments(chunks),
+        files
+    };
+};
+
+const readFile = async (args: Record<string, any>, context: EngineeringToolContext): Promise<ToolExecutionResult> => {
+    const file = await loadFileContent(findFile(String(args.fileId)), context.signal);
+    const ocr = (data: string, mimeType: string) => performOCR(data, mimeType, false, { signal: context.signal, bypassCache: context.bypassCache, provider: context.provider });
+    const content = await extractFileContent(file, { ocr, signal: context.signal });
+    const chunks = chunkText(content, MAX_READ_TOKENS);
+    const truncated = chunks.length > 1;
+    const note = !file.fileData
+        ? 'Only metadata is available for this file in the browser; its contents have not been loaded.'
+        : isPdfFile(file) ? 'PDF text is split by [Page N] markers; cite page numbers from them.'
+        : /image/.test(file.mimeType) ? 'Image; call run_ocr to read its text.' : undefined;
+    return {
+        response: { ...describeFile(file), truncated, note },
+        summary: `${file.name} (~${estimateTokens(chunks[0] || '')} tokens${truncated ? ', truncated' : ''})`,
+        documents: [{ name: file.name, content: chunks[0] || '', fileId: file.id, url: file.url }],
+        files: [file]
+    };
+};
+
+const runOcr = async (args: Record<string, any>, context: EngineeringToolContext): Promise<ToolExecutionResult> => {
+    const options = { signal: context.signal, bypassCache: context.bypassCache, provider: context.provider };
+    const highAccuracy = !!args.highAccuracy;
+    if (args.fileId === ATTACHMENT_ID) {
+        if (!context.attachment) throw new Error("The user did not attach a file to this message.");
+        const text = await performOCR(context.attachment.data, context.attachment.mimeType, highAccuracy, options);
+        return {
+            response: { name: context.attachment.name },
+            summary: `OCR of ${context.attachment.name} (~${estimateTokens(text)} tokens)`,
+            documents: [{ name: `OCR: ${context.attachment.name}`, content: text }]
+        };
+    }
+    const file = findFile(String(args.fileId));
+    if (!file.fileData) throw new Error(`The content of ${file.name} is not loaded in this browser, so it cannot be OCR'd.`);
+    if (!/pdf|image/.test(file.mimeType)) throw new Error(`${file.name} is not a PDF or image; use read_file instead.`);
+    const text = await performOCR(file.fileData, file.mimeType, highAccuracy, options);
+    return {
+        response: describeFile(file),
+        summary: `OCR of ${file.name} (~${estimateTokens(text)} tokens)`,
+        documents: [{ name: `OCR: ${file.name}`, content: text, fileId: file.id, url: file.url }],
+        files: [file]
+    };
+};
+
+const openDocAnalysis = async (args: Record<string, any>): Promise<ToolExecutionResult> => {
+    const file = findFile(String(args.fileId));
+    return {
+        response: { offered: true, name: file.name, note: 'The user now sees an "Open in Doc Analysis" button.' },
+        summary: `Ready to open ${file.name} in Doc Analysis`,
+        action: { type: 'OPEN_DOC_ANALYSIS', fileId: file.id, fileName: file.name }
+    };
+};
+
+const aggregateSpreadsheet = async (args: Record<string, any>, context: EngineeringToolContext): Promise<ToolExecutionResult> => {
+    const file = await loadFileContent(findFile(String(args.fileId)), context.signal);
+    if (!isSpreadsheetFile(file.name, file.mimeType)) throw new Error(`${file.name} is not an Excel/CSV file.`);
+    const operation = String(args.operation || '').toLowerCase();
+    if (!AGGREGATE_OPERATIONS.includes(operation)) throw new Error(`Unknown operation "${args.operation}". Use one of: ${AGGREGATE_OPERATIONS.join(', ')}`);
+
+    const sheet = args.sheet ? String(args.sheet) : undefined;
+    let rows = readSpreadsheetRows(file, sheet);
+    if (rows.length === 0) throw new Error(`${file.name}${sheet ? ` (${sheet})` : ''} has no data rows.`);
+    const columns = Object.keys(rows[0]);
+    const column = resolveColumn(columns, String(args.column || ''));
+    if (args.filterColumn) {
+        const filterColumn = resolveColumn(columns, String(args.filterColumn));
+        const wanted = String(args.filterValue ?? '').toLowerCase().trim();
+        rows = rows.filter(r => String(r[filterColumn]).toLowerCase().trim() === wanted);
+    }
+
+    if (!args.groupBy) {
+        const result = aggregate(rows.map(r => r[column]), operation);
+        return {
+            response: { file: file.name, sheet, operation, column, rowCount: rows.length, result: typeof result === 'number' && isNaN(result) ? null : result },
+            summary: `${operation}(${column}) over ${rows.length} rows = ${formatAggregate(result)}`,
+            files: [file]
+        };
+    }
+
+    const groupBy = resolveColumn(columns, String(args.groupBy));
+    const groups = new Map<string, any[]>();
+    rows.forEach(r => {
+        const key = String(r[groupBy]);
+        groups.set(key, [...(groups.get(key) || []), r[column]]);
+    });
+    const results = Array.from(groups.entries()).slice(0, MAX_AGGREGATE_GROUPS).map(([group, values]) => {
+        const result = aggregate(values, operation);
+        return { group, rowCount: values.length, result: typeof result === 'number' && isNaN(result) ? null : result };
+    });
+    return {
+        response: { file: file.name, sheet, operation, column, groupBy, rowCount: rows.length, groupCount: groups.size, groups: results, groupsTruncated: groups.size > MAX_AGGREGATE_GROUPS },
+        summary: `${operation}(${column}) by ${groupBy}: ${groups.size} group(s) over ${rows.length} rows`,
+        files: [file]
+    };
+};
+
+type ToolExecutor = (args: Record<string, any>, context: EngineeringToolContext) => Promise<ToolExecutionResult>;
+
+const EXECUTORS: Record<string, ToolExecutor> = {
+    search_drive: searchDrive,
+    search_passages: searchPassages,
+    read_file: readFile,
+    run_ocr: runOcr,
+    open_doc_analysis: openDocAnalysis,
+    aggregate_spreadsheet: aggregateSpreadsheet
+};
+
+// Tool failures are thrown as plain Errors; the chat loop hands the message back to the model so it can recover
+export const createEngineeringToolset = (context: EngineeringToolContext): ChatToolset => ({
+    declarations: ENGINEERING_TOOLS,
+    execute: async (call: LlmFunctionCall) => {
+        const executor = EXECUTORS[call.name];
+        if (!executor) throw new Error(`Unknown tool "${call.name}"`);
+        const result = await executor(call.args || {}, context);
+        if (result.files?.length) context.onFilesUsed?.(result.files);
+        return result;
+    }
+});
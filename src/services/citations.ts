@@ -0,0 +1,79 @@
+import { chunkText } from "./contextBudget";
+import { PAGE_MARKER } from "./fileExtraction";
+import { Citation, CitationPassage, CitationSource, ContextDocument } from "../types";
+
+// Small enough that a citation points at a checkable paragraph, large enough to keep marker overhead ~2%
+const PASSAGE_TOKENS = 250;
+
+// One bracket may hold several references: [doc:2 #4] or [doc:1 #2, doc:3]. "#M" is the passage number, never
+// a page (the passage records its page). The older "p.M" spelling is still read, as saved answers use it.
+export const CITATION_GROUP_PATTERN = /\[(doc:\s*\d+(?:\s*(?:#|p\.)\s*\d+)?(?:\s*[,;]\s*doc:\s*\d+(?:\s*(?:#|p\.)\s*\d+)?)*)\]/g;
+const CITATION_REF_PATTERN = /doc:\s*(\d+)(?:\s*(?:#|p\.)\s*(\d+))?/g;
+
+const toMarker = (docIndex: number, passage?: number) => passage ? `doc:${docIndex} #${passage}` : `doc:${docIndex}`;
+
+// Numbered passages, each with the page it starts on when the text carries "[Page N]" markers (PDFs)
+const toPassages = (content: string): CitationPassage[] => {
+    let page: number | undefined;
+    return chunkText(content, PASSAGE_TOKENS).map((text, j) => {
+        const lines = text.split('\n');
+        const markers = lines.map(line => line.match(PAGE_MARKER)).filter((m): m is RegExpMatchArray => !!m).map(m => parseInt(m[1], 10));
+        const opensWithMarker = PAGE_MARKER.test(lines.find(l => l.trim()) || '');
+        // A passage opening on a marker (or preceding page 1, like a header or outline) belongs to its first page
+        const startPage = opensWithMarker || page === undefined ? markers[0] ?? page : page;
+        if (markers.length > 0) page = markers[markers.length - 1];
+        return { index: j + 1, text, page: startPage };
+    });
+};
+
+// --- Labelling ---
+// Numbers every document and passage so the model can cite them; `sources` is kept to validate the answer.
+// `firstDocIndex` continues the numbering for documents added later in the conversation (tool results).
+export const buildCitableContext = (documents: ContextDocument[], firstDocIndex = 1): { text: string; sources: CitationSource[] } => {
+    const sources: CitationSource[] = documents.map((doc, i) => ({
+        docIndex: firstDocIndex + i,
+        documentName: doc.name,
+        fileId: doc.fileId,
+        url: doc.url,
+        passages: toPassages(doc.content)
+    }));
+    const text = sources.map(source => [
+        `[doc:${source.docIndex}] ${source.documentName}`,
+        ...source.passages.map(p => `[${toMarker(source.docIndex, p.index)}]\n${p.text}`)
+    ].join('\n')).join('\n---\n');
+    return { text, sources };
+};
+
+// --- Validation ---
+
+// Every distinct reference in the answer, checked against the passages that were actually supplied
+export const parseCitations = (text: string, sources: CitationSource[]): Citation[] => {
+    const citations = new Map<string, Citation>();
+    for (const group of text.matchAll(CITATION_GROUP_PATTERN)) {
+        for (const ref of group[1].matchAll(CITATION_REF_PATTERN)) {
+            const docIndex = parseInt(ref[1], 10);
+            const passage = ref[2] ? parseInt(ref[2], 10) : undefined;
+            const marker = toMarker(docIndex, passage);
+            if (citations.has(marker)) continue;
+
+            const source = sources.find(s => s.docIndex === docIndex);
+            const cited = source && passage !== undefined ? source.passages.find(p => p.index === passage) : undefined;
+            citations.set(marker, {
+                marker,
+                docIndex,
+                passage,
+                documentName: source?.documentName,
+                fileId: source?.fileId,
+                url: source?.url,
+                excerpt: cited?.text,
+                page: cited?.page,
+                valid: !!source && (passage === undefined || !!cited)
+            });
+        }
+    }
+    return Array.from(citations.values());
+};
+
+// The references inside one [..] group, for inline rendering
+export const splitCitationGroup = (group: string): string[] =>
+    Array.from(group.matchAll(CITATION_REF_PATTERN), ref => toMarker(parseInt(ref[1], 10), ref[2] ? parseInt(ref[2], 10) : undefined));
@@ -0,0 +1,155 @@
+import { getLlmConfig } from "./llmProvider";
+import { ContextCoverage, ContextDocument } from "../types";
+
+// --- Token Estimation ---
+// ~4 characters per token holds well enough for English prose and CSV across Gemini / Llama tokenizers
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// --- Model Limits ---
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+    'gemini-2.5-flash': 1048576,
+    'gemini-2.5-pro': 1048576,
+    'gemini-2.0-flash': 1048576,
+    'gemini-1.5-flash': 1048576,
+    'gemini-1.5-pro': 2097152
+};
+const DEFAULT_CONTEXT_WINDOW = 32768;
+// Very long prompts are slow and expensive even when they fit, so context is capped well below 1M
+const MAX_CONTEXT_TOKENS = 200000;
+const RESERVED_OUTPUT_TOKENS = 8192;
+
+// Map phase tuning: chunk size sent to the summariser and a ceiling on summariser calls per document
+const MAP_CHUNK_TOKENS = 24000;
+const MAX_MAP_CHUNKS = 16;
+const MAP_CONCURRENCY = 4;
+const MAX_REDUCE_ROUNDS = 2;
+
+export const getContextWindow = (model: string) => {
+    const config = getLlmConfig();
+    if (config.provider === 'OPENAI_COMPATIBLE') return config.contextWindow || DEFAULT_CONTEXT_WINDOW;
+    return MODEL_CONTEXT_WINDOWS[model] || DEFAULT_CONTEXT_WINDOW;
+};
+
+// Tokens left for context documents once the fixed parts of the prompt (system, history, question) are counted
+export const getContextBudget = (model: string, fixedPromptParts: string[]) => {
+    const window = Math.min(getContextWindow(model), MAX_CONTEXT_TOKENS);
+    const reservedOutput = Math.min(RESERVED_OUTPUT_TOKENS, Math.floor(window / 4));
+    const fixed = fixedPromptParts.reduce((sum, part) => sum + estimateTokens(part), 0);
+    return Math.max(0, window - reservedOutput - fixed);
+};
+
+// Each map-phase call must itself fit the summariser's window (small local models have 4-8k)
+export const getMapChunkTokens = (model: string) => Math.min(MAP_CHUNK_TOKENS, Math.floor(getContextWindow(model) / 2));
+
+// --- Chunking ---
+// Splits on line boundaries so CSV rows / paragraphs stay intact; overlong lines are hard-split.
+export const chunkText = (text: string, maxTokens: number): string[] => {
+    const maxChars = Math.max(1, maxTokens * CHARS_PER_TOKEN);
+    const chunks: string[] = [];
+    let current = '';
+    for (const line of text.split('\n')) {
+        if (line.length > maxChars) {
+            if (current) chunks.push(current);
+            current = '';
+            for (let i = 0; i < line.length; i += maxChars) chunks.push(line.substring(i, i + maxChars));
+            continue;
+        }
+        if (current && current.length + line.length + 1 > maxChars) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n${line}` : line;
+    }
+    if (current) chunks.push(current);
+    return chunks;
+};
+
+export type ChunkSummarizer = (chunk: string, info: { documentName: string; part: number; totalParts: number; targetTokens: number }) => Promise<string>;
+
+const summarizeAll = async (chunks: string[], documentName: string, targetTokens: number, summarize: ChunkSummarizer) => {
+    const summaries: string[] = [];
+    for (let i = 0; i < chunks.length; i += MAP_CONCURRENCY) {
+        const batch = chunks.slice(i, i + MAP_CONCURRENCY);
+        summaries.push(...await Promise.all(batch.map((chunk, j) =>
+            summarize(chunk, { documentName, part: i + j + 1, totalParts: chunks.length, targetTokens }))));
+    }
+    return summaries;
+};
+
+// Map-reduce one oversized document down to `budgetTokens`
+const reduceDocument = async (doc: ContextDocument, budgetTokens: number, summarize: ChunkSummarizer, mapChunkTokens: number): Promise<{ content: string; coverage: ContextCoverage }> => {
+    const totalTokens = estimateTokens(doc.content);
+    const allChunks = chunkText(doc.content, mapChunkTokens);
+    const mapped = allChunks.slice(0, MAX_MAP_CHUNKS);
+    let consideredTokens = mapped.reduce((sum, c) => sum + estimateTokens(c), 0);
+
+    // Map: one summary per chunk, each sized so that together they roughly fill the budget
+    const perChunkTarget = Math.max(200, Math.floor(budgetTokens / mapped.length));
+    let summaries = await summarizeAll(mapped, doc.name, perChunkTarget, summarize);
+    let combined = summaries.map((s, i) => `[Part ${i + 1}/${mapped.length}]\n${s}`).join('\n\n');
+
+    // Reduce: summarise the summaries until they fit
+    for (let round = 0; round < MAX_REDUCE_ROUNDS && estimateTokens(combined) > budgetTokens; round++) {
+        const groups = chunkText(combined, mapChunkTokens);
+        summaries = await summarizeAll(groups, doc.name, Math.max(200, Math.floor(budgetTokens / groups.length)), summarize);
+        combined = summaries.join('\n\n');
+    }
+
+    let method: ContextCoverage['method'] = mapped.length < allChunks.length ? 'TRUNCATED' : 'SUMMARIZED';
+    if (estimateTokens(combined) > budgetTokens) {
+        // Last resort: the tail of the summary is dropped, so scale down what we claim was considered
+        consideredTokens = Math.floor(consideredTokens * budgetTokens / estimateTokens(combined));
+        combined = combined.substring(0, budgetTokens * CHARS_PER_TOKEN);
+        method = 'TRUNCATED';
+    }
+
+    const header = `[CONDENSED: ${doc.name} - map-reduce summary of ${Math.round(100 * consideredTokens / totalTokens)}% of the original]`;
+    return { content: `${header}\n${combined}`, coverage: { documentName: doc.name, totalTokens, consideredTokens, method } };
+};
+
+// --- Budget Composition ---
+// Small documents are kept verbatim; the remaining budget is shared evenly among the large ones,
+// which are condensed with `summarize`. Coverage reports how much of each original reached the model.
+export const fitDocumentsToBudget = async (
+    documents: ContextDocument[],
+    budgetTokens: number,
+    summarize: ChunkSummarizer,
+    mapChunkTokens: number = MAP_CHUNK_TOKENS
+): Promise<{ documents: ContextDocument[]; coverage: ContextCoverage[] }> => {
+    const sizes = documents.map(d => estimateTokens(d.content));
+    const fits = new Array(documents.length).fill(false);
+
+    // Water-filling: repeatedly accept every document smaller than the current fair share
+    let remainingBudget = budgetTokens;
+    let changed = true;
+    while (changed) {
+        changed = false;
+        const openCount = fits.filter(f => !f).length;
+        if (openCount === 0) break;
+        const share = remainingBudget / openCount;
+        sizes.forEach((size, i) => {
+            if (!fits[i] && size <= share) {
+                fits[i] = true;
+                remainingBudget -= size;
+                changed = true;
+            }
+        });
+    }
+    const oversizedCount = fits.filter(f => !f).length;
+    const sharePerOversized = oversizedCount ? Math.floor(remainingBudget / oversizedCount) : 0;
+
+    // Oversized documents are condensed one after another so summariser calls stay within MAP_CONCURRENCY
+    const results: { content: string; coverage: ContextCoverage }[] = [];
+    for (let i = 0; i < documents.length; i++) {
+        results.push(fits[i]
+            ? { content: documents[i].content, coverage: { documentName: documents[i].name, totalTokens: sizes[i], consideredTokens: sizes[i], method: 'FULL' } }
+            : await reduceDocument(documents[i], sharePerOversized, summarize, mapChunkTokens));
+    }
+
+    return {
+        documents: results.map((r, i) => ({ name: documents[i].name, content: r.content })),
+        coverage: results.map(r => r.coverage)
+    };
+};
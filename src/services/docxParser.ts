@@ -0,0 +1,293 @@
+import { DocumentBlock, StructuredDocument } from "../types";
+
+// --- DOCX (WordprocessingML) parsing ---
+// A .docx is a ZIP of XML parts. The ZIP directory is read here and entries are inflated with the browser's
+// DecompressionStream, so no extra library is loaded. Only document text and structure are kept.
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// --- ZIP ---
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Entry path -> text of that entry, for the entries asked for
+const readZipEntries = async (bytes: Uint8Array, paths: string[]): Promise<Map<string, string>> => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let eocd = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+        if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new Error("Not a valid DOCX file (ZIP directory not found).");
+
+    const wanted = new Set(paths);
+    const entries = new Map<string, string>();
+    const decoder = new TextDecoder();
+    let offset = view.getUint32(eocd + 16, true);
+    for (let n = view.getUint16(eocd + 10, true); n > 0 && view.getUint32(offset, true) === CENTRAL_SIGNATURE; n--) {
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const entryLength = 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        const localOffset = view.getUint32(offset + 42, true);
+        offset += entryLength;
+        if (!wanted.has(name) || view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) continue;
+
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+        if (method !== 0 && method !== 8) throw new Error(`Unsupported DOCX compression (method ${method}).`);
+        entries.set(name, decoder.decode(method === 8 ? await inflateRaw(data) : data));
+    }
+    return entries;
+};
+
+// --- XML helpers ---
+
+const children = (el: Element, localName: string) => Array.from(el.children).filter(c => c.localName === localName);
+const child = (el: Element | undefined, localName: string) => el ? children(el, localName)[0] : undefined;
+const attr = (el: Element | undefined, name: string) => el?.getAttributeNS(W_NS, name) ?? el?.getAttribute(`w:${name}`) ?? undefined;
+
+const parseXml = (xml: string | undefined) => xml ? new DOMParser().parseFromString(xml, 'application/xml') : undefined;
+
+// --- Styles and numbering ---
+
+interface StyleInfo {
+    headingLevel?: number;
+    numId?: string;
+    ilvl?: number;
+}
+
+interface NumberingLevel {
+    format: string;   // decimal, lowerLetter, upperRoman, bullet, none...
+    text: string;     // e.g. "%1.%2."
+    start: number;
+}
+
+// Heading level and inherited list numbering per paragraph style (follows basedOn)
+const readStyles = (doc: Document | undefined): Map<string, StyleInfo> => {
+    const raw = new Map<string, { name: string; outline?: number; numId?: string; ilvl?: number; basedOn?: string }>();
+    Array.from(doc?.getElementsByTagNameNS(W_NS, 'style') || []).forEach(style => {
+        if (attr(style, 'type') !== 'paragraph') return;
+        const pPr = child(style, 'pPr');
+        const numPr = child(pPr, 'numPr');
+        const outline = attr(child(pPr, 'outlineLvl'), 'val');
+        const ilvl = attr(child(numPr, 'ilvl'), 'val');
+        raw.set(attr(style, 'styleId') || '', {
+            name: (attr(child(style, 'name'), 'val') || '').toLowerCase(),
+            outline: outline !== undefined ? parseInt(outline, 10) : undefined,
+            numId: attr(child(numPr, 'numId'), 'val'),
+            ilvl: ilvl !== undefined ? parseInt(ilvl, 10) : undefined,
+            basedOn: attr(child(style, 'basedOn'), 'val')
+        });
+    });
+
+    const resolve = (id: string, depth = 0): StyleInfo => {
+        const style = raw.get(id);
+        if (!style || depth > 10) return {};
+        const inherited = style.basedOn ? resolve(style.basedOn, depth + 1) : {};
+        const heading = style.name.match(/^heading (\d)$/);
+        const headingLevel = heading ? parseInt(heading[1], 10)
+            : style.name === 'title' ? 1
+            : style.outline !== undefined && style.outline < 9 ? style.outline + 1
+            : inherited.headingLevel;
+        return { headingLevel, numId: style.numId ?? inherited.numId, ilvl: style.ilvl ?? inherited.ilvl };
+    };
+    return new Map(Array.from(raw.keys()).map(id => [id, resolve(id)]));
+};
+
+// numId -> levels of its abstract numbering definition
+const readNumbering = (doc: Document | undefined): Map<string, NumberingLevel[]> => {
+    const abstracts = new Map<string, NumberingLevel[]>();
+    Array.from(doc?.getElementsByTagNameNS(W_NS, 'abstractNum') || []).forEach(abstract => {
+        const levels: NumberingLevel[] = [];
+        children(abstract, 'lvl').forEach(lvl => {
+            levels[parseInt(attr(lvl, 'ilvl') || '0', 10)] = {
+                format: attr(child(lvl, 'numFmt'), 'val') || 'decimal',
+                text: attr(child(lvl, 'lvlText'), 'val') || '',
+                start: parseInt(attr(child(lvl, 'start'), 'val') || '1', 10)
+            };
+        });
+        abstracts.set(attr(abstract, 'abstractNumId') || '', levels);
+    });
+    const nums = new Map<string, NumberingLevel[]>();
+    Array.from(doc?.getElementsByTagNameNS(W_NS, 'num') || []).forEach(num => {
+        const levels = abstracts.get(attr(child(num, 'abstractNumId'), 'val') || '');
+        if (levels) nums.set(attr(num, 'numId') || '', levels);
+    });
+    return nums;
+};
+
+const toRoman = (n: number) => {
+    const numerals: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+    let result = '';
+    for (const [value, numeral] of numerals) {
+        while (n >= value) {
+            result += numeral;
+            n -= value;
+        }
+    }
+    return result;
+};
+
+const toLetters = (n: number) => {
+    let result = '';
+    for (; n > 0; n = Math.floor((n - 1) / 26)) result = String.fromCharCode(97 + ((n - 1) % 26)) + result;
+    return result;
+};
+
+const formatCounter = (value: number, format: string) => {
+    switch (format) {
+        case 'lowerLetter': return toLetters(value);
+        case 'upperLetter': return toLetters(value).toUpperCase();
+        case 'lowerRoman': return toRoman(value);
+        case 'upperRoman': return toRoman(value).toUpperCase();
+        case 'none': return '';
+        default: return String(value);
+    }
+};
+
+// Word stores list numbers as counters, not text; this replays them in document order
+const createNumberer = (numbering: Map<string, NumberingLevel[]>) => {
+    const counters = new Map<string, number[]>();
+    return (numId: string, ilvl: number): { label: string; bullet: boolean } | null => {
+        const levels = numbering.get(numId);
+        const level = levels?.[ilvl];
+        if (!levels || !level || numId === '0') return null;
+        if (level.format === 'bullet') return { label: '', bullet: true };
+
+        const current = counters.get(numId) || [];
+        current[ilvl] = current[ilvl] !== undefined ? current[ilvl] + 1 : level.start;
+        current.length = ilvl + 1;
+        counters.set(numId, current);
+        const label = level.text.replace(/%(\d)/g, (_, k) => {
+            const index = parseInt(k, 10) - 1;
+            return formatCounter(current[index] ?? levels[index]?.start ?? 1, levels[index]?.format || 'decimal');
+        });
+        return { label: label.trim().replace(/\.$/, ''), bullet: false };
+    };
+};
+
+// --- Body ---
+
+// Manually typed clause numbers ("4.2.1 The pantograph...") count as clauses too
+const MANUAL_CLAUSE = /^(\d+(?:\.\d+)+)\.?\s+([A-Z].*)$/s;
+
+const runText = (paragraph: Element) => {
+    let text = '';
+    Array.from(paragraph.getElementsByTagNameNS(W_NS, 'r')).forEach(run => {
+        Array.from(run.children).forEach(node => {
+            if (node.localName === 't') text += node.textContent || '';
+            else if (node.localName === 'tab') text += '\t';
+            else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+            else if (node.localName === 'noBreakHyphen') text += '-';
+        });
+    });
+    return text.replace(/[ \t]+/g, ' ').trim();
+};
+
+const tableRows = (table: Element): string[][] =>
+    children(table, 'tr').map(row =>
+        children(row, 'tc').map(cell => Array.from(cell.getElementsByTagNameNS(W_NS, 'p')).map(runText).filter(Boolean).join(' '))
+    ).filter(row => row.some(Boolean));
+
+export const parseDocx = async (base64Data: string): Promise<StructuredDocument> => {
+    const bytes = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
+    const parts = await readZipEntries(bytes, ['word/document.xml', 'word/styles.xml', 'word/numbering.xml', 'docProps/core.xml']);
+    const document = parseXml(parts.get('word/document.xml'));
+    const body = document?.getElementsByTagNameNS(W_NS, 'body')[0];
+    if (!body) throw new Error("Not a valid DOCX file (word/document.xml missing).");
+
+    const styles = readStyles(parseXml(parts.get('word/styles.xml')));
+    const nextNumber = createNumberer(readNumbering(parseXml(parts.get('word/numbering.xml'))));
+    const blocks: DocumentBlock[] = [];
+
+    const readParagraph = (paragraph: Element) => {
+        const pPr = child(paragraph, 'pPr');
+        const style = styles.get(attr(child(pPr, 'pStyle'), 'val') || '') || {};
+        const numPr = child(pPr, 'numPr');
+        const numId = attr(child(numPr, 'numId'), 'val') ?? style.numId;
+        const ilvl = parseInt(attr(child(numPr, 'ilvl'), 'val') ?? String(style.ilvl ?? 0), 10);
+        // Counted even when empty, so later numbers stay right
+        const numbered = numId !== undefined ? nextNumber(numId, ilvl) : null;
+        const text = runText(paragraph);
+        if (!text) return;
+
+        if (style.headingLevel) {
+            blocks.push({ type: 'HEADING', level: style.headingLevel, text, number: numbered?.label || undefined });
+        } else if (numbered?.bullet) {
+            blocks.push({ type: 'PARAGRAPH', text, bullet: true });
+        } else if (numbered?.label) {
+            blocks.push({ type: 'CLAUSE', level: ilvl + 1, number: numbered.label, text });
+        } else {
+            const manual = text.match(MANUAL_CLAUSE);
+            blocks.push(manual
+                ? { type: 'CLAUSE', level: manual[1].split('.').length, number: manual[1], text: manual[2] }
+                : { type: 'PARAGRAPH', text });
+        }
+    };
+
+    const readContainer = (container: Element) => {
+        Array.from(container.children).forEach(node => {
+            if (node.localName === 'p') readParagraph(node);
+            else if (node.localName === 'tbl') {
+                const rows = tableRows(node);
+                if (rows.length) blocks.push({ type: 'TABLE', rows });
+            }
+            // Content controls and tracked insertions wrap ordinary body content
+            else if (node.localName === 'sdt') {
+                const content = child(node, 'sdtContent');
+                if (content) readContainer(content);
+            } else if (node.localName === 'ins' || node.localName === 'customXml') readContainer(node);
+        });
+    };
+    readContainer(body);
+
+    const title = parseXml(parts.get('docProps/core.xml'))?.getElementsByTagName('dc:title')[0]?.textContent?.trim();
+    return { title: title || undefined, blocks };
+};
+
+// --- Output ---
+
+// Markdown-like text: "#" headings (which splitIntoPassages reads as sections), clause numbers kept
+// inline so they can be searched and cited, tables as pipe rows
+export const structuredDocumentToText = (doc: StructuredDocument): string => {
+    const lines: string[] = doc.title ? [`Title: ${doc.title}`, ''] : [];
+    doc.blocks.forEach(block => {
+        switch (block.type) {
+            case 'HEADING':
+                lines.push('', `${'#'.repeat(Math.min(block.level, 6))} ${block.number ? `${block.number} ` : ''}${block.text}`);
+                break;
+            case 'CLAUSE':
+                lines.push(`${block.number} ${block.text}`);
+                break;
+            case 'PARAGRAPH':
+                lines.push(block.bullet ? `- ${block.text}` : block.text);
+                break;
+            case 'TABLE':
+                lines.push('', ...block.rows.map(row => `| ${row.map(cell => cell.replace(/\|/g, '/').replace(/\n/g, ' ')).join(' | ')} |`), '');
+                break;
+        }
+    });
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// One row per block, for Doc Analysis (which analyses and exports rows)
+export const structuredDocumentToRows = (doc: StructuredDocument): Record<string, string>[] =>
+    doc.blocks.flatMap(block => {
+        switch (block.type) {
+            case 'HEADING': return [{ Block: `Heading ${block.level}`, Number: block.number || '', Text: block.text }];
+            case 'CLAUSE': return [{ Block: 'Clause', Number: block.number, Text: block.text }];
+            case 'PARAGRAPH': return [{ Block: block.bullet ? 'Bullet' : 'Paragraph', Number: '', Text: block.text }];
+            case 'TABLE': return block.rows.map((row, i) => ({ Block: i === 0 ? 'Table Header' : 'Table Row', Number: '', Text: row.join(' | ') }));
+        }
+    });
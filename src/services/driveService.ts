@@ -1,6 +1,12 @@
 
 import { GOOGLE_SCRIPT_URL, MOCK_FILES } from '../constants';
-import { DriveFile, LogEntry } from '../types';
+import { redactForLog } from './redaction';
+import { searchFullText } from './fullTextSearch';
+import { evaluateSavedSearches } from './savedSearches';
+import { expandGlossaryTerms, glossaryVariantsOf } from './glossary';
+import { parseSearchQuery, formatSearchQuery, getSearchText, isFilterClause, matchesSearchQuery } from './searchQuery';
+import { DOCX_MIME, GOOGLE_DOC_MIME, GOOGLE_SHEET_MIME, XLSX_MIME } from './fileExtraction';
+import { DriveFile, LogEntry, SearchQuery } from '../types';
 
 // In-memory store to share state between pages during the session
 // Initialize mock files with a root parentId (undefined or 'root')
@@ -60,20 +66,48 @@ const isValidUrl = (url: string) => {
   }
 };
 
+// --- Apps Script backend contract (README.md, "Drive backend (Google Apps Script)") ---
+// An action the deployed script does not implement is answered with { error: "Unsupported action: <name>" };
+// older scripts ignore the action and answer something else, which is caught by the missing result field.
+const UNSUPPORTED_ACTION_PATTERN = /unsupported action|unknown action/i;
+
+export class DriveBackendError extends Error {
+    constructor(public action: string, message: string) {
+        super(message);
+        this.name = 'DriveBackendError';
+    }
+}
+
+// Throws when the backend does not implement `action`; otherwise returns the parsed body, which may still carry
+// an ordinary { error } for this one request
+const readActionResponse = async (action: string, response: Response, isAnswer: (data: any) => boolean): Promise<any> => {
+    const data = await response.json();
+    const reportedError = typeof data?.error === 'string' ? data.error : '';
+    if (UNSUPPORTED_ACTION_PATTERN.test(reportedError) || (!reportedError && !isAnswer(data))) {
+        throw new DriveBackendError(action, `The Drive backend does not support '${action}'. Update the Google Apps Script deployment (see README, "Drive backend").`);
+    }
+    return data;
+};
+
+// options.signal (e.g. a Stop button) is honoured alongside the internal timeout
 const safeFetch = async (url: string, options?: RequestInit, timeout = 10000): Promise<Response | null> => {
   if (typeof navigator !== 'undefined' && !navigator.onLine) return null;
   if (!isValidUrl(url)) return null;
+  if (options?.signal?.aborted) return null;
 
   const controller = new AbortController();
   const id = setTimeout(() => controller.abort(), timeout);
+  const abortFromCaller = () => controller.abort();
+  options?.signal?.addEventListener('abort', abortFromCaller);
   try {
     const response = await fetch(url, { ...options, signal: controller.signal });
-    clearTimeout(id);
     return response;
   } catch (e) {
-    clearTimeout(id);
-    console.error("Fetch failed", e);
+    if (!options?.signal?.aborted) console.error("Fetch failed", e);
     return null;
+  } finally {
+    clearTimeout(id);
+    options?.signal?.removeEventListener('abort', abortFromCaller);
   }
 };
 
@@ -96,9 +130,8 @@ const filterValidFiles = (files: DriveFile[]): DriveFile[] => {
 
         // Filter out Google App Scripts or specialized internal formats that users can't open
         if (mime === 'application/vnd.google-apps.script') return false;
-        
-        if (name.toLowerCase().startsWith('copy of')) return false; 
-        
+
+        // Copies are not hidden by name; duplicates.ts groups them by content
         return true;
     });
 };
@@ -141,7 +174,7 @@ export const fetchDriveFiles = async (folderId: string = 'root'): Promise<DriveF
                 addToSystemLog(`Synced ${fetchedFiles.length} files from Drive`, "success");
             } else {
                  console.warn("Drive API returned non-array format:", data);
-                 syncState = { ...syncState, status: 'ERROR', message: 'Invalid Format' };
+                 syncState = { ...syncState, status: 'ERROR', message: typeof data?.error === 'string' ? data.error : 'Invalid Format' };
             }
         } else {
             console.warn("Drive Fetch response not OK", response?.status);
@@ -167,6 +200,7 @@ export const fetchDriveFiles = async (folderId: string = 'root'): Promise<DriveF
           size: f.size || '-',
           // Standardize date format to YYYY-MM-DD for reliable filtering
           modifiedTime: f.modifiedTime ? new Date(f.modifiedTime).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
+          modifiedAt: f.modifiedTime ? new Date(f.modifiedTime).toISOString() : undefined,
           parentId: folderId // Assign current requested folder as parent context
       }));
 
@@ -178,6 +212,13 @@ export const fetchDriveFiles = async (folderId: string = 'root'): Promise<DriveF
           if (idx >= 0) cachedApiFiles[idx] = pf;
           else cachedApiFiles.push(pf);
       });
+
+      // Saved-search alerts for files this sync brought in; searches with a digest also go to the activity sheet
+      evaluateSavedSearches(processedFetchedFiles).forEach(({ alert, search }) => {
+          const names = alert.files.map(f => f.name).join(', ');
+          addToSystemLog(`Saved search "${alert.searchName}": ${alert.files.length} new match(es)`, "success");
+          if (search.digest) logActivityToSheet('SEARCH', `Saved search digest "${search.name}" (${search.query}): ${alert.files.length} new - ${names}`, search.ownerName);
+      });
       
       // Combine with any locally uploaded files for this session
       const uploadsOnly = localFiles.filter(f => f.parentId === folderId && f.tags?.includes('Uploaded'));
@@ -209,28 +250,34 @@ export const getAllKnownFiles = (): DriveFile[] => {
 export const findBestMatchingFile = (query: string): DriveFile | null => {
     if (!query) return null;
     const cleanQuery = query.toLowerCase().trim().replace(/[-_]/g, ' ').replace(/\s+/g, ' '); 
+    // The query as spoken first, then with glossary terms swapped ("OHE layout" -> "overhead equipment layout")
+    const candidates = [cleanQuery, ...glossaryVariantsOf(cleanQuery)];
     
     const allFiles = getAllKnownFiles();
     
     // Helper to strip extension (e.g. "report.pdf" -> "report")
     const getNameWithoutExt = (name: string) => name.replace(/\.[^/.]+$/, "").toLowerCase().replace(/[-_]/g, ' ');
 
-    // 1. Exact Name Match (insensitive)
-    let match = allFiles.find(f => f.name.toLowerCase() === cleanQuery);
+    let match: DriveFile | undefined;
+    for (const candidate of candidates) {
+        // 1. Exact Name Match (insensitive)
+        match = allFiles.find(f => f.name.toLowerCase() === candidate);
 
-    // 2. Name without extension match (e.g. "Safety Protocols" matches "Safety Protocols.pdf")
-    if (!match) {
-        match = allFiles.find(f => getNameWithoutExt(f.name) === cleanQuery);
-    }
+        // 2. Name without extension match (e.g. "Safety Protocols" matches "Safety Protocols.pdf")
+        if (!match) {
+            match = allFiles.find(f => getNameWithoutExt(f.name) === candidate);
+        }
 
-    // 3. Contains Query (in name or description)
-    if (!match) {
-        match = allFiles.find(f => f.name.toLowerCase().replace(/[-_]/g, ' ').includes(cleanQuery));
+        // 3. Contains Query (in name or description)
+        if (!match) {
+            match = allFiles.find(f => f.name.toLowerCase().replace(/[-_]/g, ' ').includes(candidate));
+        }
+        if (match) break;
     }
     
     // 4. Word overlap (Smart Keyword Match - IMPROVED)
     if (!match) {
-        const queryWords = cleanQuery.split(' ').filter(w => w.length > 2); 
+        const queryWords = Array.from(new Set(candidates.flatMap(c => c.split(' ')))).filter(w => w.length > 2); 
         if (queryWords.length > 0) {
             let bestCandidate: DriveFile | null = null;
             let maxMatches = 0;
@@ -242,7 +289,7 @@ export const findBestMatchingFile = (query: string): DriveFile | null => {
                 
                 // Boost score if the query word starts with the file name part
                 let score = matches * 10; 
-                if (fName.startsWith(cleanQuery)) score += 20;
+                if (candidates.some(c => fName.startsWith(c))) score += 20;
 
                 if (score > maxMatches) {
                     maxMatches = score;
@@ -259,17 +306,27 @@ export const findBestMatchingFile = (query: string): DriveFile | null => {
     return match || null;
 };
 
-export const searchDriveFiles = async (query: string): Promise<DriveFile[]> => {
-  addToSystemLog(`Searching for: ${query}`, "processing");
+// `query` uses the search syntax in searchQuery.ts (type:, tag:, modified:, size:, "phrases", -exclusions).
+// The backend receives the free text as `query`, every clause as JSON in `filters` and the glossary forms of
+// the text (see glossary.ts) in `synonyms`; its results are filtered here as well, so a backend that ignores
+// `filters` still returns only matching files.
+export const searchDriveFiles = async (query: string | SearchQuery, signal?: AbortSignal): Promise<DriveFile[]> => {
+  const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+  if (parsed.clauses.length === 0) return [];
+  const { text, phrases, excluded } = getSearchText(parsed);
+  const expansions = text ? expandGlossaryTerms(text) : [];
+  addToSystemLog(`Searching for: ${formatSearchQuery(parsed)}`, "processing");
   // First, try to search using the API if possible
   let apiResults: DriveFile[] = [];
   try {
       const customUrl = localStorage.getItem('kmrcl_script_url');
       const targetUrl = customUrl || GOOGLE_SCRIPT_URL;
       if (isValidUrl(targetUrl)) {
-         const response = await safeFetch(`${targetUrl}?action=search&query=${encodeURIComponent(query)}`, { credentials: 'omit' });
+         const filters = parsed.clauses.some(c => isFilterClause(c) || c.kind === 'PHRASE' || c.negated) ? `&filters=${encodeURIComponent(JSON.stringify(parsed.clauses))}` : '';
+         const synonyms = expansions.length > 0 ? `&synonyms=${encodeURIComponent(JSON.stringify(expansions))}` : '';
+         const response = await safeFetch(`${targetUrl}?action=search&query=${encodeURIComponent(text)}${filters}${synonyms}`, { credentials: 'omit', signal });
          if (response && response.ok) {
-             const data = await response.json();
+             const data = await readActionResponse('search', response, d => Array.isArray(d) || Array.isArray(d?.results));
              const rawResults = data.results || data;
              if (Array.isArray(rawResults)) {
                  apiResults = filterValidFiles(rawResults);
@@ -279,34 +336,90 @@ export const searchDriveFiles = async (query: string): Promise<DriveFile[]> => {
                     if (idx >= 0) cachedApiFiles[idx] = pf;
                     else cachedApiFiles.push(pf);
                 });
+                apiResults = apiResults.filter(f => matchesSearchQuery(f, parsed));
              }
          }
       }
   } catch (e) {
-      // Fallback
+      // A backend without search is a deployment problem to report, not "no results"; anything else falls back to local search
+      if (e instanceof DriveBackendError) {
+          addToSystemLog(e.message, "logged");
+          throw e;
+      }
   }
 
-  // Local Search Fallback
-  const allFiles = [...FALLBACK_FILES, ...localFiles, ...cachedApiFiles];
-  const localResults = allFiles.filter(f => 
-    f.name.toLowerCase().includes(query.toLowerCase()) || 
-    (f.description && f.description.toLowerCase().includes(query.toLowerCase())) ||
-    (f.tags && f.tags.some(t => t.toLowerCase().includes(query.toLowerCase())))
-  );
+  // Local ranked search (BM25 over names, tags, descriptions and loaded file text, with glossary expansions); server-only hits go last.
+  // A filters-only query ("type:pdf tag:Signaling") lists the matching files, newest first.
+  const knownFiles = getAllKnownFiles();
+  const localResults = text
+      ? (await searchFullText(text, knownFiles, { phrases, excluded, expansions }))
+          .map(r => knownFiles.find(f => f.id === r.id))
+          .filter((f): f is DriveFile => !!f && matchesSearchQuery(f, parsed))
+      : knownFiles
+          .filter(f => matchesSearchQuery(f, parsed))
+          .sort((a, b) => (b.modifiedTime || '').localeCompare(a.modifiedTime || ''));
 
   // Remove duplicates by ID
-  const combined = [...apiResults, ...localResults];
+  const combined = [...localResults, ...apiResults];
   const unique = Array.from(new Map(combined.map(item => [item.id, item])).values());
 
   return unique;
 };
 
+// Native Google files have no bytes to read; the Apps Script backend exports them (action=exportFile)
+const GOOGLE_EXPORT_FORMATS: Record<string, string> = {
+    [GOOGLE_DOC_MIME]: DOCX_MIME,
+    [GOOGLE_SHEET_MIME]: XLSX_MIME
+};
+
+export const isGoogleNativeFile = (file: DriveFile) => file.mimeType in GOOGLE_EXPORT_FORMATS;
+
+// The file with its content loaded: native Google Docs/Sheets are exported as DOCX/XLSX and the bytes kept
+// on the known file, so chat, search indexing and Doc Analysis all see them. Anything else, or a failed
+// export, comes back unchanged (metadata only); a backend without exportFile throws DriveBackendError.
+export const loadFileContent = async (file: DriveFile, signal?: AbortSignal): Promise<DriveFile> => {
+    if (file.fileData || !isGoogleNativeFile(file)) return file;
+    const loaded = [...cachedApiFiles, ...localFiles].find(f => f.id === file.id && f.fileData);
+    if (loaded) return loaded;
+
+    const customUrl = localStorage.getItem('kmrcl_script_url');
+    const targetUrl = customUrl || GOOGLE_SCRIPT_URL;
+    const exportMime = GOOGLE_EXPORT_FORMATS[file.mimeType];
+    const response = await safeFetch(
+        `${targetUrl}?action=exportFile&fileId=${encodeURIComponent(file.id)}&mimeType=${encodeURIComponent(exportMime)}`,
+        { credentials: 'omit', signal },
+        30000
+    );
+    signal?.throwIfAborted();
+    try {
+        const data = response && response.ok ? await readActionResponse('exportFile', response, d => typeof d?.data === 'string') : null;
+        if (!data?.data) {
+            console.warn(`Export of ${file.name} failed`, data?.error || response?.status);
+            return file;
+        }
+        const exported = { ...file, fileData: data.data as string };
+        [cachedApiFiles, localFiles].forEach(list => {
+            const idx = list.findIndex(f => f.id === file.id);
+            if (idx >= 0) list[idx] = { ...list[idx], fileData: exported.fileData };
+        });
+        addToSystemLog(`Exported ${file.name} from Google Drive`, "success");
+        return exported;
+    } catch (e) {
+        if (e instanceof DriveBackendError) throw e;
+        console.warn(`Export of ${file.name} returned an invalid response`, e);
+        return file;
+    }
+};
+
 // Renamed and upgraded logging function
 export const logActivityToSheet = async (
     activityType: 'SEARCH' | 'VOICE_COMMAND' | 'CHAT' | 'ANALYSIS' | 'EMAIL_DRAFT', 
     details: string, 
     user: string = 'Engineer'
 ) => {
+  // Prompt fragments end up in a shared Google Sheet; mask personal data first (see redaction.ts)
+  details = redactForLog(details, user);
+
   // Update internal system log for dashboard visualization
   addToSystemLog(`${activityType}: ${details.substring(0, 30)}...`, "logged");
 
@@ -0,0 +1,286 @@
+import { DriveBackendError, loadFileContent } from "./driveService";
+import { extractFileContent, FILE_CONTENT_MARKERS } from "./fileExtraction";
+import { isAbortError } from "./aiErrors";
+import { DriveFile, DuplicateGroup, FileFingerprint } from "../types";
+
+// Content-based duplicate detection. Every file with readable content gets a SHA-256 of its normalised text
+// (exact copies, whatever their name or format) and a MinHash signature of its word shingles (near copies:
+// re-saved revisions, a page added, a different cover sheet). Fingerprints are kept in IndexedDB; the semantic
+// index records them as it reads files, and Drive Explorer can scan a folder on demand.
+
+const DB_NAME = 'kmrcl_fingerprints';
+const DB_VERSION = 1;
+const FINGERPRINTS_STORE = 'fingerprints';
+
+const SHINGLE_WORDS = 5;
+const NUM_HASHES = 64;
+// Locality-sensitive hashing: only files agreeing on every row of some band are compared. With 16 bands of 4,
+// a pair at the 0.8 threshold becomes a candidate with probability > 0.999.
+const BANDS = 16;
+const ROWS_PER_BAND = NUM_HASHES / BANDS;
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+// Shorter texts (empty scans, one-line exports, extraction errors) would all look alike
+const MIN_WORDS = 30;
+
+// --- IndexedDB plumbing ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(FINGERPRINTS_STORE, { keyPath: 'fileId' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Grouping compares every fingerprint, so they are kept in memory after the first load
+let fingerprintCache: Map<string, FileFingerprint> | null = null;
+// fileId -> group, over every stored fingerprint (retrieval dedupe); rebuilt after a write
+let groupIndexCache: Map<string, DuplicateGroup> | null = null;
+
+const loadFingerprints = async (): Promise<Map<string, FileFingerprint>> => {
+    if (!fingerprintCache) {
+        const db = await openDb();
+        const all = await promisify<FileFingerprint[]>(db.transaction(FINGERPRINTS_STORE).objectStore(FINGERPRINTS_STORE).getAll());
+        fingerprintCache = new Map(all.map(f => [f.fileId, f]));
+    }
+    return fingerprintCache;
+};
+
+const storeFingerprint = async (fileId: string, fingerprint: FileFingerprint | null) => {
+    const db = await openDb();
+    const store = db.transaction(FINGERPRINTS_STORE, 'readwrite').objectStore(FINGERPRINTS_STORE);
+    await promisify(fingerprint ? store.put(fingerprint) : store.delete(fileId));
+    const cache = await loadFingerprints();
+    if (fingerprint) cache.set(fileId, fingerprint);
+    else cache.delete(fileId);
+    groupIndexCache = null;
+};
+
+// --- Fingerprints ---
+
+// Identifies the file revision from listing metadata alone, so scans can skip unchanged files before downloading
+// them. Null when the listing cannot tell revisions apart: a native Google file listed without its full modified
+// timestamp has only the day, no size ('-') and no checksum, so it is always re-read.
+export const listingSignature = (file: DriveFile): string | null => {
+    const size = file.size && file.size !== '-' ? file.size : '';
+    if (!file.modifiedAt && !size && !file.md5Checksum) return null;
+    return [file.modifiedAt || file.modifiedTime, size, file.md5Checksum].map(v => v || '').join('|');
+};
+
+const normalizeWords = (text: string) =>
+    text.replace(FILE_CONTENT_MARKERS, ' ').toLowerCase().match(/[a-z0-9]+/g) || [];
+
+const sha256 = async (text: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const fnv1a = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+    return hash >>> 0;
+};
+
+// 32-bit finaliser (MurmurHash3 fmix32): one independent-looking permutation per seed
+const mix = (value: number, seed: number) => {
+    let x = (value ^ seed) >>> 0;
+    x ^= x >>> 16;
+    x = Math.imul(x, 0x85ebca6b);
+    x ^= x >>> 13;
+    x = Math.imul(x, 0xc2b2ae35);
+    x ^= x >>> 16;
+    return x >>> 0;
+};
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fnv1a(`kmrcl-minhash-${i}`));
+
+const minHashOf = (words: string[]): number[] => {
+    const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+    const shingleCount = Math.max(1, words.length - SHINGLE_WORDS + 1);
+    for (let i = 0; i < shingleCount; i++) {
+        const shingle = fnv1a(words.slice(i, i + SHINGLE_WORDS).join(' '));
+        for (let h = 0; h < NUM_HASHES; h++) {
+            const value = mix(shingle, SEEDS[h]);
+            if (value < signature[h]) signature[h] = value;
+        }
+    }
+    return signature;
+};
+
+// Estimated Jaccard similarity of the two files' shingle sets
+const estimateSimilarity = (a: FileFingerprint, b: FileFingerprint) => {
+    if (a.contentHash === b.contentHash) return 1;
+    let equal = 0;
+    for (let i = 0; i < NUM_HASHES; i++) if (a.minHash[i] === b.minHash[i]) equal++;
+    return equal / NUM_HASHES;
+};
+
+// Stores the fingerprint of `text` (the file's extracted content), unless an identical one exists.
+// Files without readable content have none. Never throws: a missing fingerprint only hides a duplicate.
+export const recordFingerprint = async (file: DriveFile, text: string) => {
+    try {
+        const signature = listingSignature(file) || '';
+        const existing = (await loadFingerprints()).get(file.id);
+        const words = file.fileData ? normalizeWords(text) : [];
+        if (words.length < MIN_WORDS) {
+            if (existing) await storeFingerprint(file.id, null);
+            return;
+        }
+        const contentHash = await sha256(words.join(' '));
+        if (existing?.contentHash === contentHash && existing.signature === signature && existing.fileName === file.name) return;
+        await storeFingerprint(file.id, {
+            fileId: file.id,
+            fileName: file.name,
+            signature,
+            contentHash,
+            minHash: minHashOf(words),
+            words: words.length,
+            computedAt: Date.now()
+        });
+    } catch (e) {
+        console.warn(`Duplicate detection: could not fingerprint ${file.name}`, e);
+    }
+};
+
+// Reads and fingerprints the given files (Drive Explorer "Scan"); unchanged files are skipped
+export const fingerprintFiles = async (
+    files: DriveFile[],
+    options: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<number> => {
+    const documents = files.filter(f => !f.mimeType.includes('folder'));
+    const stored = await loadFingerprints();
+    let fingerprinted = 0;
+    for (let i = 0; i < documents.length; i++) {
+        options.signal?.throwIfAborted();
+        options.onProgress?.(i, documents.length);
+        const signature = listingSignature(documents[i]);
+        if (signature && stored.get(documents[i].id)?.signature === signature) {
+            fingerprinted++;
+            continue;
+        }
+        try {
+            const file = await loadFileContent(documents[i], options.signal);
+            if (!file.fileData) continue;
+            await recordFingerprint(file, await extractFileContent(file));
+            if (stored.has(file.id)) fingerprinted++;
+        } catch (e) {
+            if (isAbortError(e) || e instanceof DriveBackendError) throw e;
+            console.warn(`Duplicate detection: could not read ${documents[i].name}`, e);
+        }
+    }
+    options.onProgress?.(documents.length, documents.length);
+    return fingerprinted;
+};
+
+// --- Grouping ---
+
+const isNamedCopy = (name: string) => /^copy of\b/i.test(name.trim()) || /\(\d+\)(\.[^.]+)?$/.test(name.trim());
+
+// Clusters near-duplicate fingerprints (union-find over LSH candidate pairs above the threshold)
+const groupFingerprints = (fingerprints: FileFingerprint[], files: Map<string, DriveFile>): DuplicateGroup[] => {
+    const parent = fingerprints.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+    const buckets = new Map<string, number[]>();
+    const addToBucket = (key: string, i: number) => {
+        const members = buckets.get(key);
+        if (members) members.push(i);
+        else buckets.set(key, [i]);
+    };
+    fingerprints.forEach((fp, i) => {
+        addToBucket(`hash:${fp.contentHash}`, i);
+        for (let band = 0; band < BANDS; band++) {
+            addToBucket(`${band}:${fp.minHash.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND).join(',')}`, i);
+        }
+    });
+    const compared = new Set<string>();
+    buckets.forEach(members => {
+        for (let a = 0; a < members.length; a++) {
+            for (let b = a + 1; b < members.length; b++) {
+                const pair = `${members[a]}:${members[b]}`;
+                if (compared.has(pair)) continue;
+                compared.add(pair);
+                if (estimateSimilarity(fingerprints[members[a]], fingerprints[members[b]]) >= NEAR_DUPLICATE_THRESHOLD) {
+                    parent[find(members[a])] = find(members[b]);
+                }
+            }
+        }
+    });
+
+    const clusters = new Map<number, FileFingerprint[]>();
+    fingerprints.forEach((fp, i) => {
+        const root = find(i);
+        const members = clusters.get(root);
+        if (members) members.push(fp);
+        else clusters.set(root, [fp]);
+    });
+    return Array.from(clusters.values())
+        .filter(members => members.length > 1)
+        .map(members => {
+            const nameOf = (fp: FileFingerprint) => files.get(fp.fileId)?.name || fp.fileName;
+            const [canonical] = [...members].sort((a, b) =>
+                Number(isNamedCopy(nameOf(a))) - Number(isNamedCopy(nameOf(b)))
+                || (files.get(b.fileId)?.modifiedTime || '').localeCompare(files.get(a.fileId)?.modifiedTime || '')
+            );
+            const others = members
+                .filter(fp => fp !== canonical)
+                .map(fp => ({ fileId: fp.fileId, fileName: nameOf(fp), similarity: Number(estimateSimilarity(canonical, fp).toFixed(2)) }))
+                .sort((a, b) => b.similarity - a.similarity);
+            return {
+                id: canonical.fileId,
+                kind: members.every(fp => fp.contentHash === canonical.contentHash) ? 'EXACT' as const : 'NEAR' as const,
+                canonicalId: canonical.fileId,
+                files: [{ fileId: canonical.fileId, fileName: nameOf(canonical), similarity: 1 }, ...others]
+            };
+        })
+        .sort((a, b) => b.files.length - a.files.length);
+};
+
+// Duplicate groups among the given files (e.g. the folder on screen), largest first. Only fingerprinted files take part.
+export const findDuplicateGroups = async (files: DriveFile[]): Promise<DuplicateGroup[]> => {
+    const stored = await loadFingerprints();
+    const fingerprints = files.map(f => stored.get(f.id)).filter((fp): fp is FileFingerprint => !!fp);
+    return groupFingerprints(fingerprints, new Map(files.map(f => [f.id, f])));
+};
+
+export const getFingerprintCount = async () => (await loadFingerprints()).size;
+
+// Keeps, in order, only the items of the first file seen from each duplicate group, so one document saved
+// several times does not fill every slot of a result list. `fileIdOf` reads an item's file id.
+export const dedupeByContent = async <T>(items: T[], fileIdOf: (item: T) => string): Promise<T[]> => {
+    try {
+        if (!groupIndexCache) {
+            const groups = groupFingerprints(Array.from((await loadFingerprints()).values()), new Map());
+            groupIndexCache = new Map(groups.flatMap(g => g.files.map(f => [f.fileId, g] as [string, DuplicateGroup])));
+        }
+    } catch (e) {
+        console.warn("Duplicate detection unavailable; results are not deduplicated", e);
+        return items;
+    }
+    const keptFileByGroup = new Map<string, string>();
+    return items.filter(item => {
+        const fileId = fileIdOf(item);
+        const group = groupIndexCache!.get(fileId);
+        if (!group) return true;
+        const kept = keptFileByGroup.get(group.id);
+        if (kept === undefined) keptFileByGroup.set(group.id, fileId);
+        return kept === undefined || kept === fileId;
+    });
+};
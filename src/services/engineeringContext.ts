@@ -0,0 +1,57 @@
+import { getAllKnownFiles, loadFileContent, searchDriveFiles } from "./driveService";
+import { extractFileContent } from "./fileExtraction";
+import { performOCR } from "./geminiService";
+import { LlmProvider } from "./llmProvider";
+import { searchSemanticIndex, toChunkDocuments } from "./semanticIndex";
+import { isAbortError } from "./aiErrors";
+import { dedupeByContent } from "./duplicates";
+import { ContextDocument, DriveFile } from "../types";
+
+// Context building for Engineering questions, shared by the chat (IntelligenceHub) and the evaluation runner
+// so an evaluated answer sees exactly what a user's answer would.
+
+const AUTO_SEARCH_RESULTS = 3;
+const DIAGRAM_KEYWORDS = ['circuit', 'diagram', 'schematic', 'drawing'];
+
+// Files the user selected, read in full (scanned PDF pages are OCR'd, by `provider` when given)
+export const readSelectedFiles = async (files: DriveFile[], signal?: AbortSignal, provider?: LlmProvider): Promise<ContextDocument[]> => {
+    const ocr = (data: string, mimeType: string) => performOCR(data, mimeType, false, { signal, provider });
+    const loaded = await Promise.all(files.map(f => loadFileContent(f, signal)));
+    const contents = await Promise.all(loaded.map(f => extractFileContent(f, { ocr, signal })));
+    return contents.map((content, i) => ({ name: files[i].name, content, fileId: files[i].id, url: files[i].url }));
+};
+
+// Metadata of the top search hits (one per set of duplicates); used while the semantic index is empty or unavailable
+export const searchMetadataContext = async (query: string, signal?: AbortSignal): Promise<{ documents: ContextDocument[]; files: DriveFile[] }> => {
+    const results = await dedupeByContent(await searchDriveFiles(query, signal), f => f.id);
+    signal?.throwIfAborted();
+
+    if (results.length > 0) {
+        const files = results.slice(0, AUTO_SEARCH_RESULTS);
+        return {
+            documents: files.map(f => ({ name: f.name, content: `File: ${f.name}\nDescription: ${f.description}\nLink: ${f.url}`, fileId: f.id, url: f.url })),
+            files
+        };
+    }
+    if (DIAGRAM_KEYWORDS.some(kw => query.toLowerCase().includes(kw))) {
+        return { documents: [{ name: 'Search Note', content: "NO matching files were found in the index. Proceed to generate a synthetic diagram.", synthetic: true }], files: [] };
+    }
+    return { documents: [], files: [] };
+};
+
+// Up-front retrieval for every Engineering question: the best-matching passages from the semantic index.
+// Tool-calling providers can search further on their own.
+export const retrieveContext = async (query: string, signal?: AbortSignal): Promise<{ documents: ContextDocument[]; files: DriveFile[] }> => {
+    try {
+        const chunks = await searchSemanticIndex(query, { signal });
+        if (chunks.length > 0) {
+            const known = getAllKnownFiles();
+            const documents = toChunkDocuments(chunks);
+            return { documents, files: documents.map(d => known.find(f => f.id === d.fileId)).filter((f): f is DriveFile => !!f) };
+        }
+    } catch (e) {
+        if (isAbortError(e)) throw e;
+        console.warn("Semantic retrieval failed; falling back to file search", e);
+    }
+    return searchMetadataContext(query, signal);
+};
@@ -0,0 +1,378 @@
+import { generateEngineeringResponse } from "./geminiService";
+import { getAvailableLlmProviders, getLlmProvider, LlmProvider } from "./llmProvider";
+import { readSelectedFiles, retrieveContext } from "./engineeringContext";
+import { createEngineeringToolset } from "./chatTools";
+import { findBestMatchingFile, getAllKnownFiles } from "./driveService";
+import { isRefusal } from "./grounding";
+import { isAbortError, toAiErrorInfo } from "./aiErrors";
+import {
+    AiResponseMeta, Citation, ContextDocument, DriveFile, EvalCase, EvalCaseResult, EvalProviderChoice, EvalRecording,
+    EvalRun, EvalRunSummary, EvalSet, GroundingAssessment, LlmRequest, LlmResponse, PromptTemplateRef
+} from "../types";
+
+const EVAL_SETS_KEY = 'kmrcl_eval_sets';
+const EVAL_RUNS_KEY = 'kmrcl_eval_runs';
+// Runs carry every recorded response, so only the most recent are kept
+const MAX_STORED_RUNS = 20;
+
+// Questions about the sample Drive files, so a fresh install has something to run
+const DEFAULT_EVAL_SET: EvalSet = {
+    id: 'default',
+    name: 'Sample Engineering Questions',
+    updatedAt: 0,
+    cases: [
+        {
+            id: 'rolling-stock-scope',
+            question: 'What does the rolling stock specification cover?',
+            expectedFacts: ['motor capacity', 'braking', 'seating'],
+            sourceFiles: ['KMRCL-Rolling-Stock-Specs-v2.pdf'],
+            selectSources: true
+        },
+        {
+            id: 'station-layout',
+            question: 'Which passenger facilities are covered in the Phase 1 station layout?',
+            expectedFacts: ['ticket counter', 'turnstile', 'emergency exit'],
+            sourceFiles: ['Station-Layout-Phase1.docx'],
+            selectSources: true
+        },
+        {
+            id: 'transformer-efficiency-source',
+            question: 'Which document has the transformer efficiency ratings?',
+            expectedFacts: ['Power-Distribution-Log|power distribution log'],
+            sourceFiles: ['Power-Distribution-Log.xlsx']
+        },
+        {
+            id: 'unanswerable-canteen',
+            question: 'What is the fire load rating of the depot canteen kitchen?',
+            expectedFacts: [],
+            sourceFiles: [],
+            expectRefusal: true,
+            groundedOnly: true
+        }
+    ]
+};
+
+// --- Golden sets (Admin, Settings > Evaluation) ---
+
+export const getEvalSets = (): EvalSet[] => {
+    try {
+        const stored = localStorage.getItem(EVAL_SETS_KEY);
+        if (stored) return JSON.parse(stored);
+    } catch (e) {
+        console.error("Failed to read evaluation sets", e);
+    }
+    return [DEFAULT_EVAL_SET];
+};
+
+export const saveEvalSet = (set: EvalSet) => {
+    const sets = getEvalSets();
+    const updated = { ...set, updatedAt: Date.now() };
+    const next = sets.some(s => s.id === set.id) ? sets.map(s => s.id === set.id ? updated : s) : [...sets, updated];
+    localStorage.setItem(EVAL_SETS_KEY, JSON.stringify(next));
+};
+
+export const deleteEvalSet = (id: string) => {
+    localStorage.setItem(EVAL_SETS_KEY, JSON.stringify(getEvalSets().filter(s => s.id !== id)));
+};
+
+// Validates the cases JSON edited by the admin; throws with a message naming the offending case
+export const parseEvalCases = (json: string): EvalCase[] => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch (e: any) {
+        throw new Error(`Invalid JSON: ${e.message}`);
+    }
+    if (!Array.isArray(parsed)) throw new Error('Expected an array of cases.');
+    const ids = new Set<string>();
+    return parsed.map((c: any, i: number) => {
+        const label = `Case ${i + 1}${c?.id ? ` (${c.id})` : ''}`;
+        if (!c || typeof c !== 'object') throw new Error(`${label}: must be an object.`);
+        if (typeof c.id !== 'string' || !c.id.trim()) throw new Error(`${label}: "id" is required.`);
+        if (ids.has(c.id)) throw new Error(`${label}: duplicate id.`);
+        ids.add(c.id);
+        if (typeof c.question !== 'string' || !c.question.trim()) throw new Error(`${label}: "question" is required.`);
+        const facts = c.expectedFacts ?? [];
+        const sources = c.sourceFiles ?? [];
+        if (!Array.isArray(facts) || facts.some((f: any) => typeof f !== 'string')) throw new Error(`${label}: "expectedFacts" must be an array of strings.`);
+        if (!Array.isArray(sources) || sources.some((f: any) => typeof f !== 'string')) throw new Error(`${label}: "sourceFiles" must be an array of strings.`);
+        if (!c.expectRefusal && facts.length === 0) throw new Error(`${label}: give "expectedFacts" or set "expectRefusal".`);
+        if (c.selectSources && sources.length === 0) throw new Error(`${label}: "selectSources" needs "sourceFiles".`);
+        return {
+            id: c.id,
+            question: c.question,
+            expectedFacts: facts,
+            sourceFiles: sources,
+            ...(c.selectSources ? { selectSources: true } : {}),
+            ...(c.expectRefusal ? { expectRefusal: true } : {}),
+            ...(c.groundedOnly ? { groundedOnly: true } : {})
+        };
+    });
+};
+
+// --- Run history (this browser; newest first) ---
+
+export const getEvalRuns = (): EvalRun[] => {
+    try {
+        const stored = localStorage.getItem(EVAL_RUNS_KEY);
+        if (stored) return JSON.parse(stored);
+    } catch (e) {
+        console.error("Failed to read evaluation runs", e);
+    }
+    return [];
+};
+
+const saveEvalRun = (run: EvalRun) => {
+    const runs = [run, ...getEvalRuns()].slice(0, MAX_STORED_RUNS);
+    try {
+        localStorage.setItem(EVAL_RUNS_KEY, JSON.stringify(runs));
+    } catch (e) {
+        console.error("Failed to write evaluation run", e);
+    }
+};
+
+export const deleteEvalRun = (id: string) => {
+    localStorage.setItem(EVAL_RUNS_KEY, JSON.stringify(getEvalRuns().filter(r => r.id !== id)));
+};
+
+// --- Recording / replay providers ---
+// Requests are keyed on everything the model sees. The pipeline is deterministic for a given golden set,
+// prompt template versions and redaction rules, so a replay sends the same requests the recording saw.
+
+const hashString = (text: string) => {
+    let h1 = 0x811c9dc5, h2 = 5381;
+    for (let i = 0; i < text.length; i++) {
+        const c = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ c, 16777619);
+        h2 = Math.imul(h2, 33) ^ c;
+    }
+    return `${(h1 >>> 0).toString(36)}${(h2 >>> 0).toString(36)}`;
+};
+
+const toRecordingKey = (request: LlmRequest) => hashString(JSON.stringify({
+    systemInstruction: request.systemInstruction,
+    responseMimeType: request.responseMimeType,
+    tools: request.tools?.map(t => t.name),
+    contents: request.contents.map(c => ({
+        role: c.role,
+        parts: c.parts.map(p => ({
+            text: p.text,
+            inlineData: p.inlineData ? `${p.inlineData.mimeType}:${hashString(p.inlineData.data)}` : undefined,
+            functionCall: p.functionCall ? { name: p.functionCall.name, args: p.functionCall.args } : undefined,
+            functionResponse: p.functionResponse ? { name: p.functionResponse.name, response: p.functionResponse.response } : undefined
+        }))
+    }))
+}));
+
+const createRecordingProvider = (inner: LlmProvider, recordings: Record<string, EvalRecording>): LlmProvider => {
+    const record = (request: LlmRequest, response: LlmResponse) => {
+        recordings[toRecordingKey(request)] = { text: response.text, functionCalls: response.functionCalls, model: response.model };
+        return response;
+    };
+    return {
+        ...inner,
+        generate: async (request) => record(request, await inner.generate(request)),
+        stream: async (request, onText) => record(request, await inner.stream(request, onText))
+    };
+};
+
+// Serves the responses of an earlier LIVE run; a request it never saw fails the case instead of reaching a model
+const createReplayProvider = (recordings: Record<string, EvalRecording>, label: string): LlmProvider => {
+    const replay = (request: LlmRequest): LlmResponse => {
+        request.signal?.throwIfAborted();
+        const recording = recordings[toRecordingKey(request)];
+        if (!recording) throw new Error("No recorded response matches this request. The question, prompt templates or documents changed since the recording.");
+        // Prefixed so the replay is not metered at the recorded model's price
+        return { text: recording.text, functionCalls: recording.functionCalls, images: [], model: `replay:${recording.model}` };
+    };
+    return {
+        id: 'STUB',
+        label,
+        supportsTools: true,
+        isConfigured: () => true,
+        offline: true,
+        generate: async (request) => replay(request),
+        stream: async (request, onText) => {
+            const response = replay(request);
+            onText(response.text);
+            return response;
+        }
+    };
+};
+
+// --- Scoring ---
+
+// Lowercase words and numbers only, with numbers split from units ("750V" -> "750 v")
+const normalize = (text: string) => ` ${text.toLowerCase()
+    .replace(/(\d)([a-z])/g, '$1 $2')
+    .replace(/([a-z])(\d)/g, '$1 $2')
+    .replace(/[^a-z0-9.%]+/g, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()}`;
+
+// A fact is found when any of its "|" alternatives starts at a word boundary in the answer
+const isFactFound = (fact: string, normalizedAnswer: string) =>
+    fact.split('|').map(alt => normalize(alt)).some(alt => alt.trim() && normalizedAnswer.includes(alt));
+
+const resolveSourceFiles = (refs: string[]): DriveFile[] => {
+    const known = getAllKnownFiles();
+    return refs
+        .map(ref => known.find(f => f.id === ref || f.name === ref) || findBestMatchingFile(ref))
+        .filter((f): f is DriveFile => !!f);
+};
+
+const isExpectedSource = (citation: Citation, sources: DriveFile[], refs: string[]) =>
+    refs.length === 0 ||
+    sources.some(f => (citation.fileId && citation.fileId === f.id) || citation.documentName === f.name);
+
+const scoreCase = (
+    evalCase: EvalCase,
+    sources: DriveFile[],
+    answer: string,
+    observed: { citations: Citation[]; grounding?: GroundingAssessment; meta?: AiResponseMeta; toolCalls: number; durationMs: number; error?: string }
+): EvalCaseResult => {
+    const normalizedAnswer = normalize(answer);
+    const factsFound = observed.error ? [] : evalCase.expectedFacts.filter(f => isFactFound(f, normalizedAnswer));
+    const refused = !observed.error && (isRefusal(answer) || observed.grounding?.status === 'REFUSED');
+    const citationsCorrect = observed.citations.filter(c => c.valid && isExpectedSource(c, sources, evalCase.sourceFiles)).length;
+    return {
+        caseId: evalCase.id,
+        question: evalCase.question,
+        answer,
+        factsFound,
+        factsMissing: evalCase.expectedFacts.filter(f => !factsFound.includes(f)),
+        factRecall: evalCase.expectedFacts.length > 0 ? factsFound.length / evalCase.expectedFacts.length : null,
+        citationCount: observed.citations.length,
+        citationsCorrect,
+        // An answer that should be sourced but cites nothing scores 0
+        citationScore: evalCase.expectRefusal ? null : observed.citations.length > 0 ? citationsCorrect / observed.citations.length : 0,
+        refused,
+        refusalCorrect: !observed.error && refused === !!evalCase.expectRefusal,
+        grounding: observed.grounding,
+        meta: observed.meta,
+        toolCalls: observed.toolCalls,
+        durationMs: observed.durationMs,
+        error: observed.error
+    };
+};
+
+const mean = (values: (number | null)[]) => {
+    const scored = values.filter((v): v is number => v !== null);
+    return scored.length > 0 ? scored.reduce((a, b) => a + b, 0) / scored.length : null;
+};
+
+const summarize = (results: EvalCaseResult[]): EvalRunSummary => ({
+    cases: results.length,
+    factRecall: mean(results.map(r => r.factRecall)),
+    citationScore: mean(results.map(r => r.citationScore)),
+    refusalAccuracy: mean(results.map(r => r.refusalCorrect ? 1 : 0)),
+    errors: results.filter(r => r.error).length
+});
+
+// --- Runner ---
+
+// Same steps as IntelligenceHub.handleSend in Engineering mode, without history or attachments
+const runCase = async (evalCase: EvalCase, provider: LlmProvider, signal?: AbortSignal): Promise<EvalCaseResult> => {
+    const started = Date.now();
+    const sources = resolveSourceFiles(evalCase.sourceFiles);
+    let citations: Citation[] = [];
+    let grounding: GroundingAssessment | undefined;
+    let meta: AiResponseMeta | undefined;
+    let toolCalls = 0;
+
+    try {
+        if (evalCase.selectSources && sources.length < evalCase.sourceFiles.length) {
+            throw new Error(`Source file not found: ${evalCase.sourceFiles.filter(ref => !resolveSourceFiles([ref]).length).join(', ')}`);
+        }
+        let contextData: ContextDocument[] = [];
+        let contextSource: 'USER_SELECTION' | 'AUTO_SEARCH' = 'AUTO_SEARCH';
+        if (evalCase.selectSources) {
+            contextData = await readSelectedFiles(sources, signal, provider);
+            contextSource = 'USER_SELECTION';
+        } else {
+            contextData = (await retrieveContext(evalCase.question, signal)).documents;
+        }
+
+        const answer = await generateEngineeringResponse(evalCase.question, [], null, contextData, contextSource, {
+            signal,
+            tools: provider.supportsTools ? createEngineeringToolset({ signal, provider }) : undefined,
+            onToolStep: (step) => { if (step.status === 'RUNNING') toolCalls++; },
+            groundedOnly: !!evalCase.groundedOnly,
+            onGrounding: (assessment) => { grounding = assessment; },
+            onResponseMeta: (m) => { meta = m; },
+            onCitations: (found) => { citations = found; },
+            // Every call of the run goes to the run's provider, never the response cache, and is not metered
+            provider
+        });
+        return scoreCase(evalCase, sources, answer, { citations, grounding, meta, toolCalls, durationMs: Date.now() - started });
+    } catch (e: any) {
+        if (isAbortError(e)) throw e;
+        return scoreCase(evalCase, sources, '', { citations: [], toolCalls, durationMs: Date.now() - started, error: toAiErrorInfo(e).message });
+    }
+};
+
+export const getEvalProviderLabel = (choice: EvalProviderChoice, runs: EvalRun[] = getEvalRuns()) => {
+    if (choice.type === 'LIVE') return getLlmProvider().label;
+    if (choice.type === 'STUB') return getAvailableLlmProviders().find(p => p.id === 'STUB')!.label;
+    const source = runs.find(r => r.id === choice.runId);
+    return source ? `Replay of ${source.providerLabel} (${new Date(source.startedAt).toLocaleString()})` : 'Replay';
+};
+
+// Runs every case in order and stores the run. The chosen provider is passed to each of the run's calls, so the
+// whole pipeline (redaction, routing, grounding, citations) is exercised unchanged while the rest of the app
+// keeps using the configured provider.
+export const runEvaluation = async (
+    set: EvalSet,
+    choice: EvalProviderChoice,
+    options: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<EvalRun> => {
+    const providerLabel = getEvalProviderLabel(choice);
+    const recordings: Record<string, EvalRecording> = {};
+    let provider: LlmProvider;
+    if (choice.type === 'LIVE') {
+        provider = createRecordingProvider(getLlmProvider(), recordings);
+    } else if (choice.type === 'STUB') {
+        provider = getAvailableLlmProviders().find(p => p.id === 'STUB')!;
+    } else {
+        const source = getEvalRuns().find(r => r.id === choice.runId);
+        if (!source?.recordings) throw new Error("The selected run has no recorded responses to replay.");
+        provider = createReplayProvider(source.recordings, providerLabel);
+    }
+
+    const startedAt = Date.now();
+    const results: EvalCaseResult[] = [];
+    for (const evalCase of set.cases) {
+        options.onProgress?.(results.length, set.cases.length);
+        results.push(await runCase(evalCase, provider, options.signal));
+    }
+    options.onProgress?.(results.length, set.cases.length);
+
+    const templates = new Map<string, PromptTemplateRef>();
+    results.forEach(r => r.meta?.promptTemplates.forEach(t => templates.set(`${t.id}@${t.version}`, t)));
+    const run: EvalRun = {
+        id: `${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+        setId: set.id,
+        setName: set.name,
+        provider: choice,
+        providerLabel,
+        models: Array.from(new Set(results.map(r => r.meta?.model).filter((m): m is string => !!m))),
+        promptTemplates: Array.from(templates.values()),
+        startedAt,
+        finishedAt: Date.now(),
+        summary: summarize(results),
+        results,
+        recordings: choice.type === 'LIVE' ? recordings : undefined
+    };
+    saveEvalRun(run);
+    return run;
+};
+
+// Report for download; recordings are left out (they are only needed for replay in this browser)
+export const toEvalReport = (run: EvalRun, baseline?: EvalRun) => {
+    const { recordings, ...report } = run;
+    return JSON.stringify({
+        ...report,
+        baseline: baseline ? { id: baseline.id, startedAt: baseline.startedAt, providerLabel: baseline.providerLabel, summary: baseline.summary } : undefined
+    }, null, 2);
+};
@@ -0,0 +1,239 @@
+import { chunkText } from "./contextBudget";
+import { isAbortError } from "./aiErrors";
+import { extractPdf, PageOcr, PdfExtraction } from "./pdfExtraction";
+import { parseDocx, structuredDocumentToText } from "./docxParser";
+import { DocumentPassage, DriveFile, WorkbookSheet } from "../types";
+
+// --- Text extraction for AI context ---
+// Only files uploaded in this session (or exported from Google Drive) carry their bytes (fileData); anything
+// else is described by metadata.
+
+// Native Google files carry no bytes of their own; driveService.loadFileContent exports them as DOCX / XLSX
+export const GOOGLE_DOC_MIME = 'application/vnd.google-apps.document';
+export const GOOGLE_SHEET_MIME = 'application/vnd.google-apps.spreadsheet';
+export const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const isSpreadsheetFile = (name: string, mimeType?: string) => /\.(xlsx|xls|csv)$/i.test(name) || mimeType === GOOGLE_SHEET_MIME;
+
+export const isDocxFile = (file: DriveFile) => /\.docx$/i.test(file.name) || file.mimeType === DOCX_MIME || file.mimeType === GOOGLE_DOC_MIME;
+
+// --- Workbooks ---
+// Every sheet is read. Real logs rarely start at A1: blank rows and a title row often sit above the table,
+// and grouped columns ("Substation A" over "kWh | kVA") use a merged header row above the column names.
+
+const ALL_SHEETS = '*';
+
+const isBlank = (value: any) => value === undefined || value === null || String(value).trim() === '';
+const filledCount = (row: any[]) => row.filter(v => !isBlank(v)).length;
+
+// Duplicate headers would overwrite each other in the row objects
+const uniqueHeaders = (headers: string[]) => {
+    const seen = new Map<string, number>();
+    return headers.map(header => {
+        const count = (seen.get(header) || 0) + 1;
+        seen.set(header, count);
+        return count > 1 ? `${header}_${count}` : header;
+    });
+};
+
+const readSheet = (sheet: any, name: string): WorkbookSheet => {
+    if (!sheet?.['!ref']) return { name, headers: [], rows: [] };
+    const origin = window.XLSX.utils.decode_range(sheet['!ref']).s;
+    const data: any[][] = window.XLSX.utils.sheet_to_json(sheet, { header: 1, blankrows: true, defval: '' });
+    const merges: { s: { r: number; c: number }; e: { r: number; c: number } }[] = (sheet['!merges'] || []).map((m: any) => ({
+        s: { r: m.s.r - origin.r, c: m.s.c - origin.c },
+        e: { r: m.e.r - origin.r, c: m.e.c - origin.c }
+    }));
+
+    // Blank leading rows and title rows (one filled cell above a wider table) are skipped
+    let start = 0;
+    const titles: string[] = [];
+    while (start < data.length && filledCount(data[start]) <= 1 && data.slice(start + 1).some(row => filledCount(row) > 1)) {
+        if (filledCount(data[start]) === 1) titles.push(String(data[start].find(v => !isBlank(v))).trim());
+        start++;
+    }
+    if (start >= data.length) return { name, headers: [], rows: [] };
+
+    // Merged cells take their top-left value everywhere they span, so a group label reaches every column under it
+    merges.forEach(m => {
+        const value = data[m.s.r]?.[m.s.c];
+        for (let r = Math.max(m.s.r, start); r <= m.e.r && r < data.length; r++) {
+            for (let c = m.s.c; c <= m.e.c; c++) data[r][c] = value;
+        }
+    });
+
+    const hasGroupRow = start + 1 < data.length && merges.some(m => m.s.r === start && m.e.c > m.s.c) && filledCount(data[start + 1]) > 0;
+    const headerRows = data.slice(start, start + (hasGroupRow ? 2 : 1));
+    const width = Math.max(...data.slice(start).map(row => row.length));
+    const headers = uniqueHeaders(Array.from({ length: width }, (_, c) => {
+        const parts = Array.from(new Set(headerRows.map(row => String(row[c] ?? '').trim()).filter(Boolean)));
+        return parts.join(' / ') || `Column_${c + 1}`;
+    }));
+    const rows = data.slice(start + headerRows.length)
+        .filter(row => filledCount(row) > 0)
+        .map(row => Object.fromEntries(headers.map((header, c) => [header, row[c] ?? ''])));
+    return { name, title: titles.join(' - ') || undefined, headers, rows };
+};
+
+// Every sheet of a parsed SheetJS workbook that holds data
+export const readWorkbookSheets = (wb: any): WorkbookSheet[] =>
+    wb.SheetNames.map((name: string) => readSheet(wb.Sheets[name], name)).filter((sheet: WorkbookSheet) => sheet.rows.length > 0);
+
+export const readWorkbook = (file: DriveFile): WorkbookSheet[] => {
+    if (!file.fileData) throw new Error(`The content of ${file.name} is not loaded in this browser; only its metadata is available.`);
+    if (!window.XLSX) throw new Error("Excel processor not loaded. Please refresh the page and try again.");
+    return readWorkbookSheets(window.XLSX.read(file.fileData, { type: 'base64' }));
+};
+
+// Rows of one sheet (default: the first with data). "*" stacks every sheet, adding a "Sheet" column.
+export const readSpreadsheetRows = (file: DriveFile, sheetName?: string): Record<string, any>[] => {
+    const sheets = readWorkbook(file);
+    if (sheetName === ALL_SHEETS) return sheets.flatMap(sheet => sheet.rows.map(row => ({ Sheet: sheet.name, ...row })));
+    if (!sheetName) return sheets[0]?.rows || [];
+    const sheet = sheets.find(s => s.name.toLowerCase().trim() === sheetName.toLowerCase().trim());
+    if (!sheet) throw new Error(`Sheet "${sheetName}" not found in ${file.name}. Sheets: ${sheets.map(s => s.name).join(', ')}`);
+    return sheet.rows;
+};
+
+const csvCell = (value: any) => {
+    const text = String(value ?? '');
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const sheetMarker = (sheet: WorkbookSheet) => `[Sheet: ${sheet.name}] (${sheet.rows.length} rows)`;
+
+// Each sheet as a CSV block behind its marker, so chat context and passages name the sheet
+const formatWorkbook = (name: string, sheets: WorkbookSheet[]) =>
+    [`[FILE CONTENT: ${name}]`, ...sheets.flatMap(sheet => [
+        sheetMarker(sheet),
+        ...(sheet.title ? [`Title: ${sheet.title}`] : []),
+        sheet.headers.map(csvCell).join(','),
+        ...sheet.rows.map(row => sheet.headers.map(h => csvCell(row[h])).join(','))
+    ]), '[END FILE CONTENT]'].join('\n');
+
+export const isPdfFile = (file: DriveFile) => file.mimeType.includes('pdf') || /\.pdf$/i.test(file.name);
+
+export const pageMarker = (page: number) => `[Page ${page}]`;
+
+// Outline first, then every page behind its marker. Outline entries reappear as headings on the page they
+// point at, so passages carry the section; splitIntoPassages reads both back.
+const formatPdf = (name: string, pdf: PdfExtraction) => {
+    const outline = pdf.outline.length > 0
+        ? ['[Outline]', ...pdf.outline.map(e => `${'  '.repeat(e.depth)}- ${e.title}${e.page ? ` (p. ${e.page})` : ''}`), '']
+        : [];
+    const pages = pdf.pages.flatMap(p => [
+        pageMarker(p.page),
+        ...pdf.outline.filter(e => e.page === p.page).map(e => `${'#'.repeat(Math.min(e.depth + 1, 6))} ${e.title}`),
+        p.source === 'OCR' ? `(Text recognised by OCR)\n${p.text}` : p.source === 'NONE' ? `${p.text}\n(No text layer; this page was not OCR'd)`.trim() : p.text
+    ]);
+    return [`[FILE CONTENT: ${name}]`, ...outline, ...pages, '[END FILE CONTENT]'].join('\n');
+};
+
+// `ocr` reads PDF pages that have no text layer; background indexing leaves it out to avoid AI calls
+export const extractFileContent = async (file: DriveFile, options: { ocr?: PageOcr; signal?: AbortSignal } = {}): Promise<string> => {
+    // If no file data (mock file not uploaded), we can only provide metadata
+    if (!file.fileData) return `[File Metadata: ${file.name} - ${file.description || 'No Description'}]`;
+
+    // Handle PDF: text layer per page, OCR for scanned pages
+    if (isPdfFile(file)) {
+        try {
+            const pdf = await extractPdf(file.fileData, options);
+            return formatPdf(file.name, pdf);
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            console.error("PDF parse error", e);
+            return `[Error parsing PDF file: ${file.name}]`;
+        }
+    }
+
+    // Handle Word / Google Docs: headings, numbered clauses and tables survive as text structure
+    if (isDocxFile(file)) {
+        try {
+            return `[FILE CONTENT: ${file.name}]\n${structuredDocumentToText(await parseDocx(file.fileData))}\n[END FILE CONTENT]`;
+        } catch (e) {
+            console.error("DOCX parse error", e);
+            return `[Error parsing Word document: ${file.name}]`;
+        }
+    }
+
+    // Handle Excel / CSV
+    if (isSpreadsheetFile(file.name, file.mimeType)) {
+        try {
+            if (window.XLSX) {
+                // Sent whole; geminiService condenses it if it does not fit the model's context budget
+                return formatWorkbook(file.name, readWorkbook(file));
+            }
+        } catch (e) {
+            console.error("Excel parse error", e);
+            return `[Error parsing Excel file: ${file.name}]`;
+        }
+    }
+
+    // Handle JSON
+    if (file.name.endsWith('.json')) {
+        try {
+            return `[FILE CONTENT: ${file.name}]\n${atob(file.fileData)}\n[END FILE CONTENT]`;
+        } catch (e) { return `[Error decoding JSON]`; }
+    }
+
+    // Fallback for others (Binary files that AI might not handle directly as text, handled via attachments usually)
+    return `[File Attached: ${file.name} (${file.mimeType})]`;
+};
+
+// Wrapper lines added by extractFileContent around the text (they carry the file name)
+export const FILE_CONTENT_MARKERS = /^\[(?:END )?FILE CONTENT[^\]\n]*\]$/gm;
+
+// --- Passages (semantic index, full-text search) ---
+// Page markers ("[Page 3]" lines or form feeds), sheet markers and headings split the text first, so every
+// passage carries the page and section (or sheet) it came from; each segment is then cut to maxTokens on line boundaries.
+
+export const PAGE_MARKER = /^\s*\[Page (\d+)\]\s*$/i;
+const SHEET_MARKER = /^\s*\[Sheet: (.+?)\](?: \(\d+ rows\))?\s*$/;
+
+const isHeading = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.length > 90) return false;
+    return /^#{1,6}\s+\S/.test(trimmed)                                     // Markdown
+        || /^\d+(\.\d+)*\.?\s+[A-Z][^.!?:]*$/.test(trimmed)                 // "4.2 Braking System"
+        || (/^[A-Z0-9][A-Z0-9 &/()-]+$/.test(trimmed) && /[A-Z]{3}/.test(trimmed)); // "BRAKING SYSTEM"
+};
+
+export const splitIntoPassages = (text: string, maxTokens: number): DocumentPassage[] => {
+    const passages: DocumentPassage[] = [];
+    let page: number | undefined;
+    let section: string | undefined;
+    let lines: string[] = [];
+
+    const flush = () => {
+        const body = lines.join('\n').trim();
+        if (body) chunkText(body, maxTokens).forEach(chunk => passages.push({ page, section, text: chunk }));
+        lines = [];
+    };
+
+    for (const raw of text.split('\n')) {
+        raw.split('\f').forEach((line, i) => {
+            if (i > 0) {
+                flush();
+                page = (page || 1) + 1;
+            }
+            const marker = line.match(PAGE_MARKER);
+            if (marker) {
+                flush();
+                page = parseInt(marker[1], 10);
+                return;
+            }
+            const sheet = line.match(SHEET_MARKER);
+            if (sheet) {
+                flush();
+                section = `Sheet: ${sheet[1]}`;
+            } else if (isHeading(line)) {
+                flush();
+                section = line.trim().replace(/^#+\s*/, '');
+            }
+            lines.push(line);
+        });
+    }
+    flush();
+    return passages;
+};
@@ -0,0 +1,282 @@
+import { extractFileContent, splitIntoPassages, FILE_CONTENT_MARKERS } from "./fileExtraction";
+import { DriveFile, SearchResult } from "../types";
+
+// BM25 over the extracted text of every known file, passage by passage. File name, tags and description form
+// an extra, boosted passage per file, so files whose content is not loaded are still found by their metadata.
+
+const K1 = 1.2;
+const B = 0.75;
+const PASSAGE_TOKENS = 150;
+const METADATA_BOOST = 2;
+// Glossary expansions rank a little below the words actually typed
+const EXPANSION_WEIGHT = 0.8;
+const SNIPPET_CHARS = 220;
+const DEFAULT_LIMIT = 50;
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are', 'was', 'be', 'with', 'by', 'at', 'as', 'it', 'this', 'that', 'from', 'not', 'no']);
+// A number followed by one of these ("750 V", "25 kV") is also indexed as one term ("750v")
+const UNITS = new Set(['v', 'kv', 'mv', 'a', 'ma', 'ka', 'w', 'kw', 'mw', 'kva', 'mva', 'hz', 'khz', 'mm', 'cm', 'm', 'km', 'kmph', 'kmh', 'n', 'kn', 'bar', 'kpa', 'mpa', 'rpm', 'ohm', 's', 'ms', 'kg', 't', 'c']);
+
+// --- Tokenisation ---
+// Engineering text is full of codes ("KM-2045-B", "IEC 61373", "VVVF-INV/3", "3.5mm"). A code is indexed whole,
+// as its parts and with its separators removed, so "KM2045B", "km-2045-b" and "2045" all find it.
+
+const TOKEN_PATTERN = /[A-Za-z0-9]+(?:[.\-/_][A-Za-z0-9]+)*/g;
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?$/;
+
+interface Token {
+    raw: string;
+    start: number;
+    end: number;
+}
+
+const scanTokens = (text: string): Token[] =>
+    Array.from(text.matchAll(TOKEN_PATTERN), m => ({ raw: m[0], start: m.index!, end: m.index! + m[0].length }));
+
+// Plural "s" only; anything cleverer mangles part codes
+const stem = (word: string) => /^[a-z]{4,}$/.test(word) && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+
+const termsOfToken = (raw: string): string[] => {
+    const lower = raw.toLowerCase();
+    if (NUMBER_PATTERN.test(lower)) return [lower];
+    if (!/[.\-/_]/.test(lower)) return STOP_WORDS.has(lower) ? [] : [stem(lower)];
+    const parts = lower.split(/[.\-/_]/).filter(p => p && !STOP_WORDS.has(p)).map(stem);
+    return Array.from(new Set([lower, lower.replace(/[.\-/_]/g, ''), ...parts]));
+};
+
+// Terms at each token position (index-aligned with scanTokens), plus number+unit joins
+const analyze = (text: string): { tokens: Token[]; termsAt: string[][] } => {
+    const tokens = scanTokens(text);
+    const termsAt = tokens.map(t => termsOfToken(t.raw));
+    tokens.forEach((token, i) => {
+        const next = tokens[i + 1];
+        if (next && NUMBER_PATTERN.test(token.raw) && UNITS.has(next.raw.toLowerCase()) && /^\s*$/.test(text.slice(token.end, next.start))) {
+            termsAt[i] = [...termsAt[i], `${token.raw}${next.raw}`.toLowerCase()];
+        }
+    });
+    return { tokens, termsAt };
+};
+
+export const tokenizeQuery = (query: string): string[] => Array.from(new Set(analyze(query).termsAt.flat()));
+
+// --- Index ---
+
+interface Passage {
+    fileId: string;
+    page?: number;
+    section?: string;
+    text: string;
+    length: number;       // Term count
+    boost: number;
+}
+
+interface AnalyzedFile {
+    signature: string;
+    passages: { passage: Passage; termCounts: Map<string, number> }[];
+}
+
+interface InvertedIndex {
+    signature: string;
+    passages: Passage[];
+    postings: Map<string, { passage: number; tf: number }[]>;
+    averageLength: number;
+}
+
+// Per-file analysis survives corpus changes, so adding one file does not re-extract the others
+const analyzedFiles = new Map<string, AnalyzedFile>();
+let currentIndex: InvertedIndex | null = null;
+
+const fileSignature = (file: DriveFile) => `${file.id}:${file.name}:${file.modifiedTime || ''}:${file.fileData?.length || 0}:${file.description || ''}:${(file.tags || []).join(',')}`;
+
+const countTerms = (text: string) => {
+    const counts = new Map<string, number>();
+    analyze(text).termsAt.flat().forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+    return counts;
+};
+
+const analyzeFile = async (file: DriveFile): Promise<AnalyzedFile> => {
+    const signature = fileSignature(file);
+    const cached = analyzedFiles.get(file.id);
+    if (cached?.signature === signature) return cached;
+
+    const metadataText = [file.name, (file.tags || []).join(' '), file.description || ''].filter(Boolean).join('\n');
+    const drafts = [{ text: metadataText, boost: METADATA_BOOST }];
+    // Without fileData, extraction only repeats the metadata
+    if (file.fileData) {
+        try {
+            // The wrapper lines would otherwise show up in snippets
+            const content = (await extractFileContent(file)).replace(FILE_CONTENT_MARKERS, '');
+            splitIntoPassages(content, PASSAGE_TOKENS).forEach(p => drafts.push({ ...p, boost: 1 }));
+        } catch (e) {
+            console.warn(`Full-text search: could not extract ${file.name}`, e);
+        }
+    }
+    const analyzed: AnalyzedFile = {
+        signature,
+        passages: drafts.map(draft => {
+            const termCounts = countTerms(draft.text);
+            const length = Array.from(termCounts.values()).reduce((a, b) => a + b, 0);
+            return { passage: { fileId: file.id, ...draft, length }, termCounts };
+        })
+    };
+    analyzedFiles.set(file.id, analyzed);
+    return analyzed;
+};
+
+const getIndex = async (corpus: DriveFile[]): Promise<InvertedIndex> => {
+    const files = corpus.filter(f => !f.mimeType.includes('folder'));
+    const signature = files.map(fileSignature).join('|');
+    if (currentIndex?.signature === signature) return currentIndex;
+
+    const passages: Passage[] = [];
+    const postings = new Map<string, { passage: number; tf: number }[]>();
+    for (const file of files) {
+        for (const { passage, termCounts } of (await analyzeFile(file)).passages) {
+            const index = passages.push(passage) - 1;
+            termCounts.forEach((tf, term) => {
+                const list = postings.get(term);
+                if (list) list.push({ passage: index, tf });
+                else postings.set(term, [{ passage: index, tf }]);
+            });
+        }
+    }
+    currentIndex = {
+        signature,
+        passages,
+        postings,
+        averageLength: passages.length ? passages.reduce((sum, p) => sum + p.length, 0) / passages.length : 0
+    };
+    return currentIndex;
+};
+
+// --- Snippets ---
+
+// The SNIPPET_CHARS window of the passage holding the most query-term occurrences, with their ranges
+const buildSnippet = (text: string, queryTerms: Set<string>): Pick<SearchResult, 'snippet' | 'highlights'> => {
+    const { tokens, termsAt } = analyze(text);
+    // A matched number+unit join ("750v") highlights the unit too
+    const matches = tokens.flatMap((token, i) => {
+        const matched = termsAt[i].filter(term => queryTerms.has(term));
+        if (matched.length === 0) return [];
+        const joined = matched.some(term => !termsOfToken(token.raw).includes(term));
+        return [joined && tokens[i + 1] ? { ...token, end: tokens[i + 1].end } : token];
+    });
+    let windowStart = 0;
+    let best = -1;
+    for (const anchor of matches) {
+        const start = Math.max(0, anchor.start - 40);
+        const count = matches.filter(m => m.start >= start && m.end <= start + SNIPPET_CHARS).length;
+        if (count > best) {
+            best = count;
+            windowStart = start;
+        }
+    }
+    // Snap to word boundaries
+    if (windowStart > 0) {
+        const space = text.lastIndexOf(' ', windowStart);
+        windowStart = space > windowStart - 20 ? space + 1 : windowStart;
+    }
+    let windowEnd = Math.min(text.length, windowStart + SNIPPET_CHARS);
+    if (windowEnd < text.length) {
+        const space = text.indexOf(' ', windowEnd);
+        windowEnd = space >= 0 && space < windowEnd + 20 ? space : windowEnd;
+    }
+
+    const prefix = windowStart > 0 ? '…' : '';
+    const body = text.slice(windowStart, windowEnd).replace(/\s/g, ' ');
+    const highlights = matches
+        .filter(m => m.start >= windowStart && m.end <= windowEnd)
+        .map(m => [m.start - windowStart + prefix.length, m.end - windowStart + prefix.length] as [number, number]);
+    return { snippet: `${prefix}${body}${windowEnd < text.length ? '…' : ''}`, highlights };
+};
+
+// --- Search ---
+
+// Lower-case words separated by single spaces and padded, so phrase containment is word-bounded
+const normalizeForPhrase = (text: string) => ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+// Ranked files for the query. `corpus` is every file to index (normally getAllKnownFiles()); `fileIds`
+// restricts the results (e.g. to the folder on screen) without changing term statistics. A file only
+// matches through a passage holding every one of `phrases`, and is dropped if any passage holds an `excluded` word or phrase.
+// `expansions` (glossary forms such as "overhead equipment" for "OHE") also score, but only where they appear whole.
+export const searchFullText = async (
+    query: string,
+    corpus: DriveFile[],
+    options: { fileIds?: Set<string>; limit?: number; phrases?: string[]; excluded?: string[]; expansions?: string[] } = {}
+): Promise<SearchResult[]> => {
+    const queryTerms = tokenizeQuery(query);
+    if (queryTerms.length === 0) return [];
+    const index = await getIndex(corpus);
+    const total = index.passages.length;
+
+    const passageScores = new Map<number, number>();
+    const matchedTerms = new Map<number, Set<string>>();
+    const scoreTerm = (term: string, weight: number, within?: Set<number>) => {
+        const list = index.postings.get(term);
+        if (!list) return;
+        const idf = Math.log(1 + (total - list.length + 0.5) / (list.length + 0.5));
+        list.forEach(({ passage, tf }) => {
+            const p = index.passages[passage];
+            if (options.fileIds && !options.fileIds.has(p.fileId)) return;
+            if (within && !within.has(passage)) return;
+            const norm = tf + K1 * (1 - B + B * (p.length / (index.averageLength || 1)));
+            passageScores.set(passage, (passageScores.get(passage) || 0) + weight * idf * (tf * (K1 + 1)) / norm);
+            matchedTerms.set(passage, (matchedTerms.get(passage) || new Set()).add(term));
+        });
+    };
+    queryTerms.forEach(term => scoreTerm(term, 1));
+
+    // "equipment" alone must not match an expansion of "OHE"; only passages holding the whole expansion count
+    const expansionTerms: string[] = [];
+    (options.expansions || []).forEach(expansion => {
+        const terms = tokenizeQuery(expansion).filter(term => !queryTerms.includes(term));
+        if (terms.length === 0) return;
+        const phrase = normalizeForPhrase(expansion);
+        const candidates = new Set(terms.flatMap(term => (index.postings.get(term) || []).map(({ passage }) => passage)));
+        const holders = new Set(Array.from(candidates).filter(passage => normalizeForPhrase(index.passages[passage].text).includes(phrase)));
+        if (holders.size === 0) return;
+        terms.forEach(term => scoreTerm(term, EXPANSION_WEIGHT, holders));
+        expansionTerms.push(...terms);
+    });
+
+    const phrases = (options.phrases || []).map(normalizeForPhrase);
+    if (phrases.length > 0) {
+        passageScores.forEach((_, passage) => {
+            const text = normalizeForPhrase(index.passages[passage].text);
+            if (!phrases.every(phrase => text.includes(phrase))) passageScores.delete(passage);
+        });
+    }
+
+    // A file ranks by its best passage
+    const bestByFile = new Map<string, { passage: number; score: number }>();
+    passageScores.forEach((score, passage) => {
+        const weighted = score * index.passages[passage].boost;
+        const fileId = index.passages[passage].fileId;
+        const current = bestByFile.get(fileId);
+        if (!current || weighted > current.score) bestByFile.set(fileId, { passage, score: weighted });
+    });
+
+    const excluded = (options.excluded || []).map(normalizeForPhrase);
+    if (excluded.length > 0) {
+        index.passages.forEach(p => {
+            if (bestByFile.has(p.fileId) && excluded.some(phrase => normalizeForPhrase(p.text).includes(phrase))) bestByFile.delete(p.fileId);
+        });
+    }
+
+    const ranked = Array.from(bestByFile.entries()).sort((a, b) => b[1].score - a[1].score).slice(0, options.limit || DEFAULT_LIMIT);
+    const topScore = ranked[0]?.[1].score || 1;
+    const names = new Map(corpus.map(f => [f.id, f.name]));
+    const querySet = new Set([...queryTerms, ...expansionTerms]);
+    return ranked.map(([fileId, { passage, score }]) => {
+        const p = index.passages[passage];
+        return {
+            id: fileId,
+            fileName: names.get(fileId) || fileId,
+            ...buildSnippet(p.text, querySet),
+            relevance: Number((score / topScore).toFixed(3)),
+            page: p.page,
+            section: p.section,
+            metadata: { score: Number(score.toFixed(3)), matchedTerms: Array.from(matchedTerms.get(passage) || []) }
+        };
+    });
+};
@@ -1,68 +1,196 @@
 
-import { GoogleGenAI, LiveServerMessage, Modality, Type } from "@google/genai";
-import { SYSTEM_INSTRUCTION_RAG } from "../constants";
+import { LiveServerMessage, Modality, Type } from "@google/genai";
 import { logActivityToSheet, incrementOcrCount } from "./driveService";
-import { LetterDraft } from "../types";
-
-// Robust environment check that prioritizes Admin-configured key from LocalStorage
-const getApiKey = () => {
-  const customKey = localStorage.getItem('kmrcl_custom_api_key');
-  if (customKey && customKey.length > 10) return customKey;
-  return process.env.API_KEY || '';
-};
+import { getLlmProvider, getGeminiClient, getLlmConfig, resetLlmProvider, LlmProvider } from "./llmProvider";
+import { AiError, MissingApiKeyError, isAbortError, toAiError } from "./aiErrors";
+import { ChunkSummarizer, fitDocumentsToBudget, getContextBudget, getMapChunkTokens } from "./contextBudget";
+import { renderPrompt } from "./promptRegistry";
+import { formatGlossaryForPrompt } from "./glossary";
+import { usageService } from "./usageService";
+import { authService } from "./authService";
+import { getModelChainForTask, getPrimaryModel, orderByAvailability, recordModelFailure, recordModelSuccess } from "./modelRouter";
+import { buildCacheKey, getCachedResponse, putCachedResponse } from "./responseCache";
+import { buildCitableContext, parseCitations } from "./citations";
+import { assessGrounding, enforceGrounding, REFUSAL_PREFIX } from "./grounding";
+import { SUMMARY_TARGET_TOKENS } from "./chatHistory";
+import { createRedactionSession } from "./redaction";
+import { AiResponseMeta, ChatToolset, StructuredDataSheet, Citation, GroundingAssessment, CitationSource, ContextCoverage, ContextDocument, LetterDraft, LlmContent, LlmPart, LlmRequest, LlmResponse, PromptTemplateRef, ToolStep } from "../types";
+
+export interface AiCallOptions {
+    signal?: AbortSignal;                      // Cancels the request (Stop button)
+    onPartial?: (textSoFar: string) => void;   // Streams the response when provided
+    onContextCoverage?: (coverage: ContextCoverage[]) => void; // How much of each context file was used
+    onResponseMeta?: (meta: AiResponseMeta) => void;           // Provenance of a successful response
+    bypassCache?: boolean;                     // Skip the cached answer and refresh it with a new call
+    onCitations?: (citations: Citation[]) => void; // Source markers found in the answer, validated against the context
+    tools?: ChatToolset;                       // Lets the model call functions before answering (Engineering chat)
+    onToolStep?: (step: ToolStep) => void;     // Each tool call, reported when it starts and again when it finishes
+    groundedOnly?: boolean;                    // Engineering: answer only from the supplied/retrieved passages
+    onGrounding?: (grounding: GroundingAssessment) => void; // Whether the answer relied on model knowledge
+    conversationSummary?: string;              // Condensed earlier turns, sent alongside the verbatim recent history
+    provider?: LlmProvider;                    // Serves the call instead of the configured provider (evaluation runs)
+}
 
-// Singleton instance getter to prevent early initialization errors
-let aiInstance: GoogleGenAI | null = null;
-const getAiClient = () => {
-    // Always recreate if key changes might have happened, or check logic
-    // For simplicity, if we need to support dynamic keys effectively, we should instantiate fresh if needed
-    // But keeping singleton is better for performance. 
-    // If the Admin updates key, they usually refresh or we can force reload.
-    if (!aiInstance) {
-        aiInstance = new GoogleGenAI({ apiKey: getApiKey() });
-    }
-    return aiInstance;
+interface GenerateOptions {
+    onText?: (delta: string) => void;          // Streams the response when provided
+    chain?: string[];                          // Overrides the task's configured fallback chain
+    // Opt-in response caching, keyed on the template versions used to render the prompt.
+    // `accept` keeps unusable answers (e.g. malformed JSON) out of the cache.
+    cache?: { promptTemplates: PromptTemplateRef[]; bypass?: boolean; accept?: (response: LlmResponse) => boolean };
+    // Replaces the configured provider for this call only (evaluation runs). Such calls never use or fill the
+    // cache, so canned or replayed answers never reach real users; live ones are still metered.
+    provider?: LlmProvider;
 }
 
+const MAX_RETRY_AFTER_MS = 10 * 1000;
+
+// Backoff between attempts; Stop ends the wait at once with the AbortError
+const waitBeforeRetry = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
 // Reset client helper (called when Admin saves new key)
 export const resetAiClient = () => {
-    aiInstance = null;
+    resetLlmProvider();
 }
 
-// --- Helper for Safe Generation with Retry ---
-const safeGenerateContent = async (options: any) => {
-    const ai = getAiClient();
-    let attempts = 0;
-    const maxAttempts = 3;
-    const apiKey = getApiKey();
-    if (!apiKey) throw new Error("API Key is missing. Please configure it in Settings.");
-    
-    while (attempts < maxAttempts) {
-        try {
-            return await ai.models.generateContent(options);
-        } catch (e: any) {
-            attempts++;
-            if (e.message?.includes('503') || e.message?.includes('429')) {
-                if (attempts === maxAttempts) throw e;
-                await new Promise(r => setTimeout(r, 500 * Math.pow(2, attempts)));
-            } else {
-                throw e; 
+// --- Helper for Safe Generation with Retry and Model Fallback ---
+// The request is tried against the task's fallback chain (see modelRouter.ts): each model gets a couple of
+// attempts on retryable errors, then the next model takes over. Models with an open circuit go last.
+// When onText is given the response is streamed; nothing is retried once text has been streamed.
+// Always rejects with an AiError (or the untouched AbortError when the caller cancelled).
+// Every successful call is metered against the signed-in user; the daily quota is checked up front.
+// Cache hits (see responseCache.ts) are returned before the quota check and are not metered.
+// A provider passed in the options (evaluation runs) bypasses the cache. Offline providers (stub, replay) make no
+// billable calls: they skip the quota and metering, and leave the circuit breaker alone.
+// Sensitive values are masked before anything leaves the browser (see redaction.ts) and restored in the
+// answer; the cache only ever holds the masked request and response.
+const safeGenerateContent = async (originalRequest: Omit<LlmRequest, 'model'>, options: GenerateOptions = {}): Promise<LlmResponse> => {
+    const provider = options.provider || getLlmProvider();
+    const metered = !provider.offline;
+    const user = authService.getCurrentUser();
+    const chain = options.chain || getModelChainForTask(originalRequest.task);
+    const redaction = createRedactionSession();
+    const request = redaction.redactRequest(originalRequest);
+    const restorer = options.onText ? redaction.createStreamRestorer(options.onText) : undefined;
+    let streamed = false;
+    let lastError: Error | null = null;
+    // Models tried before the one that answered, in the order they failed
+    const failedModels: string[] = [];
+    if (!provider.isConfigured()) throw new MissingApiKeyError();
+
+    let cacheKey: string | null = null;
+    if (options.cache && !options.provider) {
+        const model = provider.id === 'GEMINI' ? chain[0] : `${provider.id}:${getLlmConfig().model}`;
+        cacheKey = await buildCacheKey(request, { model, promptTemplates: options.cache.promptTemplates });
+        const cached = options.cache.bypass ? null : await getCachedResponse(cacheKey);
+        if (cached) {
+            const restored = redaction.restoreResponse(cached);
+            options.onText?.(restored.text);
+            return { ...restored, skippedModels: [], cached: true, redactedCount: redaction.maskedCount };
+        }
+    }
+    if (metered) usageService.assertWithinQuota(user);
+    redaction.recordAudit(request.task);
+
+    // Chains hold Gemini model names; other providers always serve their own configured model, and their failures
+    // say nothing about the health of the Gemini model named in the request
+    const candidates = provider.id === 'GEMINI' ? orderByAvailability(chain) : chain.slice(0, 1);
+    const tracksModelHealth = provider.id === 'GEMINI' && metered;
+    const maxAttemptsPerModel = candidates.length > 1 ? 2 : 3;
+
+    for (const model of candidates) {
+        for (let attempt = 1; attempt <= maxAttemptsPerModel; attempt++) {
+            const modelRequest: LlmRequest = { ...request, model };
+            try {
+                const response = restorer
+                    ? await provider.stream(modelRequest, (delta) => {
+                        streamed = true;
+                        restorer.push(delta);
+                    })
+                    : await provider.generate(modelRequest);
+                restorer?.flush();
+                if (tracksModelHealth) recordModelSuccess(model);
+                if (metered) usageService.recordUsage(user, request.task, modelRequest, response);
+                if (cacheKey && (options.cache?.accept?.(response) ?? true)) void putCachedResponse(cacheKey, request.task, response);
+                return {
+                    ...redaction.restoreResponse(response),
+                    skippedModels: failedModels,
+                    redactedCount: redaction.maskedCount
+                };
+            } catch (e: any) {
+                const error = toAiError(e);
+                // Cancellation, safety blocks, bad input... would fail the same way on every model
+                if (!(error instanceof AiError) || !error.retryable || streamed) throw error;
+                if (tracksModelHealth) recordModelFailure(model);
+                lastError = error;
+                if (error.kind === 'MODEL_UNAVAILABLE' || attempt === maxAttemptsPerModel) break;
+                // A server-sent Retry-After wins over the backoff, but is capped so the UI never hangs on it
+                const delay = error.retryAfterMs !== undefined ? Math.min(error.retryAfterMs, MAX_RETRY_AFTER_MS) : 500 * Math.pow(2, attempt);
+                await waitBeforeRetry(delay, request.signal);
             }
         }
+        failedModels.push(model);
+        if (model !== candidates[candidates.length - 1]) {
+            console.warn(`${model} failed for ${request.task}; falling back to the next model in the chain`);
+        }
     }
+    throw lastError;
 };
 
-// --- OCR Logic for Scanned PDFs/Images ---
-export const performOCR = async (base64Data: string, mimeType: string, highAccuracy: boolean = false): Promise<string> => {
-  const apiKey = getApiKey();
-  if (!apiKey) return "OCR Error: API Key missing. Please ask Admin to configure it.";
+// Provenance handed to onResponseMeta
+const toResponseMeta = (response: LlmResponse, promptTemplates: PromptTemplateRef[]): AiResponseMeta => ({
+    promptTemplates,
+    model: response.model,
+    skippedModels: response.skippedModels || [],
+    cached: !!response.cached,
+    redactedCount: response.redactedCount || 0
+});
+
+// --- Map-phase summariser for context that exceeds the budget (see contextBudget.ts) ---
+const createChunkSummarizer = (focus: string, options: AiCallOptions): ChunkSummarizer => async (chunk, info) => {
+    const condensePrompt = renderPrompt('CONTEXT_CONDENSE', { ...info, focus, chunk });
+    const response = await safeGenerateContent({
+        task: 'CONTEXT_CONDENSE',
+        temperature: 0.1,
+        contents: [{
+            role: 'user',
+            parts: [{ text: condensePrompt.text }]
+        }],
+        signal: options.signal
+    }, { cache: { promptTemplates: [condensePrompt.ref], bypass: options.bypassCache }, provider: options.provider });
+    return response.text;
+};
+
+// Rolling summary of older turns rides along in the system instruction so the history keeps alternating roles
+const withConversationSummary = (instruction: string, summary?: string) =>
+    summary ? `${instruction}\n\nEARLIER IN THIS CONVERSATION (condensed):\n${summary}` : instruction;
+
+// Chat history as kept by the UI -> provider contents
+const toLlmHistory = (history: { role: string; parts: { text: string }[] }[]): LlmContent[] =>
+    history.map(h => ({ role: h.role === 'user' ? 'user' : 'model', parts: h.parts }));
 
-  const model = highAccuracy ? 'gemini-1.5-pro' : 'gemini-1.5-flash';
+// --- OCR Logic for Scanned PDFs/Images ---
+export const performOCR = async (base64Data: string, mimeType: string, highAccuracy: boolean = false, options: AiCallOptions = {}): Promise<string> => {
+  // High accuracy moves the chain's Pro models to the front, keeping the rest as fallbacks
+  const chain = getModelChainForTask('OCR');
+  const ocrChain = highAccuracy ? [...chain].sort((a, b) => Number(b.includes('-pro')) - Number(a.includes('-pro'))) : chain;
+  const ocrPrompt = renderPrompt('OCR');
 
   try {
     const response = await safeGenerateContent({
-      model: model,
+      task: 'OCR',
       contents: [{
+        role: 'user',
         parts: [
           { 
             inlineData: { 
@@ -70,235 +198,294 @@ export const performOCR = async (base64Data: string, mimeType: string, highAccur
               data: base64Data 
             } 
           },
-          { 
-            text: `Perform high-fidelity Optical Character Recognition (OCR) on this document. Extract all visible text accurately, maintaining the original structure and formatting as much as possible. If this is a technical document, preserve any formulas, measurements, or technical specifications exactly as they appear.
-
-Please provide:
-1. The complete extracted text
-2. Any tables or structured data in a readable format
-3. Note any text that appears unclear or potentially incorrect
-
-Focus on accuracy and completeness.` 
-          }
+          { text: ocrPrompt.text }
         ]
-      }]
-    });
+      }],
+      signal: options.signal
+    }, { chain: ocrChain, cache: { promptTemplates: [ocrPrompt.ref], bypass: options.bypassCache }, provider: options.provider });
     
-    const result = response?.response?.text() || "No text could be extracted from this document.";
+    const result = response.text || "No text could be extracted from this document.";
     logActivityToSheet('ANALYSIS', `Performed OCR on ${mimeType} file.`);
     incrementOcrCount(); // Updates Dashboard Counter
+    options.onResponseMeta?.(toResponseMeta(response, [ocrPrompt.ref]));
     return result;
-  } catch (error: any) {
+  } catch (error) {
     console.error("OCR Error:", error);
-    
-    // More specific error messages
-    if (error.message?.includes('API_KEY')) {
-      return "OCR Error: Invalid API key. Please check your Gemini API configuration.";
-    } else if (error.message?.includes('QUOTA')) {
-      return "OCR Error: API quota exceeded. Please try again later.";
-    } else if (error.message?.includes('SAFETY')) {
-      return "OCR Error: Content blocked by safety filters. Please try a different document.";
-    } else if (error.message?.includes('INVALID_ARGUMENT')) {
-      return "OCR Error: Invalid file format or corrupted file. Please try uploading a clear image or PDF.";
-    } else {
-      return `OCR Error: ${error.message || 'Unknown error occurred during text extraction.'}`;
-    }
+    throw error;
   }
 };
 
 // --- Audio Transcription (Email Dictation) ---
-export const transcribeAudio = async (base64Data: string, mimeType: string): Promise<string> => {
-  if (!getApiKey()) return "Error: API Key missing.";
+export const transcribeAudio = async (base64Data: string, mimeType: string, options: AiCallOptions = {}): Promise<string> => {
   try {
+    const transcriptionPrompt = renderPrompt('AUDIO_TRANSCRIPTION');
     const response = await safeGenerateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
+      task: 'TRANSCRIPTION',
+      contents: [{
+        role: 'user',
         parts: [
           { inlineData: { mimeType, data: base64Data } },
-          { text: "Transcribe the following audio accurately. It is a dictation for a professional email. Fix any minor grammar issues and punctuation to make it a coherent sentence or paragraph. Do not add any conversational filler (like 'Okay', 'Um'). Just provide the cleaned transcript text." }
+          { text: transcriptionPrompt.text }
         ]
-      }
-    });
-    return response?.text || "";
+      }],
+      signal: options.signal
+    }, { provider: options.provider });
+    options.onResponseMeta?.(toResponseMeta(response, [transcriptionPrompt.ref]));
+    return response.text;
   } catch (error) {
     console.error("Transcription Error:", error);
-    return "Error transcribing audio.";
+    throw error;
+  }
+};
+
+const isValidJson = (text: string) => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
   }
 };
 
 // --- Structured Data Analysis (Excel/CSV) ---
-export const analyzeStructuredData = async (dataContext: string, fileName: string) => {
-  if (!getApiKey()) return null;
-  
-  const prompt = `
-    You are a Senior Data Analyst for a Metro Rail Corporation.
-    Analyze the following tabular data (extracted from ${fileName}).
-    
-    Data Context (JSON format):
-    ${dataContext.substring(0, 30000)} 
-    
-    Tasks:
-    1. Summarize the data content and purpose.
-    2. Extract key metrics/KPIs (Totals, Averages, Counts, Dates).
-    3. Identify any anomalies, errors, discrepancies, or outliers (e.g., missing values, unusually high costs, expired dates).
-    4. Provide specific recommendations based on the findings.
-    
-    Output strictly as valid JSON with the following structure:
-    {
-      "summary": "Detailed executive summary...",
-      "specs": [{"label": "Total Revenue", "value": "$1.2M"}, {"label": "Record Count", "value": "150"}],
-      "warnings": ["Row 15: Missing date", "Row 42: Cost exceeds threshold"],
-      "recommendations": ["Review vendor contracts for X", "Standardize date formats"]
-    }
-  `;
+// Several sheets are analysed in one call: each is budgeted as its own document (so one huge sheet cannot
+// crowd out the rest) and sent behind a [Sheet: name] marker; the model returns per-sheet results plus a
+// combined workbook summary.
+export const analyzeStructuredData = async (sheets: StructuredDataSheet[], fileName: string, options: AiCallOptions = {}) => {
+  const model = getPrimaryModel('DATA_ANALYSIS');
+  const buildPrompt = (data: string) => renderPrompt('DATA_ANALYSIS', { fileName, data });
+  const isWorkbook = sheets.length > 1;
 
   try {
-     const response = await safeGenerateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [{ text: prompt }] },
-      config: { responseMimeType: 'application/json' }
+    const { documents, coverage } = await fitDocumentsToBudget(
+      sheets.map(sheet => ({ name: isWorkbook ? `${fileName} [${sheet.name}]` : fileName, content: sheet.data })),
+      getContextBudget(model, [buildPrompt(sheets.map(sheet => `[Sheet: ${sheet.name}]`).join('\n')).text]),
+      createChunkSummarizer(`an executive analysis of ${fileName} (KPIs, totals, anomalies, recommendations)`, options),
+      getMapChunkTokens(model)
+    );
+    options.onContextCoverage?.(coverage);
+
+    const analysisPrompt = buildPrompt(isWorkbook
+      ? documents.map((doc, i) => `[Sheet: ${sheets[i].name}]\n${doc.content}`).join('\n\n')
+      : documents[0].content);
+    const response = await safeGenerateContent({
+      task: 'DATA_ANALYSIS',
+      contents: [{ role: 'user', parts: [{ text: analysisPrompt.text }] }],
+      responseMimeType: 'application/json',
+      signal: options.signal
+    }, {
+      cache: { promptTemplates: [analysisPrompt.ref], bypass: options.bypassCache, accept: r => isValidJson(r.text) },
+      provider: options.provider
     });
     
-    const text = response?.text || '{}';
+    const text = response.text || '{}';
     logActivityToSheet('ANALYSIS', `Analyzed structured data: ${fileName}`);
-    return JSON.parse(text);
+    try {
+      const parsed = JSON.parse(text);
+      const meta = toResponseMeta(response, [analysisPrompt.ref]);
+      options.onResponseMeta?.(meta);
+      return { ...parsed, sheets: isWorkbook ? parsed.sheets : undefined, coverage, promptTemplate: analysisPrompt.ref, model: meta.model, skippedModels: meta.skippedModels, cached: meta.cached };
+    } catch (parseError) {
+      throw new AiError('UNKNOWN', "The model returned malformed analysis JSON. Please retry.", true, parseError);
+    }
   } catch (e) {
     console.error("Analysis Error:", e);
-    return { summary: "Error analyzing data.", specs: [], warnings: ["AI processing failed"], recommendations: [] };
+    throw e;
   }
 };
 
+// Accumulates streamed deltas and hands the full text so far to the UI
+const toPartialHandler = (onPartial?: (textSoFar: string) => void) => {
+    if (!onPartial) return undefined;
+    let textSoFar = '';
+    return (delta: string) => {
+        textSoFar += delta;
+        onPartial(textSoFar);
+    };
+};
+
 // --- General AI Search ---
-export const generateGeneralResponse = async (prompt: string, history: { role: string; parts: { text: string }[] }[]) => {
-  if (!getApiKey()) return "Error: API Key missing.";
+export const generateGeneralResponse = async (
+  prompt: string,
+  history: { role: string; parts: { text: string }[] }[],
+  options: AiCallOptions = {}
+) => {
   try {
-     const ai = getAiClient();
-     const chat = ai.chats.create({
-      model: 'gemini-2.5-flash',
-      config: {
-        systemInstruction: "You are a highly intelligent, general-purpose AI assistant...",
-      },
-      history: history.map(h => ({ role: h.role, parts: h.parts })),
-    });
-    const result = await chat.sendMessage({ message: prompt });
+    const systemPrompt = renderPrompt('GENERAL_CHAT');
+    const result = await safeGenerateContent({
+      task: 'GENERAL',
+      systemInstruction: withConversationSummary(systemPrompt.text, options.conversationSummary),
+      contents: [...toLlmHistory(history), { role: 'user', parts: [{ text: prompt }] }],
+      signal: options.signal
+    }, { onText: toPartialHandler(options.onPartial), provider: options.provider });
     // Log the interaction
     logActivityToSheet('CHAT', `[GENERAL] User: ${prompt} | Bot: ${result.text.substring(0, 50)}...`);
+    options.onResponseMeta?.(toResponseMeta(result, [systemPrompt.ref]));
     return result.text;
   } catch (e) {
     console.error("General AI Error", e);
-    return "Error in General AI Mode.";
+    throw e;
   }
 };
 
+// --- Rolling Conversation Summary (long chats) ---
+export const summarizeConversation = async (previousSummary: string, transcript: string, options: AiCallOptions = {}) => {
+  const summaryPrompt = renderPrompt('CONVERSATION_SUMMARY', {
+    previousSummary: previousSummary || '(none yet)',
+    transcript,
+    targetTokens: SUMMARY_TARGET_TOKENS
+  });
+  const response = await safeGenerateContent({
+    task: 'CONTEXT_CONDENSE',
+    temperature: 0.1,
+    contents: [{ role: 'user', parts: [{ text: summaryPrompt.text }] }],
+    signal: options.signal
+  }, { provider: options.provider });
+  options.onResponseMeta?.(toResponseMeta(response, [summaryPrompt.ref]));
+  return response.text.trim();
+};
+
 // --- Email Writer ---
-export const generateEmailDraft = async (to: string, topic: string, keyPoints: string, tone: string) => {
-  if (!getApiKey()) return "Error: API Key missing.";
+export const generateEmailDraft = async (to: string, topic: string, keyPoints: string, tone: string, options: AiCallOptions = {}) => {
   try {
-    const prompt = `You are an expert executive communications assistant. Enhance the following email draft to be professional, impactful, and include strategic KPIs where relevant.
-    
-    Drafting Details:
-    - To: ${to}
-    - Topic: ${topic}
-    - Key Points/Voice Notes: ${keyPoints}
-    - Desired Tone: ${tone}
-
-    Output the full email body ready to send.`; 
+    const emailPrompt = renderPrompt('EMAIL_DRAFT', { to, topic, keyPoints, tone });
     const response = await safeGenerateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [{ text: prompt }] }
-    });
-    const draft = response?.text || "Failed to generate email.";
+      task: 'EMAIL',
+      contents: [{ role: 'user', parts: [{ text: emailPrompt.text }] }],
+      signal: options.signal
+    }, { provider: options.provider });
+    const draft = response.text || "Failed to generate email.";
     logActivityToSheet('EMAIL_DRAFT', `Drafted email to ${to} about ${topic}`);
+    options.onResponseMeta?.(toResponseMeta(response, [emailPrompt.ref]));
     return draft;
   } catch (e) {
-    return "Error generating email.";
+    console.error("Email Draft Error", e);
+    throw e;
   }
 };
 
 // --- Official Letter Generator ---
-export const generateOfficialLetter = async (details: LetterDraft) => {
-  if (!getApiKey()) return "Error: API Key missing.";
-  
-  const systemPrompt = `You are a Senior Administrative Officer responsible for drafting official corporate letters for BEML Limited or Metro authorities.
-  
-  Format Requirements:
-  - DO NOT include the Header or Footer in the text output (these are handled by the letterhead renderer).
-  - DO NOT include "Ref No" or "Date" at the top (handled by renderer).
-  - Start directly with the "To" address block if provided, then "Kind Attn", then "Dear Sir/Madam".
-  - Subject line should be bold or clearly marked as "Sub:".
-  - Reference lines should be marked as "Ref:".
-  - The body should be strictly formal, legalistic, and professional.
-  - Paragraphs should be numbered A, B, C or 1, 2, 3 if complex.
-  - End with "Yours Faithfully", followed by the Signatory Name and Designation.
-  
-  Input Details:
-  - Recipient: ${details.recipient}
-  - Attn: ${details.attn}
-  - Subject: ${details.subject}
-  - References: ${details.reference}
-  - Key Content Points: ${details.bodyPoints}
-  - Signatory: ${details.signatoryName}, ${details.signatoryDesignation}
-  - CC: ${details.cc}
-  `;
+export const generateOfficialLetter = async (details: LetterDraft, options: AiCallOptions = {}) => {
+  const systemPrompt = renderPrompt('OFFICIAL_LETTER', {
+    recipient: details.recipient,
+    attn: details.attn,
+    subject: details.subject,
+    reference: details.reference,
+    bodyPoints: details.bodyPoints,
+    signatoryName: details.signatoryName,
+    signatoryDesignation: details.signatoryDesignation,
+    cc: details.cc
+  });
 
   try {
     const response = await safeGenerateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [{ text: "Generate the official letter body based on the instructions." }] },
-      config: {
-        systemInstruction: systemPrompt
-      }
-    });
-    const draft = response?.text || "Failed to generate letter.";
+      task: 'LETTER',
+      contents: [{ role: 'user', parts: [{ text: "Generate the official letter body based on the instructions." }] }],
+      systemInstruction: systemPrompt.text,
+      signal: options.signal
+    }, { provider: options.provider });
+    const draft = response.text || "Failed to generate letter.";
     logActivityToSheet('CHAT', `Drafted Official Letter: ${details.subject}`);
+    options.onResponseMeta?.(toResponseMeta(response, [systemPrompt.ref]));
     return draft;
   } catch (e) {
-    return "Error generating letter.";
+    console.error("Letter Draft Error", e);
+    throw e;
   }
 };
 
+// Upper bound on model <-> tool round trips for one chat turn
+const MAX_TOOL_ROUNDS = 6;
+
+// Runs the model's function calls one by one. Tool text that can be cited is labelled to continue the
+// [doc:N] numbering of `citationSources`, which is extended in place. Tool failures go back to the model.
+const runToolCalls = async (result: LlmResponse, round: number, citationSources: CitationSource[], options: AiCallOptions): Promise<LlmContent[]> => {
+    const calls = result.functionCalls || [];
+    const callParts: LlmPart[] = calls.map(call => ({
+        functionCall: { id: call.id, name: call.name, args: call.args },
+        thoughtSignature: call.thoughtSignature
+    }));
+    const responseParts: LlmPart[] = [];
+    for (const [i, call] of calls.entries()) {
+        const step: ToolStep = { id: call.id || `tool-${round}-${i}`, name: call.name, args: call.args, status: 'RUNNING' };
+        options.onToolStep?.(step);
+        let response: Record<string, any>;
+        try {
+            const execution = await options.tools!.execute(call);
+            response = execution.response;
+            if (execution.documents?.length) {
+                const citable = buildCitableContext(execution.documents, citationSources.length + 1);
+                citationSources.push(...citable.sources);
+                response = { ...response, content: citable.text };
+            }
+            options.onToolStep?.({ ...step, status: 'DONE', summary: execution.summary, action: execution.action });
+        } catch (e: any) {
+            if (options.signal?.aborted || isAbortError(e)) throw e;
+            const message = e?.message || String(e);
+            options.onToolStep?.({ ...step, status: 'ERROR', summary: message });
+            response = { error: message };
+        }
+        responseParts.push({ functionResponse: { id: call.id, name: call.name, response } });
+    }
+    return [
+        { role: 'model', parts: result.text ? [{ text: result.text }, ...callParts] : callParts },
+        { role: 'user', parts: responseParts }
+    ];
+};
+
 // --- RAG & Chat Logic ---
 export const generateEngineeringResponse = async (
   prompt: string, 
   history: { role: string; parts: { text: string }[] }[],
   attachment?: { mimeType: string; data: string } | null,
-  contextFiles: string[] = [],
-  contextSource: 'USER_SELECTION' | 'AUTO_SEARCH' = 'AUTO_SEARCH'
+  contextFiles: ContextDocument[] = [],
+  contextSource: 'USER_SELECTION' | 'AUTO_SEARCH' = 'AUTO_SEARCH',
+  options: AiCallOptions = {}
 ) => {
-  if (!getApiKey()) return "Error: API Key is missing.";
-
   try {
-    const ai = getAiClient();
-    const model = 'gemini-2.5-flash';
-    const messageParts: any[] = [];
-    
-    // Augmented System Instruction
-    const augmentedInstruction = `${SYSTEM_INSTRUCTION_RAG}
+    const model = getPrimaryModel('ENGINEERING');
+    const messageParts: LlmPart[] = [];
+    // Notes such as "nothing found, draw a synthetic diagram" invite ungrounded answers, so grounded-only mode drops them
+    if (options.groundedOnly) contextFiles = contextFiles.filter(d => !d.synthetic);
     
-    If the user asks to find specific circuits or drawings (e.g. "Find 555 timer circuits"):
-    1. Check the provided context for relevant files.
-    2. If found, describe them.
-    3. If NOT found in context, explicitly state "No relevant files found in the index" and then proceed to GENERATE the schematic/design using your internal knowledge.
-    
-    When generating circuit schematics:
-    - You must output an SVG representation wrapped in <svg> tags.
-    - Assign meaningful 'id' attributes to components (e.g., id="R1", id="C1").
-    - Connect components with lines using class="wire".
-    - Immediately after the </svg> tag, output a strictly valid JSON block enclosed in <<<COMPONENTS>>> and <<<END_COMPONENTS>>> listing the components used.
-    Example JSON structure:
-    <<<COMPONENTS>>>
-    [
-      {"designator": "R1", "type": "Resistor", "value": "10k", "description": "Pull-up resistor"},
-      {"designator": "U1", "type": "IC", "value": "NE555", "description": "Timer IC"}
-    ]
-    <<<END_COMPONENTS>>>
-    `;
+    // Augmented System Instruction (admin-editable templates); citation rules only apply when there is
+    // context, which includes anything the tools may read
+    const prompts = [
+        renderPrompt('ENGINEERING_RAG'),
+        ...(contextFiles.length > 0 || options.tools ? [renderPrompt('CITATION_RULES')] : []),
+        ...(options.tools ? [renderPrompt('ENGINEERING_TOOLS')] : []),
+        ...(options.groundedOnly ? [renderPrompt('GROUNDED_MODE')] : [])
+    ];
+    // The glossary is appended here rather than through a placeholder, so an admin-edited template cannot drop it
+    const glossary = formatGlossaryForPrompt(prompt);
+    const augmentedInstruction = withConversationSummary([...prompts.map(p => p.text), glossary].filter(Boolean).join('\n\n'), options.conversationSummary);
+    const promptTemplates = prompts.map(p => p.ref);
+    const citationSources: CitationSource[] = [];
+
+    // Nothing to ground an answer in and no way to retrieve anything: refuse without calling the model
+    if (options.groundedOnly && contextFiles.length === 0 && !options.tools) {
+      const refusal = `${REFUSAL_PREFIX}: no documents were retrieved for this question and grounded-only mode does not allow answers from model knowledge. Select the relevant source files and ask again.`;
+      options.onGrounding?.(assessGrounding(refusal, [], { contextSupplied: false, strict: true }));
+      return refusal;
+    }
 
     if (contextFiles.length > 0) {
       const label = contextSource === 'USER_SELECTION' 
         ? "USER SELECTED CONTEXT (High Priority - Focus strictly on these files):" 
         : "AUTOMATICALLY RETRIEVED CONTEXT (Use if relevant to query):";
-      messageParts.push({ text: `${label}\n${contextFiles.join('\n---\n')}\n\n` });
+      // Everything except the context documents is fixed; the documents get whatever budget is left,
+      // minus a little headroom for the passage markers added afterwards
+      const budget = Math.floor(0.97 * getContextBudget(model, [augmentedInstruction, label, prompt, ...history.flatMap(h => h.parts.map(p => p.text))]));
+      const { documents, coverage } = await fitDocumentsToBudget(
+        contextFiles,
+        budget,
+        createChunkSummarizer(`the engineering question "${prompt}"`, options),
+        getMapChunkTokens(model)
+      );
+      options.onContextCoverage?.(coverage);
+      const citable = buildCitableContext(documents.map((d, i) => ({ ...d, fileId: contextFiles[i].fileId, url: contextFiles[i].url })));
+      citationSources.push(...citable.sources);
+      messageParts.push({ text: `${label}\n${citable.text}\n\n` });
     }
     if (attachment) {
       messageParts.push({ inlineData: attachment });
@@ -307,39 +494,69 @@ export const generateEngineeringResponse = async (
       messageParts.push({ text: prompt });
     }
 
-    const chat = ai.chats.create({
-      model,
-      config: { systemInstruction: augmentedInstruction, temperature: 0.2 },
-      history: history.map(h => ({ role: h.role, parts: h.parts })),
-    });
-
-    const payload = messageParts.length === 1 && messageParts[0].text ? messageParts[0].text : messageParts;
-    const result = await chat.sendMessage({ message: payload });
+    const contents: LlmContent[] = [...toLlmHistory(history), { role: 'user', parts: messageParts }];
+    let result: LlmResponse;
+    let toolCalls = 0;
+    for (let round = 0; ; round++) {
+      result = await safeGenerateContent({
+        task: 'ENGINEERING',
+        systemInstruction: augmentedInstruction,
+        temperature: 0.2,
+        contents,
+        tools: options.tools?.declarations,
+        signal: options.signal
+      }, {
+        // Each round streams from scratch; interim "let me check..." text is replaced by the next round.
+        // Grounded-only answers are not streamed, so unsupported statements are never shown before being withheld.
+        onText: options.groundedOnly ? undefined : toPartialHandler(options.onPartial),
+        // Tool results come from live Drive data, so tool-enabled turns are never served from the cache
+        cache: options.tools ? undefined : { promptTemplates, bypass: options.bypassCache },
+        provider: options.provider
+      });
+      if (!options.tools || !result.functionCalls?.length) break;
+      if (round === MAX_TOOL_ROUNDS) {
+        if (result.text) break;
+        throw new AiError('UNKNOWN', `The model was still calling tools after ${MAX_TOOL_ROUNDS} rounds. Try a narrower question.`, true);
+      }
+      toolCalls += result.functionCalls.length;
+      const [modelTurn, toolTurn] = await runToolCalls(result, round, citationSources, options);
+      // Tools stay declared (the history references them); the model is told to stop on the last round
+      if (round === MAX_TOOL_ROUNDS - 1) toolTurn.parts.push({ text: "Tool budget exhausted. Answer now using only the information gathered so far." });
+      contents.push(modelTurn, toolTurn);
+    }
     
     // Log Activity
-    logActivityToSheet('CHAT', `[ENGINEERING] User: ${prompt} | Context: ${contextSource} (${contextFiles.length} files)`);
+    logActivityToSheet('CHAT', `[ENGINEERING] User: ${prompt} | Context: ${contextSource} (${contextFiles.length} files, ${toolCalls} tool calls)`);
+    options.onResponseMeta?.(toResponseMeta(result, promptTemplates));
+    let answer = result.text;
+    let citations = parseCitations(answer, citationSources);
+    let withheld = 0;
+    if (options.groundedOnly) {
+      const enforced = enforceGrounding(answer, citations);
+      answer = enforced.text;
+      withheld = enforced.withheld;
+      citations = parseCitations(answer, citationSources);
+    }
+    if (citationSources.length > 0) options.onCitations?.(citations);
+    options.onGrounding?.(assessGrounding(answer, citations, { contextSupplied: citationSources.length > 0, strict: !!options.groundedOnly, withheld }));
 
-    return result.text;
+    return answer;
   } catch (error) {
     console.error("Gemini Chat Error:", error);
-    return "Error connecting to AI service.";
+    throw error;
   }
 };
 
-export const generateMetroDrawing = async (description: string) => {
-  if (!getApiKey()) return null;
-  try {
-    const response = await safeGenerateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts: [{ text: `Technical engineering drawing: ${description}` }] },
-    });
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-    return null;
-  } catch (error) {
-    return null;
-  }
+export const generateMetroDrawing = async (description: string, options: AiCallOptions = {}) => {
+  // null means the model answered without an image; failures reject with an AiError
+  const response = await safeGenerateContent({
+    task: 'DRAWING',
+    contents: [{ role: 'user', parts: [{ text: `Technical engineering drawing: ${description}` }] }],
+    signal: options.signal
+  }, { provider: options.provider });
+  options.onResponseMeta?.(toResponseMeta(response, []));
+  const image = response.images[0];
+  return image ? `data:${image.mimeType};base64,${image.data}` : null;
 };
 
 // --- Gemini Live (Voice Agent) ---
@@ -351,6 +568,11 @@ const voiceTools = [
         description: "Select a document from the list for analysis by name.",
         parameters: { type: Type.OBJECT, properties: { fileName: { type: Type.STRING } }, required: ["fileName"] }
       },
+      {
+        name: "searchDrive",
+        description: "Search the drive and show the results in Drive Explorer. The query accepts words, \"exact phrases\", -excluded words and the filters type:pdf|image|folder|doc|sheet, tag:Name, modified:>2024-01-01 (also <, >=, <=, or YYYY / YYYY-MM) and size:>2MB.",
+        parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING } }, required: ["query"] }
+      },
       {
         name: "startAnalysis",
         description: "Start the analysis process and export the report.",
@@ -386,12 +608,14 @@ export class VoiceAgentService {
   public onToolCall: ((name: string, args: any) => Promise<any>) | null = null;
 
   async connect(userName: string = 'Engineer', availableFiles: string[] = []) {
-    if (!getApiKey()) throw new Error("API Key missing");
+    // Live audio sessions are only available through the Gemini provider
+    if (getLlmProvider().id !== 'GEMINI') throw new MissingApiKeyError("Voice Agent requires the Google Gemini provider. Change it in Settings.");
+    if (!getLlmProvider().isConfigured()) throw new MissingApiKeyError();
 
     try {
         this.onStatusChange?.('connecting');
         
-        const ai = getAiClient();
+        const ai = getGeminiClient();
         
         // Initialize audio contexts with proper error handling
         try {
@@ -421,6 +645,8 @@ export class VoiceAgentService {
         const fileListContext = availableFiles.length > 0 
             ? `\n\n[SYSTEM CONTEXT]\nThe following documents are available in the secure drive. If the user asks to open/analyze/select a file, try to match it to one of these exact names and call the "selectDocument" tool with the exact filename:\n${availableFiles.join('\n')}\n[END CONTEXT]` 
             : "";
+        const voicePrompt = renderPrompt('VOICE_AGENT', { userName, fileList: fileListContext });
+        logActivityToSheet('VOICE_COMMAND', `Voice session started with prompt ${voicePrompt.ref.id} v${voicePrompt.ref.version}`, 'System');
 
         this.sessionPromise = ai.live.connect({
         model: 'gemini-2.0-flash-exp',
@@ -445,7 +671,7 @@ export class VoiceAgentService {
         config: {
             responseModalities: [Modality.AUDIO],
             speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-            systemInstruction: `You are VOID, an AI assistant for KMRCL Metro Intelligence. Address the user as "${userName}". The admin is "Shashi". Be helpful, concise, and professional. ${fileListContext}`,
+            systemInstruction: voicePrompt.text,
             inputAudioTranscription: {},
             outputAudioTranscription: {},
             tools: voiceTools,
@@ -0,0 +1,117 @@
+import { GlossaryEntry } from "../types";
+
+// Admin-curated KMRCL terminology: abbreviations, synonyms and station aliases. Search expands a query with the
+// other forms of every entry it mentions, and the Engineering system prompt lists the preferred forms.
+
+const GLOSSARY_KEY = 'kmrcl_glossary';
+const MAX_PROMPT_ENTRIES = 150;
+
+const defineEntry = (id: string, kind: GlossaryEntry['kind'], term: string, variants: string[], note?: string): GlossaryEntry =>
+    ({ id, kind, term, variants, ...(note ? { note } : {}) });
+
+export const DEFAULT_GLOSSARY: GlossaryEntry[] = [
+    defineEntry('ohe', 'ABBREVIATION', 'OHE', ['overhead equipment', 'overhead catenary'], 'Overhead traction supply'),
+    defineEntry('cbtc', 'ABBREVIATION', 'CBTC', ['communication based train control', 'communications-based train control']),
+    defineEntry('atp', 'ABBREVIATION', 'ATP', ['automatic train protection']),
+    defineEntry('ato', 'ABBREVIATION', 'ATO', ['automatic train operation']),
+    defineEntry('ats', 'ABBREVIATION', 'ATS', ['automatic train supervision']),
+    defineEntry('tms', 'ABBREVIATION', 'TMS', ['train management system']),
+    defineEntry('vvvf', 'ABBREVIATION', 'VVVF', ['variable voltage variable frequency'], 'Traction inverter'),
+    defineEntry('scada', 'ABBREVIATION', 'SCADA', ['supervisory control and data acquisition']),
+    defineEntry('occ', 'ABBREVIATION', 'OCC', ['operations control centre', 'operation control center']),
+    defineEntry('psd', 'ABBREVIATION', 'PSD', ['platform screen door', 'platform screen doors']),
+    defineEntry('afc', 'ABBREVIATION', 'AFC', ['automatic fare collection']),
+    defineEntry('tss', 'ABBREVIATION', 'TSS', ['traction substation', 'traction sub station']),
+    defineEntry('rss', 'ABBREVIATION', 'RSS', ['receiving substation', 'receiving sub station']),
+    defineEntry('track-circuit', 'SYNONYM', 'track circuit', ['train detection circuit']),
+    defineEntry('rolling-stock', 'SYNONYM', 'rolling stock', ['trainset', 'train set']),
+    defineEntry('mukt', 'STATION', 'Mahanayak Uttam Kumar', ['Tollygunge']),
+    defineEntry('netaji-bhavan', 'STATION', 'Netaji Bhavan', ['Bhowanipur']),
+    defineEntry('jatin-das-park', 'STATION', 'Jatin Das Park', ['Hazra']),
+    defineEntry('kavi-subhash', 'STATION', 'Kavi Subhash', ['New Garia']),
+    defineEntry('shahid-khudiram', 'STATION', 'Shahid Khudiram', ['Briji']),
+    defineEntry('gitanjali', 'STATION', 'Gitanjali', ['Naktala']),
+    defineEntry('masterda', 'STATION', 'Masterda Surya Sen', ['Bansdroni']),
+    defineEntry('mg-road', 'STATION', 'Mahatma Gandhi Road', ['MG Road', 'M.G. Road']),
+    defineEntry('dum-dum', 'STATION', 'Dum Dum', ['Dumdum']),
+    defineEntry('dakshineswar', 'STATION', 'Dakshineswar', ['Dakshineshwar', 'Dakhineswar']),
+    defineEntry('sector-v', 'STATION', 'Salt Lake Sector V', ['Sector V', 'Sector 5', 'Sector-5'])
+];
+
+export const getGlossary = (): GlossaryEntry[] => {
+    try {
+        const stored = localStorage.getItem(GLOSSARY_KEY);
+        if (stored) return JSON.parse(stored);
+    } catch (e) {
+        console.error("Failed to read glossary", e);
+    }
+    return DEFAULT_GLOSSARY;
+};
+
+export const saveGlossary = (entries: GlossaryEntry[]) => {
+    const cleaned = entries
+        .map(e => ({ ...e, term: e.term.trim(), variants: e.variants.map(v => v.trim()).filter(Boolean), note: e.note?.trim() || undefined }))
+        .filter(e => e.term);
+    localStorage.setItem(GLOSSARY_KEY, JSON.stringify(cleaned));
+};
+
+// --- Matching ---
+
+// Lower-case words separated by single spaces and padded, so containment is word-bounded and
+// "M.G. Road", "m g road" and "M-G Road" are the same form
+const normalizeTerm = (text: string) => ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const formsOf = (entry: GlossaryEntry) => [entry.term, ...entry.variants].filter(form => normalizeTerm(form).trim());
+
+// Entries with at least one of their forms in the text
+export const findGlossaryEntries = (text: string, glossary = getGlossary()): GlossaryEntry[] => {
+    const normalized = normalizeTerm(text);
+    return glossary.filter(e => formsOf(e).some(form => normalized.includes(normalizeTerm(form))));
+};
+
+// The forms of every entry the text mentions that the text does not already contain:
+// "OHE mast drawing" -> ["overhead equipment", "overhead catenary"]
+export const expandGlossaryTerms = (text: string, glossary = getGlossary()): string[] => {
+    const normalized = normalizeTerm(text);
+    const expansions = findGlossaryEntries(text, glossary).flatMap(formsOf).filter(form => !normalized.includes(normalizeTerm(form)));
+    return Array.from(new Set(expansions));
+};
+
+// The text with each mentioned form swapped for each of its alternatives, normalised:
+// "Tollygunge depot layout" -> ["mahanayak uttam kumar depot layout"]. Used where whole-name matching needs rewritten queries.
+export const glossaryVariantsOf = (text: string, glossary = getGlossary()): string[] => {
+    const normalized = normalizeTerm(text);
+    const variants = findGlossaryEntries(text, glossary).flatMap(entry => {
+        const forms = formsOf(entry).map(normalizeTerm);
+        return forms.filter(form => normalized.includes(form)).flatMap(found =>
+            forms.filter(form => form !== found).map(form => normalized.replace(found, form).trim())
+        );
+    });
+    return Array.from(new Set(variants));
+};
+
+// The query with its expansions appended, for embedding: the vector then sits between the abbreviation and its meaning
+export const withGlossaryExpansions = (query: string, glossary = getGlossary()): string => {
+    const expansions = expandGlossaryTerms(query, glossary);
+    return expansions.length > 0 ? `${query} (${expansions.join('; ')})` : query;
+};
+
+// --- Prompt ---
+
+const describeEntry = (entry: GlossaryEntry) => {
+    const others = entry.variants.length > 0 ? entry.variants.join(', ') : '';
+    const note = entry.note ? ` — ${entry.note}` : '';
+    if (entry.kind === 'ABBREVIATION') return `- ${entry.term}: ${others}${note}`;
+    if (entry.kind === 'STATION') return `- ${entry.term} station${others ? ` (also written: ${others})` : ''}${note}`;
+    return `- ${entry.term}${others ? ` (same as: ${others})` : ''}${note}`;
+};
+
+// Glossary block for the Engineering system prompt; entries mentioned in `focus` (the question) come first.
+// Empty when the glossary is.
+export const formatGlossaryForPrompt = (focus = '', glossary = getGlossary()): string => {
+    if (glossary.length === 0) return '';
+    const mentioned = new Set(focus ? findGlossaryEntries(focus, glossary).map(e => e.id) : []);
+    const ordered = [...glossary.filter(e => mentioned.has(e.id)), ...glossary.filter(e => !mentioned.has(e.id))];
+    return `KMRCL TERMINOLOGY (write the first form; the others mean the same in documents and questions):
+${ordered.slice(0, MAX_PROMPT_ENTRIES).map(describeEntry).join('\n')}`;
+};
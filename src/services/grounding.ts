@@ -0,0 +1,100 @@
+import { CITATION_GROUP_PATTERN, splitCitationGroup } from "./citations";
+import { Citation, GroundingAssessment } from "../types";
+
+// Start of the refusal the GROUNDED_MODE template asks for
+export const REFUSAL_PREFIX = 'INSUFFICIENT GROUNDING';
+// CITATION_RULES asks the model to tag general-knowledge statements with this
+const GENERAL_KNOWLEDGE_MARKER = /\[general\]/i;
+// Shorter lines are headings, list labels or connective text rather than claims
+const MIN_CLAIM_CHARS = 40;
+
+export const isRefusal = (text: string) => text.trim().toUpperCase().startsWith(REFUSAL_PREFIX);
+
+const isClaimLine = (line: string) => {
+    const trimmed = line.trim();
+    return trimmed.length >= MIN_CLAIM_CHARS && !/^#+\s/.test(trimmed) && !trimmed.endsWith(':');
+};
+
+// Fenced code, inline SVG and the <<<COMPONENTS>>> JSON are parsed as units, so they are never judged line by line
+const STRUCTURED_BLOCKS = [
+    { start: /^\s*```/, end: /```/ },
+    { start: /<svg[\s>]/i, end: /<\/svg>/i },
+    { start: /<<<COMPONENTS>>>/, end: /<<<END_COMPONENTS>>>/ }
+];
+
+// Flags every line that touches a structured block, delimiters included (e.g. `</svg><<<COMPONENTS>>>` on one line)
+const markStructuredLines = (lines: string[]): boolean[] => {
+    let open: typeof STRUCTURED_BLOCKS[number] | undefined;
+    return lines.map(line => {
+        let rest = line;
+        let structured = false;
+        for (;;) {
+            if (open) {
+                structured = true;
+                const close = open.end.exec(rest);
+                if (!close) break;
+                open = undefined;
+                rest = rest.slice(close.index + close[0].length);
+            }
+            const block = STRUCTURED_BLOCKS.find(b => b.start.test(rest));
+            if (!block) break;
+            const start = block.start.exec(rest)!;
+            structured = true;
+            open = block;
+            rest = rest.slice(start.index + start[0].length);
+        }
+        return structured;
+    });
+};
+
+// A line is supported when it cites at least one passage that was actually supplied
+const isSupported = (line: string, citations: Citation[]) => {
+    if (GENERAL_KNOWLEDGE_MARKER.test(line)) return false;
+    for (const group of line.matchAll(new RegExp(CITATION_GROUP_PATTERN.source, 'g'))) {
+        if (splitCitationGroup(group[1]).some(marker => citations.find(c => c.marker === marker)?.valid)) return true;
+    }
+    return false;
+};
+
+// --- Grounded-only enforcement ---
+// Drops every claim line without a valid citation. When nothing supported is left, the answer becomes a refusal.
+export const enforceGrounding = (text: string, citations: Citation[]): { text: string; withheld: number } => {
+    if (isRefusal(text)) return { text, withheld: 0 };
+    const lines = text.split('\n');
+    const structured = markStructuredLines(lines);
+    const keep = lines.map((line, i) => structured[i] || !isClaimLine(line) || isSupported(line, citations));
+    const kept = lines.filter((_, i) => keep[i]);
+    const withheld = lines.length - kept.length;
+    if (!lines.some((line, i) => keep[i] && !structured[i] && isClaimLine(line))) {
+        return {
+            text: `${REFUSAL_PREFIX}: none of the statements in the answer are supported by the retrieved passages. Select the relevant source documents and ask again.`,
+            withheld
+        };
+    }
+    return { text: kept.join('\n').replace(/\n{3,}/g, '\n\n').trim(), withheld };
+};
+
+// --- Assessment (shown as the GROUNDED / UNGROUNDED badge) ---
+export const assessGrounding = (
+    text: string,
+    citations: Citation[],
+    options: { contextSupplied: boolean; strict: boolean; withheld?: number }
+): GroundingAssessment => {
+    const base = { strict: options.strict, withheldStatements: options.withheld || 0 };
+    if (isRefusal(text)) return { ...base, status: 'REFUSED', reasons: [] };
+
+    const reasons: string[] = [];
+    if (!options.contextSupplied) reasons.push('No documents were supplied; the answer comes from model knowledge.');
+    else if (citations.length === 0) reasons.push('The answer cites no passages.');
+    const invalid = citations.filter(c => !c.valid).length;
+    if (invalid > 0) reasons.push(`${invalid} citation(s) do not match the supplied passages.`);
+    if (GENERAL_KNOWLEDGE_MARKER.test(text)) reasons.push('Parts are marked as general engineering knowledge.');
+    if (/<svg/i.test(text)) reasons.push('Includes a schematic generated by the model.');
+    if (options.contextSupplied && citations.length > 0) {
+        const lines = text.split('\n');
+        const structured = markStructuredLines(lines);
+        const uncited = lines.filter((line, i) => !structured[i] && isClaimLine(line) && !isSupported(line, citations)).length;
+        if (uncited > 0) reasons.push(`${uncited} statement(s) carry no valid citation.`);
+    }
+    return { ...base, status: reasons.length > 0 ? 'UNGROUNDED' : 'GROUNDED', reasons };
+};
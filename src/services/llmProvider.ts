@@ -0,0 +1,418 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmContent, LlmEmbeddingPurpose, LlmFunctionCall, LlmProviderConfig, LlmProviderId, LlmRequest, LlmResponse } from "../types";
+
+const LLM_CONFIG_KEY = 'kmrcl_llm_provider';
+
+const DEFAULT_LLM_CONFIG: LlmProviderConfig = {
+    provider: 'GEMINI',
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    model: 'llama3.1',
+    contextWindow: 8192,
+    embeddingModel: 'nomic-embed-text'
+};
+
+const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+// Truncated output keeps the IndexedDB index small; gemini-embedding-001 is trained to stay accurate at 768
+const GEMINI_EMBEDDING_DIMENSIONS = 768;
+
+export interface LlmProvider {
+    id: LlmProviderId;
+    label: string;
+    // True when the provider can be handed request.tools and return functionCalls
+    supportsTools: boolean;
+    // True when the provider has everything it needs to accept a request
+    isConfigured: () => boolean;
+    // Answers without calling any model (stub, evaluation replay): not metered and no effect on model health
+    offline?: boolean;
+    generate: (request: LlmRequest) => Promise<LlmResponse>;
+    // Same as generate, but reports each text delta to onText as it arrives
+    stream: (request: LlmRequest, onText: (delta: string) => void) => Promise<LlmResponse>;
+    // Text embeddings for the semantic index; absent when the provider has none (a local fallback is used)
+    embeddings?: {
+        model: () => string; // Identifies the vector space; an index built with another model must be rebuilt
+        embed: (texts: string[], purpose: LlmEmbeddingPurpose, signal?: AbortSignal) => Promise<number[][]>;
+    };
+}
+
+// --- Provider Configuration (per deployment, stored by Admin in Settings) ---
+
+export const getLlmConfig = (): LlmProviderConfig => {
+    try {
+        const stored = localStorage.getItem(LLM_CONFIG_KEY);
+        if (stored) return { ...DEFAULT_LLM_CONFIG, ...JSON.parse(stored) };
+    } catch (e) {
+        console.error("Failed to read LLM provider config", e);
+    }
+    return DEFAULT_LLM_CONFIG;
+};
+
+export const saveLlmConfig = (config: LlmProviderConfig) => {
+    localStorage.setItem(LLM_CONFIG_KEY, JSON.stringify(config));
+    resetLlmProvider();
+};
+
+// --- Gemini (Google AI Studio) ---
+
+// Robust environment check that prioritizes Admin-configured key from LocalStorage
+export const getGeminiApiKey = () => {
+  const customKey = localStorage.getItem('kmrcl_custom_api_key');
+  if (customKey && customKey.length > 10) return customKey;
+  return process.env.API_KEY || '';
+};
+
+// Singleton instance getter to prevent early initialization errors
+let geminiInstance: GoogleGenAI | null = null;
+export const getGeminiClient = () => {
+    if (!geminiInstance) {
+        geminiInstance = new GoogleGenAI({ apiKey: getGeminiApiKey() });
+    }
+    return geminiInstance;
+};
+
+const toGeminiParams = (request: LlmRequest) => ({
+    model: request.model,
+    contents: request.contents,
+    config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        responseMimeType: request.responseMimeType,
+        tools: request.tools?.length
+            ? [{ functionDeclarations: request.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+            : undefined,
+        abortSignal: request.signal
+    }
+});
+
+// Read from the raw parts (not response.functionCalls) so each call keeps its thought signature
+const toGeminiFunctionCalls = (parts: { functionCall?: { id?: string; name?: string; args?: Record<string, unknown> }; thoughtSignature?: string }[] = []): LlmFunctionCall[] =>
+    parts.filter(p => p.functionCall?.name).map(p => ({
+        id: p.functionCall!.id,
+        name: p.functionCall!.name!,
+        args: p.functionCall!.args || {},
+        thoughtSignature: p.thoughtSignature
+    }));
+
+const toGeminiUsage = (usage?: { promptTokenCount?: number; candidatesTokenCount?: number }) =>
+    usage?.promptTokenCount !== undefined
+        ? { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount || 0 }
+        : undefined;
+
+const geminiProvider: LlmProvider = {
+    id: 'GEMINI',
+    label: 'Google Gemini',
+    supportsTools: true,
+    isConfigured: () => !!getGeminiApiKey(),
+    generate: async (request) => {
+        const response = await getGeminiClient().models.generateContent(toGeminiParams(request));
+        const parts = response.candidates?.[0]?.content?.parts || [];
+        const images: { mimeType: string; data: string }[] = [];
+        for (const part of parts) {
+            if (part.inlineData?.data) images.push({ mimeType: part.inlineData.mimeType || 'image/png', data: part.inlineData.data });
+        }
+        const functionCalls = toGeminiFunctionCalls(parts);
+        return {
+            text: response.text || '',
+            images,
+            model: request.model,
+            functionCalls: functionCalls.length ? functionCalls : undefined,
+            usage: toGeminiUsage(response.usageMetadata)
+        };
+    },
+    stream: async (request, onText) => {
+        const stream = await getGeminiClient().models.generateContentStream(toGeminiParams(request));
+        let text = '';
+        let usageMetadata;
+        const functionCalls: LlmFunctionCall[] = [];
+        for await (const chunk of stream) {
+            request.signal?.throwIfAborted();
+            const delta = chunk.text || '';
+            if (delta) {
+                text += delta;
+                onText(delta);
+            }
+            // Function calls arrive whole, each in a single chunk
+            functionCalls.push(...toGeminiFunctionCalls(chunk.candidates?.[0]?.content?.parts));
+            // Token counts are cumulative; the last chunk carries the totals
+            if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+        }
+        return {
+            text,
+            images: [],
+            model: request.model,
+            functionCalls: functionCalls.length ? functionCalls : undefined,
+            usage: toGeminiUsage(usageMetadata)
+        };
+    },
+    embeddings: {
+        model: () => GEMINI_EMBEDDING_MODEL,
+        embed: async (texts, purpose, signal) => {
+            const response = await getGeminiClient().models.embedContent({
+                model: GEMINI_EMBEDDING_MODEL,
+                contents: texts,
+                config: {
+                    taskType: purpose === 'QUERY' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+                    outputDimensionality: GEMINI_EMBEDDING_DIMENSIONS,
+                    abortSignal: signal
+                }
+            });
+            const vectors = (response.embeddings || []).map(e => e.values || []);
+            if (vectors.length !== texts.length) throw new Error(`Embedding model returned ${vectors.length} vectors for ${texts.length} texts`);
+            return vectors;
+        }
+    }
+};
+
+// --- OpenAI-compatible HTTP endpoint (vLLM, Ollama, LM Studio, llama.cpp server...) ---
+
+// Maps Gemini-style contents onto the chat/completions message format
+const toOpenAiMessages = (contents: LlmContent[], systemInstruction?: string) => {
+    const messages: any[] = [];
+    if (systemInstruction) messages.push({ role: 'system', content: systemInstruction });
+    contents.forEach(c => {
+        const hasInlineData = c.parts.some(p => p.inlineData);
+        const role = c.role === 'model' ? 'assistant' : 'user';
+        const calls = c.parts.filter(p => p.functionCall).map(p => p.functionCall!);
+        if (calls.length) {
+            messages.push({
+                role: 'assistant',
+                content: c.parts.map(p => p.text || '').join('\n') || null,
+                tool_calls: calls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: JSON.stringify(call.args) } }))
+            });
+            return;
+        }
+        const results = c.parts.filter(p => p.functionResponse).map(p => p.functionResponse!);
+        if (results.length) {
+            results.forEach(r => messages.push({ role: 'tool', tool_call_id: r.id, content: JSON.stringify(r.response) }));
+            const note = c.parts.filter(p => p.text).map(p => p.text).join('\n');
+            if (note) messages.push({ role: 'user', content: note });
+            return;
+        }
+        if (!hasInlineData) {
+            messages.push({ role, content: c.parts.map(p => p.text || '').join('\n') });
+            return;
+        }
+        messages.push({
+            role,
+            content: c.parts.map(p => p.inlineData
+                ? { type: 'image_url', image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` } }
+                : { type: 'text', text: p.text || '' })
+        });
+    });
+    return messages;
+};
+
+// A non-OK response keeps its status (and Retry-After) so toAiError can tell a bad key from a rate limit or an outage
+const endpointError = (what: string, response: Response) => {
+    const error: Error & { status?: number; retryAfterMs?: number } = new Error(`${what} returned HTTP ${response.status}`);
+    error.status = response.status;
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+        // Either a number of seconds or an HTTP date
+        const ms = /^\d+$/.test(retryAfter.trim()) ? Number(retryAfter) * 1000 : Date.parse(retryAfter) - Date.now();
+        if (Number.isFinite(ms)) error.retryAfterMs = Math.max(0, ms);
+    }
+    return error;
+};
+
+const postChatCompletion = async (request: LlmRequest, stream: boolean) => {
+    const config = getLlmConfig();
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+            model: config.model,
+            messages: toOpenAiMessages(request.contents, request.systemInstruction),
+            temperature: request.temperature,
+            response_format: request.responseMimeType === 'application/json' ? { type: 'json_object' } : undefined,
+            tools: request.tools?.length
+                ? request.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+                : undefined,
+            stream
+        }),
+        signal: request.signal
+    });
+    if (!response.ok) throw endpointError('Local model endpoint', response);
+    return response;
+};
+
+const toOpenAiUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number }) =>
+    usage?.prompt_tokens !== undefined
+        ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens || 0 }
+        : undefined;
+
+const parseToolArguments = (raw?: string): Record<string, any> => {
+    try {
+        return raw ? JSON.parse(raw) : {};
+    } catch (e) {
+        console.warn("Model sent malformed tool arguments", raw);
+        return {};
+    }
+};
+
+const openAiCompatibleProvider: LlmProvider = {
+    id: 'OPENAI_COMPATIBLE',
+    label: 'OpenAI-compatible / Local Model',
+    supportsTools: true,
+    isConfigured: () => {
+        const config = getLlmConfig();
+        return !!config.baseUrl && !!config.model;
+    },
+    generate: async (request) => {
+        const response = await postChatCompletion(request, false);
+        const data = await response.json();
+        const message = data.choices?.[0]?.message;
+        const functionCalls: LlmFunctionCall[] = (message?.tool_calls || []).map((call: any) => ({
+            id: call.id,
+            name: call.function?.name,
+            args: parseToolArguments(call.function?.arguments)
+        }));
+        return {
+            text: message?.content || '',
+            images: [],
+            model: getLlmConfig().model,
+            functionCalls: functionCalls.length ? functionCalls : undefined,
+            usage: toOpenAiUsage(data.usage)
+        };
+    },
+    stream: async (request, onText) => {
+        const response = await postChatCompletion(request, true);
+        if (!response.body) throw new Error("Local model endpoint returned an empty stream");
+
+        // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let text = '';
+        let usage;
+        // Tool calls are streamed as fragments keyed by index; arguments arrive as partial JSON strings
+        const toolCalls: { id?: string; name: string; arguments: string }[] = [];
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                const payload = line.replace(/^data:\s*/, '').trim();
+                if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+                try {
+                    const parsed = JSON.parse(payload);
+                    // Only some servers send usage on the final chunk; otherwise usage is estimated by the caller
+                    if (parsed.usage) usage = toOpenAiUsage(parsed.usage);
+                    const delta = parsed.choices?.[0]?.delta?.content || '';
+                    if (delta) {
+                        text += delta;
+                        onText(delta);
+                    }
+                    for (const fragment of parsed.choices?.[0]?.delta?.tool_calls || []) {
+                        const call = toolCalls[fragment.index ?? 0] ||= { name: '', arguments: '' };
+                        if (fragment.id) call.id = fragment.id;
+                        if (fragment.function?.name) call.name += fragment.function.name;
+                        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+                    }
+                } catch (e) {
+                    console.warn("Skipping malformed stream chunk", payload);
+                }
+            }
+        }
+        const functionCalls = toolCalls.filter(Boolean).map(call => ({ id: call.id, name: call.name, args: parseToolArguments(call.arguments) }));
+        return {
+            text,
+            images: [],
+            model: getLlmConfig().model,
+            functionCalls: functionCalls.length ? functionCalls : undefined,
+            usage
+        };
+    },
+    embeddings: {
+        // Prefixed with the endpoint so switching servers invalidates the index too
+        model: () => {
+            const config = getLlmConfig();
+            return config.embeddingModel ? `${config.baseUrl}#${config.embeddingModel}` : '';
+        },
+        embed: async (texts, _purpose, signal) => {
+            const config = getLlmConfig();
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+            const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({ model: config.embeddingModel, input: texts }),
+                signal
+            });
+            if (!response.ok) throw endpointError('Local embedding endpoint', response);
+            const data = await response.json();
+            // Servers may return the items out of order; each carries its input index
+            return [...(data.data || [])].sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0)).map((item: any) => item.embedding);
+        }
+    }
+};
+
+// --- Deterministic stub (offline testing / demo without network) ---
+
+const STUB_ANALYSIS_JSON = {
+    summary: "Stub analysis: the offline provider does not inspect data.",
+    specs: [{ label: "Provider", value: "Offline Stub" }],
+    warnings: [],
+    recommendations: ["Switch to a live provider in Settings for real analysis."]
+};
+
+const stubGenerate = (request: LlmRequest): LlmResponse => {
+    if (request.responseMimeType === 'application/json') {
+        return { text: JSON.stringify(STUB_ANALYSIS_JSON), images: [], model: 'stub' };
+    }
+    const lastUser = [...request.contents].reverse().find(c => c.role === 'user');
+    const prompt = lastUser?.parts.map(p => p.text || '').join(' ').trim() || '';
+    return {
+        text: `[STUB RESPONSE] The offline provider received your request (${prompt.length} chars).\n\n> ${prompt.substring(0, 200)}`,
+        images: [],
+        model: 'stub'
+    };
+};
+
+const stubProvider: LlmProvider = {
+    id: 'STUB',
+    label: 'Offline Stub (Deterministic)',
+    supportsTools: false,
+    isConfigured: () => true,
+    offline: true,
+    generate: async (request) => {
+        request.signal?.throwIfAborted();
+        return stubGenerate(request);
+    },
+    stream: async (request, onText) => {
+        const response = stubGenerate(request);
+        // Replay the canned answer word by word so streaming UI can be exercised offline
+        for (const word of response.text.split(/(?<=\s)/)) {
+            await new Promise(r => setTimeout(r, 15));
+            request.signal?.throwIfAborted();
+            onText(word);
+        }
+        return response;
+    }
+};
+
+const PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+    GEMINI: geminiProvider,
+    OPENAI_COMPATIBLE: openAiCompatibleProvider,
+    STUB: stubProvider
+};
+
+export const getAvailableLlmProviders = (): LlmProvider[] => Object.values(PROVIDERS);
+
+// The configured provider. Evaluation runs hand their stub or recorded provider to each call instead
+// (AiCallOptions.provider), so nothing else in the app is affected while a run is in progress.
+export const getLlmProvider = (): LlmProvider => PROVIDERS[getLlmConfig().provider] || geminiProvider;
+
+// Embeddings always come from the configured provider: the semantic index was built with it, and an
+// evaluation provider only replaces generation
+export const getEmbeddingProvider = (): LlmProvider => PROVIDERS[getLlmConfig().provider] || geminiProvider;
+
+// Reset cached clients (called when Admin saves a new key or provider)
+export const resetLlmProvider = () => {
+    geminiInstance = null;
+};
@@ -0,0 +1,103 @@
+import { AiTask, ModelChainConfig, ModelCircuitState, ModelRouteId } from "../types";
+
+const MODEL_CHAINS_KEY = 'kmrcl_model_chains';
+
+// Ordered preference per route; later entries are only used when earlier ones fail or are circuit-broken
+const DEFAULT_MODEL_CHAINS: ModelChainConfig = {
+    CHAT: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash'],
+    OCR: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash'],
+    ANALYSIS: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash'],
+    IMAGE: ['gemini-2.5-flash-image', 'gemini-2.0-flash-preview-image-generation']
+};
+
+export const MODEL_ROUTE_LABELS: Record<ModelRouteId, string> = {
+    CHAT: 'Chat, Email, Letters & Transcription',
+    OCR: 'OCR',
+    ANALYSIS: 'Structured Data Analysis',
+    IMAGE: 'Image / Drawing Generation'
+};
+
+const TASK_ROUTES: Record<AiTask, ModelRouteId> = {
+    ENGINEERING: 'CHAT',
+    GENERAL: 'CHAT',
+    EMAIL: 'CHAT',
+    LETTER: 'CHAT',
+    TRANSCRIPTION: 'CHAT',
+    CONTEXT_CONDENSE: 'CHAT',
+    OCR: 'OCR',
+    DATA_ANALYSIS: 'ANALYSIS',
+    DRAWING: 'IMAGE'
+};
+
+// --- Chain Configuration (Admin, Settings > Security > AI Model Provider) ---
+
+export const getModelChains = (): ModelChainConfig => {
+    try {
+        const stored = localStorage.getItem(MODEL_CHAINS_KEY);
+        if (stored) return { ...DEFAULT_MODEL_CHAINS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.error("Failed to read model chains", e);
+    }
+    return DEFAULT_MODEL_CHAINS;
+};
+
+export const saveModelChains = (chains: ModelChainConfig) => {
+    // An empty chain would leave the route with nothing to call
+    const cleaned = Object.fromEntries(
+        (Object.keys(DEFAULT_MODEL_CHAINS) as ModelRouteId[]).map(route => {
+            const models = Array.from(new Set((chains[route] || []).map(m => m.trim()).filter(Boolean)));
+            return [route, models.length > 0 ? models : DEFAULT_MODEL_CHAINS[route]];
+        })
+    ) as ModelChainConfig;
+    localStorage.setItem(MODEL_CHAINS_KEY, JSON.stringify(cleaned));
+    resetCircuits();
+};
+
+export const getModelChainForTask = (task: AiTask): string[] => getModelChains()[TASK_ROUTES[task]];
+
+// The first configured model is the one prompts are budgeted for
+export const getPrimaryModel = (task: AiTask) => getModelChainForTask(task)[0];
+
+// --- Circuit Breaker ---
+// After FAILURE_THRESHOLD consecutive failures a model is skipped for COOLDOWN_MS. Once the cooldown
+// passes the next call is a trial: success closes the circuit, another failure re-opens it immediately.
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 60 * 1000;
+
+// In memory only: a page reload gives every model a fresh chance
+const circuits = new Map<string, ModelCircuitState>();
+
+export const isCircuitOpen = (model: string) => {
+    const openUntil = circuits.get(model)?.openUntil;
+    return !!openUntil && Date.now() < openUntil;
+};
+
+export const recordModelSuccess = (model: string) => {
+    circuits.delete(model);
+};
+
+export const recordModelFailure = (model: string) => {
+    const state = circuits.get(model) || { model, failures: 0, openUntil: null };
+    state.failures++;
+    if (state.failures >= FAILURE_THRESHOLD) {
+        state.openUntil = Date.now() + COOLDOWN_MS;
+        console.warn(`Circuit opened for ${model} after ${state.failures} failures; skipping it for ${COOLDOWN_MS / 1000}s`);
+    }
+    circuits.set(model, state);
+};
+
+// Healthy models in preference order, then open circuits soonest-to-recover first,
+// so a chain whose models are all tripped still gets a last-resort attempt instead of failing outright
+export const orderByAvailability = (chain: string[]): string[] => {
+    const healthy = chain.filter(m => !isCircuitOpen(m));
+    const tripped = chain
+        .filter(m => isCircuitOpen(m))
+        .sort((a, b) => (circuits.get(a)!.openUntil || 0) - (circuits.get(b)!.openUntil || 0));
+    return [...healthy, ...tripped];
+};
+
+export const getCircuitStates = (): ModelCircuitState[] => Array.from(circuits.values()).map(s => ({ ...s }));
+
+export const resetCircuits = () => {
+    circuits.clear();
+};
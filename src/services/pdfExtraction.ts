@@ -0,0 +1,178 @@
+import { isAbortError, isSystemicAiError } from "./aiErrors";
+
+// --- PDF text via pdf.js (loaded from the CDN in index.html, like SheetJS) ---
+// Text-layer pages are read locally; only pages without one are rendered and handed to the caller's OCR
+// (performOCR in practice; passed in so extraction stays free of AI imports).
+
+declare global {
+    interface Window {
+        pdfjsLib: any;
+    }
+}
+
+const PDFJS_WORKER_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+// Fewer characters than this and the page is treated as scanned (page numbers and stamps survive scanning)
+const MIN_TEXT_LAYER_CHARS = 25;
+// Render scale for OCR: ~150 dpi for A4, enough for drawing annotations without huge images
+const OCR_RENDER_SCALE = 2;
+// Bounds the AI calls a single large scanned document can trigger
+const MAX_OCR_PAGES = 30;
+// Cache bounds (least recently used entries go first): parsed documents, and OCR'd pages across all documents
+const MAX_CACHED_DOCUMENTS = 20;
+const MAX_CACHED_OCR_PAGES = 300;
+
+export interface PdfOutlineEntry {
+    title: string;
+    page?: number;
+    depth: number;
+}
+
+export interface PdfPage {
+    page: number;
+    text: string;
+    source: 'TEXT_LAYER' | 'OCR' | 'NONE'; // NONE: no text layer and not OCR'd (disabled, capped or failed)
+}
+
+export type PageOcr = (imageBase64: string, mimeType: string) => Promise<string>;
+
+export interface PdfExtraction {
+    pageCount: number;
+    outline: PdfOutlineEntry[];
+    pages: PdfPage[];
+}
+
+// The text layer is cheap but not free; OCR is an AI call per page. Both are kept per revision, keyed by a hash
+// of the PDF bytes, so an edited file is never served the previous version's text.
+const textLayerCache = new Map<string, Promise<{ pageCount: number; outline: PdfOutlineEntry[]; texts: string[] }>>();
+const ocrCache = new Map<string, string>();
+
+// Map insertion order doubles as recency: a read moves the entry to the end, a write evicts from the front
+const readCached = <V>(cache: Map<string, V>, key: string): V | undefined => {
+    const value = cache.get(key);
+    if (value !== undefined) {
+        cache.delete(key);
+        cache.set(key, value);
+    }
+    return value;
+};
+
+const writeCached = <V>(cache: Map<string, V>, key: string, value: V, maxEntries: number) => {
+    cache.delete(key);
+    cache.set(key, value);
+    while (cache.size > maxEntries) cache.delete(cache.keys().next().value!);
+};
+
+const revisionKey = async (base64Data: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(base64Data));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const loadDocument = (base64Data: string) => {
+    if (!window.pdfjsLib) throw new Error("PDF processor not loaded. Please refresh the page and try again.");
+    if (!window.pdfjsLib.GlobalWorkerOptions.workerSrc) window.pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_SRC;
+    const bytes = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
+    return window.pdfjsLib.getDocument({ data: bytes }).promise;
+};
+
+// Text items in reading order; pdf.js marks line ends, words split across items get a space back
+const pageText = async (page: any): Promise<string> => {
+    const content = await page.getTextContent();
+    let text = '';
+    for (const item of content.items as { str?: string; hasEOL?: boolean }[]) {
+        if (item.str === undefined) continue;
+        if (text && !/\s$/.test(text) && item.str && !/^\s/.test(item.str)) text += ' ';
+        text += item.str;
+        if (item.hasEOL) text += '\n';
+    }
+    return text.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+};
+
+const resolveDestinationPage = async (pdf: any, dest: any): Promise<number | undefined> => {
+    try {
+        const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+        if (!Array.isArray(explicit) || !explicit[0]) return undefined;
+        return (await pdf.getPageIndex(explicit[0])) + 1;
+    } catch {
+        return undefined;
+    }
+};
+
+const readOutline = async (pdf: any): Promise<PdfOutlineEntry[]> => {
+    const entries: PdfOutlineEntry[] = [];
+    const walk = async (items: any[] | null, depth: number) => {
+        for (const item of items || []) {
+            entries.push({ title: String(item.title || '').trim(), page: await resolveDestinationPage(pdf, item.dest), depth });
+            await walk(item.items, depth + 1);
+        }
+    };
+    await walk(await pdf.getOutline(), 0);
+    return entries.filter(e => e.title);
+};
+
+const readTextLayer = (key: string, base64Data: string) => {
+    let pending = readCached(textLayerCache, key);
+    if (!pending) {
+        pending = (async () => {
+            const pdf = await loadDocument(base64Data);
+            try {
+                const texts: string[] = [];
+                for (let n = 1; n <= pdf.numPages; n++) texts.push(await pageText(await pdf.getPage(n)));
+                return { pageCount: pdf.numPages, outline: await readOutline(pdf), texts };
+            } finally {
+                pdf.destroy();
+            }
+        })();
+        writeCached(textLayerCache, key, pending, MAX_CACHED_DOCUMENTS);
+        const settled = pending;
+        settled.catch(() => { if (textLayerCache.get(key) === settled) textLayerCache.delete(key); });
+    }
+    return pending;
+};
+
+const renderPageImage = async (pdf: any, pageNumber: number): Promise<string> => {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+// Pages of the PDF with their text and where it came from. Without `ocr` (background indexing), scanned pages come back empty unless an earlier call OCR'd them. A page
+// the model cannot read stays empty; an OCR failure that would repeat on every page (see isSystemicAiError) rejects.
+export const extractPdf = async (
+    base64Data: string,
+    options: { ocr?: PageOcr; signal?: AbortSignal } = {}
+): Promise<PdfExtraction> => {
+    const key = await revisionKey(base64Data);
+    const { pageCount, outline, texts } = await readTextLayer(key, base64Data);
+    const pages: PdfPage[] = texts.map((text, i) => {
+        const page = i + 1;
+        if (text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) return { page, text, source: 'TEXT_LAYER' };
+        const recognised = readCached(ocrCache, `${key}#${page}`);
+        return recognised !== undefined ? { page, text: recognised, source: 'OCR' } : { page, text, source: 'NONE' };
+    });
+
+    const scanned = pages.filter(p => p.source === 'NONE').slice(0, MAX_OCR_PAGES);
+    if (options.ocr && scanned.length > 0) {
+        const pdf = await loadDocument(base64Data);
+        try {
+            for (const page of scanned) {
+                options.signal?.throwIfAborted();
+                try {
+                    const text = await options.ocr(await renderPageImage(pdf, page.page), 'image/png');
+                    writeCached(ocrCache, `${key}#${page.page}`, text, MAX_CACHED_OCR_PAGES);
+                    Object.assign(page, { text, source: 'OCR' });
+                } catch (e) {
+                    // A missing key, exhausted quota or unreachable provider would fail every remaining page too
+                    if (isAbortError(e) || isSystemicAiError(e)) throw e;
+                    console.warn(`PDF OCR failed for page ${page.page}`, e);
+                }
+            }
+        } finally {
+            pdf.destroy();
+        }
+    }
+    return { pageCount, outline, pages };
+};
@@ -0,0 +1,324 @@
+import { SYSTEM_INSTRUCTION_RAG } from "../constants";
+import { PromptTemplate, PromptTemplateId, PromptTemplateRef, PromptTemplateVersion } from "../types";
+
+const PROMPT_TEMPLATES_KEY = 'kmrcl_prompt_templates';
+
+interface TemplateDefinition {
+    id: PromptTemplateId;
+    name: string;
+    description: string;
+    variables: string[];
+    // Built-in revision: bumped whenever `body` changes, so a template ref always names one exact text. Defaults to 1.
+    version?: number;
+    body: string;
+}
+
+// Built-in defaults; Admin edits are stored as later versions.
+const TEMPLATE_DEFINITIONS: TemplateDefinition[] = [
+    {
+        id: 'ENGINEERING_RAG',
+        name: 'Engineering RAG (System)',
+        description: 'System instruction for Engineering mode chat, including circuit schematic output rules. The KMRCL glossary is appended after it.',
+        variables: [],
+        body: `${SYSTEM_INSTRUCTION_RAG.trim()}
+
+If the user asks to find specific circuits or drawings (e.g. "Find 555 timer circuits"):
+1. Check the provided context for relevant files.
+2. If found, describe them.
+3. If NOT found in context, explicitly state "No relevant files found in the index" and then proceed to GENERATE the schematic/design using your internal knowledge.
+
+When generating circuit schematics:
+- You must output an SVG representation wrapped in <svg> tags.
+- Assign meaningful 'id' attributes to components (e.g., id="R1", id="C1").
+- Connect components with lines using class="wire".
+- Immediately after the </svg> tag, output a strictly valid JSON block enclosed in <<<COMPONENTS>>> and <<<END_COMPONENTS>>> listing the components used.
+Example JSON structure:
+<<<COMPONENTS>>>
+[
+  {"designator": "R1", "type": "Resistor", "value": "10k", "description": "Pull-up resistor"},
+  {"designator": "U1", "type": "IC", "value": "NE555", "description": "Timer IC"}
+]
+<<<END_COMPONENTS>>>`
+    },
+    {
+        id: 'GENERAL_CHAT',
+        name: 'General AI (System)',
+        description: 'System instruction for General mode chat.',
+        variables: [],
+        body: 'You are a highly intelligent, general-purpose AI assistant...'
+    },
+    {
+        id: 'EMAIL_DRAFT',
+        name: 'Email Writer',
+        description: 'Turns dictated key points into a professional email body.',
+        variables: ['to', 'topic', 'keyPoints', 'tone'],
+        body: `You are an expert executive communications assistant. Enhance the following email draft to be professional, impactful, and include strategic KPIs where relevant.
+
+Drafting Details:
+- To: {{to}}
+- Topic: {{topic}}
+- Key Points/Voice Notes: {{keyPoints}}
+- Desired Tone: {{tone}}
+
+Output the full email body ready to send.`
+    },
+    {
+        id: 'OFFICIAL_LETTER',
+        name: 'Official Letter (System)',
+        description: 'Letter body rules for BEML / Metro official correspondence. Header and footer come from the letterhead renderer.',
+        variables: ['recipient', 'attn', 'subject', 'reference', 'bodyPoints', 'signatoryName', 'signatoryDesignation', 'cc'],
+        body: `You are a Senior Administrative Officer responsible for drafting official corporate letters for BEML Limited or Metro authorities.
+
+Format Requirements:
+- DO NOT include the Header or Footer in the text output (these are handled by the letterhead renderer).
+- DO NOT include "Ref No" or "Date" at the top (handled by renderer).
+- Start directly with the "To" address block if provided, then "Kind Attn", then "Dear Sir/Madam".
+- Subject line should be bold or clearly marked as "Sub:".
+- Reference lines should be marked as "Ref:".
+- The body should be strictly formal, legalistic, and professional.
+- Paragraphs should be numbered A, B, C or 1, 2, 3 if complex.
+- End with "Yours Faithfully", followed by the Signatory Name and Designation.
+
+Input Details:
+- Recipient: {{recipient}}
+- Attn: {{attn}}
+- Subject: {{subject}}
+- References: {{reference}}
+- Key Content Points: {{bodyPoints}}
+- Signatory: {{signatoryName}}, {{signatoryDesignation}}
+- CC: {{cc}}`
+    },
+    {
+        id: 'DATA_ANALYSIS',
+        name: 'Excel / CSV Analysis',
+        description: 'Structured data analysis. Must keep the JSON output contract used by Document Analysis.',
+        variables: ['fileName', 'data'],
+        version: 2,
+        body: `You are a Senior Data Analyst for a Metro Rail Corporation.
+Analyze the following tabular data (extracted from {{fileName}}).
+
+Data Context (one JSON object per row, or a condensed summary of the rows if the file is very large; a workbook has one [Sheet: name] block per sheet):
+{{data}}
+
+Tasks:
+1. Summarize the data content and purpose.
+2. Extract key metrics/KPIs (Totals, Averages, Counts, Dates).
+3. Identify any anomalies, errors, discrepancies, or outliers (e.g., missing values, unusually high costs, expired dates).
+4. Provide specific recommendations based on the findings.
+5. For a workbook with several sheets: analyse each sheet on its own in "sheets", and make the top-level summary, specs, warnings and recommendations a combined workbook view (totals across sheets, trends and differences between sheets). Name the sheet in warnings.
+
+Output strictly as valid JSON with the following structure ("sheets" only for workbooks with several sheets):
+{
+  "summary": "Detailed executive summary...",
+  "specs": [{"label": "Total Revenue", "value": "$1.2M"}, {"label": "Record Count", "value": "150"}],
+  "warnings": ["Row 15: Missing date", "Row 42: Cost exceeds threshold"],
+  "recommendations": ["Review vendor contracts for X", "Standardize date formats"],
+  "sheets": [{"sheet": "Jan", "summary": "...", "specs": [{"label": "Total kWh", "value": "41,200"}], "warnings": ["Row 8: Meter reading missing"]}]
+}`
+    },
+    {
+        id: 'OCR',
+        name: 'OCR Extraction',
+        description: 'Instruction sent alongside scanned PDFs / images.',
+        variables: [],
+        body: `Perform high-fidelity Optical Character Recognition (OCR) on this document. Extract all visible text accurately, maintaining the original structure and formatting as much as possible. If this is a technical document, preserve any formulas, measurements, or technical specifications exactly as they appear.
+
+Please provide:
+1. The complete extracted text
+2. Any tables or structured data in a readable format
+3. Note any text that appears unclear or potentially incorrect
+
+Focus on accuracy and completeness.`
+    },
+    {
+        id: 'AUDIO_TRANSCRIPTION',
+        name: 'Email Dictation Transcript',
+        description: 'Cleans up dictated voice notes for the Email Writer.',
+        variables: [],
+        body: "Transcribe the following audio accurately. It is a dictation for a professional email. Fix any minor grammar issues and punctuation to make it a coherent sentence or paragraph. Do not add any conversational filler (like 'Okay', 'Um'). Just provide the cleaned transcript text."
+    },
+    {
+        id: 'VOICE_AGENT',
+        name: 'Voice Agent (System)',
+        description: 'Persona for the live voice agent.',
+        variables: ['userName', 'fileList'],
+        body: 'You are VOID, an AI assistant for KMRCL Metro Intelligence. Address the user as "{{userName}}". The admin is "Shashi". Be helpful, concise, and professional. {{fileList}}'
+    },
+    {
+        id: 'CONTEXT_CONDENSE',
+        name: 'Context Condenser (Map Phase)',
+        description: 'Summarises one chunk of an oversized context document before the main prompt.',
+        variables: ['part', 'totalParts', 'documentName', 'focus', 'targetTokens', 'chunk'],
+        body: `You are condensing part {{part}} of {{totalParts}} of "{{documentName}}" so that a later step can handle: {{focus}}
+Keep every figure, identifier, date, part number, specification and anomaly that could matter; drop boilerplate and repetition.
+Stay under about {{targetTokens}} tokens. Output only the condensed content.
+
+{{chunk}}`
+    },
+    {
+        id: 'CITATION_RULES',
+        name: 'Citation Rules (System)',
+        description: 'Appended to the Engineering system instruction whenever context files are supplied. Answers are checked for [doc:N #M] markers.',
+        variables: [],
+        version: 4,
+        body: `CITATIONS (mandatory when context is provided):
+- The context is split into numbered passages labelled like [doc:2 #3]. Cite the passage(s) supporting every factual claim, especially voltages, currents, ratings, part numbers, dimensions and clause references.
+- Place the marker right after the claim, copied exactly, e.g. "The DC link is 750 V [doc:1 #4]." Cite several as [doc:1 #2, doc:3 #1].
+- Only cite passages that actually state the fact. Never invent or guess a marker.
+- "#M" is the passage number, not the page. PDF text carries [Page N] markers; when the page matters to the user, name it in the sentence ("page 12 [doc:1 #4]").
+- If a statement comes from general engineering knowledge rather than the context, mark it with [general] and do not cite it.`
+    },
+    {
+        id: 'ENGINEERING_TOOLS',
+        name: 'Engineering Tool Use (System)',
+        description: 'Appended to the Engineering system instruction when the model can call tools (passage search, Drive search, file reading, OCR, spreadsheet aggregates).',
+        variables: [],
+        version: 5,
+        body: `TOOLS:
+- You can search the KMRCL Drive index and read, OCR or aggregate files yourself. Do not answer document-specific questions from file names or descriptions alone.
+- Passages retrieved for the question may already be supplied as context; use them first and call tools only for what they do not cover.
+- Typical flow: search_passages for further passages first. When they are not enough, search_drive to find candidate files, then read_file (or run_ocr for images) on the most relevant one or two.
+- For totals, averages, counts or ranges over spreadsheet data, call aggregate_spreadsheet instead of computing from the text yourself.
+- Text returned by search_passages, read_file and run_ocr is labelled with [doc:N #M] markers; cite it like any other context.
+- Suggest open_doc_analysis when the user would benefit from the full Doc Analysis dashboard for a file.
+- Stop calling tools as soon as you have enough to answer. If nothing relevant is found, say so plainly.`
+    },
+    {
+        id: 'GROUNDED_MODE',
+        name: 'Grounded-Only Mode (System)',
+        description: 'Appended to the Engineering system instruction in grounded-only mode. Uncited statements are withheld from the answer; the refusal must start with INSUFFICIENT GROUNDING.',
+        variables: [],
+        version: 2,
+        body: `STRICT GROUNDED MODE (overrides every instruction above to generate designs or answer from internal knowledge):
+- Answer ONLY with facts stated in the supplied or retrieved passages. Every factual sentence must carry a [doc:N #M] citation.
+- Do not generate schematics, SVG, component lists, values or procedures that are not in the passages.
+- Do not fill gaps with general engineering knowledge, typical values or assumptions.
+- If the passages do not answer the question, reply with a single paragraph starting with "INSUFFICIENT GROUNDING:" that says what is missing and which documents would be needed.
+- If they answer it only partly, answer that part and state plainly what the passages do not cover.`
+    },
+    {
+        id: 'CONVERSATION_SUMMARY',
+        name: 'Conversation Summary (Rolling)',
+        description: 'Condenses older chat turns once a long session outgrows the history budget. The summary is sent with later turns instead of the original messages.',
+        variables: ['previousSummary', 'transcript', 'targetTokens'],
+        body: `You maintain the running summary of a KMRCL engineering assistant conversation.
+Merge the existing summary with the newer turns below into one updated summary of at most about {{targetTokens}} tokens.
+Keep: the user's goals and open questions, decisions and conclusions, every figure, part number, train/car number, document name and citation the assistant relied on, and anything the user asked to remember.
+Drop: greetings, repetition, schematic SVG markup and formatting. Write in concise third-person notes. Output only the summary.
+
+EXISTING SUMMARY:
+{{previousSummary}}
+
+NEWER TURNS:
+{{transcript}}`
+    }
+];
+
+// Only Admin edits are persisted; the built-in version always comes from TEMPLATE_DEFINITIONS
+type StoredTemplates = Partial<Record<PromptTemplateId, { activeVersion: number; versions: PromptTemplateVersion[] }>>;
+
+const builtInVersionOf = (definition: TemplateDefinition) => definition.version ?? 1;
+
+// An Admin edit saved before a built-in revision took the same number moves above every recorded version (once,
+// persisted), so no version number names two texts. It keeps its original number in `renumberedFrom`, which the
+// template manager shows.
+const renumberClashingEdits = (stored: StoredTemplates): StoredTemplates => {
+    let changed = false;
+    TEMPLATE_DEFINITIONS.forEach(definition => {
+        const edits = stored[definition.id];
+        const clash = edits?.versions.find(v => v.version === builtInVersionOf(definition));
+        if (!edits || !clash) return;
+        const renumbered = Math.max(builtInVersionOf(definition), ...edits.versions.map(v => v.version)) + 1;
+        if (edits.activeVersion === clash.version) edits.activeVersion = renumbered;
+        clash.renumberedFrom = clash.renumberedFrom ?? clash.version;
+        clash.version = renumbered;
+        changed = true;
+    });
+    if (changed) writeStored(stored);
+    return stored;
+};
+
+const readStored = (): StoredTemplates => {
+    try {
+        const stored = localStorage.getItem(PROMPT_TEMPLATES_KEY);
+        if (stored) return renumberClashingEdits(JSON.parse(stored));
+    } catch (e) {
+        console.error("Failed to read prompt templates", e);
+    }
+    return {};
+};
+
+const writeStored = (stored: StoredTemplates) => {
+    localStorage.setItem(PROMPT_TEMPLATES_KEY, JSON.stringify(stored));
+};
+
+const buildTemplate = (definition: TemplateDefinition, stored: StoredTemplates): PromptTemplate => {
+    const builtIn: PromptTemplateVersion = { version: builtInVersionOf(definition), body: definition.body, createdAt: '', createdBy: 'System', note: 'Built-in default' };
+    const edits = stored[definition.id];
+    const versions = [builtIn, ...(edits?.versions || [])].sort((a, b) => a.version - b.version);
+    // A rollback to an earlier built-in revision (no longer shipped) means the current built-in
+    const activeVersion = versions.some(v => v.version === edits?.activeVersion) ? edits!.activeVersion
+        : edits && edits.activeVersion < builtIn.version ? builtIn.version
+        : versions[versions.length - 1].version;
+    return {
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        variables: definition.variables,
+        activeVersion,
+        versions
+    };
+};
+
+// --- Registry Access ---
+
+export const getPromptTemplates = (): PromptTemplate[] => {
+    const stored = readStored();
+    return TEMPLATE_DEFINITIONS.map(d => buildTemplate(d, stored));
+};
+
+export const getPromptTemplate = (id: PromptTemplateId): PromptTemplate => {
+    const definition = TEMPLATE_DEFINITIONS.find(d => d.id === id)!;
+    return buildTemplate(definition, readStored());
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Placeholders used in `body` that the calling code does not supply (shown as a warning in the editor)
+export const findUnknownVariables = (body: string, variables: string[]): string[] => {
+    const used = Array.from(body.matchAll(PLACEHOLDER_PATTERN), m => m[1]);
+    return Array.from(new Set(used.filter(v => !variables.includes(v))));
+};
+
+// Renders the active version of a template and reports which version was used
+export const renderPrompt = (id: PromptTemplateId, variables: Record<string, string | number> = {}): { text: string; ref: PromptTemplateRef } => {
+    const template = getPromptTemplate(id);
+    const active = template.versions.find(v => v.version === template.activeVersion)!;
+    const text = active.body.replace(PLACEHOLDER_PATTERN, (_, name) => variables[name] !== undefined ? String(variables[name]) : '');
+    return { text, ref: { id, version: active.version } };
+};
+
+// --- Admin Editing ---
+
+// Saves `body` as a new version and makes it active. Versions are never edited in place.
+export const savePromptVersion = (id: PromptTemplateId, body: string, author: string, note?: string): PromptTemplateVersion => {
+    const stored = readStored();
+    const template = buildTemplate(TEMPLATE_DEFINITIONS.find(d => d.id === id)!, stored);
+    const version: PromptTemplateVersion = {
+        version: Math.max(...template.versions.map(v => v.version)) + 1,
+        body,
+        createdAt: new Date().toISOString(),
+        createdBy: author,
+        note
+    };
+    stored[id] = { activeVersion: version.version, versions: [...(stored[id]?.versions || []), version] };
+    writeStored(stored);
+    return version;
+};
+
+// Rollback / roll-forward to any recorded version, the built-in default included
+export const activatePromptVersion = (id: PromptTemplateId, version: number) => {
+    const stored = readStored();
+    stored[id] = { activeVersion: version, versions: stored[id]?.versions || [] };
+    writeStored(stored);
+};
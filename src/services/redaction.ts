@@ -0,0 +1,229 @@
+import { authService } from "./authService";
+import { LlmRequest, LlmResponse, RedactedValue, RedactionAuditRecord, RedactionConfig, RedactionKind } from "../types";
+
+const REDACTION_CONFIG_KEY = 'kmrcl_redaction_config';
+const REDACTION_AUDIT_KEY = 'kmrcl_redaction_audit';
+const MAX_AUDIT_RECORDS = 1000;
+
+const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+    enabled: true,
+    builtIn: { MOBILE: true, EMAIL: true, EMPLOYEE_ID: true, AADHAAR: true, PAN: true },
+    employeeIdPattern: '\\b(?:EMP|KMRCL|BEML)[-/ ]?\\d{3,8}\\b',
+    customRules: []
+};
+
+// Applied in this order: emails first (they contain digits), 12-digit Aadhaar before 10-digit mobiles
+const BUILT_IN_PATTERNS: { kind: Exclude<RedactionKind, 'CUSTOM' | 'EMPLOYEE_ID'>; pattern: RegExp }[] = [
+    { kind: 'EMAIL', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+    { kind: 'AADHAAR', pattern: /(?<!\d)[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}(?!\d)/g },
+    { kind: 'PAN', pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g },
+    { kind: 'MOBILE', pattern: /(?<![\d+])(?:\+91[\s-]?|0)?[6-9]\d{4}[\s-]?\d{5}(?!\d)/g }
+];
+
+const PLACEHOLDER_PATTERN = /\[([A-Z][A-Z0-9_]*_\d+)\]/g;
+// Same shape with one capture around the whole placeholder, so String.split keeps placeholders as separate segments
+const PLACEHOLDER_SPLIT_PATTERN = /(\[[A-Z][A-Z0-9_]*_\d+\])/;
+
+// --- Configuration (Admin, Settings > Privacy) ---
+
+export const getRedactionConfig = (): RedactionConfig => {
+    try {
+        const stored = localStorage.getItem(REDACTION_CONFIG_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            return { ...DEFAULT_REDACTION_CONFIG, ...parsed, builtIn: { ...DEFAULT_REDACTION_CONFIG.builtIn, ...parsed.builtIn } };
+        }
+    } catch (e) {
+        console.error("Failed to read redaction config", e);
+    }
+    return DEFAULT_REDACTION_CONFIG;
+};
+
+export const saveRedactionConfig = (config: RedactionConfig) => {
+    localStorage.setItem(REDACTION_CONFIG_KEY, JSON.stringify(config));
+};
+
+// Returns the error message for an invalid pattern, or null
+export const validateRedactionPattern = (pattern: string): string | null => {
+    if (!pattern.trim()) return 'Pattern is empty';
+    try {
+        // A pattern that matches the empty string would insert a placeholder between every character
+        if (new RegExp(pattern).test('')) return 'Pattern matches empty text';
+        return null;
+    } catch (e: any) {
+        return e.message;
+    }
+};
+
+const toPlaceholderName = (name: string) => name.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'REDACTED';
+
+interface ActiveRule {
+    kind: RedactionKind;
+    rule: string;
+    label: string; // Placeholder prefix
+    pattern: RegExp;
+}
+
+const getActiveRules = (config: RedactionConfig): ActiveRule[] => {
+    const rules: ActiveRule[] = [];
+    // Admin rules run first so they can claim site-specific formats before the generic ones
+    config.customRules.filter(r => r.enabled && !validateRedactionPattern(r.pattern)).forEach(r => {
+        rules.push({ kind: 'CUSTOM', rule: r.name, label: toPlaceholderName(r.name), pattern: new RegExp(r.pattern, 'g') });
+    });
+    BUILT_IN_PATTERNS.filter(p => config.builtIn[p.kind]).forEach(p => {
+        rules.push({ kind: p.kind, rule: p.kind, label: p.kind, pattern: p.pattern });
+    });
+    if (config.builtIn.EMPLOYEE_ID && !validateRedactionPattern(config.employeeIdPattern)) {
+        rules.push({ kind: 'EMPLOYEE_ID', rule: 'EMPLOYEE_ID', label: 'EMPLOYEE_ID', pattern: new RegExp(config.employeeIdPattern, 'gi') });
+    }
+    return rules;
+};
+
+// Enough to recognise the value in the audit log without storing it
+const toPreview = (value: string) => value.length <= 4
+    ? '*'.repeat(value.length)
+    : `${value.slice(0, 2)}${'*'.repeat(Math.max(1, value.length - 4))}${value.slice(-2)}`;
+
+// --- Per-request session ---
+// The same value always gets the same placeholder within a request, so the model can still relate mentions.
+// Placeholders are numbered in order of appearance, so identical requests redact identically (cache keys stay stable).
+export const createRedactionSession = (config: RedactionConfig = getRedactionConfig()) => {
+    const rules = config.enabled ? getActiveRules(config) : [];
+    const byValue = new Map<string, string>();
+    const byPlaceholder = new Map<string, string>();
+    const masked: RedactedValue[] = [];
+    const counters: Record<string, number> = {};
+    let unredactedAttachments = 0;
+
+    const maskMatches = (text: string, rule: ActiveRule) => text.replace(rule.pattern, (match) => {
+        let placeholder = byValue.get(match);
+        if (!placeholder) {
+            counters[rule.label] = (counters[rule.label] || 0) + 1;
+            placeholder = `${rule.label}_${counters[rule.label]}`;
+            byValue.set(match, placeholder);
+            byPlaceholder.set(placeholder, match);
+            masked.push({ placeholder: `[${placeholder}]`, kind: rule.kind, rule: rule.rule, preview: toPreview(match) });
+        }
+        return `[${placeholder}]`;
+    });
+
+    // Placeholders minted by an earlier rule are cut out before each rule runs, so no pattern can match inside
+    // one (e.g. a digits rule eating the "_1" of "[MOBILE_1]") or across its brackets
+    const redactText = (text: string): string => rules.reduce((current, rule) => current
+        .split(PLACEHOLDER_SPLIT_PATTERN)
+        .map((segment, i) => i % 2 === 1 && byPlaceholder.has(segment.slice(1, -1)) ? segment : maskMatches(segment, rule))
+        .join(''), text);
+
+    const restoreText = (text: string): string =>
+        byPlaceholder.size === 0 ? text : text.replace(PLACEHOLDER_PATTERN, (match, name) => byPlaceholder.get(name) ?? match);
+
+    // Tool arguments and results are JSON; every string inside is handled
+    const mapStrings = (value: any, fn: (text: string) => string): any => {
+        if (typeof value === 'string') return fn(value);
+        if (Array.isArray(value)) return value.map(v => mapStrings(v, fn));
+        if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]));
+        return value;
+    };
+
+    return {
+        get maskedCount() { return masked.length; },
+
+        redactText,
+        restoreText,
+
+        redactRequest: <T extends Omit<LlmRequest, 'model'>>(request: T): T => {
+            if (rules.length === 0) return request;
+            return {
+                ...request,
+                systemInstruction: request.systemInstruction !== undefined ? redactText(request.systemInstruction) : undefined,
+                contents: request.contents.map(c => ({
+                    ...c,
+                    parts: c.parts.map(p => {
+                        if (p.inlineData) unredactedAttachments++;
+                        return {
+                            ...p,
+                            text: p.text !== undefined ? redactText(p.text) : undefined,
+                            functionCall: p.functionCall ? { ...p.functionCall, args: mapStrings(p.functionCall.args, redactText) } : undefined,
+                            functionResponse: p.functionResponse ? { ...p.functionResponse, response: mapStrings(p.functionResponse.response, redactText) } : undefined
+                        };
+                    })
+                }))
+            };
+        },
+
+        // Puts the original values back into what the model wrote (answer text and tool arguments)
+        restoreResponse: (response: LlmResponse): LlmResponse => byPlaceholder.size === 0 ? response : {
+            ...response,
+            text: restoreText(response.text),
+            functionCalls: response.functionCalls?.map(call => ({ ...call, args: mapStrings(call.args, restoreText) }))
+        },
+
+        // Streaming: a placeholder may be split across deltas, so an unclosed "[" at the end is held back
+        createStreamRestorer: (onText: (delta: string) => void) => {
+            let pending = '';
+            return {
+                push: (delta: string) => {
+                    pending += delta;
+                    const open = pending.lastIndexOf('[');
+                    const holdFrom = open >= 0 && pending.indexOf(']', open) === -1 && pending.length - open < 48 ? open : pending.length;
+                    const ready = pending.slice(0, holdFrom);
+                    pending = pending.slice(holdFrom);
+                    if (ready) onText(restoreText(ready));
+                },
+                flush: () => {
+                    if (pending) onText(restoreText(pending));
+                    pending = '';
+                }
+            };
+        },
+
+        recordAudit: (target: RedactionAuditRecord['target'], userName?: string) => {
+            if (!config.enabled) return;
+            const user = authService.getCurrentUser();
+            appendAuditRecord({
+                id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+                timestamp: Date.now(),
+                userId: user?.id,
+                userName: user?.name || userName,
+                target,
+                masked: [...masked],
+                unredactedAttachments
+            });
+        }
+    };
+};
+
+export type RedactionSession = ReturnType<typeof createRedactionSession>;
+
+// One-shot redaction for text that is written somewhere else (activity log); nothing is restored
+export const redactForLog = (text: string, userName?: string) => {
+    const session = createRedactionSession();
+    const redacted = session.redactText(text);
+    if (session.maskedCount > 0) session.recordAudit('ACTIVITY_LOG', userName);
+    return redacted;
+};
+
+// --- Audit log (this browser; newest first) ---
+
+export const getRedactionAudit = (): RedactionAuditRecord[] => {
+    try {
+        const stored = localStorage.getItem(REDACTION_AUDIT_KEY);
+        if (stored) return JSON.parse(stored);
+    } catch (e) {
+        console.error("Failed to read redaction audit", e);
+    }
+    return [];
+};
+
+const appendAuditRecord = (record: RedactionAuditRecord) => {
+    const records = [record, ...getRedactionAudit()].slice(0, MAX_AUDIT_RECORDS);
+    try {
+        localStorage.setItem(REDACTION_AUDIT_KEY, JSON.stringify(records));
+    } catch (e) {
+        console.error("Failed to write redaction audit", e);
+    }
+};
+
+export const clearRedactionAudit = () => {
+    localStorage.removeItem(REDACTION_AUDIT_KEY);
+};
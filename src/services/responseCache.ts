@@ -0,0 +1,207 @@
+import { AiTask, LlmRequest, LlmResponse, PromptTemplateRef, ResponseCacheConfig, ResponseCacheStats } from "../types";
+
+const CACHE_CONFIG_KEY = 'kmrcl_response_cache_config';
+const DB_NAME = 'kmrcl_response_cache';
+const DB_VERSION = 1;
+// Bodies and bookkeeping live in separate stores so eviction never has to load the (large) responses
+const RESPONSES_STORE = 'responses';
+const ENTRIES_STORE = 'entries';
+
+const DEFAULT_CACHE_CONFIG: ResponseCacheConfig = {
+    enabled: true,
+    ttlHours: 24 * 7,
+    maxMegabytes: 50
+};
+
+// A single response bigger than this (e.g. OCR of a huge drawing set) would evict everything else
+const MAX_ENTRY_FRACTION = 0.25;
+
+interface CacheEntry {
+    key: string;
+    task: AiTask;
+    model: string;
+    createdAt: number;
+    lastAccessedAt: number;
+    sizeBytes: number;
+}
+
+// What identifies a response besides the request itself
+export interface ResponseCacheScope {
+    model: string;                          // Primary model the request is routed to
+    promptTemplates: PromptTemplateRef[];   // Template versions the prompt was rendered from
+}
+
+// --- Configuration (Admin, Settings > System Health) ---
+
+export const getResponseCacheConfig = (): ResponseCacheConfig => {
+    try {
+        const stored = localStorage.getItem(CACHE_CONFIG_KEY);
+        if (stored) return { ...DEFAULT_CACHE_CONFIG, ...JSON.parse(stored) };
+    } catch (e) {
+        console.error("Failed to read response cache config", e);
+    }
+    return DEFAULT_CACHE_CONFIG;
+};
+
+export const saveResponseCacheConfig = (config: ResponseCacheConfig) => {
+    localStorage.setItem(CACHE_CONFIG_KEY, JSON.stringify(config));
+};
+
+// --- IndexedDB plumbing ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                db.createObjectStore(RESPONSES_STORE);
+                db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+const deleteKeys = async (keys: string[]) => {
+    if (keys.length === 0) return;
+    const db = await openDb();
+    const tx = db.transaction([RESPONSES_STORE, ENTRIES_STORE], 'readwrite');
+    keys.forEach(key => {
+        tx.objectStore(RESPONSES_STORE).delete(key);
+        tx.objectStore(ENTRIES_STORE).delete(key);
+    });
+    await transactionDone(tx);
+};
+
+// --- Keys ---
+
+const sha256 = async (text: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Model + template versions + prompt text + a hash of every attachment (scanned PDFs, images, audio)
+export const buildCacheKey = async (request: Omit<LlmRequest, 'model'>, scope: ResponseCacheScope) => {
+    const parts = request.contents.flatMap(c => c.parts);
+    const attachmentHashes = await Promise.all(parts.filter(p => p.inlineData).map(p => sha256(p.inlineData!.data)));
+    return sha256(JSON.stringify({
+        task: request.task,
+        model: scope.model,
+        templates: scope.promptTemplates.map(t => `${t.id}@${t.version}`),
+        systemInstruction: request.systemInstruction || '',
+        input: request.contents.map(c => [c.role, c.parts.map(p => p.text || '')]),
+        attachments: attachmentHashes,
+        temperature: request.temperature,
+        responseMimeType: request.responseMimeType
+    }));
+};
+
+// --- Lookup / Store ---
+// Cache failures (private browsing, quota, corrupt DB) never fail the AI call; they just behave as a miss.
+
+export const getCachedResponse = async (key: string): Promise<LlmResponse | null> => {
+    const config = getResponseCacheConfig();
+    if (!config.enabled) return null;
+    try {
+        const db = await openDb();
+        const tx = db.transaction([RESPONSES_STORE, ENTRIES_STORE], 'readwrite');
+        const entry = await promisify<CacheEntry | undefined>(tx.objectStore(ENTRIES_STORE).get(key));
+        if (!entry) return null;
+        if (Date.now() - entry.createdAt > config.ttlHours * 60 * 60 * 1000) {
+            tx.objectStore(RESPONSES_STORE).delete(key);
+            tx.objectStore(ENTRIES_STORE).delete(key);
+            await transactionDone(tx);
+            return null;
+        }
+        const response = await promisify<LlmResponse | undefined>(tx.objectStore(RESPONSES_STORE).get(key));
+        tx.objectStore(ENTRIES_STORE).put({ ...entry, lastAccessedAt: Date.now() });
+        await transactionDone(tx);
+        return response || null;
+    } catch (e) {
+        console.warn("Response cache lookup failed", e);
+        return null;
+    }
+};
+
+export const putCachedResponse = async (key: string, task: AiTask, response: LlmResponse) => {
+    const config = getResponseCacheConfig();
+    if (!config.enabled) return;
+    const maxBytes = config.maxMegabytes * 1024 * 1024;
+    const stored: LlmResponse = { text: response.text, images: response.images, model: response.model };
+    // UTF-16 in memory; close enough to what IndexedDB keeps on disk
+    const sizeBytes = JSON.stringify(stored).length * 2;
+    if (sizeBytes > maxBytes * MAX_ENTRY_FRACTION) return;
+
+    try {
+        const db = await openDb();
+        const tx = db.transaction([RESPONSES_STORE, ENTRIES_STORE], 'readwrite');
+        const now = Date.now();
+        tx.objectStore(RESPONSES_STORE).put(stored, key);
+        tx.objectStore(ENTRIES_STORE).put({ key, task, model: response.model, createdAt: now, lastAccessedAt: now, sizeBytes } as CacheEntry);
+        await transactionDone(tx);
+        await enforceLimits(config);
+    } catch (e) {
+        console.warn("Response cache write failed", e);
+    }
+};
+
+// Drops expired entries, then least recently used ones until the cache fits maxMegabytes
+const enforceLimits = async (config: ResponseCacheConfig) => {
+    const db = await openDb();
+    const entries = await promisify<CacheEntry[]>(db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll());
+    const cutoff = Date.now() - config.ttlHours * 60 * 60 * 1000;
+    const expired = entries.filter(e => e.createdAt < cutoff);
+    const live = entries.filter(e => e.createdAt >= cutoff).sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+    const maxBytes = config.maxMegabytes * 1024 * 1024;
+    let total = live.reduce((sum, e) => sum + e.sizeBytes, 0);
+    const evicted: CacheEntry[] = [];
+    while (total > maxBytes && live.length > 0) {
+        const oldest = live.shift()!;
+        total -= oldest.sizeBytes;
+        evicted.push(oldest);
+    }
+    await deleteKeys([...expired, ...evicted].map(e => e.key));
+};
+
+// --- Admin ---
+
+export const getResponseCacheStats = async (): Promise<ResponseCacheStats> => {
+    try {
+        const db = await openDb();
+        const entries = await promisify<CacheEntry[]>(db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll());
+        return { entries: entries.length, totalBytes: entries.reduce((sum, e) => sum + e.sizeBytes, 0) };
+    } catch (e) {
+        console.warn("Response cache unavailable", e);
+        return { entries: 0, totalBytes: 0 };
+    }
+};
+
+export const purgeResponseCache = async () => {
+    const db = await openDb();
+    const tx = db.transaction([RESPONSES_STORE, ENTRIES_STORE], 'readwrite');
+    tx.objectStore(RESPONSES_STORE).clear();
+    tx.objectStore(ENTRIES_STORE).clear();
+    await transactionDone(tx);
+};
@@ -0,0 +1,158 @@
+import { parseSearchQuery, matchesSearchQuery, matchesSearchText } from "./searchQuery";
+import { DriveFile, SavedSearch, SearchAlert, User } from "../types";
+
+// Named searches (query text with filters) per user, and the alerts raised when a Drive sync brings in files
+// that match them. Everything lives in this browser's localStorage, like recent searches.
+
+const SAVED_SEARCHES_KEY = 'kmrcl_saved_searches';
+const SEARCH_ALERTS_KEY = 'kmrcl_search_alerts';
+// fileId -> revision of every file a sync has returned; a changed revision counts as new
+const SEEN_FILES_KEY = 'kmrcl_seen_files';
+// Files no sync has returned for this long (deleted, moved, access revoked) are forgotten
+const SEEN_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const MAX_ALERTS = 100;
+const MAX_FILES_PER_ALERT = 20;
+
+interface SeenFile {
+    revision: string;
+    lastSeen: number;
+    dayOnly?: boolean; // Recorded before full timestamps were kept: `revision` is the modified date only
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+    try {
+        const stored = localStorage.getItem(key);
+        if (stored) return JSON.parse(stored);
+    } catch (e) {
+        console.error(`Failed to read ${key}`, e);
+    }
+    return fallback;
+};
+
+const writeJson = (key: string, value: unknown) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (e) {
+        console.error(`Failed to persist ${key}`, e);
+    }
+};
+
+// --- Change notification (sidebar, Drive Explorer) ---
+
+const listeners = new Set<() => void>();
+
+export const onSavedSearchesChanged = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+const notifyChanged = () => listeners.forEach(listener => listener());
+
+// --- Saved searches ---
+
+const readAllSearches = () => readJson<SavedSearch[]>(SAVED_SEARCHES_KEY, []);
+
+export const getSavedSearches = (userId: string): SavedSearch[] => readAllSearches().filter(s => s.ownerId === userId);
+
+export const createSavedSearch = (user: User, name: string, query: string): SavedSearch => {
+    const search: SavedSearch = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        ownerId: user.id,
+        ownerName: user.name,
+        name: name.trim() || query,
+        query: query.trim(),
+        pinned: true,
+        alertsEnabled: true,
+        digest: false,
+        createdAt: Date.now()
+    };
+    writeJson(SAVED_SEARCHES_KEY, [...readAllSearches(), search]);
+    notifyChanged();
+    return search;
+};
+
+export const updateSavedSearch = (id: string, changes: Partial<Pick<SavedSearch, 'name' | 'query' | 'pinned' | 'alertsEnabled' | 'digest'>>) => {
+    writeJson(SAVED_SEARCHES_KEY, readAllSearches().map(s => s.id === id ? { ...s, ...changes } : s));
+    notifyChanged();
+};
+
+export const deleteSavedSearch = (id: string) => {
+    writeJson(SAVED_SEARCHES_KEY, readAllSearches().filter(s => s.id !== id));
+    writeJson(SEARCH_ALERTS_KEY, readAllAlerts().filter(a => a.searchId !== id));
+    notifyChanged();
+};
+
+// --- Alerts ---
+
+const readAllAlerts = () => readJson<SearchAlert[]>(SEARCH_ALERTS_KEY, []);
+
+// Newest first
+export const getSearchAlerts = (userId: string): SearchAlert[] =>
+    readAllAlerts().filter(a => a.ownerId === userId).sort((a, b) => b.createdAt - a.createdAt);
+
+// Marks the user's alerts read, or only those of one saved search
+export const markSearchAlertsRead = (userId: string, searchId?: string) => {
+    const alerts = readAllAlerts();
+    if (!alerts.some(a => a.ownerId === userId && !a.read && (!searchId || a.searchId === searchId))) return;
+    writeJson(SEARCH_ALERTS_KEY, alerts.map(a => a.ownerId === userId && (!searchId || a.searchId === searchId) ? { ...a, read: true } : a));
+    notifyChanged();
+};
+
+export const clearSearchAlerts = (userId: string) => {
+    writeJson(SEARCH_ALERTS_KEY, readAllAlerts().filter(a => a.ownerId !== userId));
+    notifyChanged();
+};
+
+// Full modified timestamp plus checksum (or size), so a same-day edit is a new revision too
+const revisionOf = (file: DriveFile) => [file.modifiedAt || file.modifiedTime, file.md5Checksum || file.size].map(v => v || '').join('|');
+
+const readSeenFiles = (now: number): Record<string, SeenFile> => {
+    const stored = readJson<Record<string, SeenFile | string>>(SEEN_FILES_KEY, {});
+    return Object.fromEntries(Object.entries(stored).map(([id, entry]) =>
+        [id, typeof entry === 'string' ? { revision: entry, lastSeen: now, dayOnly: true } : entry]
+    ));
+};
+
+// Called with the files of every Drive sync. Files not seen before (or with a new revision) are checked
+// against every user's saved searches with alerts on; only what the sync returned is known, so matching uses
+// name, description, tags and the filters. A file modified before the search was saved never alerts, so opening
+// an old folder for the first time stays quiet. The very first sync in a browser only records what exists.
+export const evaluateSavedSearches = (files: DriveFile[]): { alert: SearchAlert; search: SavedSearch }[] => {
+    const now = Date.now();
+    const seen = readSeenFiles(now);
+    const baseline = Object.keys(seen).length === 0;
+    const fresh: DriveFile[] = [];
+    files.filter(f => !f.mimeType.includes('folder')).forEach(f => {
+        const previous = seen[f.id];
+        const revision = revisionOf(f);
+        const known = previous && (previous.dayOnly ? previous.revision === (f.modifiedTime || '') : previous.revision === revision);
+        if (!known) fresh.push(f);
+        seen[f.id] = { revision, lastSeen: now };
+    });
+    Object.keys(seen).forEach(id => { if (now - seen[id].lastSeen > SEEN_RETENTION_MS) delete seen[id]; });
+    writeJson(SEEN_FILES_KEY, seen);
+    if (baseline || fresh.length === 0) return [];
+
+    const raised = readAllSearches().filter(s => s.alertsEnabled).flatMap(search => {
+        const query = parseSearchQuery(search.query);
+        const savedOn = new Date(search.createdAt).toISOString().split('T')[0];
+        const modifiedAfterSaving = (f: DriveFile) => f.modifiedAt ? Date.parse(f.modifiedAt) >= search.createdAt : (f.modifiedTime || '') >= savedOn;
+        const matches = fresh.filter(f => modifiedAfterSaving(f) && matchesSearchQuery(f, query) && matchesSearchText(f, query));
+        if (matches.length === 0) return [];
+        const alert: SearchAlert = {
+            id: `${Date.now()}-${search.id}`,
+            searchId: search.id,
+            ownerId: search.ownerId,
+            searchName: search.name,
+            files: matches.slice(0, MAX_FILES_PER_ALERT).map(f => ({ id: f.id, name: f.name, modifiedTime: f.modifiedTime, url: f.url })),
+            createdAt: Date.now(),
+            read: false
+        };
+        return [{ alert, search }];
+    });
+    if (raised.length > 0) {
+        writeJson(SEARCH_ALERTS_KEY, [...raised.map(r => r.alert), ...readAllAlerts()].slice(0, MAX_ALERTS));
+        notifyChanged();
+    }
+    return raised;
+};
@@ -0,0 +1,248 @@
+import { DriveFile, FilterState, SearchClause, SearchComparison, SearchQuery } from "../types";
+
+// --- Drive search query language ---
+// Free text, "quoted phrases" and -negation, plus field filters:
+//   type:pdf  tag:Signaling  tag:"Rolling Stock"  modified:>2024-01-01  modified:2024-03  size:>2MB
+// The same syntax is accepted by Drive Explorer, the Engineering chat (search_drive) and the voice agent.
+
+const KB = 1024;
+const MB = 1024 * KB;
+const GB = 1024 * MB;
+
+// field:[op]value | "phrase" | word, each optionally negated with a leading "-"
+const TOKEN_PATTERN = /(-)?(?:([A-Za-z]+):(>=|<=|>|<|=)?(?:"([^"]*)"?|([^\s"]*))|"([^"]*)"?|([^\s"]+))/g;
+const DATE_PATTERN = /^\d{4}(?:-\d{2}(?:-\d{2})?)?$/;
+const FULL_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SIZE_PATTERN = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i;
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: KB, mb: MB, gb: GB };
+
+const TYPE_ALIASES: Record<string, string> = { folders: 'folder', images: 'image', img: 'image', word: 'doc', docx: 'doc', excel: 'sheet', xlsx: 'sheet', spreadsheet: 'sheet' };
+
+const TYPE_MATCHERS: Record<string, (file: DriveFile) => boolean> = {
+    folder: f => f.mimeType.includes('folder'),
+    pdf: f => f.mimeType.includes('pdf'),
+    image: f => f.mimeType.includes('image'),
+    // As the Drive Explorer "Word / Excel" filter always behaved
+    docs: f => f.mimeType.includes('document') || f.mimeType.includes('sheet'),
+    doc: f => f.mimeType.includes('document') || /\.docx?$/i.test(f.name),
+    sheet: f => f.mimeType.includes('sheet') || /\.(xlsx?|csv)$/i.test(f.name)
+};
+
+// Drive Explorer filter panel type <-> type: value
+const FILTER_TYPES: Record<string, string> = { FOLDER: 'folder', PDF: 'pdf', IMAGE: 'image', DOCS: 'docs' };
+
+const OP_SYMBOLS: Record<SearchComparison, string> = { '=': '=', '>': '>', '>=': '≥', '<': '<', '<=': '≤' };
+
+// --- Parsing ---
+
+const parseSize = (value: string): number | null => {
+    const match = value.match(SIZE_PATTERN);
+    // A bare number means MB, like the filter panel
+    return match ? parseFloat(match[1]) * SIZE_UNITS[(match[2] || 'mb').toLowerCase()] : null;
+};
+
+type SearchField = 'type' | 'tag' | 'modified' | 'size';
+const FIELDS = new Set<string>(['type', 'tag', 'modified', 'size'] satisfies SearchField[]);
+
+const parseFilter = (field: SearchField, op: SearchComparison | undefined, value: string, negated: boolean): SearchClause | string => {
+    switch (field) {
+        case 'type': {
+            const type = value.toLowerCase().replace(/^\./, '');
+            return { kind: 'TYPE', value: TYPE_ALIASES[type] || type, negated };
+        }
+        case 'tag':
+            return { kind: 'TAG', value, negated };
+        case 'modified':
+            return DATE_PATTERN.test(value) ? { kind: 'MODIFIED', op: op || '=', value, negated } : `modified: "${value}" is not a date (use YYYY, YYYY-MM or YYYY-MM-DD)`;
+        case 'size': {
+            const bytes = parseSize(value);
+            return bytes !== null ? { kind: 'SIZE', op: op || '>=', bytes, negated } : `size: "${value}" is not a size (e.g. 2MB, 500KB)`;
+        }
+    }
+};
+
+export const parseSearchQuery = (text: string): SearchQuery => {
+    const clauses: SearchClause[] = [];
+    const errors: string[] = [];
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+        const [raw, minus, field, op, quotedValue, bareValue, phrase, word] = match;
+        const negated = !!minus;
+        if (field !== undefined && FIELDS.has(field.toLowerCase())) {
+            const value = (quotedValue ?? bareValue ?? '').trim();
+            if (!value) continue; // Still being typed
+            const clause = parseFilter(field.toLowerCase() as SearchField, op as SearchComparison | undefined, value, negated);
+            if (typeof clause === 'string') {
+                errors.push(clause);
+                clauses.push({ kind: 'TERM', value, negated });
+            } else {
+                clauses.push(clause);
+            }
+        } else if (phrase !== undefined) {
+            if (phrase.trim()) clauses.push({ kind: 'PHRASE', value: phrase.trim(), negated });
+        } else {
+            // Words and unknown "prefix:value" tokens (e.g. "IEC:61373") are plain text
+            const value = word ?? raw.slice(negated ? 1 : 0);
+            if (/[A-Za-z0-9]/.test(value)) clauses.push({ kind: 'TERM', value, negated });
+        }
+    }
+    return { clauses, errors };
+};
+
+// --- Formatting ---
+
+const quote = (value: string) => /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+const formatSize = (bytes: number) => {
+    for (const [unit, factor] of [['GB', GB], ['MB', MB], ['KB', KB]] as const) {
+        if (bytes >= factor) return `${Number((bytes / factor).toFixed(2))}${unit}`;
+    }
+    return `${bytes}B`;
+};
+
+const formatClause = (clause: SearchClause): string => {
+    const minus = clause.negated ? '-' : '';
+    switch (clause.kind) {
+        case 'TERM': return `${minus}${clause.value}`;
+        case 'PHRASE': return `${minus}"${clause.value}"`;
+        case 'TYPE': return `${minus}type:${quote(clause.value)}`;
+        case 'TAG': return `${minus}tag:${quote(clause.value)}`;
+        case 'MODIFIED': return `${minus}modified:${clause.op === '=' ? '' : clause.op}${clause.value}`;
+        case 'SIZE': return `${minus}size:${clause.op}${formatSize(clause.bytes)}`;
+    }
+};
+
+// Query text for the clauses; parseSearchQuery(formatSearchQuery(q)) gives back q's clauses
+export const formatSearchQuery = (query: SearchQuery) => query.clauses.map(formatClause).join(' ');
+
+// Chip label for a clause
+export const describeClause = (clause: SearchClause): string => {
+    const not = clause.negated ? 'Not ' : '';
+    switch (clause.kind) {
+        case 'TERM': return `${not}${clause.value}`;
+        case 'PHRASE': return `${not}"${clause.value}"`;
+        case 'TYPE': return `${not}Type: ${clause.value}`;
+        case 'TAG': return `${not}#${clause.value}`;
+        case 'MODIFIED': return `${not}Modified ${OP_SYMBOLS[clause.op]} ${clause.value}`;
+        case 'SIZE': return `${not}Size ${OP_SYMBOLS[clause.op]} ${formatSize(clause.bytes)}`;
+    }
+};
+
+export const isFilterClause = (clause: SearchClause) => clause.kind !== 'TERM' && clause.kind !== 'PHRASE';
+
+// The text to rank by (positive words and phrases), the phrases that must appear verbatim and the words
+// or phrases that must not appear
+export const getSearchText = (query: SearchQuery) => {
+    const textClauses = query.clauses.filter(c => c.kind === 'TERM' || c.kind === 'PHRASE');
+    return {
+        text: textClauses.filter(c => !c.negated).map(c => c.value).join(' '),
+        phrases: textClauses.filter(c => c.kind === 'PHRASE' && !c.negated).map(c => c.value),
+        excluded: textClauses.filter(c => c.negated).map(c => c.value)
+    };
+};
+
+// --- Matching ---
+
+// "2.4MB" -> bytes
+const parseFileSize = (sizeStr?: string): number => {
+    if (!sizeStr) return 0;
+    const num = parseFloat(sizeStr.replace(/[^\d.]/g, ''));
+    if (sizeStr.includes('KB')) return num * KB;
+    if (sizeStr.includes('MB')) return num * MB;
+    if (sizeStr.includes('GB')) return num * GB;
+    return num;
+};
+
+const compare = <T extends string | number>(actual: T, op: SearchComparison, expected: T) => {
+    switch (op) {
+        case '=': return actual === expected;
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+    }
+};
+
+const clauseMatches = (file: DriveFile, clause: SearchClause): boolean => {
+    switch (clause.kind) {
+        case 'TERM':
+        case 'PHRASE': {
+            const metadata = [file.name, file.description || '', ...(file.tags || [])].join(' ').toLowerCase();
+            return metadata.includes(clause.value.toLowerCase());
+        }
+        case 'TYPE': {
+            const matcher = TYPE_MATCHERS[clause.value];
+            if (matcher) return matcher(file);
+            return file.name.toLowerCase().endsWith(`.${clause.value}`) || file.mimeType.toLowerCase().includes(clause.value);
+        }
+        case 'TAG':
+            return (file.tags || []).some(t => t.toLowerCase() === clause.value.toLowerCase());
+        case 'MODIFIED':
+            // Dates compare at the precision given: modified:2024-03 is any day in March 2024
+            return !!file.modifiedTime && compare(file.modifiedTime.slice(0, clause.value.length), clause.op, clause.value);
+        case 'SIZE':
+            return !!file.size && compare(parseFileSize(file.size), clause.op, clause.bytes);
+    }
+};
+
+// Whether the file passes every filter clause and contains none of the negated words in its name, description
+// or tags. Positive words and phrases are left to the ranked search, which also sees file content.
+export const matchesSearchQuery = (file: DriveFile, query: SearchQuery) =>
+    query.clauses.every(clause => {
+        if (!isFilterClause(clause)) return !clause.negated || !clauseMatches(file, clause);
+        return clauseMatches(file, clause) !== clause.negated;
+    });
+
+// Whether every positive word and phrase appears in the file's name, description or tags. For files whose
+// content has not been read (e.g. just synced); anything else should go through the ranked search.
+export const matchesSearchText = (file: DriveFile, query: SearchQuery) =>
+    query.clauses.every(clause => isFilterClause(clause) || clause.negated || clauseMatches(file, clause));
+
+// --- Filter panel sync ---
+
+const isLowerBound = (op: SearchComparison) => op === '>' || op === '>=';
+const isUpperBound = (op: SearchComparison) => op === '<' || op === '<=';
+
+// The filter panel's view of the query. Clauses the panel cannot show (negations, several types, partial dates)
+// stay in the query text and as chips.
+export const toFilterState = (query: SearchQuery): FilterState => {
+    const positive = query.clauses.filter(c => !c.negated);
+    const types = positive.filter((c): c is Extract<SearchClause, { kind: 'TYPE' }> => c.kind === 'TYPE');
+    const panelType = types.length === 1 ? Object.keys(FILTER_TYPES).find(k => FILTER_TYPES[k] === types[0].value) : undefined;
+    const dates = positive.filter((c): c is Extract<SearchClause, { kind: 'MODIFIED' }> => c.kind === 'MODIFIED' && FULL_DATE_PATTERN.test(c.value));
+    const minSize = positive.find((c): c is Extract<SearchClause, { kind: 'SIZE' }> => c.kind === 'SIZE' && isLowerBound(c.op));
+    return {
+        type: panelType || 'ALL',
+        startDate: dates.find(c => isLowerBound(c.op))?.value || '',
+        endDate: dates.find(c => isUpperBound(c.op))?.value || '',
+        minSizeMB: minSize ? Number((minSize.bytes / MB).toFixed(2)) : 0,
+        tags: positive.flatMap(c => c.kind === 'TAG' ? [c.value] : [])
+    };
+};
+
+// The query with the panel fields that changed from `previous` to `next` rewritten; everything else is kept as typed
+export const withFilterState = (query: SearchQuery, previous: FilterState, next: FilterState): SearchQuery => {
+    let clauses = [...query.clauses];
+    const drop = (predicate: (c: SearchClause) => boolean) => { clauses = clauses.filter(c => c.negated || !predicate(c)); };
+
+    if (next.type !== previous.type) {
+        drop(c => c.kind === 'TYPE');
+        if (FILTER_TYPES[next.type]) clauses.push({ kind: 'TYPE', value: FILTER_TYPES[next.type], negated: false });
+    }
+    if (next.startDate !== previous.startDate) {
+        drop(c => c.kind === 'MODIFIED' && isLowerBound(c.op));
+        if (next.startDate) clauses.push({ kind: 'MODIFIED', op: '>=', value: next.startDate, negated: false });
+    }
+    if (next.endDate !== previous.endDate) {
+        drop(c => c.kind === 'MODIFIED' && isUpperBound(c.op));
+        if (next.endDate) clauses.push({ kind: 'MODIFIED', op: '<=', value: next.endDate, negated: false });
+    }
+    if (next.minSizeMB !== previous.minSizeMB) {
+        drop(c => c.kind === 'SIZE' && isLowerBound(c.op));
+        if (next.minSizeMB > 0) clauses.push({ kind: 'SIZE', op: '>=', bytes: next.minSizeMB * MB, negated: false });
+    }
+    const removedTags = previous.tags.filter(t => !next.tags.includes(t)).map(t => t.toLowerCase());
+    drop(c => c.kind === 'TAG' && removedTags.includes(c.value.toLowerCase()));
+    next.tags.filter(t => !previous.tags.includes(t)).forEach(value => clauses.push({ kind: 'TAG', value, negated: false }));
+
+    return { ...query, clauses };
+};
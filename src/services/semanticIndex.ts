@@ -0,0 +1,376 @@
+import { getEmbeddingProvider } from "./llmProvider";
+import { DriveBackendError, getAllKnownFiles, loadFileContent } from "./driveService";
+import { extractFileContent, splitIntoPassages } from "./fileExtraction";
+import { createRedactionSession } from "./redaction";
+import { usageService } from "./usageService";
+import { authService } from "./authService";
+import { isAbortError, isSystemicAiError } from "./aiErrors";
+import { withGlossaryExpansions } from "./glossary";
+import { recordFingerprint, dedupeByContent, listingSignature } from "./duplicates";
+import { getVectorStoreConfig, getVectorFileRecord, writeVectorFile, updateVectorFileRecord, searchVectorStore, getVectorStoreStats, countVectorChunks, deleteVectorCollection, checkVectorStoreHealth } from "./vectorStore";
+import { ContextDocument, DocumentPassage, IndexedChunk, IndexedFile, LlmEmbeddingPurpose, RetrievedChunk, SemanticIndexProgress, SemanticIndexStats } from "../types";
+
+const DB_NAME = 'kmrcl_semantic_index';
+const DB_VERSION = 1;
+const CHUNKS_STORE = 'chunks';
+const FILES_STORE = 'files';
+
+// Roughly a paragraph or two: specific enough to rank well, big enough to carry its own context
+const CHUNK_TOKENS = 300;
+const EMBED_BATCH_SIZE = 32;
+const DEFAULT_TOP_K = 6;
+// Extra candidates fetched so dropping duplicates still leaves topK passages
+const DEDUPE_OVERFETCH = 2;
+
+// Used when the provider has no embedding endpoint (offline stub, local server without one)
+const LOCAL_EMBEDDING_MODEL = 'local-hashed-terms-512';
+const LOCAL_DIMENSIONS = 512;
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are', 'was', 'be', 'with', 'by', 'at', 'as', 'it', 'this', 'that', 'from', 'what', 'which', 'how', 'does', 'do']);
+
+// --- IndexedDB plumbing ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                db.createObjectStore(CHUNKS_STORE, { keyPath: 'id' }).createIndex('fileId', 'fileId');
+                db.createObjectStore(FILES_STORE, { keyPath: 'fileId' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+// Every query scores all chunks, so they are kept in memory after the first load
+let chunkCache: IndexedChunk[] | null = null;
+
+const loadChunks = async (): Promise<IndexedChunk[]> => {
+    if (!chunkCache) {
+        const db = await openDb();
+        chunkCache = await promisify<IndexedChunk[]>(db.transaction(CHUNKS_STORE).objectStore(CHUNKS_STORE).getAll());
+    }
+    return chunkCache;
+};
+
+const loadFileRecords = async (): Promise<IndexedFile[]> => {
+    const db = await openDb();
+    return promisify<IndexedFile[]>(db.transaction(FILES_STORE).objectStore(FILES_STORE).getAll());
+};
+
+const loadFileRecord = async (fileId: string): Promise<IndexedFile | undefined> => {
+    const db = await openDb();
+    return promisify<IndexedFile | undefined>(db.transaction(FILES_STORE).objectStore(FILES_STORE).get(fileId));
+};
+
+// Replaces every chunk of the file in one transaction
+const writeFile = async (record: IndexedFile, chunks: IndexedChunk[]) => {
+    const db = await openDb();
+    const tx = db.transaction([CHUNKS_STORE, FILES_STORE], 'readwrite');
+    const chunkStore = tx.objectStore(CHUNKS_STORE);
+    const oldKeys = await promisify(chunkStore.index('fileId').getAllKeys(record.fileId));
+    oldKeys.forEach(key => chunkStore.delete(key));
+    chunks.forEach(chunk => chunkStore.put(chunk));
+    tx.objectStore(FILES_STORE).put(record);
+    await transactionDone(tx);
+    chunkCache = null;
+};
+
+const writeFileRecord = async (record: IndexedFile) => {
+    const db = await openDb();
+    const tx = db.transaction(FILES_STORE, 'readwrite');
+    tx.objectStore(FILES_STORE).put(record);
+    await transactionDone(tx);
+};
+
+const sha256 = async (text: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// --- Embeddings ---
+
+const fnv1a = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+    return hash >>> 0;
+};
+
+const normalizeVector = (vector: number[]) => {
+    const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return length > 0 ? vector.map(v => v / length) : vector;
+};
+
+// Signed feature hashing of terms and adjacent term pairs: keyword overlap, not meaning, but it needs no network
+const localEmbed = (text: string): number[] => {
+    const vector = new Array(LOCAL_DIMENSIONS).fill(0);
+    const terms = (text.toLowerCase().match(/[a-z0-9]+(?:\.[0-9]+)?/g) || []).filter(t => !STOP_WORDS.has(t));
+    const features = [...terms, ...terms.slice(1).map((t, i) => `${terms[i]} ${t}`)];
+    features.forEach(feature => {
+        const hash = fnv1a(feature);
+        vector[hash % LOCAL_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+    });
+    return normalizeVector(vector);
+};
+
+interface Embedder {
+    model: string;
+    embed: (texts: string[], purpose: LlmEmbeddingPurpose, signal?: AbortSignal) => Promise<number[][]>;
+}
+
+const getEmbedder = (): Embedder => {
+    const provider = getEmbeddingProvider();
+    const model = provider.isConfigured() ? provider.embeddings?.model() : undefined;
+    if (!provider.embeddings || !model) {
+        return { model: LOCAL_EMBEDDING_MODEL, embed: async (texts) => texts.map(localEmbed) };
+    }
+    const { embed } = provider.embeddings;
+    return {
+        model,
+        // Document text leaves the browser here, so it is masked like any other AI request (see redaction.ts),
+        // and each batch counts against the user's daily quota
+        embed: async (texts, purpose, signal) => {
+            const user = authService.getCurrentUser();
+            const redaction = createRedactionSession();
+            const vectors: number[][] = [];
+            for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+                signal?.throwIfAborted();
+                usageService.assertWithinQuota(user);
+                const batch = texts.slice(i, i + EMBED_BATCH_SIZE).map(t => redaction.redactText(t));
+                vectors.push(...(await embed(batch, purpose, signal)).map(normalizeVector));
+                usageService.recordEmbeddingUsage(user, model, batch);
+            }
+            return vectors;
+        }
+    };
+};
+
+// The file name and heading make a chunk findable by what it is about, not only by what it says
+const toEmbeddingText = (fileName: string, draft: DocumentPassage) =>
+    `${fileName}${draft.section ? ` - ${draft.section}` : ''}\n${draft.text}`;
+
+// --- Storage backends ---
+// This browser's IndexedDB by default; a self-hosted vector database when one is selected under Infrastructure
+
+interface IndexBackend {
+    ready: () => Promise<void>;
+    hasChunks: (embeddingModel: string) => Promise<boolean>;
+    fileRecord: (fileId: string, signal?: AbortSignal) => Promise<IndexedFile | null | undefined>;
+    writeFile: (record: IndexedFile, chunks: IndexedChunk[], signal?: AbortSignal) => Promise<void>;
+    writeRecord: (record: IndexedFile, signal?: AbortSignal) => Promise<void>;
+    search: (vector: number[], options: { embeddingModel: string; topK: number; fileIds?: string[]; signal?: AbortSignal }) => Promise<RetrievedChunk[]>;
+    stats: (embeddingModel: string) => Promise<Pick<SemanticIndexStats, 'files' | 'chunks' | 'lastIndexedAt' | 'collection'>>;
+    purge: () => Promise<void>;
+}
+
+const dot = (a: number[], b: number[]) => {
+    let sum = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+    return sum;
+};
+
+const browserBackend: IndexBackend = {
+    ready: async () => {},
+    hasChunks: async (embeddingModel) => (await loadFileRecords()).some(r => r.embeddingModel === embeddingModel && r.chunkCount > 0),
+    fileRecord: loadFileRecord,
+    writeFile: (record, chunks) => writeFile(record, chunks),
+    writeRecord: (record) => writeFileRecord(record),
+    // Every chunk of the current model is scored in memory
+    search: async (vector, { embeddingModel, topK, fileIds }) => {
+        const records = await loadFileRecords();
+        const wanted = fileIds && new Set(fileIds);
+        const compatible = new Set(records.filter(r => r.embeddingModel === embeddingModel && (!wanted || wanted.has(r.fileId))).map(r => r.fileId));
+        return (await loadChunks())
+            .filter(c => compatible.has(c.fileId))
+            .map(({ vector: chunkVector, ...chunk }) => ({ ...chunk, score: dot(vector, chunkVector) }))
+            .filter(c => c.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    },
+    stats: async (embeddingModel) => {
+        const current = (await loadFileRecords()).filter(r => r.embeddingModel === embeddingModel);
+        return {
+            files: current.length,
+            chunks: current.reduce((sum, r) => sum + r.chunkCount, 0),
+            lastIndexedAt: current.length > 0 ? Math.max(...current.map(r => r.indexedAt)) : null
+        };
+    },
+    purge: async () => {
+        const db = await openDb();
+        const tx = db.transaction([CHUNKS_STORE, FILES_STORE], 'readwrite');
+        tx.objectStore(CHUNKS_STORE).clear();
+        tx.objectStore(FILES_STORE).clear();
+        await transactionDone(tx);
+        chunkCache = null;
+    }
+};
+
+// Read per call: switching backend in Settings takes effect on the next refresh or question
+const getBackend = (): IndexBackend => {
+    const config = getVectorStoreConfig();
+    if (config.backend === 'BROWSER') return browserBackend;
+    return {
+        // An unreachable server would fail (and time out on) every file in turn
+        ready: async () => {
+            const health = await checkVectorStoreHealth(config);
+            if (!health.ok) throw new Error(health.error);
+        },
+        hasChunks: async (embeddingModel) => (await countVectorChunks(embeddingModel, config)) > 0,
+        fileRecord: (fileId, signal) => getVectorFileRecord(fileId, config, signal),
+        writeFile: (record, chunks, signal) => writeVectorFile(record, chunks, config, signal),
+        writeRecord: (record, signal) => updateVectorFileRecord(record, config, signal),
+        search: (vector, options) => searchVectorStore(vector, options, config),
+        stats: (embeddingModel) => getVectorStoreStats(embeddingModel, config),
+        purge: () => deleteVectorCollection(config)
+    };
+};
+
+// --- Indexing ---
+
+let refreshInFlight: Promise<SemanticIndexStats> | null = null;
+
+// Brings the index up to date with every known Drive file. Files whose listing signature matches the indexed
+// revision are skipped without a download; the rest are re-read, and re-embedded only when their text changed.
+// A change of embedding model re-embeds everything. Files that fail are logged and retried on the next refresh;
+// quota, configuration and Drive backend errors stop the run.
+export const refreshSemanticIndex = (options: { force?: boolean; signal?: AbortSignal; onProgress?: (progress: SemanticIndexProgress) => void } = {}) => {
+    if (refreshInFlight && !options.force) return refreshInFlight;
+    const run = (async () => {
+        const embedder = getEmbedder();
+        const backend = getBackend();
+        await backend.ready();
+        const files = getAllKnownFiles();
+        let failed = 0;
+
+        for (let i = 0; i < files.length; i++) {
+            options.signal?.throwIfAborted();
+            options.onProgress?.({ done: i, total: files.length, fileName: files[i].name, failed });
+            try {
+                const signature = listingSignature(files[i]) || undefined;
+                const existing = await backend.fileRecord(files[i].id, options.signal);
+                const upToDate = !options.force && !!existing && existing.embeddingModel === embedder.model;
+                if (upToDate && signature && existing.signature === signature) continue;
+
+                // Native Google Docs/Sheets are exported once, then indexed like uploads
+                const file = await loadFileContent(files[i], options.signal);
+                const text = await extractFileContent(file);
+                await recordFingerprint(file, text);
+                const contentHash = await sha256(text);
+                if (upToDate && existing.contentHash === contentHash) {
+                    // Same text under a new listing signature: remember it so the next refresh skips the download
+                    if (signature && existing.signature !== signature) await backend.writeRecord({ ...existing, fileName: file.name, signature }, options.signal);
+                    continue;
+                }
+
+                const drafts = splitIntoPassages(text, CHUNK_TOKENS);
+                const vectors = await embedder.embed(drafts.map(d => toEmbeddingText(file.name, d)), 'DOCUMENT', options.signal);
+                const chunks: IndexedChunk[] = drafts.map((draft, ordinal) => ({
+                    id: `${file.id}#${ordinal}`,
+                    fileId: file.id,
+                    fileName: file.name,
+                    url: file.url,
+                    ordinal,
+                    ...draft,
+                    vector: vectors[ordinal]
+                }));
+                await backend.writeFile({ fileId: file.id, fileName: file.name, contentHash, embeddingModel: embedder.model, chunkCount: chunks.length, indexedAt: Date.now(), signature }, chunks, options.signal);
+            } catch (e: any) {
+                if (isAbortError(e) || isSystemicAiError(e) || e instanceof DriveBackendError) throw e;
+                failed++;
+                console.warn(`Semantic index: failed to index ${files[i].name}`, e);
+            }
+        }
+        options.onProgress?.({ done: files.length, total: files.length, failed });
+        return getSemanticIndexStats();
+    })();
+    refreshInFlight = run;
+    run.finally(() => {
+        if (refreshInFlight === run) refreshInFlight = null;
+    }).catch(() => {});
+    return run;
+};
+
+// --- Retrieval ---
+
+// Top-k chunks by cosine similarity, optionally only from `fileIds`. Only chunks embedded by the current
+// model are compared; returns [] while nothing has been indexed with it. The query is embedded with its
+// glossary expansions, so "OHE" also finds passages that only say "overhead equipment". Copies of a file
+// already in the results, and passages repeating one already in them, are dropped (see duplicates.ts).
+export const searchSemanticIndex = async (
+    query: string,
+    options: { topK?: number; fileIds?: string[]; signal?: AbortSignal } = {}
+): Promise<RetrievedChunk[]> => {
+    if (!query.trim() || options.fileIds?.length === 0) return [];
+    const embedder = getEmbedder();
+    const backend = getBackend();
+    // Embedding the query can be a paid call; skip it while there is nothing to compare against
+    if (!(await backend.hasChunks(embedder.model))) return [];
+
+    const [queryVector] = await embedder.embed([withGlossaryExpansions(query)], 'QUERY', options.signal);
+    const topK = options.topK || DEFAULT_TOP_K;
+    const chunks = await backend.search(queryVector, { embeddingModel: embedder.model, topK: topK * DEDUPE_OVERFETCH, fileIds: options.fileIds, signal: options.signal });
+    const seenTexts = new Set<string>();
+    return (await dedupeByContent(chunks, c => c.fileId))
+        .filter(c => {
+            const key = c.text.trim().toLowerCase();
+            if (seenTexts.has(key)) return false;
+            seenTexts.add(key);
+            return true;
+        })
+        .slice(0, topK);
+};
+
+const describeLocation = (chunk: RetrievedChunk) =>
+    [chunk.page ? `Page ${chunk.page}` : '', chunk.section ? `Section: ${chunk.section}` : ''].filter(Boolean).join(' | ');
+
+// One context document per file (best-ranked file first), its chunks in reading order with their location
+export const toChunkDocuments = (chunks: RetrievedChunk[]): ContextDocument[] => {
+    const byFile = new Map<string, RetrievedChunk[]>();
+    chunks.forEach(c => byFile.set(c.fileId, [...(byFile.get(c.fileId) || []), c]));
+    return Array.from(byFile.values()).map(fileChunks => ({
+        name: fileChunks[0].fileName,
+        fileId: fileChunks[0].fileId,
+        url: fileChunks[0].url,
+        content: [...fileChunks]
+            .sort((a, b) => a.ordinal - b.ordinal)
+            .map(c => describeLocation(c) ? `(${describeLocation(c)})\n${c.text}` : c.text)
+            .join('\n\n')
+    }));
+};
+
+// --- Admin ---
+
+export const getSemanticIndexStats = async (): Promise<SemanticIndexStats> => {
+    const backend = getVectorStoreConfig().backend;
+    try {
+        const embeddingModel = getEmbedder().model;
+        return { backend, embeddingModel, ...(await getBackend().stats(embeddingModel)) };
+    } catch (e) {
+        console.warn("Semantic index unavailable", e);
+        return { backend, files: 0, chunks: 0, embeddingModel: null, lastIndexedAt: null };
+    }
+};
+
+// Purges the selected backend only; an external collection is deleted for every browser using it
+export const purgeSemanticIndex = () => getBackend().purge();
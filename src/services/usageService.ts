@@ -0,0 +1,200 @@
+import { AiTask, LlmRequest, LlmResponse, UsageLimit, UsageQuotaConfig, UsageRecord, User } from '../types';
+import { estimateTokens } from './contextBudget';
+import { UsageLimitExceededError } from './aiErrors';
+
+const USAGE_LOG_KEY = 'kmrcl_usage_log';
+const USAGE_QUOTAS_KEY = 'kmrcl_usage_quotas';
+
+// Keep ~a month of history in localStorage, bounded so the log never grows past a few MB
+const RETENTION_MS = 31 * 24 * 60 * 60 * 1000;
+const MAX_RECORDS = 5000;
+
+// Images / PDFs sent inline are billed per item rather than per base64 character
+const INLINE_DATA_TOKENS = 258;
+
+// USD per 1M tokens (input / output), public list prices. Unknown / self-hosted models cost 0.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+    'gemini-2.5-flash-image': { input: 0.30, output: 30.00 },
+    'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+    'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+    'gemini-embedding-001': { input: 0.15, output: 0 }
+};
+
+const DEFAULT_QUOTAS: UsageQuotaConfig = {
+    roles: {
+        ADMIN: { dailyRequests: 0, dailyTokens: 0 },
+        USER: { dailyRequests: 200, dailyTokens: 2000000 }
+    },
+    users: {}
+};
+
+export interface UsageBreakdownRow {
+    key: string;
+    label: string;
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    estimatedCostUsd: number;
+}
+
+export interface UsageSummary {
+    totals: UsageBreakdownRow;
+    byUser: UsageBreakdownRow[];
+    byTask: UsageBreakdownRow[];
+    byModel: UsageBreakdownRow[];
+}
+
+const startOfToday = () => {
+    const d = new Date();
+    d.setHours(0, 0, 0, 0);
+    return d.getTime();
+};
+
+const estimateRequestTokens = (request: LlmRequest) => {
+    const text = [request.systemInstruction || '', ...request.contents.flatMap(c => c.parts.map(p => p.text || ''))].join('\n');
+    const inlineCount = request.contents.reduce((sum, c) => sum + c.parts.filter(p => p.inlineData).length, 0);
+    return estimateTokens(text) + inlineCount * INLINE_DATA_TOKENS;
+};
+
+const newRecordId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const appendRecord = (record: UsageRecord) => {
+    const cutoff = Date.now() - RETENTION_MS;
+    const records = [...usageService.getRecords().filter(r => r.timestamp >= cutoff), record].slice(-MAX_RECORDS);
+    try {
+        localStorage.setItem(USAGE_LOG_KEY, JSON.stringify(records));
+    } catch (e) {
+        console.error("Failed to persist usage log", e);
+    }
+};
+
+const summarizeBy = (records: UsageRecord[], keyOf: (r: UsageRecord) => string, labelOf: (r: UsageRecord) => string): UsageBreakdownRow[] => {
+    const rows: Record<string, UsageBreakdownRow> = {};
+    records.forEach(r => {
+        const key = keyOf(r);
+        const row = rows[key] || (rows[key] = { key, label: labelOf(r), requests: 0, inputTokens: 0, outputTokens: 0, estimatedCostUsd: 0 });
+        row.requests++;
+        row.inputTokens += r.inputTokens;
+        row.outputTokens += r.outputTokens;
+        row.estimatedCostUsd += r.estimatedCostUsd;
+    });
+    return Object.values(rows).sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens));
+};
+
+export const usageService = {
+  getRecords: (): UsageRecord[] => {
+    try {
+        return JSON.parse(localStorage.getItem(USAGE_LOG_KEY) || '[]');
+    } catch (e) {
+        console.error("Failed to read usage log", e);
+        return [];
+    }
+  },
+
+  estimateCost: (model: string, inputTokens: number, outputTokens: number) => {
+    const price = MODEL_PRICING[model];
+    if (!price) return 0;
+    return (inputTokens * price.input + outputTokens * price.output) / 1000000;
+  },
+
+  // Called by geminiService after every successful model call
+  recordUsage: (user: User | null, task: AiTask, request: LlmRequest, response: LlmResponse) => {
+    const inputTokens = response.usage?.inputTokens ?? estimateRequestTokens(request);
+    const outputTokens = response.usage?.outputTokens ?? estimateTokens(response.text);
+    appendRecord({
+        id: newRecordId(),
+        timestamp: Date.now(),
+        userId: user?.id || 'anonymous',
+        userName: user?.name || 'Anonymous',
+        task,
+        model: response.model,
+        inputTokens,
+        outputTokens,
+        estimatedCostUsd: usageService.estimateCost(response.model, inputTokens, outputTokens),
+        estimated: !response.usage
+    });
+  },
+
+  // Called by the semantic index after every embedding batch sent to a provider; embeddings report no token counts
+  recordEmbeddingUsage: (user: User | null, model: string, texts: string[]) => {
+    const inputTokens = estimateTokens(texts.join('\n'));
+    appendRecord({
+        id: newRecordId(),
+        timestamp: Date.now(),
+        userId: user?.id || 'anonymous',
+        userName: user?.name || 'Anonymous',
+        task: 'EMBEDDING',
+        model,
+        inputTokens,
+        outputTokens: 0,
+        estimatedCostUsd: usageService.estimateCost(model, inputTokens, 0),
+        estimated: true
+    });
+  },
+
+  // --- Quotas ---
+
+  getQuotaConfig: (): UsageQuotaConfig => {
+    try {
+        const stored = localStorage.getItem(USAGE_QUOTAS_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            return { roles: { ...DEFAULT_QUOTAS.roles, ...parsed.roles }, users: parsed.users || {} };
+        }
+    } catch (e) {
+        console.error("Failed to read usage quotas", e);
+    }
+    return DEFAULT_QUOTAS;
+  },
+
+  saveQuotaConfig: (config: UsageQuotaConfig) => {
+    localStorage.setItem(USAGE_QUOTAS_KEY, JSON.stringify(config));
+  },
+
+  // Per-user override wins over the role default
+  getLimitForUser: (user: User): UsageLimit => {
+    const config = usageService.getQuotaConfig();
+    return config.users[user.id] || config.roles[user.role];
+  },
+
+  getTodayUsage: (userId: string) => {
+    const since = startOfToday();
+    const today = usageService.getRecords().filter(r => r.userId === userId && r.timestamp >= since);
+    return {
+        requests: today.length,
+        tokens: today.reduce((sum, r) => sum + r.inputTokens + r.outputTokens, 0)
+    };
+  },
+
+  // Throws before the call goes out if the user has used up today's allowance
+  assertWithinQuota: (user: User | null) => {
+    if (!user) return;
+    const limit = usageService.getLimitForUser(user);
+    const used = usageService.getTodayUsage(user.id);
+    if (limit.dailyRequests > 0 && used.requests >= limit.dailyRequests) {
+        throw new UsageLimitExceededError(`Daily AI request limit reached (${used.requests}/${limit.dailyRequests}). It resets at midnight.`);
+    }
+    if (limit.dailyTokens > 0 && used.tokens >= limit.dailyTokens) {
+        throw new UsageLimitExceededError(`Daily AI token limit reached (${used.tokens.toLocaleString()}/${limit.dailyTokens.toLocaleString()}). It resets at midnight.`);
+    }
+  },
+
+  // --- Reporting ---
+
+  summarize: (sinceTimestamp: number, userId?: string): UsageSummary => {
+    const records = usageService.getRecords().filter(r => r.timestamp >= sinceTimestamp && (!userId || r.userId === userId));
+    const totals = summarizeBy(records, () => 'total', () => 'Total')[0]
+        || { key: 'total', label: 'Total', requests: 0, inputTokens: 0, outputTokens: 0, estimatedCostUsd: 0 };
+    return {
+        totals,
+        byUser: summarizeBy(records, r => r.userId, r => r.userName),
+        byTask: summarizeBy(records, r => r.task, r => r.task),
+        byModel: summarizeBy(records, r => r.model, r => r.model)
+    };
+  },
+
+  startOfToday
+};
@@ -0,0 +1,282 @@
+import { isAbortError } from "./aiErrors";
+import { createRedactionSession } from "./redaction";
+import { IndexedChunk, IndexedFile, RetrievedChunk, VectorCollectionStats, VectorStoreConfig, VectorStoreHealth } from "../types";
+
+// --- REST client for a self-hosted Qdrant server (e.g. `docker run -p 6333:6333 qdrant/qdrant`) ---
+// Every chunk is one point whose payload carries the chunk and its file record, so the server alone knows what
+// is indexed and every browser pointed at it shares one index. Qdrant answers CORS requests by default.
+// Passage text leaves the browser here, so it is masked with the Privacy redaction rules first (for good: the
+// index is shared, and the retrieved passages are sent to the model masked anyway).
+
+const VECTOR_STORE_KEY = 'kmrcl_vector_store';
+const REQUEST_TIMEOUT_MS = 15000;
+const UPSERT_BATCH_SIZE = 64;
+// Indexed payload fields: file replacement and model filtering on every search, stats by ordinal and date
+const PAYLOAD_INDEXES: Record<string, 'keyword' | 'integer'> = { fileId: 'keyword', embeddingModel: 'keyword', ordinal: 'integer', indexedAt: 'integer' };
+const FILE_RECORD_FIELDS: (keyof IndexedFile)[] = ['fileId', 'fileName', 'contentHash', 'embeddingModel', 'chunkCount', 'indexedAt', 'signature'];
+
+const DEFAULT_VECTOR_STORE_CONFIG: VectorStoreConfig = {
+    backend: 'BROWSER',
+    vectorDbUrl: 'http://localhost:6333',
+    collection: 'kmrcl_documents',
+    apiKey: ''
+};
+
+// Collections verified to exist with the right vector size, per server + collection + size
+const ensuredCollections = new Set<string>();
+
+export const getVectorStoreConfig = (): VectorStoreConfig => {
+    try {
+        const stored = localStorage.getItem(VECTOR_STORE_KEY);
+        if (stored) return { ...DEFAULT_VECTOR_STORE_CONFIG, ...JSON.parse(stored) };
+    } catch (e) {
+        console.error("Failed to read vector store config", e);
+    }
+    return DEFAULT_VECTOR_STORE_CONFIG;
+};
+
+export const saveVectorStoreConfig = (config: VectorStoreConfig) => {
+    localStorage.setItem(VECTOR_STORE_KEY, JSON.stringify({ ...config, vectorDbUrl: config.vectorDbUrl.trim().replace(/\/+$/, ''), collection: config.collection.trim() }));
+    ensuredCollections.clear();
+};
+
+export const isExternalVectorStore = () => getVectorStoreConfig().backend !== 'BROWSER';
+
+// --- HTTP plumbing ---
+
+class VectorStoreHttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'VectorStoreHttpError';
+    }
+}
+
+const isNotFound = (e: any) => e instanceof VectorStoreHttpError && e.status === 404;
+
+// The parsed JSON body. Qdrant wraps results as { result, status, time }; errors carry status.error.
+const request = async <T = any>(
+    config: VectorStoreConfig,
+    path: string,
+    options: { method?: string; body?: unknown; signal?: AbortSignal } = {}
+): Promise<T> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    const abortFromCaller = () => controller.abort();
+    options.signal?.addEventListener('abort', abortFromCaller);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers['api-key'] = config.apiKey;
+    const url = `${config.vectorDbUrl.replace(/\/+$/, '')}${path}`;
+    try {
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: options.method || 'GET',
+                headers,
+                body: options.body === undefined ? undefined : JSON.stringify(options.body),
+                signal: controller.signal
+            });
+        } catch (e) {
+            options.signal?.throwIfAborted();
+            if (isAbortError(e)) throw new Error(`Vector store did not answer within ${REQUEST_TIMEOUT_MS / 1000}s (${url})`);
+            throw new Error(`Vector store unreachable at ${config.vectorDbUrl}. Is the server running and the URL correct?`);
+        }
+        const data = await response.json().catch(() => null);
+        if (!response.ok) {
+            const detail = data?.status?.error || response.statusText;
+            throw new VectorStoreHttpError(response.status, `Vector store returned HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+        }
+        return data as T;
+    } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', abortFromCaller);
+    }
+};
+
+const collectionPath = (config: VectorStoreConfig, suffix = '') => `/collections/${encodeURIComponent(config.collection)}${suffix}`;
+
+const matchField = (key: string, value: string | number) => ({ key, match: { value } });
+
+// Qdrant point ids must be unsigned integers or UUIDs; this one is derived from the chunk id, so re-indexing overwrites
+const pointId = async (chunkId: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(chunkId));
+    const hex = Array.from(new Uint8Array(digest).slice(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+};
+
+// --- Health and collection management ---
+
+export const checkVectorStoreHealth = async (config = getVectorStoreConfig()): Promise<VectorStoreHealth> => {
+    const started = performance.now();
+    try {
+        const info = await request<{ title?: string; version?: string }>(config, '/');
+        return { ok: true, version: info?.version, latencyMs: Math.round(performance.now() - started) };
+    } catch (e: any) {
+        return { ok: false, latencyMs: Math.round(performance.now() - started), error: e.message };
+    }
+};
+
+const readCollection = async (config: VectorStoreConfig): Promise<any | null> => {
+    try {
+        return (await request(config, collectionPath(config))).result;
+    } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+    }
+};
+
+const collectionDimensions = (info: any): number | null => info?.config?.params?.vectors?.size ?? null;
+
+// Creates the collection (cosine distance, payload indexes) on first use. A collection built for another
+// vector size cannot take these vectors; the admin has to purge it or pick another collection.
+const ensureVectorCollection = async (dimensions: number, config = getVectorStoreConfig(), signal?: AbortSignal) => {
+    const key = `${config.vectorDbUrl}|${config.collection}|${dimensions}`;
+    if (ensuredCollections.has(key)) return;
+
+    const existing = await readCollection(config);
+    if (existing) {
+        const size = collectionDimensions(existing);
+        if (size !== dimensions) {
+            throw new Error(`Collection "${config.collection}" holds ${size ?? 'named'}-dimension vectors but the embedding model produces ${dimensions}. Purge the index or use another collection.`);
+        }
+    } else {
+        await request(config, collectionPath(config), { method: 'PUT', body: { vectors: { size: dimensions, distance: 'Cosine' } }, signal });
+        for (const [field_name, field_schema] of Object.entries(PAYLOAD_INDEXES)) {
+            await request(config, collectionPath(config, '/index?wait=true'), { method: 'PUT', body: { field_name, field_schema }, signal });
+        }
+    }
+    ensuredCollections.add(key);
+};
+
+export const deleteVectorCollection = async (config = getVectorStoreConfig()) => {
+    try {
+        await request(config, collectionPath(config), { method: 'DELETE' });
+    } catch (e) {
+        if (!isNotFound(e)) throw e;
+    }
+    ensuredCollections.clear();
+};
+
+// --- Points ---
+
+// The record stored with the file's chunks, or null when the file has none in the collection
+export const getVectorFileRecord = async (fileId: string, config = getVectorStoreConfig(), signal?: AbortSignal): Promise<IndexedFile | null> => {
+    try {
+        const data = await request(config, collectionPath(config, '/points/scroll'), {
+            method: 'POST',
+            body: { filter: { must: [matchField('fileId', fileId)] }, limit: 1, with_payload: FILE_RECORD_FIELDS, with_vector: false },
+            signal
+        });
+        return data.result?.points?.[0]?.payload || null;
+    } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+    }
+};
+
+// Upserts the file's chunks (text and section headings redacted), then drops any left over from a longer previous version
+export const writeVectorFile = async (record: IndexedFile, chunks: IndexedChunk[], config = getVectorStoreConfig(), signal?: AbortSignal) => {
+    if (chunks.length > 0) {
+        await ensureVectorCollection(chunks[0].vector.length, config, signal);
+        // One session per file: a value gets the same placeholder in every passage of the file
+        const redaction = createRedactionSession();
+        for (let i = 0; i < chunks.length; i += UPSERT_BATCH_SIZE) {
+            const points = await Promise.all(chunks.slice(i, i + UPSERT_BATCH_SIZE).map(async ({ vector, ...chunk }) => ({
+                id: await pointId(chunk.id),
+                vector,
+                payload: {
+                    ...chunk,
+                    text: redaction.redactText(chunk.text),
+                    section: chunk.section !== undefined ? redaction.redactText(chunk.section) : undefined,
+                    ...record
+                }
+            })));
+            await request(config, collectionPath(config, '/points?wait=true'), { method: 'PUT', body: { points }, signal });
+        }
+        if (redaction.maskedCount > 0) redaction.recordAudit('VECTOR_STORE');
+    } else if (!(await readCollection(config))) {
+        return;
+    }
+    await request(config, collectionPath(config, '/points/delete?wait=true'), {
+        method: 'POST',
+        body: { filter: { must: [matchField('fileId', record.fileId), { key: 'ordinal', range: { gte: chunks.length } }] } },
+        signal
+    });
+};
+
+// Rewrites the file record carried by the file's chunks without touching text or vectors (e.g. a new listing signature)
+export const updateVectorFileRecord = async (record: IndexedFile, config = getVectorStoreConfig(), signal?: AbortSignal) => {
+    await request(config, collectionPath(config, '/points/payload?wait=true'), {
+        method: 'POST',
+        body: { payload: record, filter: { must: [matchField('fileId', record.fileId)] } },
+        signal
+    });
+};
+
+// Top-k chunks of the given embedding model by cosine similarity, optionally limited to some files
+export const searchVectorStore = async (
+    vector: number[],
+    options: { embeddingModel: string; topK: number; fileIds?: string[]; signal?: AbortSignal },
+    config = getVectorStoreConfig()
+): Promise<RetrievedChunk[]> => {
+    const must: object[] = [matchField('embeddingModel', options.embeddingModel)];
+    if (options.fileIds) must.push({ key: 'fileId', match: { any: options.fileIds } });
+    try {
+        const data = await request(config, collectionPath(config, '/points/search'), {
+            method: 'POST',
+            body: { vector, limit: options.topK, filter: { must }, with_payload: true, score_threshold: 0 },
+            signal: options.signal
+        });
+        return (data.result || []).map((hit: any) => {
+            const { contentHash, embeddingModel, chunkCount, indexedAt, ...chunk } = hit.payload;
+            return { ...chunk, score: hit.score };
+        });
+    } catch (e) {
+        if (isNotFound(e)) return [];
+        throw e;
+    }
+};
+
+const countPoints = async (config: VectorStoreConfig, must: object[]): Promise<number> =>
+    (await request(config, collectionPath(config, '/points/count'), { method: 'POST', body: { filter: { must }, exact: true } })).result?.count || 0;
+
+// Chunks embedded by the given model (0 while the collection does not exist)
+export const countVectorChunks = async (embeddingModel: string, config = getVectorStoreConfig()): Promise<number> => {
+    try {
+        return await countPoints(config, [matchField('embeddingModel', embeddingModel)]);
+    } catch (e) {
+        if (isNotFound(e)) return 0;
+        throw e;
+    }
+};
+
+// Collection state as the server reports it, plus the files and chunks of the given embedding model
+export const getVectorStoreStats = async (embeddingModel: string, config = getVectorStoreConfig()) => {
+    const info = await readCollection(config);
+    if (!info) return { files: 0, chunks: 0, lastIndexedAt: null, collection: null };
+
+    const collection: VectorCollectionStats = {
+        name: config.collection,
+        status: info.status || 'unknown',
+        points: info.points_count ?? 0,
+        indexedVectors: info.indexed_vectors_count ?? 0,
+        segments: info.segments_count ?? 0,
+        dimensions: collectionDimensions(info),
+        distance: info.config?.params?.vectors?.distance ?? null
+    };
+    const byModel = matchField('embeddingModel', embeddingModel);
+    const chunks = await countPoints(config, [byModel]);
+    // Every indexed file has exactly one first chunk
+    const files = await countPoints(config, [byModel, matchField('ordinal', 0)]);
+    let lastIndexedAt: number | null = null;
+    try {
+        const latest = await request(config, collectionPath(config, '/points/scroll'), {
+            method: 'POST',
+            body: { filter: { must: [byModel] }, limit: 1, with_payload: ['indexedAt'], with_vector: false, order_by: { key: 'indexedAt', direction: 'desc' } }
+        });
+        lastIndexedAt = latest.result?.points?.[0]?.payload?.indexedAt ?? null;
+    } catch (e) {
+        // Collections created elsewhere may lack the indexedAt index that ordering needs
+        console.warn("Vector store: could not read the latest indexing time", e);
+    }
+    return { files, chunks, lastIndexedAt, collection };
+};
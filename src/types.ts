@@ -15,7 +15,9 @@ export interface DriveFile {
   mimeType: string;
   url: string;
   size?: string;
-  modifiedTime?: string;
+  modifiedTime?: string; // YYYY-MM-DD, for display and date filters
+  modifiedAt?: string;   // Full ISO timestamp from the Drive listing; tells same-day revisions apart
+  md5Checksum?: string; // Binary files, when the Drive backend sends it; changes with every content revision
   parentId?: string;
   description?: string;
   icon?: string;
@@ -27,8 +29,11 @@ export interface SearchResult {
   id: string;
   fileName: string;
   snippet: string;
-  relevance: number;
+  relevance: number;                 // 0-1, relative to the best hit of the same search
   metadata?: Record<string, any>;
+  highlights?: [number, number][];   // [start, end) character ranges of matched terms within snippet
+  page?: number;                     // Location of the matching passage
+  section?: string;
 }
 
 export interface CircuitComponent {
@@ -47,12 +52,30 @@ export interface ChatMessage {
   timestamp: number;
   attachments?: string[]; // base64
   retrievedFiles?: DriveFile[]; // RAG results
+  citations?: Citation[]; // Validated [doc:N #M] markers found in the response
+  grounding?: GroundingAssessment; // Whether an Engineering answer relied on model knowledge
   circuitComponents?: CircuitComponent[]; // Extracted circuit data
   isThinking?: boolean;
+  isStreaming?: boolean; // Partial content still arriving from the model
+  isCancelled?: boolean; // User pressed Stop before the response completed
+  error?: AiErrorInfo; // Set instead of content when the AI call failed
+  contextCoverage?: ContextCoverage[]; // How much of each context file the model actually saw
+  meta?: AiResponseMeta; // Provenance of a model response (prompt template versions, ...)
+  toolSteps?: ToolStep[]; // Tools the model called while answering, in order
+  summary?: ConversationSummary; // Set on the single rolling summary message that replaces older turns
   mode?: AiMode;
   resolution?: 'STANDARD' | 'HD' | '4K'; // Export resolution preference
 }
 
+// Older turns condensed so long sessions fit the model's context window
+export interface ConversationSummary {
+  text: string;
+  compressedMessages: ChatMessage[]; // The original turns, kept only for the expand view
+  tokensBefore: number;              // Estimated size of the compressed turns
+  tokensAfter: number;               // Estimated size of the summary
+  updatedAt: number;
+}
+
 export interface EmailDraft {
   to: string;
   subject: string;
@@ -112,6 +135,25 @@ export interface FilterState {
   tags: string[];
 }
 
+// --- SEARCH QUERY TYPES ---
+// Drive search syntax, e.g. type:pdf tag:Signaling modified:>2024-01-01 size:>2MB "track circuit" -draft
+
+export type SearchComparison = '=' | '>' | '>=' | '<' | '<=';
+
+// A file must satisfy every clause; a negated clause must not match
+export type SearchClause =
+  | { kind: 'TERM'; value: string; negated: boolean }
+  | { kind: 'PHRASE'; value: string; negated: boolean }
+  | { kind: 'TYPE'; value: string; negated: boolean }       // pdf, image, folder, docs, doc, sheet, or an extension
+  | { kind: 'TAG'; value: string; negated: boolean }
+  | { kind: 'MODIFIED'; op: SearchComparison; value: string; negated: boolean } // YYYY, YYYY-MM or YYYY-MM-DD
+  | { kind: 'SIZE'; op: SearchComparison; bytes: number; negated: boolean };
+
+export interface SearchQuery {
+  clauses: SearchClause[];
+  errors: string[];     // Filters whose value could not be read; they are searched as plain text instead
+}
+
 // --- AUTHENTICATION & PERMISSIONS TYPES ---
 
 export type UserRole = 'ADMIN' | 'USER';
@@ -124,6 +166,7 @@ export interface UserPermissions {
         general: boolean;
         email: boolean;
         letter: boolean;
+        groundedOnly?: boolean; // Engineering answers must come from retrieved passages; the user cannot switch this off
     };
 }
 
@@ -144,3 +187,556 @@ export interface AuthContextType {
   login: (user: User) => void;
   logout: () => void;
 }
+
+// --- AI PROVIDER TYPES ---
+
+export type LlmProviderId = 'GEMINI' | 'OPENAI_COMPATIBLE' | 'STUB';
+
+export interface LlmProviderConfig {
+  provider: LlmProviderId;
+  baseUrl: string;  // OpenAI-compatible endpoint root, e.g. http://10.0.0.5:8000/v1
+  apiKey: string;   // Optional bearer token for the OpenAI-compatible endpoint
+  model: string;    // Model served by the OpenAI-compatible endpoint (overrides Gemini model names)
+  contextWindow: number; // Max prompt+output tokens of the OpenAI-compatible model
+  embeddingModel: string; // Embedding model served by the OpenAI-compatible endpoint (semantic index)
+}
+
+export interface LlmPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string }; // base64
+  functionCall?: LlmFunctionCall;
+  functionResponse?: { id?: string; name: string; response: Record<string, any> };
+  thoughtSignature?: string; // Gemini: must be echoed back with the functionCall it came with
+}
+
+export interface LlmContent {
+  role: 'user' | 'model';
+  parts: LlmPart[];
+}
+
+// What a model call is for; used for usage metering and per-task model routing
+export type AiTask = AiMode | 'OCR' | 'TRANSCRIPTION' | 'DATA_ANALYSIS' | 'DRAWING' | 'CONTEXT_CONDENSE';
+
+export interface LlmRequest {
+  task: AiTask;
+  model: string;
+  contents: LlmContent[];
+  systemInstruction?: string;
+  temperature?: number;
+  responseMimeType?: string;
+  tools?: LlmToolDeclaration[]; // Functions the model may call instead of answering
+  signal?: AbortSignal; // Cancels the in-flight call
+}
+
+export interface LlmResponse {
+  text: string;
+  images: { mimeType: string; data: string }[];
+  model: string;
+  functionCalls?: LlmFunctionCall[]; // Present when the model asked to run tools
+  usage?: { inputTokens: number; outputTokens: number }; // As reported by the provider, when available
+  skippedModels?: string[]; // Models of the fallback chain that were tried and failed before this response
+  cached?: boolean;         // Served from the local response cache without calling the model
+  redactedCount?: number;   // Sensitive values masked in the request before it left the browser
+}
+
+// --- TOOL CALLING TYPES ---
+
+export interface LlmToolParameter {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  description: string;
+  enum?: string[];
+}
+
+export interface LlmToolDeclaration {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, LlmToolParameter>;
+    required?: string[];
+  };
+}
+
+export interface LlmFunctionCall {
+  id?: string;
+  name: string;
+  args: Record<string, any>;
+  thoughtSignature?: string;
+}
+
+// Follow-up the user can trigger from a finished tool step
+export interface ToolStepAction {
+  type: 'OPEN_DOC_ANALYSIS';
+  fileId: string;
+  fileName: string;
+}
+
+// One tool call as shown in the conversation
+export interface ToolStep {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  status: 'RUNNING' | 'DONE' | 'ERROR';
+  summary?: string; // One line describing the result (or the error)
+  action?: ToolStepAction;
+}
+
+export interface ToolExecutionResult {
+  response: Record<string, any>;    // Returned to the model as the function response
+  summary: string;
+  documents?: ContextDocument[];    // Text the model may cite; labelled [doc:N #M] before it is returned
+  action?: ToolStepAction;
+  files?: DriveFile[];              // Drive files the tool read, listed as sources under the answer
+}
+
+// Tools offered to a chat model together with the code that runs them
+export interface ChatToolset {
+  declarations: LlmToolDeclaration[];
+  execute: (call: LlmFunctionCall) => Promise<ToolExecutionResult>;
+}
+
+export type AiErrorKind = 'MISSING_KEY' | 'QUOTA' | 'USAGE_LIMIT' | 'MODEL_UNAVAILABLE' | 'SAFETY' | 'INVALID_INPUT' | 'NETWORK' | 'TIMEOUT' | 'UNKNOWN';
+
+// Serializable snapshot of an AiError, safe to keep in chat history / component state
+export interface AiErrorInfo {
+  kind: AiErrorKind;
+  message: string;
+}
+
+// --- CONTEXT BUDGET TYPES ---
+
+export interface ContextDocument {
+  name: string;
+  content: string;
+  fileId?: string; // Drive file the content came from, so citations can link back to it
+  url?: string;
+  synthetic?: boolean; // App-written note rather than retrieved content; never counts as a source
+}
+
+export interface ContextCoverage {
+  documentName: string;
+  totalTokens: number;      // Estimated size of the original document
+  consideredTokens: number; // Portion that reached the model, verbatim or via chunk summaries
+  method: 'FULL' | 'SUMMARIZED' | 'TRUNCATED';
+}
+
+// --- CITATION TYPES ---
+
+// Context documents are split into numbered passages the model cites as [doc:N #M]
+export interface CitationPassage {
+  index: number; // 1-based within the document
+  text: string;
+  page?: number; // Source page the passage starts on (PDFs)
+}
+
+export interface CitationSource {
+  docIndex: number; // 1-based position in the supplied context
+  documentName: string;
+  fileId?: string;
+  url?: string;
+  passages: CitationPassage[];
+}
+
+export interface Citation {
+  marker: string;       // As written by the model, e.g. "doc:3 #12"
+  docIndex: number;
+  passage?: number;     // Omitted when the model cited the whole document
+  documentName?: string;
+  fileId?: string;
+  url?: string;
+  excerpt?: string;     // Text of the cited passage
+  page?: number;        // Source page of the cited passage, when known
+  valid: boolean;       // False when the marker points at a document/passage that was never supplied
+}
+
+// --- REDACTION TYPES ---
+
+export type RedactionKind = 'MOBILE' | 'EMAIL' | 'EMPLOYEE_ID' | 'AADHAAR' | 'PAN' | 'CUSTOM';
+
+export interface CustomRedactionRule {
+  id: string;
+  name: string;    // Also used in the placeholder, e.g. [VENDOR_CODE_1]
+  pattern: string; // JavaScript regular expression source (matched globally)
+  enabled: boolean;
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  builtIn: Record<Exclude<RedactionKind, 'CUSTOM'>, boolean>;
+  employeeIdPattern: string; // Site-specific employee ID format
+  customRules: CustomRedactionRule[];
+}
+
+export interface RedactedValue {
+  placeholder: string; // What the model saw, e.g. [EMAIL_2]
+  kind: RedactionKind;
+  rule: string;        // Built-in kind or the custom rule name
+  preview: string;     // Partially masked original (never the full value)
+}
+
+// One outbound request (model call, activity log entry or vector store upload) and what was masked in it
+export interface RedactionAuditRecord {
+  id: string;
+  timestamp: number;
+  userId?: string;
+  userName?: string;
+  target: AiTask | 'ACTIVITY_LOG' | 'VECTOR_STORE';
+  masked: RedactedValue[];
+  unredactedAttachments: number; // Images/PDFs/audio sent as binary, which cannot be scanned
+}
+
+// --- WORKBOOK TYPES ---
+
+// One sheet of an Excel/CSV workbook after header detection (blank leading rows, title rows and
+// merged group headers resolved)
+export interface WorkbookSheet {
+  name: string;
+  title?: string;                 // Title row(s) above the table, e.g. "Substation Alpha - March 2024"
+  headers: string[];              // Group headers are joined to their column: "Substation A / kWh"
+  rows: Record<string, any>[];    // One object per data row, keyed by header
+}
+
+// Input to analyzeStructuredData: one entry per analysed sheet (a single entry for CSV and Word)
+export interface StructuredDataSheet {
+  name: string;
+  data: string;                   // One JSON object per line
+}
+
+// Per-sheet part of a workbook analysis; the top-level result is the combined workbook summary
+export interface SheetAnalysis {
+  sheet: string;
+  summary: string;
+  specs: { label: string; value: string }[];
+  warnings: string[];
+}
+
+// --- DOCUMENT MODEL TYPES ---
+
+// Word documents (and Google Docs exported as DOCX) parsed into blocks in reading order
+export type DocumentBlock =
+  | { type: 'HEADING'; level: number; text: string; number?: string } // level 1 = "Heading 1"/Title
+  | { type: 'CLAUSE'; level: number; number: string; text: string }  // Numbered paragraph, e.g. "4.2.1"
+  | { type: 'PARAGRAPH'; text: string; bullet?: boolean }
+  | { type: 'TABLE'; rows: string[][] };
+
+export interface StructuredDocument {
+  title?: string;       // Document properties title, when set
+  blocks: DocumentBlock[];
+}
+
+// --- GLOSSARY TYPES ---
+
+export type GlossaryEntryKind = 'ABBREVIATION' | 'SYNONYM' | 'STATION';
+
+// All forms of an entry mean the same thing in search; `term` is the form answers should use
+export interface GlossaryEntry {
+  id: string;
+  kind: GlossaryEntryKind;
+  term: string;       // Preferred form, e.g. "OHE" or "Mahanayak Uttam Kumar"
+  variants: string[]; // Expansions, synonyms or other spellings, e.g. "overhead equipment", "Tollygunge"
+  note?: string;      // Context for the model, e.g. "25 kV AC traction supply"
+}
+
+// --- SAVED SEARCH TYPES ---
+
+export interface SavedSearch {
+  id: string;
+  ownerId: string;
+  ownerName: string;
+  name: string;
+  query: string;          // Search syntax, filters included (see searchQuery.ts)
+  pinned: boolean;        // Listed in the sidebar
+  alertsEnabled: boolean; // Notify when newly synced files match
+  digest: boolean;        // Also write new matches to the activity log sheet
+  createdAt: number;
+}
+
+// New files matching a saved search, found during one Drive sync
+export interface SearchAlert {
+  id: string;
+  searchId: string;
+  ownerId: string;
+  searchName: string;
+  files: { id: string; name: string; modifiedTime?: string; url: string }[];
+  createdAt: number;
+  read: boolean;
+}
+
+// --- DUPLICATE DETECTION TYPES ---
+
+// Content fingerprint of a file's extracted text
+export interface FileFingerprint {
+  fileId: string;
+  fileName: string;
+  signature: string;   // Listing signature (modified time, size, checksum) it was computed from; empty for native Google files
+  contentHash: string; // SHA-256 of the normalised text (case, punctuation and layout ignored)
+  minHash: number[];   // MinHash signature of word shingles, for near-duplicate estimates
+  words: number;
+  computedAt: number;
+}
+
+export interface DuplicateGroup {
+  id: string;
+  kind: 'EXACT' | 'NEAR'; // EXACT: every file has the same normalised text
+  canonicalId: string;    // The copy to keep: not named "Copy of ...", most recently modified
+  // Canonical file first; similarity is the estimated text overlap with it (1 = identical)
+  files: { fileId: string; fileName: string; similarity: number }[];
+}
+
+// --- SEMANTIC INDEX TYPES ---
+
+export type LlmEmbeddingPurpose = 'DOCUMENT' | 'QUERY';
+
+// A slice of extracted document text with its location
+export interface DocumentPassage {
+  page?: number;        // From [Page N] markers in the extracted text
+  section?: string;     // Nearest heading above the passage
+  text: string;
+}
+
+export interface IndexedChunk extends DocumentPassage {
+  id: string;           // `${fileId}#${ordinal}`
+  fileId: string;
+  fileName: string;
+  url?: string;
+  ordinal: number;      // Position within the file
+  vector: number[];
+}
+
+export interface IndexedFile {
+  fileId: string;
+  fileName: string;
+  contentHash: string;    // Of the extracted text; unchanged files are skipped on refresh
+  embeddingModel: string; // Vectors from different models cannot be compared
+  chunkCount: number;
+  indexedAt: number;
+  signature?: string;     // Listing signature of the indexed revision; a match skips the download on refresh
+}
+
+export interface RetrievedChunk extends Omit<IndexedChunk, 'vector'> {
+  score: number;        // Cosine similarity to the query
+}
+
+// Where the chunk vectors live: this browser's IndexedDB, or a self-hosted Qdrant server shared by every browser
+export type VectorStoreBackend = 'BROWSER' | 'QDRANT';
+
+export interface VectorStoreConfig extends Pick<SystemSettings, 'vectorDbUrl'> {
+  backend: VectorStoreBackend;
+  collection: string;
+  apiKey: string;       // Sent as Qdrant's `api-key` header; empty for an unsecured local container
+}
+
+export interface VectorStoreHealth {
+  ok: boolean;
+  version?: string;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface VectorCollectionStats {
+  name: string;
+  status: string;       // green / yellow / red, as reported by the server
+  points: number;       // Every model's chunks, not only the current one's
+  indexedVectors: number;
+  segments: number;
+  dimensions: number | null;
+  distance: string | null;
+}
+
+export interface SemanticIndexStats {
+  backend: VectorStoreBackend;
+  files: number;
+  chunks: number;
+  embeddingModel: string | null;
+  lastIndexedAt: number | null;
+  collection?: VectorCollectionStats | null; // External store only; null while the collection does not exist
+}
+
+export interface SemanticIndexProgress {
+  done: number;
+  total: number;
+  fileName?: string;
+  failed: number;
+}
+
+// --- EVALUATION TYPES ---
+
+// One golden question about our documents
+export interface EvalCase {
+  id: string;
+  question: string;
+  expectedFacts: string[];  // Each must appear in the answer; "a|b" accepts either wording
+  sourceFiles: string[];    // Drive file ids or names the answer should cite
+  selectSources?: boolean;  // Hand the source files over as selected context instead of letting the assistant retrieve them
+  expectRefusal?: boolean;  // The documents cannot answer this; a refusal is the correct behaviour
+  groundedOnly?: boolean;   // Run in grounded-only mode
+}
+
+export interface EvalSet {
+  id: string;
+  name: string;
+  cases: EvalCase[];
+  updatedAt: number;
+}
+
+export type EvalProviderChoice =
+  | { type: 'LIVE' }                  // The configured provider; responses are recorded for later replay
+  | { type: 'STUB' }                  // Deterministic offline stub
+  | { type: 'REPLAY'; runId: string }; // Responses recorded by an earlier LIVE run
+
+export interface EvalCaseResult {
+  caseId: string;
+  question: string;
+  answer: string;
+  factsFound: string[];
+  factsMissing: string[];
+  factRecall: number | null;         // null when the case has no expected facts
+  citationCount: number;
+  citationsCorrect: number;          // Valid and pointing at one of the case's source files
+  citationScore: number | null;      // null when citations are not expected (refusals)
+  refused: boolean;
+  refusalCorrect: boolean;
+  grounding?: GroundingAssessment;
+  meta?: AiResponseMeta;
+  toolCalls: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface EvalRunSummary {
+  cases: number;
+  factRecall: number | null;         // Mean over cases with expected facts and no error
+  citationScore: number | null;
+  refusalAccuracy: number | null;
+  errors: number;
+}
+
+export interface EvalRecording {
+  text: string;
+  functionCalls?: LlmFunctionCall[];
+  model: string;
+}
+
+export interface EvalRun {
+  id: string;
+  setId: string;
+  setName: string;
+  provider: EvalProviderChoice;
+  providerLabel: string;
+  models: string[];
+  promptTemplates: PromptTemplateRef[];
+  startedAt: number;
+  finishedAt: number;
+  summary: EvalRunSummary;
+  results: EvalCaseResult[];
+  recordings?: Record<string, EvalRecording>; // Request hash -> model response (LIVE runs)
+}
+
+// --- GROUNDING TYPES ---
+
+export interface GroundingAssessment {
+  status: 'GROUNDED' | 'UNGROUNDED' | 'REFUSED'; // REFUSED: the retrieved passages did not support an answer
+  reasons: string[];          // Why the answer counts as ungrounded
+  strict: boolean;            // Produced in grounded-only mode
+  withheldStatements: number; // Grounded-only mode: unsupported statements removed from the answer
+}
+
+// --- PROMPT TEMPLATE TYPES ---
+
+export type PromptTemplateId =
+  | 'ENGINEERING_RAG'
+  | 'GENERAL_CHAT'
+  | 'EMAIL_DRAFT'
+  | 'OFFICIAL_LETTER'
+  | 'DATA_ANALYSIS'
+  | 'OCR'
+  | 'AUDIO_TRANSCRIPTION'
+  | 'VOICE_AGENT'
+  | 'CONTEXT_CONDENSE'
+  | 'CITATION_RULES'
+  | 'ENGINEERING_TOOLS'
+  | 'GROUNDED_MODE'
+  | 'CONVERSATION_SUMMARY';
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;       // Text with {{variable}} placeholders
+  createdAt: string;  // ISO timestamp
+  createdBy: string;
+  note?: string;      // Change description for document control
+  renumberedFrom?: number; // Number an Admin edit was saved as, before a built-in revision shipped with that number
+}
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  variables: string[]; // Placeholders the calling code fills in
+  activeVersion: number;
+  versions: PromptTemplateVersion[]; // In version order; the built-in default is the one created by 'System'
+}
+
+export interface PromptTemplateRef {
+  id: PromptTemplateId;
+  version: number;
+}
+
+export interface AiResponseMeta {
+  promptTemplates: PromptTemplateRef[]; // Template versions that produced the response
+  model: string;                        // Model that actually served the response
+  skippedModels: string[];              // Models tried and failed before the one that served the response
+  cached: boolean;                      // Replayed from the response cache
+  redactedCount: number;                // Sensitive values masked before the request was sent
+}
+
+// --- MODEL ROUTING TYPES ---
+
+// Each AiTask is served by one ordered fallback chain
+export type ModelRouteId = 'CHAT' | 'OCR' | 'ANALYSIS' | 'IMAGE';
+
+export type ModelChainConfig = Record<ModelRouteId, string[]>;
+
+export interface ModelCircuitState {
+  model: string;
+  failures: number;            // Consecutive failures since the last success
+  openUntil: number | null;    // Epoch ms; the model is skipped until then
+}
+
+// --- RESPONSE CACHE TYPES ---
+
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  ttlHours: number;      // Entries older than this are treated as misses and purged
+  maxMegabytes: number;  // Least recently used entries are evicted beyond this size
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  totalBytes: number;
+}
+
+// --- USAGE METERING TYPES ---
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  userId: string;
+  userName: string;
+  task: AiTask | 'EMBEDDING'; // Embeddings for the semantic index are metered but not routed through the model chain
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+  estimated: boolean; // True when token counts were estimated rather than reported by the provider
+}
+
+// 0 means unlimited
+export interface UsageLimit {
+  dailyRequests: number;
+  dailyTokens: number;
+}
+
+export interface UsageQuotaConfig {
+  roles: Record<UserRole, UsageLimit>;
+  users: Record<string, UsageLimit>; // Per-user overrides keyed by user id
+}